@@ -5,16 +5,38 @@ import { useViewportHeight } from "./hooks/useViewportHeight";
 import BentoCanvas from "./components/BentoCanvasNew";
 // @ts-expect-error - missing types
 import ControlPanel from "./components/ControlPanel";
-import { useBrandStore, exportAsCSS, exportAsJSON } from "./store/useBrandStore";
+import { useBrandStore, exportAsCSS, exportAsJSON, selectHistorySize, type Brand } from "./store/useBrandStore";
+import { useLayoutStore, selectMoodboardLayout } from "./store/useLayoutStore";
+import { groupHistory } from "./store/historyCoordinator";
 import { useTheme } from "./hooks/useTheme";
 import { ReadOnlyProvider } from './components/ReadOnlyProvider';
 import { useReadOnly } from './hooks/useReadOnly';
+import { useSharedBoard } from './hooks/useSharedBoard';
+import { useWorkspace } from './hooks/useWorkspace';
+import { useWorkspaceStore } from './store/useWorkspaceStore';
+import { BoardSwitcher } from './components/BoardSwitcher';
+import { BrandGuidelines } from './components/BrandGuidelines';
+import { ExportImageDialog } from './components/ExportImageDialog';
+import { VariationsGrid } from './components/VariationsGrid';
 import { ThemeToggle } from "./components/ThemeToggle";
+import { VisionSimulationMenu } from "./components/VisionSimulationMenu";
+import { HistoryPanel } from "./components/HistoryPanel";
 import { DevToolsPanel } from "./components/DevToolsPanel";
 
 import toast, { Toaster } from 'react-hot-toast';
 import { generateShareUrl, copyToClipboard } from './utils/sharing';
-import { exportToPng } from './utils/export';
+import {
+  countLossyIssues,
+  createMoodboardDocument,
+  formatMoodboardReport,
+  parseMoodboard,
+} from './utils/moodboardSchema';
+import { captureThumbnail } from './utils/export';
+import { normalizeSeed } from './utils/random';
+import { confirmHistoryLoss } from './utils/historyWarning';
+import { exportAsDesignTokens } from './utils/designTokens';
+import { getColorScheme, getOppositeScheme } from './utils/colorScheme';
+import { exportAsTailwindPreset, exportTailwindFontsCSS } from './utils/tailwindExport';
 import {
   RiArrowDownSLine as ChevronDown,
   RiArrowGoBackFill as RotateCcw,
@@ -22,7 +44,9 @@ import {
   RiDownloadFill as Download,
   RiShareForwardFill as Share2,
   RiShuffleFill as Shuffle,
+  RiLayoutGridFill as LayoutGrid,
   RiFullscreenFill as Maximize2,
+  RiContrast2Fill as Contrast,
 } from "react-icons/ri";
 import { motion, AnimatePresence } from "motion/react";
 import "./index.css";
@@ -169,6 +193,51 @@ const ZoomControl = ({
   );
 };
 
+// Seed of the last shuffle; entering a seed reproduces that board
+const SeedControl = () => {
+  const shuffleSeed = useBrandStore((s) => s.shuffleSeed);
+  const shuffleBrand = useBrandStore((s) => s.shuffleBrand);
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const applySeed = () => {
+    const seed = draft === null ? null : normalizeSeed(draft);
+    setDraft(null);
+    if (!seed || seed === shuffleSeed) return;
+    shuffleBrand(seed);
+    toast.success(`Shuffled with seed ${seed}`);
+  };
+
+  return (
+    <label
+      className="flex items-center"
+      style={{ gap: "var(--space-1)" }}
+      title="Shuffle seed — enter a seed to reproduce a board"
+    >
+      <span className="text-11" style={{ color: "var(--sidebar-text-muted)" }}>
+        Seed
+      </span>
+      <input
+        type="text"
+        className="input-figma text-11"
+        style={{ width: 72, fontFamily: "var(--font-mono)" }}
+        aria-label="Shuffle seed"
+        placeholder="—"
+        spellCheck={false}
+        value={draft ?? shuffleSeed ?? ""}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={applySeed}
+        onKeyDown={(e) => {
+          if (e.key === "Enter") e.currentTarget.blur();
+          if (e.key === "Escape") {
+            setDraft(null);
+            e.currentTarget.blur();
+          }
+        }}
+      />
+    </label>
+  );
+};
+
 // Logo/Brand mark with Osmo-style accent
 const AppLogo = () => (
   <div className="flex items-center" style={{ paddingInline: "var(--space-4)" }}>
@@ -182,8 +251,48 @@ const AppLogo = () => (
   </div>
 );
 
+// Brand file exports shared by the Export and File menus
+type BrandFileFormat = "css" | "css-dark" | "json" | "tokens" | "tailwind";
+
+const BRAND_FILE_EXPORTS: Record<BrandFileFormat, { filename: string; build: (brand: Brand) => string }[]> = {
+  css: [{ filename: "brand-tokens.css", build: exportAsCSS }],
+  "css-dark": [{ filename: "brand-tokens.css", build: (brand) => exportAsCSS(brand, { darkScheme: true }) }],
+  json: [{ filename: "brand-tokens.json", build: exportAsJSON }],
+  tokens: [{ filename: "brand.tokens.json", build: exportAsDesignTokens }],
+  tailwind: [
+    { filename: "brand.preset.js", build: exportAsTailwindPreset },
+    { filename: "brand-fonts.css", build: exportTailwindFontsCSS },
+  ],
+};
+
+const BRAND_FILE_MENU_ITEMS: { format: BrandFileFormat; label: string; extension: string }[] = [
+  { format: "css", label: "Export as CSS", extension: ".css" },
+  { format: "css-dark", label: "CSS + Light & Dark", extension: ".css" },
+  { format: "json", label: "Export as JSON", extension: ".json" },
+  { format: "tokens", label: "Design Tokens", extension: ".tokens.json" },
+  { format: "tailwind", label: "Tailwind Preset", extension: ".js + .css" },
+];
+
+function downloadBrandFile(brand: Brand, format: BrandFileFormat) {
+  for (const { filename, build } of BRAND_FILE_EXPORTS[format]) {
+    const blob = new Blob([build(brand)], { type: "text/plain" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    a.click();
+    URL.revokeObjectURL(url);
+  }
+}
+
 // Export menu dropdown
-const ExportMenu = ({ canvasRef }: { canvasRef: React.RefObject<HTMLDivElement | null> }) => {
+const ExportMenu = ({
+  canvasRef,
+  onOpenGuidelines,
+}: {
+  canvasRef: React.RefObject<HTMLDivElement | null>;
+  onOpenGuidelines: () => void;
+}) => {
   const [isOpen, setIsOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const brand = useBrandStore((s) => s.brand);
@@ -205,40 +314,14 @@ const ExportMenu = ({ canvasRef }: { canvasRef: React.RefObject<HTMLDivElement |
     };
   }, []);
 
-  const [isExporting, setIsExporting] = useState(false);
+  const [showImageDialog, setShowImageDialog] = useState(false);
+  const closeImageDialog = useCallback(() => setShowImageDialog(false), []);
 
-  const handleExport = (format: "css" | "json") => {
-    const content = format === "css" ? exportAsCSS(brand) : exportAsJSON(brand);
-    const filename = `brand-tokens.${format}`;
-    const blob = new Blob([content], { type: "text/plain" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = filename;
-    a.click();
-    URL.revokeObjectURL(url);
+  const handleExport = (format: BrandFileFormat) => {
+    downloadBrandFile(brand, format);
     setIsOpen(false);
   };
 
-  const handleExportPng = async () => {
-    if (!canvasRef.current) {
-      toast.error('Canvas not ready');
-      return;
-    }
-
-    setIsExporting(true);
-    try {
-      await exportToPng(canvasRef.current, 'brandbento');
-      toast.success('PNG exported!');
-      setIsOpen(false);
-    } catch (err) {
-      console.error('PNG export failed:', err);
-      toast.error('Export failed. Please try again.');
-    } finally {
-      setIsExporting(false);
-    }
-  };
-
   return (
     <div className="relative" ref={menuRef}>
       <motion.button
@@ -262,7 +345,7 @@ const ExportMenu = ({ canvasRef }: { canvasRef: React.RefObject<HTMLDivElement |
             animate={{ opacity: 1, y: 0 }}
             exit={{ opacity: 0, y: -4 }}
             transition={TRANSITION_BASE}
-            className="absolute top-full right-0 w-44 rounded-lg z-50"
+            className="absolute top-full right-0 w-52 rounded-lg z-50"
             style={{
               marginTop: "var(--space-1)",
               paddingBlock: "var(--space-1)",
@@ -272,37 +355,10 @@ const ExportMenu = ({ canvasRef }: { canvasRef: React.RefObject<HTMLDivElement |
             }}
           >
             <button
-              onClick={handleExportPng}
-              disabled={isExporting}
-              className="w-full flex items-center text-left transition-fast"
-              style={{
-                padding: "var(--space-2) var(--space-3)",
-                gap: "var(--space-2)",
-                color: isExporting ? "var(--sidebar-text-muted)" : "var(--sidebar-text)",
-                cursor: isExporting ? 'wait' : 'pointer',
+              onClick={() => {
+                setShowImageDialog(true);
+                setIsOpen(false);
               }}
-              onMouseEnter={(e) =>
-                !isExporting && (e.currentTarget.style.background = "var(--sidebar-bg-hover)")
-              }
-              onMouseLeave={(e) =>
-                (e.currentTarget.style.background = "transparent")
-              }
-            >
-              <span className="text-11">{isExporting ? 'Exporting...' : 'Export as PNG'}</span>
-              <span
-                className="text-10 rounded"
-                style={{
-                  marginLeft: "auto",
-                  padding: "var(--space-1) var(--space-1)",
-                  background: "var(--sidebar-bg-active)",
-                  color: "var(--sidebar-text-muted)",
-                }}
-              >
-                .png
-              </span>
-            </button>
-            <button
-              onClick={() => handleExport("css")}
               className="w-full flex items-center text-left transition-fast"
               style={{
                 padding: "var(--space-2) var(--space-3)",
@@ -316,7 +372,7 @@ const ExportMenu = ({ canvasRef }: { canvasRef: React.RefObject<HTMLDivElement |
                 (e.currentTarget.style.background = "transparent")
               }
             >
-              <span className="text-11">Export as CSS</span>
+              <span className="text-11">Export Image...</span>
               <span
                 className="text-10 rounded"
                 style={{
@@ -326,11 +382,46 @@ const ExportMenu = ({ canvasRef }: { canvasRef: React.RefObject<HTMLDivElement |
                   color: "var(--sidebar-text-muted)",
                 }}
               >
-                .css
+                .png .svg
               </span>
             </button>
+            {BRAND_FILE_MENU_ITEMS.map(({ format, label, extension }) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                className="w-full flex items-center text-left transition-fast"
+                style={{
+                  padding: "var(--space-2) var(--space-3)",
+                  gap: "var(--space-2)",
+                  color: "var(--sidebar-text)",
+                }}
+                onMouseEnter={(e) =>
+                  (e.currentTarget.style.background = "var(--sidebar-bg-hover)")
+                }
+                onMouseLeave={(e) =>
+                  (e.currentTarget.style.background = "transparent")
+                }
+              >
+                <span className="text-11">{label}</span>
+                <span
+                  className="text-10 rounded"
+                  style={{
+                    marginLeft: "auto",
+                    padding: "var(--space-1) var(--space-1)",
+                    background: "var(--sidebar-bg-active)",
+                    color: "var(--sidebar-text-muted)",
+                  }}
+                >
+                  {extension}
+                </span>
+              </button>
+            ))}
+            <div className="divider-h" style={{ marginInline: "var(--space-2)" }} />
             <button
-              onClick={() => handleExport("json")}
+              onClick={() => {
+                onOpenGuidelines();
+                setIsOpen(false);
+              }}
               className="w-full flex items-center text-left transition-fast"
               style={{
                 padding: "var(--space-2) var(--space-3)",
@@ -344,7 +435,7 @@ const ExportMenu = ({ canvasRef }: { canvasRef: React.RefObject<HTMLDivElement |
                 (e.currentTarget.style.background = "transparent")
               }
             >
-              <span className="text-11">Export as JSON</span>
+              <span className="text-11">Brand Guidelines</span>
               <span
                 className="text-10 rounded"
                 style={{
@@ -354,12 +445,14 @@ const ExportMenu = ({ canvasRef }: { canvasRef: React.RefObject<HTMLDivElement |
                   color: "var(--sidebar-text-muted)",
                 }}
               >
-                .json
+                .pdf
               </span>
             </button>
           </motion.div>
         )}
       </AnimatePresence>
+
+      <ExportImageDialog open={showImageDialog} onClose={closeImageDialog} canvasRef={canvasRef} />
     </div>
   );
 };
@@ -367,17 +460,19 @@ const ExportMenu = ({ canvasRef }: { canvasRef: React.RefObject<HTMLDivElement |
 // Save moodboard to JSON file (all persisted state)
 function saveMoodboard() {
   const state = useBrandStore.getState();
-  const data = JSON.stringify({
-    version: 1,
+  const data = JSON.stringify(createMoodboardDocument({
     brand: state.brand,
     tiles: state.tiles,
     tileSurfaces: state.tileSurfaces,
     placementContent: state.placementContent,
     activePreset: state.activePreset,
+    layout: selectMoodboardLayout(useLayoutStore.getState()),
     theme: state.theme,
     activeCollectionId: state.activeCollectionId,
     collectionImagePool: state.collectionImagePool,
-  }, null, 2);
+    shuffleSeed: state.shuffleSeed,
+    locks: state.locks,
+  }), null, 2);
   const blob = new Blob([data], { type: "application/json" });
   const url = URL.createObjectURL(blob);
   const a = document.createElement("a");
@@ -388,7 +483,7 @@ function saveMoodboard() {
   toast.success("Moodboard saved!");
 }
 
-// Open moodboard from JSON file (backward-compatible)
+// Open moodboard from JSON file (older versions are migrated by the schema)
 function openMoodboard() {
   const input = document.createElement("input");
   input.type = "file";
@@ -398,30 +493,50 @@ function openMoodboard() {
     if (!file) return;
     const reader = new FileReader();
     reader.onload = (ev) => {
+      let data: unknown;
       try {
-        const data = JSON.parse(ev.target?.result as string);
-        if (data.brand) {
-          const { brand, tiles, tileSurfaces, placementContent, history } = useBrandStore.getState();
-          useBrandStore.setState({
-            brand: data.brand,
-            ...(data.tiles ? { tiles: data.tiles } : {}),
-            ...(data.tileSurfaces ? { tileSurfaces: data.tileSurfaces } : {}),
-            ...(data.placementContent ? { placementContent: data.placementContent } : {}),
-            ...(data.activePreset ? { activePreset: data.activePreset } : {}),
-            ...(data.theme ? { theme: data.theme } : {}),
-            ...(data.activeCollectionId !== undefined ? { activeCollectionId: data.activeCollectionId } : {}),
-            ...(data.collectionImagePool ? { collectionImagePool: data.collectionImagePool } : {}),
-            history: {
-              past: [...history.past, { brand, tiles, tileSurfaces, placementContent }],
-              future: [],
-            },
-          });
-          toast.success("Moodboard loaded!");
-        } else {
-          toast.error("Invalid moodboard file");
-        }
+        data = JSON.parse(ev.target?.result as string);
       } catch {
         toast.error("Failed to parse file");
+        return;
+      }
+
+      const { document: doc, report, error } = parseMoodboard(data);
+      if (!doc) {
+        toast.error(error ?? "Invalid moodboard file");
+        return;
+      }
+
+      // Brand and layout come back together with one undo
+      const label = `Opened ${file.name}`;
+      groupHistory(() => {
+        useBrandStore.getState().commitChanges({
+          brand: doc.brand,
+          ...(doc.tiles.length > 0 ? { tiles: doc.tiles } : {}),
+          ...(Object.keys(doc.tileSurfaces).length > 0 ? { tileSurfaces: doc.tileSurfaces } : {}),
+          ...(Object.keys(doc.placementContent).length > 0 ? { placementContent: doc.placementContent } : {}),
+          ...(doc.activePreset ? { activePreset: doc.activePreset } : {}),
+          ...(doc.theme ? { theme: doc.theme } : {}),
+          ...(doc.activeCollectionId !== undefined ? { activeCollectionId: doc.activeCollectionId } : {}),
+          ...(doc.collectionImagePool ? { collectionImagePool: doc.collectionImagePool } : {}),
+          ...(doc.shuffleSeed !== undefined ? { shuffleSeed: doc.shuffleSeed } : {}),
+          ...(doc.locks ? { locks: doc.locks } : {}),
+        }, label);
+        if (doc.layout) {
+          useLayoutStore.getState().applyLayoutDocument(doc.layout);
+        }
+      }, label);
+
+      const { dropped, coerced } = countLossyIssues(report);
+      if (dropped + coerced > 0) {
+        console.warn("Moodboard loaded with changes:\n" + formatMoodboardReport(report).join("\n"));
+        const parts = [
+          dropped > 0 ? `${dropped} field${dropped === 1 ? "" : "s"} dropped` : null,
+          coerced > 0 ? `${coerced} converted` : null,
+        ].filter(Boolean);
+        toast.success(`Moodboard loaded (${parts.join(", ")})`);
+      } else {
+        toast.success("Moodboard loaded!");
       }
     };
     reader.readAsText(file);
@@ -430,7 +545,17 @@ function openMoodboard() {
 }
 
 // File menu dropdown
-const FileMenu = ({ onReset, onShare }: { onReset: () => void; onShare: () => void }) => {
+const FileMenu = ({
+  onNewBoard,
+  onReset,
+  onShare,
+  onOpenGuidelines,
+}: {
+  onNewBoard: () => void;
+  onReset: () => void;
+  onShare: () => void;
+  onOpenGuidelines: () => void;
+}) => {
   const [isOpen, setIsOpen] = useState(false);
   const menuRef = useRef<HTMLDivElement>(null);
   const brand = useBrandStore((s) => s.brand);
@@ -452,16 +577,8 @@ const FileMenu = ({ onReset, onShare }: { onReset: () => void; onShare: () => vo
     };
   }, []);
 
-  const handleExportFile = (format: "css" | "json") => {
-    const content = format === "css" ? exportAsCSS(brand) : exportAsJSON(brand);
-    const filename = `brand-tokens.${format}`;
-    const blob = new Blob([content], { type: "text/plain" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = filename;
-    a.click();
-    URL.revokeObjectURL(url);
+  const handleExportFile = (format: BrandFileFormat) => {
+    downloadBrandFile(brand, format);
   };
 
   return (
@@ -501,12 +618,16 @@ const FileMenu = ({ onReset, onShare }: { onReset: () => void; onShare: () => vo
             }}
           >
             {[
-              { label: "New Moodboard", shortcut: "N", action: onReset },
+              { label: "New Moodboard", shortcut: "N", action: onNewBoard },
               { label: "Open...", shortcut: "O", action: openMoodboard },
               { divider: true },
               { label: "Save", shortcut: "S", action: saveMoodboard },
               { label: "Export as CSS", action: () => handleExportFile("css") },
+              { label: "Export as CSS + Light & Dark", action: () => handleExportFile("css-dark") },
               { label: "Export as JSON", action: () => handleExportFile("json") },
+              { label: "Export Design Tokens", action: () => handleExportFile("tokens") },
+              { label: "Export Tailwind Preset", action: () => handleExportFile("tailwind") },
+              { label: "Brand Guidelines...", action: onOpenGuidelines },
               { divider: true },
               { label: "Share...", action: onShare },
               { label: "Reset to Defaults", action: onReset },
@@ -553,12 +674,20 @@ function AppContent() {
   useTheme();
 
   const isReadOnly = useReadOnly();
+  const { sharedBoard, duplicateIntoWorkspace } = useSharedBoard();
+  useWorkspace();
   const canvasRef = useRef<HTMLDivElement>(null);
   const [zoom, setZoom] = useState(100);
   const [showDevTools, setShowDevTools] = useState(false);
+  const [showGuidelines, setShowGuidelines] = useState(false);
+  const [showVariations, setShowVariations] = useState(false);
 
 
   const toggleDevTools = useCallback(() => setShowDevTools((v) => !v), []);
+  const openGuidelines = useCallback(() => setShowGuidelines(true), []);
+  const closeGuidelines = useCallback(() => setShowGuidelines(false), []);
+  const openVariations = useCallback(() => setShowVariations(true), []);
+  const closeVariations = useCallback(() => setShowVariations(false), []);
 
   const { undo, redo, history, shuffleBrand, shuffleColors, shuffleTypography, resetToDefaults } =
     useBrandStore(
@@ -572,6 +701,9 @@ function AppContent() {
         resetToDefaults: s.resetToDefaults,
       }))
     );
+  const schemePreview = useBrandStore((s) => s.schemePreview);
+  const toggleSchemePreview = useBrandStore((s) => s.toggleSchemePreview);
+  const derivedScheme = useBrandStore((s) => getOppositeScheme(getColorScheme(s.brand.colors)));
 
   useEffect(() => {
     const handleKey = (e: KeyboardEvent) => {
@@ -625,15 +757,33 @@ function AppContent() {
           e.preventDefault();
           shuffleTypography();
         }
+        // V: open variations
+        if (e.key === 'v') {
+          e.preventDefault();
+          openVariations();
+        }
+        // D: preview the derived color scheme
+        if (e.key === 'd') {
+          e.preventDefault();
+          toggleSchemePreview();
+        }
       }
     };
     window.addEventListener('keydown', handleKey);
     return () => window.removeEventListener('keydown', handleKey);
-  }, [toggleDevTools, undo, redo, shuffleBrand, shuffleColors, shuffleTypography]);
+  }, [toggleDevTools, undo, redo, shuffleBrand, shuffleColors, shuffleTypography, openVariations, toggleSchemePreview]);
 
   const handleShare = async () => {
-    const { brand, tiles } = useBrandStore.getState();
-    const shareUrl = generateShareUrl({ brand, tiles });
+    const { brand, tiles, tileSurfaces, placementContent, shuffleSeed, locks } = useBrandStore.getState();
+    const shareUrl = generateShareUrl({
+      brand,
+      tiles,
+      tileSurfaces,
+      placementContent,
+      layout: selectMoodboardLayout(useLayoutStore.getState()),
+      shuffleSeed,
+      locks,
+    });
     const success = await copyToClipboard(shareUrl);
     if (success) {
       toast.success('Copied!');
@@ -652,6 +802,24 @@ function AppContent() {
     }
   };
 
+  // New boards go to the library; without IndexedDB fall back to a reset
+  const handleNewBoard = async () => {
+    const { isReady, createBoard } = useWorkspaceStore.getState();
+    if (!isReady) {
+      handleReset();
+      return;
+    }
+    if (!confirmHistoryLoss(selectHistorySize(useBrandStore.getState()), 'Creating a board')) return;
+    try {
+      const thumbnail = canvasRef.current ? await captureThumbnail(canvasRef.current) : null;
+      await createBoard(thumbnail);
+      toast.success('New board created');
+    } catch (error) {
+      console.error('Could not create board', error);
+      toast.error('Could not create board');
+    }
+  };
+
   const viewportHeight = useViewportHeight();
 
   return (
@@ -663,6 +831,11 @@ function AppContent() {
       {isReadOnly && (
         <div className="read-only-banner">
           View-only mode
+          {sharedBoard && (
+            <button type="button" onClick={duplicateIntoWorkspace}>
+              Duplicate into my workspace
+            </button>
+          )}
           <a href={window.location.pathname}>Create your own</a>
         </div>
       )}
@@ -685,7 +858,14 @@ function AppContent() {
 
             <ToolbarDivider />
 
-            <FileMenu onReset={handleReset} onShare={handleShare} />
+            <FileMenu
+              onNewBoard={handleNewBoard}
+              onReset={handleReset}
+              onShare={handleShare}
+              onOpenGuidelines={openGuidelines}
+            />
+
+            <BoardSwitcher canvasRef={canvasRef} />
           </div>
 
           {/* Center: Tool buttons */}
@@ -705,6 +885,8 @@ function AppContent() {
               disabled={history.future.length === 0}
             />
 
+            <HistoryPanel />
+
             <ToolbarDivider />
 
             <ThemeToggle />
@@ -713,9 +895,23 @@ function AppContent() {
               icon={Shuffle}
               label="Shuffle"
               shortcut="Space"
-              onClick={shuffleBrand}
+              onClick={() => shuffleBrand()}
             />
 
+            <SeedControl />
+
+            <ToolbarButton icon={LayoutGrid} label="Variations" shortcut="V" onClick={openVariations} />
+
+            <ToolbarButton
+              icon={Contrast}
+              label={schemePreview ? "Show brand scheme" : `Preview ${derivedScheme} scheme`}
+              shortcut="D"
+              active={schemePreview}
+              onClick={toggleSchemePreview}
+            />
+
+            <VisionSimulationMenu />
+
             <ToolbarDivider />
 
             <ZoomControl zoom={zoom} onZoomChange={setZoom} />
@@ -736,7 +932,7 @@ function AppContent() {
               <span>Share</span>
             </motion.button>
 
-            <ExportMenu canvasRef={canvasRef} />
+            <ExportMenu canvasRef={canvasRef} onOpenGuidelines={openGuidelines} />
           </div>
         </header>
       )}
@@ -834,6 +1030,10 @@ function AppContent() {
 
       {showDevTools && <DevToolsPanel onClose={() => setShowDevTools(false)} />}
 
+      <BrandGuidelines open={showGuidelines} onClose={closeGuidelines} />
+
+      {!isReadOnly && <VariationsGrid open={showVariations} onClose={closeVariations} />}
+
     </div>
   );
 }
@@ -11,6 +11,7 @@
  * - Click-to-focus tile selection (clicking canvas clears selection)
  * - Debug grid overlay for development
  * - forwardRef support for screenshot/export functionality
+ * - Rearranging tiles by drag-and-drop or Shift+Arrow, as undoable swaps
  *
  * ## Tile Mapping
  *
@@ -26,15 +27,16 @@
  * @example
  * <BentoCanvasNew ref={canvasRef} />
  */
-import React, { useEffect, useCallback, useRef, useState } from "react";
+import React, { useEffect, useCallback, useState } from "react";
 import { BentoGridNew } from "./BentoGridNew";
 import { BentoTileEmpty } from "./BentoTileEmpty";
 import { ErrorBoundary } from "./ErrorBoundary";
 import { DebugGrid } from "./DebugGrid";
-import { useBrandStore } from "../store/useBrandStore";
-import { useLayoutStore } from "../store/useLayoutStore";
+import { useBrandStore, selectCanvasColors } from "../store/useBrandStore";
+import { useLayoutStore, selectLayoutConfig } from "../store/useLayoutStore";
 import { getPlacementKind } from "../config/placements";
-import { BENTO_LAYOUTS } from "../config/bentoLayouts";
+import { findNeighborPlacement } from "../utils/layoutEngine";
+import { useReadOnly } from "../hooks/useReadOnly";
 
 // Tile Imports
 import { IconsTile } from "./tiles/IconsTile";
@@ -59,40 +61,99 @@ import { BusinessCardTile } from "./tiles/BusinessCardTile";
 import { AppIconTile } from "./tiles/AppIconTile";
 import { StoryTile } from "./tiles/StoryTile";
 import { getPlacementTileId, getPlacementTileType, resolveSwappedId } from "../config/placements";
+
+// Names for drag previews and move announcements
+const TILE_LABELS = {
+  hero: 'Hero',
+  logo: 'Logo',
+  'logo-symbol': 'Symbol',
+  editorial: 'Editorial',
+  social: 'Social',
+  'ui-preview': 'Interface',
+  card: 'Card',
+  product: 'Product',
+  menu: 'Menu',
+  utility: 'List',
+  'split-hero': 'Split',
+  'split-list': 'Split List',
+  swatch: 'Swatch',
+  icons: 'Icons',
+  pattern: 'Pattern',
+  stats: 'Stats',
+  messaging: 'Message',
+  specimen: 'Specimen',
+  'color-blocks': 'Blocks',
+  'business-card': 'Business Card',
+  'app-icon': 'App',
+  story: 'Story',
+};
+
+const MOVE_DIRECTIONS = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right',
+};
+
 const BentoCanvasNew = React.forwardRef((props, ref) => {
   const setFocusedTile = useBrandStore((s) => s.setFocusedTile);
   const focusedTileId = useBrandStore((s) => s.focusedTileId);
-  const colors = useBrandStore((s) => s.brand.colors);
+  const colors = useBrandStore(selectCanvasColors);
   const tiles = useBrandStore((s) => s.tiles);
   const activePreset = useBrandStore((s) => s.activePreset);
   const canvasBg = useLayoutStore((s) => s.canvasBg);
-  const preset = useLayoutStore((s) => s.preset);
+  const layoutConfig = useLayoutStore((s) => selectLayoutConfig(s, 'desktop'));
   const placementSwaps = useLayoutStore((s) => s.placementSwaps);
+  const currentConfig = useLayoutStore((s) => selectLayoutConfig(s));
   const swapPlacements = useLayoutStore((s) => s.swapPlacements);
+  const isReadOnly = useReadOnly();
+  const [announcement, setAnnouncement] = useState('');
   const zoom = typeof props.zoom === 'number' ? props.zoom : 100;
   const zoomScale = Math.max(25, Math.min(200, zoom)) / 100;
 
-  // Drag-and-drop state
-  const dragSourceRef = useRef(null);
-  const [dropTarget, setDropTarget] = useState(null);
+  const getSlotLabel = useCallback((id) => {
+    const effectiveId = resolveSwappedId(id, placementSwaps);
+    const tile = tiles.find((t) => t.id === getPlacementTileId(effectiveId));
+    const type = tile?.type ?? getPlacementTileType(effectiveId);
+    return TILE_LABELS[type] ?? id;
+  }, [placementSwaps, tiles]);
+
+  // Swap two slots as one undo step; focus follows the moved tile
+  const moveTile = useCallback((fromId, toId) => {
+    const label = getSlotLabel(fromId);
+    swapPlacements(fromId, toId);
+    setFocusedTile(toId);
+    setAnnouncement(`${label} moved`);
+  }, [swapPlacements, getSlotLabel, setFocusedTile]);
 
   // Keyboard tile navigation
   const getPlacementIds = useCallback(() => {
-    const config = BENTO_LAYOUTS[preset]?.desktop ?? BENTO_LAYOUTS.balanced.desktop;
-    return config.placements.map((p) => p.id);
-  }, [preset]);
+    return layoutConfig.placements.map((p) => p.id);
+  }, [layoutConfig]);
 
   useEffect(() => {
     const handleKey = (e) => {
       // Only arrow/tab nav when a tile is focused
       if (!focusedTileId) return;
 
+      // Shift+Arrow moves the focused tile into its neighbor's slot
+      const direction = MOVE_DIRECTIONS[e.key];
+      if (e.shiftKey && direction) {
+        const typing = e.target instanceof HTMLElement
+          && (e.target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(e.target.tagName));
+        if (isReadOnly || typing) return;
+        const neighbor = findNeighborPlacement(currentConfig, focusedTileId, direction);
+        if (!neighbor) return;
+        e.preventDefault();
+        moveTile(focusedTileId, neighbor);
+        return;
+      }
+
       const ids = getPlacementIds();
       const idx = ids.indexOf(focusedTileId);
       if (idx === -1) return;
 
-      const config = BENTO_LAYOUTS[preset]?.desktop ?? BENTO_LAYOUTS.balanced.desktop;
-      const cols = config.columns;
+      const cols = layoutConfig.columns;
       let next = idx;
 
       switch (e.key) {
@@ -126,7 +187,7 @@ const BentoCanvasNew = React.forwardRef((props, ref) => {
     };
     document.addEventListener('keydown', handleKey);
     return () => document.removeEventListener('keydown', handleKey);
-  }, [focusedTileId, preset, setFocusedTile, getPlacementIds]);
+  }, [focusedTileId, layoutConfig, currentConfig, isReadOnly, setFocusedTile, getPlacementIds, moveTile]);
 
   const getPlaceholderMeta = (id) => {
     switch (id) {
@@ -271,60 +332,26 @@ const BentoCanvasNew = React.forwardRef((props, ref) => {
     >
       <div className="h-full w-full" style={{ zoom: zoomScale }}>
         <BentoGridNew
+          onSwap={isReadOnly ? undefined : moveTile}
+          getSlotLabel={getSlotLabel}
           renderSlot={(placement) => {
             const content = renderTile(placement.id);
             const isFocused = placement.id === focusedTileId;
-            const isDropTarget = placement.id === dropTarget;
-            const isDragSource = dragSourceRef.current === placement.id;
-
-            // Shared drag-and-drop handlers for both filled and empty tiles
-            const dragHandlers = {
-              draggable: true,
-              onDragStart: (e) => {
-                dragSourceRef.current = placement.id;
-                e.dataTransfer.effectAllowed = 'move';
-                e.dataTransfer.setData('text/plain', placement.id);
-              },
-              onDragOver: (e) => {
-                e.preventDefault();
-                e.dataTransfer.dropEffect = 'move';
-                if (dragSourceRef.current && dragSourceRef.current !== placement.id) {
-                  setDropTarget(placement.id);
-                }
-              },
-              onDragLeave: (e) => {
-                if (!e.currentTarget.contains(e.relatedTarget)) {
-                  setDropTarget(null);
-                }
-              },
-              onDrop: (e) => {
-                e.preventDefault();
-                const sourceId = dragSourceRef.current;
-                if (sourceId && sourceId !== placement.id) {
-                  swapPlacements(sourceId, placement.id);
-                }
-                dragSourceRef.current = null;
-                setDropTarget(null);
-              },
-              onDragEnd: () => {
-                dragSourceRef.current = null;
-                setDropTarget(null);
-              },
-            };
+            const tileType = getTileForPlacement(placement.id)?.type
+              ?? getPlacementTileType(resolveSwappedId(placement.id, placementSwaps));
 
             return content ? (
               <div
                 tabIndex={0}
                 role="gridcell"
+                data-placement-id={placement.id}
+                data-tile-type={tileType}
                 className="w-full h-full rounded-xl overflow-hidden relative"
                 style={{
                   boxShadow: isFocused
                     ? '0 0 0 1.5px var(--accent), 0 0 0 4px var(--accent-muted)'
-                    : isDropTarget
-                      ? '0 0 0 2px var(--accent), 0 0 0 5px var(--accent-muted)'
-                      : 'var(--shadow-tile)',
-                  opacity: isDragSource ? 0.5 : 1,
-                  transition: 'box-shadow 150ms ease, opacity 150ms ease',
+                    : 'var(--shadow-tile)',
+                  transition: 'box-shadow 150ms ease',
                 }}
                 onClick={(e) => {
                   e.stopPropagation();
@@ -337,25 +364,17 @@ const BentoCanvasNew = React.forwardRef((props, ref) => {
                     setFocusedTile(placement.id);
                   }
                 }}
-                {...dragHandlers}
               >
                 <ErrorBoundary>
                   {content}
                 </ErrorBoundary>
               </div>
             ) : (
-              <div
-                className="w-full h-full relative"
-                style={{
-                  opacity: isDragSource ? 0.5 : 1,
-                  transition: 'opacity 150ms ease',
-                }}
-                {...dragHandlers}
-              >
+              <div className="w-full h-full relative">
                 <BentoTileEmpty
                   slotId={placement.id}
                   {...getPlaceholderMeta(placement.id)}
-                  isFocused={isFocused || isDropTarget}
+                  isFocused={isFocused}
                   onClick={(e) => {
                     e.stopPropagation();
                     setFocusedTile(placement.id);
@@ -368,6 +387,7 @@ const BentoCanvasNew = React.forwardRef((props, ref) => {
         {/* Debug overlay - shows grid boundaries when enabled */}
         <DebugGrid />
       </div>
+      <div className="sr-only" aria-live="polite">{announcement}</div>
     </div>
   );
 });
@@ -10,6 +10,10 @@
  * - Responsive breakpoints (mobile < 768 < tablet < 1024 < desktop)
  * - Density settings affect padding (cozy: 16px, compact: 12px)
  * - Render prop pattern for flexible tile content
+ * - Vision simulation (CVD / low contrast) as an SVG filter on the
+ *   container; the export frame inside it is captured without the filter
+ * - Drag-and-drop between slots when `onSwap` is given: mouse drags on the
+ *   slot, touch and pen drags on its grip, with a preview of the swap
  *
  * ## Layout System
  *
@@ -25,14 +29,33 @@
  * />
  */
 import type { ReactNode } from 'react';
-import { useLayoutStore, CANVAS_RATIOS } from '../store/useLayoutStore';
+import { createPortal } from 'react-dom';
+import { RiDraggable } from 'react-icons/ri';
+import { useLayoutStore, CANVAS_RATIOS, selectLayoutConfig } from '../store/useLayoutStore';
 import { useBreakpoint } from '../hooks/useBreakpoint';
-import {
-  BENTO_LAYOUTS,
-  type LayoutPresetName,
-  type CellPlacement,
-} from '../config/bentoLayouts';
+import type { CellPlacement } from '../config/bentoLayouts';
 import { twMerge } from 'tailwind-merge';
+import { useSlotDrag } from '../hooks/useSlotDrag';
+import {
+  SIMULATED_VISION_MODES,
+  getVisionFilterId,
+  getVisionFilterMatrix,
+} from '../utils/visionSimulation';
+
+/** Hidden SVG defs with one color-matrix filter per simulated vision mode. */
+function VisionFilters() {
+  return (
+    <svg aria-hidden="true" data-export-exclude="true" width="0" height="0" style={{ position: 'absolute' }}>
+      <defs>
+        {SIMULATED_VISION_MODES.map((mode) => (
+          <filter key={mode} id={getVisionFilterId(mode)} colorInterpolationFilters="linearRGB">
+            <feColorMatrix type="matrix" values={getVisionFilterMatrix(mode)} />
+          </filter>
+        ))}
+      </defs>
+    </svg>
+  );
+}
 
 /**
  * Props for BentoGridNew component.
@@ -42,6 +65,10 @@ export interface BentoGridNewProps {
   renderSlot?: (placement: CellPlacement) => ReactNode;
   /** Additional CSS classes for the container */
   className?: string;
+  /** Called when one slot is dropped on another; enables drag-and-drop */
+  onSwap?: (fromId: string, toId: string) => void;
+  /** Name of what a slot shows, for the drag preview (default: the placement ID) */
+  getSlotLabel?: (placementId: string) => string;
 }
 
 /**
@@ -52,19 +79,31 @@ export interface BentoGridNewProps {
 export function BentoGridNew({
   renderSlot,
   className,
+  onSwap,
+  getSlotLabel = (id) => id,
 }: BentoGridNewProps) {
-  const preset = useLayoutStore((s) => s.preset) as LayoutPresetName;
   const density = useLayoutStore((s) => s.density);
   const canvasRatio = useLayoutStore((s) => s.canvasRatio);
+  const visionMode = useLayoutStore((s) => s.visionMode);
   const breakpoint = useBreakpoint();
 
-  const config = BENTO_LAYOUTS[preset]?.[breakpoint] ?? BENTO_LAYOUTS.balanced.desktop;
+  const config = useLayoutStore((s) => selectLayoutConfig(s, breakpoint));
   const gap = config.gap;
   const padding = density === 'cozy' ? 16 : 12;
 
   const ratioEntry = CANVAS_RATIOS.find((r) => r.key === canvasRatio);
   const aspectValue = ratioEntry?.value ?? null;
 
+  const { drag, getSlotProps, getHandleProps } = useSlotDrag(onSwap);
+
+  /** Label previewing what a slot will show once the hovered swap is dropped */
+  const swapPreview = (id: string): string | null => {
+    if (!drag?.targetId) return null;
+    if (id === drag.targetId) return getSlotLabel(drag.sourceId);
+    if (id === drag.sourceId) return getSlotLabel(drag.targetId);
+    return null;
+  };
+
   return (
     <div
       className={twMerge(
@@ -75,10 +114,13 @@ export function BentoGridNew({
       )}
       style={{
         backgroundColor: 'var(--canvas-bg)',
+        filter: visionMode !== 'none' ? `url(#${getVisionFilterId(visionMode)})` : undefined,
       }}
     >
+      {visionMode !== 'none' && <VisionFilters />}
       <div
         className="w-full overflow-hidden"
+        data-export-frame="true"
         style={{
           padding: `${padding}px`,
           paddingBottom: 'max(var(--safe-area-inset-bottom, 0px), 16px)',
@@ -96,20 +138,77 @@ export function BentoGridNew({
             gap: `${gap}px`,
           }}
         >
-          {config.placements.map((placement) => (
-            <div
-              key={placement.id}
-              className="min-h-0 min-w-0 overflow-hidden"
-              style={{
-                gridColumn: `${placement.colStart} / span ${placement.colSpan}`,
-                gridRow: `${placement.rowStart} / span ${placement.rowSpan}`,
-              }}
-            >
-              {renderSlot ? renderSlot(placement) : null}
-            </div>
-          ))}
+          {config.placements.map((placement) => {
+            const preview = swapPreview(placement.id);
+            const isSource = drag?.sourceId === placement.id;
+            return (
+              <div
+                key={placement.id}
+                className="group min-h-0 min-w-0 overflow-hidden relative"
+                style={{
+                  gridColumn: `${placement.colStart} / span ${placement.colSpan}`,
+                  gridRow: `${placement.rowStart} / span ${placement.rowSpan}`,
+                  opacity: isSource && !preview ? 0.5 : 1,
+                  transition: 'opacity 150ms ease',
+                }}
+                {...getSlotProps(placement.id)}
+              >
+                {renderSlot ? renderSlot(placement) : null}
+                {onSwap && (
+                  <span
+                    aria-hidden="true"
+                    data-export-exclude="true"
+                    className="absolute top-1.5 left-1.5 z-10 w-6 h-6 flex items-center justify-center rounded-md opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 [@media(hover:none)]:opacity-100 transition-opacity"
+                    style={{
+                      background: 'var(--sidebar-bg)',
+                      color: 'var(--sidebar-text-muted)',
+                      boxShadow: 'var(--shadow-tile)',
+                      cursor: drag ? 'grabbing' : 'grab',
+                      touchAction: 'none',
+                    }}
+                    {...getHandleProps(placement.id)}
+                  >
+                    <RiDraggable size={14} />
+                  </span>
+                )}
+                {preview && (
+                  <div
+                    data-export-exclude="true"
+                    className="absolute inset-0 z-20 flex items-center justify-center rounded-xl pointer-events-none text-[12px] font-medium"
+                    style={{
+                      background: 'color-mix(in srgb, var(--accent) 18%, transparent)',
+                      boxShadow: placement.id === drag?.targetId
+                        ? 'inset 0 0 0 2px var(--accent)'
+                        : 'inset 0 0 0 1.5px var(--accent-muted)',
+                      color: 'var(--accent)',
+                      backdropFilter: 'blur(2px)',
+                    }}
+                  >
+                    {preview} goes here
+                  </div>
+                )}
+              </div>
+            );
+          })}
         </div>
       </div>
+      {/* Portaled: the zoom and vision filter above would offset a fixed element */}
+      {drag && createPortal(
+        <div
+          data-export-exclude="true"
+          className="fixed z-[9999] px-2 py-1 rounded-md pointer-events-none text-[11px] font-medium"
+          style={{
+            left: drag.x + 12,
+            top: drag.y + 12,
+            background: 'var(--sidebar-bg)',
+            color: 'var(--sidebar-text)',
+            boxShadow: '0 4px 12px rgba(0, 0, 0, 0.2)',
+          }}
+        >
+          {getSlotLabel(drag.sourceId)}
+        </div>,
+        document.body
+      )}
     </div>
   );
 }
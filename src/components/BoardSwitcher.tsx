@@ -0,0 +1,328 @@
+/**
+ * Board Switcher Component
+ *
+ * Header dropdown for the board library: shows the active board's name and
+ * opens a list of all boards with thumbnails.
+ *
+ * ## Features
+ *
+ * - New board, switch, rename (inline), duplicate, delete
+ * - Thumbnail of the current canvas captured before leaving a board
+ * - Asks before leaving a board with undo history, which does not carry over
+ * - Click-outside / Escape to close
+ *
+ * @component
+ * @example
+ * <BoardSwitcher canvasRef={canvasRef} />
+ */
+import { useState, useRef, useEffect } from 'react';
+import {
+  RiAddLine as Plus,
+  RiArrowDownSLine as ChevronDown,
+  RiDeleteBinLine as Trash,
+  RiFileCopyLine as Copy,
+  RiPencilFill as Pencil,
+} from 'react-icons/ri';
+import { motion, AnimatePresence } from 'motion/react';
+import toast from 'react-hot-toast';
+import { useShallow } from 'zustand/react/shallow';
+import { useWorkspaceStore, type BoardSummary } from '../store/useWorkspaceStore';
+import { useBrandStore, selectHistorySize } from '../store/useBrandStore';
+import { useCheckpointStore } from '../store/useCheckpointStore';
+import { captureThumbnail } from '../utils/export';
+import { confirmHistoryLoss } from '../utils/historyWarning';
+
+const EASE_CURVE: [number, number, number, number] = [0.4, 0, 0.2, 1];
+const TRANSITION_FAST = { duration: 0.1, ease: EASE_CURVE };
+const TRANSITION_BASE = { duration: 0.15, ease: EASE_CURVE };
+
+interface BoardSwitcherProps {
+  /** Canvas element used for thumbnails */
+  canvasRef: React.RefObject<HTMLDivElement | null>;
+}
+
+const formatUpdated = (timestamp: number): string =>
+  new Date(timestamp).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+interface BoardRowProps {
+  board: BoardSummary;
+  isActive: boolean;
+  onSelect: () => void;
+  onRename: (name: string) => Promise<void>;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}
+
+/** One library entry: thumbnail, name (editable), and row actions. */
+function BoardRow({ board, isActive, onSelect, onRename, onDuplicate, onDelete }: BoardRowProps) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draft, setDraft] = useState(board.name);
+
+  const commitRename = () => {
+    setIsRenaming(false);
+    if (!draft.trim() || draft.trim() === board.name) {
+      setDraft(board.name);
+      return;
+    }
+    onRename(draft).catch((error) => {
+      console.error('Could not rename board', error);
+      toast.error('Could not rename board');
+      setDraft(board.name);
+    });
+  };
+
+  return (
+    <div
+      className="group flex items-center rounded-md transition-fast"
+      style={{
+        gap: 'var(--space-2)',
+        padding: 'var(--space-1-5) var(--space-2)',
+        background: isActive ? 'var(--sidebar-bg-active)' : 'transparent',
+      }}
+    >
+      <button
+        type="button"
+        onClick={onSelect}
+        aria-label={`Open ${board.name}`}
+        aria-current={isActive ? 'true' : undefined}
+        className="flex-shrink-0 rounded overflow-hidden"
+        style={{
+          width: 56,
+          height: 36,
+          background: 'var(--sidebar-bg-hover)',
+          border: '1px solid var(--sidebar-border)',
+        }}
+      >
+        {board.thumbnail && (
+          <img src={board.thumbnail} alt="" className="w-full h-full object-cover" />
+        )}
+      </button>
+
+      <div className="flex-1 min-w-0">
+        {isRenaming ? (
+          <input
+            autoFocus
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onBlur={commitRename}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitRename();
+              if (e.key === 'Escape') {
+                e.stopPropagation();
+                setDraft(board.name);
+                setIsRenaming(false);
+              }
+            }}
+            className="w-full text-11 rounded"
+            style={{
+              padding: '2px var(--space-1)',
+              background: 'var(--sidebar-bg)',
+              border: '1px solid var(--accent)',
+              color: 'var(--sidebar-text)',
+            }}
+          />
+        ) : (
+          <button
+            type="button"
+            onClick={onSelect}
+            onDoubleClick={() => setIsRenaming(true)}
+            className="w-full text-left"
+          >
+            <span className="block text-11 font-medium truncate" style={{ color: 'var(--sidebar-text)' }}>
+              {board.name}
+            </span>
+            <span className="block text-10" style={{ color: 'var(--sidebar-text-muted)' }}>
+              {formatUpdated(board.updatedAt)}
+            </span>
+          </button>
+        )}
+      </div>
+
+      <div className="flex items-center opacity-0 group-hover:opacity-100 transition-fast" style={{ gap: 2 }}>
+        {[
+          { icon: Pencil, label: 'Rename', action: () => setIsRenaming(true) },
+          { icon: Copy, label: 'Duplicate', action: onDuplicate },
+          { icon: Trash, label: 'Delete', action: onDelete },
+        ].map(({ icon: Icon, label, action }) => (
+          <button
+            key={label}
+            type="button"
+            onClick={action}
+            aria-label={`${label} ${board.name}`}
+            title={label}
+            className="flex items-center justify-center rounded transition-fast"
+            style={{ width: 22, height: 22, color: 'var(--sidebar-text-muted)' }}
+            onMouseEnter={(e) => (e.currentTarget.style.background = 'var(--sidebar-bg-hover)')}
+            onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+          >
+            <Icon size={12} />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Board library dropdown.
+ * Hidden until the library has loaded (IndexedDB may be unavailable).
+ */
+export function BoardSwitcher({ canvasRef }: BoardSwitcherProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [isBusy, setIsBusy] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const { boards, activeBoardId, isReady } = useWorkspaceStore(
+    useShallow((s) => ({ boards: s.boards, activeBoardId: s.activeBoardId, isReady: s.isReady }))
+  );
+  const activeBoard = boards.find((b) => b.id === activeBoardId);
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, []);
+
+  /** Run a library action with a fresh thumbnail of the board being left. */
+  const runWithThumbnail = async (
+    action: (thumbnail: string | null) => Promise<void>,
+    failureMessage: string,
+  ) => {
+    setIsBusy(true);
+    try {
+      const thumbnail = canvasRef.current ? await captureThumbnail(canvasRef.current) : null;
+      await action(thumbnail);
+    } catch (error) {
+      console.error(failureMessage, error);
+      toast.error(failureMessage);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const { createBoard, switchBoard, renameBoard, duplicateBoard, deleteBoard } = useWorkspaceStore.getState();
+
+  /** Undo history belongs to the board being left */
+  const confirmLeave = (action: string) =>
+    confirmHistoryLoss(selectHistorySize(useBrandStore.getState()), action);
+
+  const handleSelect = (id: string) => {
+    if (id === activeBoardId) {
+      setIsOpen(false);
+      return;
+    }
+    if (!confirmLeave('Switching boards')) return;
+    runWithThumbnail((thumbnail) => switchBoard(id, thumbnail), 'Could not open board')
+      .then(() => setIsOpen(false));
+  };
+
+  const handleDelete = (board: BoardSummary) => {
+    const confirmed = window.confirm(`Delete "${board.name}"? This cannot be undone.`);
+    if (!confirmed) return;
+    deleteBoard(board.id)
+      .then(() => {
+        useCheckpointStore.getState().deleteBoardCheckpoints(board.id).catch((error) => {
+          console.error('Could not delete board checkpoints', error);
+        });
+        toast.success('Board deleted');
+      })
+      .catch((error) => {
+        console.error('Could not delete board', error);
+        toast.error('Could not delete board');
+      });
+  };
+
+  if (!isReady) return null;
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <motion.button
+        onClick={() => setIsOpen(!isOpen)}
+        aria-expanded={isOpen}
+        aria-haspopup="true"
+        className="flex items-center rounded-md transition-fast"
+        style={{
+          gap: 'var(--space-1)',
+          padding: 'var(--space-2) var(--space-3)',
+          maxWidth: 200,
+          background: isOpen ? 'var(--sidebar-bg-hover)' : 'transparent',
+          color: 'var(--sidebar-text-secondary)',
+        }}
+        whileHover={{ background: 'var(--sidebar-bg-hover)' }}
+        transition={TRANSITION_FAST}
+      >
+        <span className="text-12 font-medium truncate">{activeBoard?.name ?? 'Boards'}</span>
+        <ChevronDown size={12} className="flex-shrink-0" />
+      </motion.button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={TRANSITION_BASE}
+            className="absolute top-full left-0 w-72 rounded-lg z-50"
+            style={{
+              marginTop: 'var(--space-1)',
+              padding: 'var(--space-1)',
+              background: 'var(--sidebar-bg-elevated)',
+              border: '1px solid var(--sidebar-border)',
+              boxShadow: 'var(--shadow-xl)',
+              cursor: isBusy ? 'wait' : undefined,
+            }}
+          >
+            <div className="overflow-y-auto" style={{ maxHeight: 360 }}>
+              {boards.map((board) => (
+                <BoardRow
+                  key={board.id}
+                  board={board}
+                  isActive={board.id === activeBoardId}
+                  onSelect={() => handleSelect(board.id)}
+                  onRename={(name) => renameBoard(board.id, name)}
+                  onDuplicate={() =>
+                    runWithThumbnail((thumbnail) => duplicateBoard(board.id, thumbnail), 'Could not duplicate board')
+                  }
+                  onDelete={() => handleDelete(board)}
+                />
+              ))}
+            </div>
+
+            <div className="divider-h" style={{ marginBlock: 'var(--space-1)' }} />
+
+            <button
+              type="button"
+              disabled={isBusy}
+              onClick={() => {
+                if (!confirmLeave('Creating a board')) return;
+                runWithThumbnail(createBoard, 'Could not create board').then(() => setIsOpen(false));
+              }}
+              className="w-full flex items-center text-left rounded-md transition-fast"
+              style={{
+                gap: 'var(--space-2)',
+                padding: 'var(--space-2) var(--space-2)',
+                color: 'var(--sidebar-text)',
+              }}
+              onMouseEnter={(e) => (e.currentTarget.style.background = 'var(--sidebar-bg-hover)')}
+              onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+            >
+              <Plus size={14} />
+              <span className="text-11">New board</span>
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,333 @@
+/**
+ * Brand Guidelines Document
+ *
+ * Full-screen, paginated guidelines for the current brand. Each section is
+ * an A4 landscape page; "Save as PDF" uses the browser print dialog, and the
+ * print stylesheet in index.css hides the app and breaks after every page.
+ *
+ * ## Pages
+ *
+ * - Cover and logo with its clear-space zone
+ * - Color roles with HEX/RGB/HSL and WCAG contrast
+ * - Typography specimen from the type scale
+ * - Buttons and imagery treatment
+ * - Sample tiles, rendered read-only from the live tile components
+ *
+ * @component
+ * @example
+ * <BrandGuidelines open={open} onClose={() => setOpen(false)} />
+ */
+import { useEffect, type ComponentType, type ReactNode } from 'react';
+import { createPortal } from 'react-dom';
+import { RiCloseLine as Close, RiPrinterFill as Printer } from 'react-icons/ri';
+import { useBrandStore } from '@/store/useBrandStore';
+import { useGoogleFonts } from '@/hooks/useGoogleFonts';
+import { getAdaptiveTextColor } from '@/utils/color';
+import { COLOR_DEFAULTS } from '@/utils/colorDefaults';
+import { BUTTON_SIZES, getButtonLetterSpacing, getButtonStyleColors } from '@/utils/buttons';
+import { getImageFilter } from '@/utils/imagery';
+import { getFontCategory, getHeadlineTransform } from '@/utils/typography';
+import {
+  getGuidelineColorRoles,
+  getGuidelinesTitle,
+  getLogoClearSpace,
+  getTypeSpecimen,
+} from '@/utils/brandGuidelines';
+import { HeroTile } from './tiles/HeroTile';
+import { LogoTile } from './tiles/LogoTile';
+import { EditorialTile } from './tiles/EditorialTile';
+import { InterfaceTile } from './tiles/InterfaceTile';
+import { SocialPostTile } from './tiles/SocialPostTile';
+import { SwatchTile } from './tiles/SwatchTile';
+
+interface BrandGuidelinesProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+/** Tiles shown on the samples page, keyed by their default placements. */
+const SAMPLE_TILES: { label: string; placementId: string; Tile: ComponentType<{ placementId?: string }>; wide?: boolean }[] = [
+  { label: 'Hero', placementId: 'hero', Tile: HeroTile, wide: true },
+  { label: 'Logo', placementId: 'a', Tile: LogoTile },
+  { label: 'Editorial', placementId: 'b', Tile: EditorialTile },
+  { label: 'Interface', placementId: 'c', Tile: InterfaceTile },
+  { label: 'Social', placementId: 'd', Tile: SocialPostTile },
+  { label: 'Palette', placementId: 'e', Tile: SwatchTile },
+];
+
+const Page = ({ title, number, children }: { title: string; number: number; children: ReactNode }) => (
+  <section className="guidelines-page">
+    <header className="guidelines-page-header">
+      <span>{title}</span>
+      <span>{String(number).padStart(2, '0')}</span>
+    </header>
+    <div className="guidelines-page-body">{children}</div>
+  </section>
+);
+
+const Label = ({ children }: { children: ReactNode }) => (
+  <div className="guidelines-label">{children}</div>
+);
+
+export function BrandGuidelines({ open, onClose }: BrandGuidelinesProps) {
+  const brand = useBrandStore((s) => s.brand);
+  const setFocusedTile = useBrandStore((s) => s.setFocusedTile);
+  const { typography, colors, logo, imagery, ui } = brand;
+
+  const { fontFamily: headlineFont } = useGoogleFonts(typography.primary, getFontCategory(typography.primary));
+  const { fontFamily: bodyFont } = useGoogleFonts(typography.secondary, getFontCategory(typography.secondary));
+  const logoFontName = logo.fontFamily || typography.primary;
+  const { fontFamily: logoFont } = useGoogleFonts(logoFontName, getFontCategory(logoFontName));
+
+  // Tile toolbars follow the focused tile; clear it so none open over the document
+  useEffect(() => {
+    if (open) setFocusedTile(null);
+  }, [open, setFocusedTile]);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handler);
+    return () => document.removeEventListener('keydown', handler);
+  }, [open, onClose]);
+
+  if (!open) return null;
+
+  const title = getGuidelinesTitle(brand);
+  const colorRoles = getGuidelineColorRoles(colors);
+  const specimen = getTypeSpecimen(typography);
+
+  // Logo resolves the same way LogoTile does
+  const logoBg = logo.bgColor || colors.primary;
+  const logoColor = logo.color || getAdaptiveTextColor(logoBg, COLOR_DEFAULTS.TEXT_DARK, COLOR_DEFAULTS.WHITE);
+  const clearSpace = getLogoClearSpace(logo);
+  const wordmark = (
+    <span
+      style={{
+        fontFamily: logoFont,
+        fontSize: logo.size ?? 24,
+        fontWeight: logo.fontWeight ?? (parseInt(typography.weightHeadline) || 700),
+        letterSpacing: `${logo.letterSpacing ?? 0.04}em`,
+        lineHeight: logo.lineHeight ?? 1,
+        color: logoColor,
+        display: 'block',
+      }}
+    >
+      {logo.text || 'BRAND'}
+    </span>
+  );
+  const logoMark = logo.image ? (
+    <img src={logo.image} alt={logo.text || 'Logo'} style={{ height: (logo.size ?? 24) * 2, display: 'block' }} />
+  ) : wordmark;
+
+  const btnColor = ui.buttonColor || colors.primary;
+  const buttonStyle = (style: typeof ui.buttonStyle, size: typeof ui.buttonSize) => {
+    const metrics = BUTTON_SIZES[size] ?? BUTTON_SIZES.default;
+    return {
+      ...getButtonStyleColors(style, btnColor),
+      height: metrics.height,
+      padding: `0 ${metrics.px}px`,
+      fontSize: metrics.fontSize,
+      borderRadius: ui.buttonRadius,
+      fontFamily: bodyFont,
+      fontWeight: ui.buttonWeight,
+      letterSpacing: `${getButtonLetterSpacing(ui)}em`,
+      textTransform: ui.buttonUppercase ? ('uppercase' as const) : ('none' as const),
+    };
+  };
+
+  const pageStyle = {
+    '--guidelines-bg': colors.bg,
+    '--guidelines-text': colors.text,
+    '--guidelines-font': bodyFont,
+  } as React.CSSProperties;
+
+  return createPortal(
+    <div className="brand-guidelines" style={pageStyle} role="dialog" aria-label={title}>
+      <div className="guidelines-toolbar">
+        <span className="text-12 font-medium">{title}</span>
+        <div className="flex items-center" style={{ gap: 'var(--space-2)' }}>
+          <button type="button" className="btn-figma btn-figma-accent" onClick={() => window.print()}>
+            <Printer size={13} />
+            <span>Print / Save as PDF</span>
+          </button>
+          <button type="button" className="icon-btn" aria-label="Close guidelines" onClick={onClose}>
+            <Close size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="guidelines-pages">
+        {/* Cover */}
+        <section className="guidelines-page guidelines-cover" style={{ background: logoBg, color: logoColor }}>
+          {logoMark}
+          <div>
+            <div style={{ fontFamily: headlineFont, fontSize: 40, fontWeight: Number(typography.weightHeadline) || 700 }}>
+              Brand Guidelines
+            </div>
+            <div style={{ fontFamily: bodyFont, fontSize: 13, opacity: 0.7, marginTop: 8 }}>
+              {new Date().toLocaleDateString(undefined, { year: 'numeric', month: 'long', day: 'numeric' })}
+            </div>
+          </div>
+        </section>
+
+        {/* Logo */}
+        <Page title="Logo" number={1}>
+          <div className="guidelines-logo-grid">
+            <div>
+              <Label>Clear space</Label>
+              <div className="guidelines-clearspace" style={{ padding: clearSpace, background: logoBg }}>
+                <div className="guidelines-clearspace-mark">{logoMark}</div>
+              </div>
+              <p className="guidelines-note">
+                Keep at least {clearSpace}px clear on every side of the logo. Nothing else may enter the dashed zone.
+              </p>
+            </div>
+            <div>
+              <Label>On background</Label>
+              <div className="guidelines-logo-sample" style={{ background: colors.bg }}>
+                <span style={{ fontFamily: logoFont, fontSize: logo.size ?? 24, fontWeight: 700, color: colors.text }}>
+                  {logo.text || 'BRAND'}
+                </span>
+              </div>
+              <Label>Specs</Label>
+              <dl className="guidelines-specs">
+                <dt>Typeface</dt><dd>{logoFontName}</dd>
+                <dt>Size</dt><dd>{logo.size ?? 24}px</dd>
+                <dt>Tracking</dt><dd>{logo.letterSpacing ?? 0.04}em</dd>
+                <dt>Colors</dt><dd>{logoColor} on {logoBg}</dd>
+              </dl>
+            </div>
+          </div>
+        </Page>
+
+        {/* Colors */}
+        <Page title="Color" number={2}>
+          <div className="guidelines-color-grid">
+            {colorRoles.map((role) => (
+              <div key={role.id} className="guidelines-color">
+                <div className="guidelines-color-chip" style={{ background: role.values.hex }} />
+                <div className="guidelines-color-name">{role.label}</div>
+                <div className="guidelines-note">{role.usage}</div>
+                <dl className="guidelines-specs">
+                  <dt>HEX</dt><dd>{role.values.hex}</dd>
+                  <dt>RGB</dt><dd>{role.values.rgb}</dd>
+                  <dt>HSL</dt><dd>{role.values.hsl}</dd>
+                  {role.contrast.map((c) => (
+                    <div key={c.against} style={{ display: 'contents' }}>
+                      <dt>vs {c.against}</dt>
+                      <dd>
+                        {c.ratio.toFixed(2)}:1 <span className={`guidelines-rating is-${c.rating === 'Fail' ? 'fail' : 'pass'}`}>{c.rating}</span>
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+              </div>
+            ))}
+          </div>
+        </Page>
+
+        {/* Typography */}
+        <Page title="Typography" number={3}>
+          <div className="guidelines-type-families">
+            <div>
+              <Label>Headline · {typography.primary}</Label>
+              <div style={{ fontFamily: headlineFont, fontSize: 28, fontWeight: Number(typography.weightHeadline) }}>Aa Bb Cc 123</div>
+            </div>
+            <div>
+              <Label>Body · {typography.secondary}</Label>
+              <div style={{ fontFamily: bodyFont, fontSize: 28, fontWeight: Number(typography.weightBody) }}>Aa Bb Cc 123</div>
+            </div>
+          </div>
+          <div className="guidelines-type-scale">
+            {specimen.map((step) => {
+              const isHeadline = step.role === 'headline';
+              return (
+                <div key={step.token} className="guidelines-type-row">
+                  <div className="guidelines-note">
+                    {step.label}
+                    <br />
+                    {Math.round(step.size * 10) / 10}px / {step.lineHeight}
+                  </div>
+                  <div
+                    style={{
+                      fontFamily: isHeadline ? headlineFont : bodyFont,
+                      fontSize: step.size,
+                      fontWeight: Number(isHeadline ? typography.weightHeadline : typography.weightBody),
+                      lineHeight: step.lineHeight,
+                      letterSpacing: step.letterSpacing,
+                      textTransform: isHeadline ? (getHeadlineTransform(typography) as React.CSSProperties['textTransform']) : 'none',
+                    }}
+                  >
+                    {isHeadline ? 'The quick brown fox' : 'The quick brown fox jumps over the lazy dog.'}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </Page>
+
+        {/* Buttons & imagery */}
+        <Page title="Buttons & Imagery" number={4}>
+          <div className="guidelines-logo-grid">
+            <div>
+              <Label>Styles</Label>
+              <div className="guidelines-buttons">
+                {(['filled', 'outline', 'soft'] as const).map((style) => (
+                  <div key={style}>
+                    <span style={buttonStyle(style, ui.buttonSize)} className="guidelines-button">
+                      {style === ui.buttonStyle ? 'Primary' : style.charAt(0).toUpperCase() + style.slice(1)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <Label>Sizes</Label>
+              <div className="guidelines-buttons">
+                {(['compact', 'default', 'large'] as const).map((size) => (
+                  <span key={size} style={buttonStyle(ui.buttonStyle, size)} className="guidelines-button">
+                    {size.charAt(0).toUpperCase() + size.slice(1)}
+                  </span>
+                ))}
+              </div>
+              <dl className="guidelines-specs">
+                <dt>Radius</dt><dd>{ui.buttonRadius}px</dd>
+                <dt>Weight</dt><dd>{ui.buttonWeight}</dd>
+                <dt>Color</dt><dd>{btnColor}</dd>
+              </dl>
+            </div>
+            <div>
+              <Label>Imagery treatment</Label>
+              <div className="guidelines-image">
+                {imagery.url && (
+                  <img src={imagery.url} alt="" style={{ filter: getImageFilter(imagery.style, imagery.overlay) }} />
+                )}
+              </div>
+              <dl className="guidelines-specs">
+                <dt>Style</dt><dd>{imagery.style}</dd>
+                <dt>Overlay</dt><dd>{imagery.overlay}%</dd>
+                <dt>CSS filter</dt><dd>{getImageFilter(imagery.style, imagery.overlay)}</dd>
+              </dl>
+            </div>
+          </div>
+        </Page>
+
+        {/* Sample tiles */}
+        <Page title="In Use" number={5}>
+          <div className="guidelines-tiles" inert>
+            {SAMPLE_TILES.map(({ label, placementId, Tile, wide }) => (
+              <figure key={placementId} className={wide ? 'is-wide' : undefined}>
+                <div className="guidelines-tile">
+                  <Tile placementId={placementId} />
+                </div>
+                <figcaption className="guidelines-note">{label}</figcaption>
+              </figure>
+            ))}
+          </div>
+        </Page>
+      </div>
+    </div>,
+    document.body,
+  );
+}
@@ -22,9 +22,8 @@
  * <BentoGridNew ... />
  * <DebugGrid />
  */
-import { useLayoutStore } from '../store/useLayoutStore';
+import { useLayoutStore, selectLayoutConfig } from '../store/useLayoutStore';
 import { useBreakpoint } from '../hooks/useBreakpoint';
-import { BENTO_LAYOUTS, type LayoutPresetName } from '../config/bentoLayouts';
 
 /**
  * Debug overlay that visualizes the grid cell boundaries.
@@ -33,13 +32,13 @@ import { BENTO_LAYOUTS, type LayoutPresetName } from '../config/bentoLayouts';
  */
 export const DebugGrid = () => {
   const debugMode = useLayoutStore((s) => s.debugMode);
-  const preset = useLayoutStore((s) => s.preset) as LayoutPresetName;
+  const preset = useLayoutStore((s) => s.preset);
   const density = useLayoutStore((s) => s.density);
   const breakpoint = useBreakpoint();
+  const config = useLayoutStore((s) => selectLayoutConfig(s, breakpoint));
 
   if (!debugMode) return null;
 
-  const config = BENTO_LAYOUTS[preset]?.[breakpoint] ?? BENTO_LAYOUTS.balanced.desktop;
   const { columns, rows, gap, placements } = config;
   const padding = density === 'cozy' ? 16 : 12;
 
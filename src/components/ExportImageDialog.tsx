@@ -0,0 +1,286 @@
+/**
+ * Export Image Dialog
+ *
+ * Format, size and background options for exporting the board as an image.
+ * Social presets temporarily switch the canvas ratio so the grid re-lays out
+ * at the target aspect, then restore the previous ratio after capture.
+ *
+ * @component
+ * @example
+ * <ExportImageDialog open={open} onClose={close} canvasRef={canvasRef} />
+ */
+import { useEffect, useState, type ReactNode } from 'react';
+import { createPortal } from 'react-dom';
+import { motion, AnimatePresence } from 'motion/react';
+import toast from 'react-hot-toast';
+import { RiCloseLine as Close } from 'react-icons/ri';
+import { useBrandStore } from '@/store/useBrandStore';
+import { useLayoutStore } from '@/store/useLayoutStore';
+import { withoutHistory } from '@/store/historyCoordinator';
+import {
+  IMAGE_FORMATS,
+  SOCIAL_EXPORT_PRESETS,
+  exportImage,
+  getExportFrameSize,
+  resolveExportSize,
+  type ImageExportOptions,
+  type ImageFormat,
+} from '@/utils/export';
+
+const EASE_CURVE: [number, number, number, number] = [0.4, 0, 0.2, 1];
+
+const SCALES = [1, 2, 3];
+
+interface ExportImageDialogProps {
+  open: boolean;
+  onClose: () => void;
+  canvasRef: React.RefObject<HTMLDivElement | null>;
+}
+
+/** Wait for React to commit and the browser to lay out the new grid. */
+const nextLayout = () =>
+  new Promise<void>((resolve) => requestAnimationFrame(() => requestAnimationFrame(() => resolve())));
+
+const Field = ({ label, children }: { label: string; children: ReactNode }) => (
+  <div className="flex flex-col" style={{ gap: 'var(--space-1-5)' }}>
+    <span className="text-11 font-medium" style={{ color: 'var(--sidebar-text-secondary)' }}>
+      {label}
+    </span>
+    {children}
+  </div>
+);
+
+const Segmented = <T extends string | number>({
+  options,
+  value,
+  onChange,
+}: {
+  options: { key: T; label: string; disabled?: boolean }[];
+  value: T;
+  onChange: (value: T) => void;
+}) => (
+  <div className="flex rounded-lg overflow-hidden" style={{ background: 'var(--sidebar-bg-hover)', padding: 3, gap: 2 }}>
+    {options.map((option) => (
+      <button
+        key={option.key}
+        type="button"
+        disabled={option.disabled}
+        className="flex-1 rounded-md text-11 font-medium transition-fast text-center"
+        style={{
+          padding: '5px 0',
+          backgroundColor: value === option.key ? 'var(--sidebar-bg)' : 'transparent',
+          color: value === option.key ? 'var(--sidebar-text)' : 'var(--sidebar-text-muted)',
+          boxShadow: value === option.key ? '0 1px 2px rgba(0,0,0,0.06)' : 'none',
+          opacity: option.disabled ? 0.4 : 1,
+          cursor: option.disabled ? 'not-allowed' : 'pointer',
+        }}
+        onClick={() => onChange(option.key)}
+      >
+        {option.label}
+      </button>
+    ))}
+  </div>
+);
+
+export function ExportImageDialog({ open, onClose, canvasRef }: ExportImageDialogProps) {
+  const [format, setFormat] = useState<ImageFormat>('png');
+  const [presetKey, setPresetKey] = useState<string>('current');
+  const [customWidth, setCustomWidth] = useState<number | null>(null);
+  const [scale, setScale] = useState(2);
+  const [background, setBackground] = useState<ImageExportOptions['background']>('canvas');
+  const [isExporting, setIsExporting] = useState(false);
+  const [frameSize, setFrameSize] = useState({ width: 0, height: 0 });
+
+  useEffect(() => {
+    if (!open) return;
+    if (canvasRef.current) setFrameSize(getExportFrameSize(canvasRef.current));
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handler);
+    return () => document.removeEventListener('keydown', handler);
+  }, [open, onClose, canvasRef]);
+
+  const preset = SOCIAL_EXPORT_PRESETS.find((p) => p.key === presetKey);
+  const formatMeta = IMAGE_FORMATS.find((f) => f.key === format) ?? IMAGE_FORMATS[0];
+  const isSvg = format === 'svg';
+  const effectiveBackground = formatMeta.transparent ? background : 'canvas';
+
+  const size = preset
+    ? { width: preset.width, height: preset.height }
+    : frameSize.width > 0
+      ? resolveExportSize(frameSize, { width: customWidth, height: null })
+      : null;
+
+  const handleExport = async () => {
+    const canvas = canvasRef.current;
+    if (!canvas) {
+      toast.error('Canvas not ready');
+      return;
+    }
+
+    setIsExporting(true);
+    const { canvasRatio, setCanvasRatio } = useLayoutStore.getState();
+    const relayout = preset != null && preset.ratio !== canvasRatio;
+    // Focus rings and toolbars should not end up in the image
+    useBrandStore.getState().setFocusedTile(null);
+
+    try {
+      // Temporary relayout for the export size, not an edit to undo
+      if (relayout) {
+        withoutHistory(() => setCanvasRatio(preset.ratio));
+      }
+      await nextLayout();
+      await exportImage(canvas, {
+        format,
+        width: preset ? preset.width : customWidth,
+        height: preset ? preset.height : null,
+        scale,
+        background: effectiveBackground,
+      });
+      toast.success(`${formatMeta.label} exported!`);
+      onClose();
+    } catch (err) {
+      console.error('Image export failed:', err);
+      toast.error('Export failed. Please try again.');
+    } finally {
+      if (relayout) withoutHistory(() => setCanvasRatio(canvasRatio));
+      setIsExporting(false);
+    }
+  };
+
+  return createPortal(
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+          className="fixed inset-0 flex items-center justify-center p-6"
+          style={{ zIndex: 9999, background: 'rgba(0, 0, 0, 0.6)', backdropFilter: 'blur(8px)' }}
+          onClick={onClose}
+          data-export-exclude="true"
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.96, y: 8 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.96, y: 8 }}
+            transition={{ duration: 0.2, ease: EASE_CURVE }}
+            role="dialog"
+            aria-label="Export image"
+            className="w-full max-w-[400px] rounded-2xl overflow-hidden flex flex-col"
+            style={{
+              background: 'var(--sidebar-bg)',
+              border: '1px solid var(--sidebar-border)',
+              boxShadow: '0 24px 48px rgba(0, 0, 0, 0.4)',
+            }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <div
+              className="flex items-center justify-between px-5 py-3 shrink-0"
+              style={{ borderBottom: '1px solid var(--sidebar-border)' }}
+            >
+              <span className="text-13 font-semibold" style={{ color: 'var(--sidebar-text)' }}>
+                Export Image
+              </span>
+              <button type="button" className="icon-btn" aria-label="Close" onClick={onClose}>
+                <Close size={16} />
+              </button>
+            </div>
+
+            <div className="flex flex-col px-5 py-4" style={{ gap: 'var(--space-4)' }}>
+              <Field label="Format">
+                <Segmented
+                  options={IMAGE_FORMATS.map((f) => ({ key: f.key, label: f.label }))}
+                  value={format}
+                  onChange={setFormat}
+                />
+              </Field>
+
+              <Field label="Size">
+                <Segmented
+                  options={[
+                    { key: 'current', label: 'Current' },
+                    ...SOCIAL_EXPORT_PRESETS.map((p) => ({ key: p.key, label: `${p.width}×${p.height}` })),
+                  ]}
+                  value={presetKey}
+                  onChange={setPresetKey}
+                />
+                {preset ? (
+                  <span className="text-11" style={{ color: 'var(--sidebar-text-muted)' }}>
+                    {preset.label} — the grid re-lays out at {preset.ratio} for capture
+                  </span>
+                ) : (
+                  <div className="flex items-center" style={{ gap: 'var(--space-2)' }}>
+                    <input
+                      type="number"
+                      min={100}
+                      max={8000}
+                      className="input-figma w-24"
+                      aria-label="Width in pixels"
+                      placeholder={String(Math.round(frameSize.width))}
+                      value={customWidth ?? ''}
+                      disabled={isSvg}
+                      onChange={(e) => {
+                        const value = parseInt(e.target.value, 10);
+                        setCustomWidth(Number.isFinite(value) && value > 0 ? value : null);
+                      }}
+                    />
+                    <span className="text-11" style={{ color: 'var(--sidebar-text-muted)' }}>
+                      × {size?.height ?? '—'} px
+                    </span>
+                  </div>
+                )}
+              </Field>
+
+              {!isSvg && (
+                <Field label="Scale">
+                  <Segmented
+                    options={SCALES.map((s) => ({ key: s, label: `${s}x` }))}
+                    value={scale}
+                    onChange={setScale}
+                  />
+                </Field>
+              )}
+
+              <Field label="Background">
+                <Segmented
+                  options={[
+                    { key: 'canvas' as const, label: 'Canvas' },
+                    { key: 'transparent' as const, label: 'Transparent', disabled: !formatMeta.transparent },
+                  ]}
+                  value={effectiveBackground}
+                  onChange={setBackground}
+                />
+              </Field>
+            </div>
+
+            <div
+              className="flex items-center justify-between px-5 py-3 shrink-0"
+              style={{ borderTop: '1px solid var(--sidebar-border)' }}
+            >
+              <span className="text-11" style={{ color: 'var(--sidebar-text-muted)' }}>
+                {isSvg
+                  ? 'Vector wrapper at on-screen size'
+                  : size
+                    ? `${size.width * scale} × ${size.height * scale} px`
+                    : ''}
+              </span>
+              <button
+                type="button"
+                className="btn-figma btn-figma-accent"
+                disabled={isExporting}
+                style={{ cursor: isExporting ? 'wait' : 'pointer' }}
+                onClick={handleExport}
+              >
+                {isExporting ? 'Exporting...' : `Export ${formatMeta.label}`}
+              </button>
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>,
+    document.body,
+  );
+}
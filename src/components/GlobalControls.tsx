@@ -7,13 +7,14 @@ import React from "react";
 import { motion, AnimatePresence } from "motion/react";
 import { RiShuffleLine, RiArrowRightSLine } from "react-icons/ri";
 import { useBrandStore } from "../store/useBrandStore";
-import { Section, PropRow, Input, Slider, SegmentedControl } from "./controls";
+import { Section, PropRow, Input, Slider, SegmentedControl, LockToggle } from "./controls";
 import { FontSelector } from "./controls/FontSelector";
 import { GOOGLE_FONTS_MAP } from "../data/googleFontsMetadata";
 import { LayoutSelector, CanvasRatioPicker, CanvasBgPicker } from "./controls/LayoutControls";
 import { ColorPalettePanel } from "./color/ColorPalettePanel";
 import ImageDropZone from "./ImageDropZone";
 import { ImageCollections } from "./controls/ImageCollections";
+import type { BrandLockKey } from "../utils/brandLocks";
 
 const WEIGHT_LABELS: Record<string, string> = {
   '100': 'Thin', '200': 'ExtraLight', '300': 'Light', '400': 'Regular',
@@ -171,6 +172,35 @@ const ShuffleButton = ({ onClick, shortcut }: { onClick: () => void; shortcut: s
   </motion.button>
 );
 
+/** Lock chips shown in the Shuffle Locks section, grouped by row */
+const LOCK_ROWS: { label: string; locks: { key: BrandLockKey; label: string }[] }[] = [
+  {
+    label: "Colors",
+    locks: [
+      { key: "colors.bg", label: "Background" },
+      { key: "colors.text", label: "Text" },
+      { key: "colors.primary", label: "Primary" },
+      { key: "colors.accent", label: "Accent" },
+      { key: "colors.surfaces", label: "Surfaces" },
+    ],
+  },
+  {
+    label: "Fonts",
+    locks: [
+      { key: "typography.primary", label: "Headline" },
+      { key: "typography.secondary", label: "Body" },
+      { key: "typography.ui", label: "UI" },
+    ],
+  },
+  {
+    label: "Elements",
+    locks: [
+      { key: "logo", label: "Logo" },
+      { key: "ui", label: "Buttons" },
+    ],
+  },
+];
+
 // ============================================
 // PRESET CARDS
 // ============================================
@@ -333,6 +363,8 @@ const GlobalControls = React.memo(() => {
   const shuffleTypography = useBrandStore((s) => s.shuffleTypography);
   const loadPreset = useBrandStore((s) => s.loadPreset);
   const activePreset = useBrandStore((s) => s.activePreset);
+  const locks = useBrandStore((s) => s.locks);
+  const toggleLock = useBrandStore((s) => s.toggleLock);
   const [typoTarget, setTypoTarget] = React.useState<"headline" | "body">("headline");
   const [typoAdvanced, setTypoAdvanced] = React.useState(false);
   const isHeadline = typoTarget === "headline";
@@ -479,6 +511,34 @@ const GlobalControls = React.memo(() => {
         <ColorPalettePanel />
       </Section>
 
+      {/* Shuffle Locks */}
+      <Section
+        title="Shuffle Locks"
+        defaultOpen={false}
+        badge={locks.length > 0 ? String(locks.length) : null}
+      >
+        {LOCK_ROWS.map((row) => (
+          <div key={row.label} className="flex items-start gap-3">
+            <span
+              className="text-12 min-w-[72px] flex-shrink-0"
+              style={{ color: "var(--sidebar-text-secondary)", lineHeight: "24px" }}
+            >
+              {row.label}
+            </span>
+            <div className="flex-1 flex flex-wrap gap-1">
+              {row.locks.map((lock) => (
+                <LockToggle
+                  key={lock.key}
+                  label={lock.label}
+                  locked={locks.includes(lock.key)}
+                  onToggle={() => toggleLock(lock.key)}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </Section>
+
       {/* Image Collections */}
       <ImageCollections />
 
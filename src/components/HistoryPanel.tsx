@@ -0,0 +1,286 @@
+/**
+ * History Panel
+ *
+ * Toolbar dropdown with the undo timeline and named checkpoints.
+ *
+ * ## Features
+ *
+ * - Every undo step, newest first, with its label and time
+ * - Click a step to jump to it; later steps stay available to redo
+ * - Named checkpoints per board that survive reloads; restoring one is
+ *   itself an undo step
+ * - Click-outside / Escape to close
+ *
+ * @component
+ * @example
+ * <HistoryPanel />
+ */
+import { useState, useRef, useEffect } from 'react';
+import {
+  RiHistoryLine as HistoryIcon,
+  RiBookmarkLine as Bookmark,
+  RiArrowGoBackLine as Restore,
+  RiDeleteBinLine as Trash,
+} from 'react-icons/ri';
+import { motion, AnimatePresence } from 'motion/react';
+import toast from 'react-hot-toast';
+import { useShallow } from 'zustand/react/shallow';
+import { useBrandStore } from '../store/useBrandStore';
+import { useCheckpointStore, type Checkpoint } from '../store/useCheckpointStore';
+import { useWorkspaceStore } from '../store/useWorkspaceStore';
+
+const EASE_CURVE: [number, number, number, number] = [0.4, 0, 0.2, 1];
+const TRANSITION_FAST = { duration: 0.1, ease: EASE_CURVE };
+
+const formatTime = (timestamp: number): string =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' });
+
+const formatDate = (timestamp: number): string =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const SectionTitle = ({ children }: { children: React.ReactNode }) => (
+  <div
+    className="text-11 font-medium"
+    style={{ color: 'var(--sidebar-text)', padding: 'var(--space-2) var(--space-3) var(--space-1)' }}
+  >
+    {children}
+  </div>
+);
+
+interface CheckpointRowProps {
+  checkpoint: Checkpoint;
+  onRestore: () => void;
+  onDelete: () => void;
+}
+
+/** One saved checkpoint: name, date, restore and delete. */
+function CheckpointRow({ checkpoint, onRestore, onDelete }: CheckpointRowProps) {
+  return (
+    <div
+      className="group flex items-center rounded-md transition-fast"
+      style={{ gap: 'var(--space-2)', padding: 'var(--space-1-5) var(--space-3)' }}
+    >
+      <Bookmark size={12} className="flex-shrink-0" style={{ color: 'var(--sidebar-text-muted)' }} />
+      <div className="flex-1 min-w-0">
+        <span className="block text-11 font-medium truncate" style={{ color: 'var(--sidebar-text)' }}>
+          {checkpoint.name}
+        </span>
+        <span className="block text-10" style={{ color: 'var(--sidebar-text-muted)' }}>
+          {formatDate(checkpoint.createdAt)}
+        </span>
+      </div>
+      <div className="flex items-center opacity-0 group-hover:opacity-100 transition-fast" style={{ gap: 2 }}>
+        {[
+          { icon: Restore, label: 'Restore', action: onRestore },
+          { icon: Trash, label: 'Delete', action: onDelete },
+        ].map(({ icon: Icon, label, action }) => (
+          <button
+            key={label}
+            type="button"
+            onClick={action}
+            aria-label={`${label} ${checkpoint.name}`}
+            title={label}
+            className="flex items-center justify-center rounded transition-fast"
+            style={{ width: 22, height: 22, color: 'var(--sidebar-text-muted)' }}
+            onMouseEnter={(e) => (e.currentTarget.style.background = 'var(--sidebar-bg-hover)')}
+            onMouseLeave={(e) => (e.currentTarget.style.background = 'transparent')}
+          >
+            <Icon size={12} />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Undo timeline and checkpoint dropdown.
+ * Checkpoints shown are the active board's.
+ */
+export function HistoryPanel() {
+  const [isOpen, setIsOpen] = useState(false);
+  const [checkpointName, setCheckpointName] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const history = useBrandStore((s) => s.history);
+  const jumpToHistory = useBrandStore((s) => s.jumpToHistory);
+  const boardId = useWorkspaceStore((s) => (s.isReady ? s.activeBoardId : null));
+  const checkpoints = useCheckpointStore(
+    useShallow((s) => s.checkpoints.filter((c) => c.boardId === boardId))
+  );
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setIsOpen(false);
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    document.addEventListener('keydown', handleEscape);
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside);
+      document.removeEventListener('keydown', handleEscape);
+    };
+  }, []);
+
+  // Newest first; `position` is how many steps are applied at that point
+  const current = history.past.length;
+  const steps = [
+    ...history.future.map((entry, i) => ({ entry, position: current + i + 1 })).reverse(),
+    ...history.past.map((entry, i) => ({ entry, position: i + 1 })).reverse(),
+  ];
+
+  const { saveCheckpoint, restoreCheckpoint, deleteCheckpoint } = useCheckpointStore.getState();
+
+  const handleSave = () => {
+    if (!checkpointName.trim()) return;
+    saveCheckpoint(checkpointName, boardId)
+      .then(() => {
+        setCheckpointName('');
+        toast.success('Checkpoint saved');
+      })
+      .catch((error) => {
+        console.error('Could not save checkpoint', error);
+        toast.error('Could not save checkpoint');
+      });
+  };
+
+  const handleDelete = (checkpoint: Checkpoint) => {
+    const confirmed = window.confirm(`Delete checkpoint "${checkpoint.name}"? This cannot be undone.`);
+    if (!confirmed) return;
+    deleteCheckpoint(checkpoint.id).catch((error) => {
+      console.error('Could not delete checkpoint', error);
+      toast.error('Could not delete checkpoint');
+    });
+  };
+
+  const renderStep = (label: string, position: number, at?: number) => {
+    const isCurrent = position === current;
+    const isUndone = position > current;
+    return (
+      <button
+        key={position}
+        type="button"
+        onClick={() => jumpToHistory(position)}
+        aria-current={isCurrent ? 'step' : undefined}
+        className="w-full flex items-center text-left transition-fast"
+        style={{
+          gap: 'var(--space-2)',
+          padding: 'var(--space-1-5) var(--space-3)',
+          background: isCurrent ? 'var(--accent-muted)' : 'transparent',
+          color: isCurrent ? 'var(--accent)' : 'var(--sidebar-text)',
+          opacity: isUndone ? 0.5 : 1,
+        }}
+      >
+        <span className="text-11 flex-1 truncate">{label}</span>
+        {at !== undefined && (
+          <span className="text-10" style={{ color: 'var(--sidebar-text-muted)' }}>
+            {formatTime(at)}
+          </span>
+        )}
+      </button>
+    );
+  };
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <motion.button
+        onClick={() => setIsOpen(!isOpen)}
+        className="icon-btn"
+        style={{
+          background: isOpen ? 'var(--accent-muted)' : 'transparent',
+          color: isOpen ? 'var(--accent)' : 'var(--sidebar-text-secondary)',
+        }}
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        transition={TRANSITION_FAST}
+        aria-label="History"
+        aria-expanded={isOpen}
+      >
+        <HistoryIcon size={16} />
+      </motion.button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={TRANSITION_FAST}
+            className="absolute top-full left-1/2 -translate-x-1/2 rounded-lg z-50 w-[280px]"
+            style={{
+              marginTop: 'var(--space-1)',
+              paddingBlock: 'var(--space-1)',
+              background: 'var(--sidebar-bg-elevated)',
+              border: '1px solid var(--sidebar-border)',
+              boxShadow: 'var(--shadow-xl)',
+            }}
+          >
+            <SectionTitle>History</SectionTitle>
+            <div className="overflow-y-auto" style={{ maxHeight: 260 }}>
+              {steps.map(({ entry, position }) => renderStep(entry.label, position, entry.at))}
+              {renderStep('Start of history', 0)}
+            </div>
+
+            {/* Checkpoints */}
+            <div style={{ marginTop: 'var(--space-1)', borderTop: '1px solid var(--sidebar-border-subtle)' }}>
+              <SectionTitle>Checkpoints</SectionTitle>
+              <form
+                className="flex items-center"
+                style={{ gap: 'var(--space-1)', padding: '0 var(--space-3) var(--space-1)' }}
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  handleSave();
+                }}
+              >
+                <input
+                  value={checkpointName}
+                  onChange={(e) => setCheckpointName(e.target.value)}
+                  placeholder="Name this point"
+                  aria-label="Checkpoint name"
+                  className="flex-1 min-w-0 text-11 rounded"
+                  style={{
+                    padding: 'var(--space-1) var(--space-2)',
+                    background: 'var(--sidebar-bg)',
+                    border: '1px solid var(--sidebar-border)',
+                    color: 'var(--sidebar-text)',
+                  }}
+                />
+                <button
+                  type="submit"
+                  disabled={!checkpointName.trim()}
+                  className="btn-figma btn-figma-ghost"
+                  style={{ opacity: checkpointName.trim() ? 1 : 0.4 }}
+                >
+                  Save
+                </button>
+              </form>
+              {checkpoints.length === 0 ? (
+                <div className="text-11" style={{ color: 'var(--sidebar-text-muted)', padding: 'var(--space-1) var(--space-3) var(--space-2)' }}>
+                  Checkpoints stay after reloads and when history is cleared.
+                </div>
+              ) : (
+                <div className="overflow-y-auto" style={{ maxHeight: 180 }}>
+                  {[...checkpoints].reverse().map((checkpoint) => (
+                    <CheckpointRow
+                      key={checkpoint.id}
+                      checkpoint={checkpoint}
+                      onRestore={() => {
+                        restoreCheckpoint(checkpoint.id);
+                        toast.success(`Restored "${checkpoint.name}"`);
+                      }}
+                      onDelete={() => handleDelete(checkpoint)}
+                    />
+                  ))}
+                </div>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
@@ -0,0 +1,468 @@
+/**
+ * Variations Grid
+ *
+ * Generates a set of candidate brands (palette, font pairing and button
+ * style) with the same weighting and locks as Shuffle, and shows each one
+ * as a miniature of the current board: same layout preset, swaps and tile
+ * set, drawn with simplified tiles so many candidates fit on screen.
+ *
+ * Candidates can be starred (kept when regenerating), applied to the canvas
+ * as one undoable step, or mixed — colors, type and buttons can each be
+ * taken from a different candidate.
+ *
+ * @component
+ * @example
+ * <VariationsGrid open={open} onClose={() => setOpen(false)} />
+ */
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { motion, AnimatePresence } from 'motion/react';
+import toast from 'react-hot-toast';
+import { useShallow } from 'zustand/react/shallow';
+import {
+  RiCloseLine as Close,
+  RiRefreshLine as Refresh,
+  RiStarFill as StarFill,
+  RiStarLine as Star,
+} from 'react-icons/ri';
+import {
+  useBrandStore,
+  generateBrandVariations,
+  mixBrandVariations,
+  type Brand,
+  type BrandVariation,
+  type TileContent,
+  type VariationPart,
+} from '@/store/useBrandStore';
+import { useLayoutStore, CANVAS_RATIOS, selectLayoutConfig } from '@/store/useLayoutStore';
+import { getPlacementTileId, getPlacementTileType, resolveSwappedId } from '@/config/placements';
+import { useGoogleFonts } from '@/hooks/useGoogleFonts';
+import { getAdaptiveTextColor } from '@/utils/color';
+import { COLOR_DEFAULTS } from '@/utils/colorDefaults';
+import { getButtonStyleColors } from '@/utils/buttons';
+import { getImageFilter } from '@/utils/imagery';
+import { getFontCategory } from '@/utils/typography';
+import { resolveSurfaceColor } from '@/utils/surface';
+
+const EASE_CURVE: [number, number, number, number] = [0.4, 0, 0.2, 1];
+
+const COUNTS = [4, 6, 9];
+
+const MIX_PARTS: { key: VariationPart; label: string }[] = [
+  { key: 'colors', label: 'Colors' },
+  { key: 'typography', label: 'Type' },
+  { key: 'ui', label: 'Buttons' },
+];
+
+/** Tile types whose surface defaults to something other than surfaces[1] */
+const SURFACE_DEFAULTS: Record<string, number> = {
+  'business-card': 0,
+  'color-blocks': 0,
+  'split-hero': 0,
+  icons: 0,
+  pattern: 0,
+  specimen: 0,
+  stats: 0,
+  swatch: 0,
+  messaging: 2,
+};
+
+const IMAGE_TYPES = new Set(['hero', 'social', 'story', 'card', 'product', 'split-hero']);
+const LOGO_TYPES = new Set(['logo', 'logo-symbol', 'app-icon', 'business-card']);
+const COLOR_TYPES = new Set(['swatch', 'colors', 'color-blocks']);
+
+interface VariationsGridProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+interface MiniTileProps {
+  type: string | undefined;
+  brand: Brand;
+  surface: string;
+  content: TileContent;
+  headlineFont: string;
+  bodyFont: string;
+}
+
+/** Simplified tile: enough to judge color, type and button style at a glance. */
+const MiniTile = ({ type, brand, surface, content, headlineFont, bodyFont }: MiniTileProps) => {
+  const { colors, typography, logo, imagery, ui } = brand;
+  const textColor = getAdaptiveTextColor(surface, COLOR_DEFAULTS.TEXT_DARK, COLOR_DEFAULTS.TEXT_LIGHT);
+  const headlineWeight = parseInt(typography.weightHeadline) || 700;
+
+  if (type && IMAGE_TYPES.has(type) && content.image) {
+    return (
+      <div className="relative h-full w-full" style={{ backgroundColor: surface }}>
+        <img
+          src={content.image}
+          alt=""
+          className="absolute inset-0 h-full w-full object-cover"
+          style={{ filter: getImageFilter(imagery.style, imagery.overlay) }}
+        />
+        {type === 'hero' && (
+          <span
+            className="absolute left-2 bottom-1.5 right-2 truncate"
+            style={{ fontFamily: headlineFont, fontWeight: headlineWeight, fontSize: 11, color: COLOR_DEFAULTS.TEXT_LIGHT }}
+          >
+            {content.headline || 'Headline'}
+          </span>
+        )}
+      </div>
+    );
+  }
+
+  if (type && LOGO_TYPES.has(type)) {
+    const logoBg = logo.bgColor || colors.primary;
+    return (
+      <div className="h-full w-full flex items-center justify-center" style={{ backgroundColor: logoBg }}>
+        <span
+          className="truncate px-1"
+          style={{
+            fontFamily: logo.fontFamily ? `"${logo.fontFamily}", ${headlineFont}` : headlineFont,
+            fontWeight: logo.fontWeight ?? headlineWeight,
+            fontSize: 10,
+            color: logo.color || getAdaptiveTextColor(logoBg, COLOR_DEFAULTS.TEXT_DARK, COLOR_DEFAULTS.WHITE),
+          }}
+        >
+          {logo.text}
+        </span>
+      </div>
+    );
+  }
+
+  if (type && COLOR_TYPES.has(type)) {
+    const swatches = [colors.primary, colors.accent, ...colors.surfaces.slice(0, 3), colors.text];
+    return (
+      <div className="h-full w-full flex">
+        {swatches.map((color, i) => (
+          <div key={i} className="flex-1" style={{ backgroundColor: color }} />
+        ))}
+      </div>
+    );
+  }
+
+  if (type === 'ui-preview') {
+    const button = getButtonStyleColors(ui.buttonStyle, ui.buttonColor || colors.primary);
+    return (
+      <div className="h-full w-full flex items-center justify-center" style={{ backgroundColor: surface }}>
+        <span
+          style={{
+            ...button,
+            fontFamily: bodyFont,
+            fontSize: 8,
+            fontWeight: ui.buttonWeight,
+            padding: '3px 8px',
+            borderRadius: Math.min(ui.buttonRadius, 12) / 2,
+          }}
+        >
+          {content.buttonLabel || 'Button'}
+        </span>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="h-full w-full flex flex-col justify-end overflow-hidden"
+      style={{ backgroundColor: surface, padding: 6, gap: 3 }}
+    >
+      <span style={{ fontFamily: headlineFont, fontWeight: headlineWeight, fontSize: 13, lineHeight: 1, color: textColor }}>
+        Aa
+      </span>
+      <span className="block rounded-full" style={{ height: 2, width: '80%', backgroundColor: textColor, opacity: 0.35 }} />
+      <span className="block rounded-full" style={{ height: 2, width: '55%', backgroundColor: textColor, opacity: 0.35 }} />
+    </div>
+  );
+};
+
+/** The current layout and tile set, drawn in a variation's brand. */
+const MiniBoard = ({ brand }: { brand: Brand }) => {
+  const { tiles, tileSurfaces, placementContent } = useBrandStore(
+    useShallow((s) => ({ tiles: s.tiles, tileSurfaces: s.tileSurfaces, placementContent: s.placementContent }))
+  );
+  const { config, placementSwaps, canvasRatio } = useLayoutStore(
+    useShallow((s) => ({ config: selectLayoutConfig(s, 'desktop'), placementSwaps: s.placementSwaps, canvasRatio: s.canvasRatio }))
+  );
+  const headline = useGoogleFonts(brand.typography.primary, getFontCategory(brand.typography.primary));
+  const body = useGoogleFonts(brand.typography.secondary, getFontCategory(brand.typography.secondary));
+
+  const aspect = CANVAS_RATIOS.find((r) => r.key === canvasRatio)?.value ?? 16 / 10;
+
+  return (
+    <div
+      className="w-full grid overflow-hidden rounded-lg"
+      style={{
+        aspectRatio: `${aspect}`,
+        gridTemplateColumns: `repeat(${config.columns}, 1fr)`,
+        gridTemplateRows: `repeat(${config.rows}, 1fr)`,
+        gap: 3,
+        padding: 3,
+        backgroundColor: brand.colors.bg,
+      }}
+    >
+      {config.placements.map((placement) => {
+        const effectiveId = resolveSwappedId(placement.id, placementSwaps);
+        const tileId = getPlacementTileId(effectiveId);
+        const tile = tiles.find((t) => t.id === tileId)
+          ?? tiles.find((t) => t.type === getPlacementTileType(effectiveId));
+        const type = tile?.type ?? getPlacementTileType(effectiveId);
+        const surface = resolveSurfaceColor({
+          placementId: placement.id,
+          tileSurfaceIndex: tileSurfaces[placement.id],
+          surfaces: brand.colors.surfaces,
+          bg: brand.colors.bg,
+          defaultIndex: type ? SURFACE_DEFAULTS[type] ?? 1 : 1,
+          colors: brand.colors,
+        });
+
+        return (
+          <div
+            key={placement.id}
+            className="min-h-0 min-w-0 overflow-hidden rounded-[3px]"
+            style={{
+              gridColumn: `${placement.colStart} / span ${placement.colSpan}`,
+              gridRow: `${placement.rowStart} / span ${placement.rowSpan}`,
+            }}
+          >
+            <MiniTile
+              type={type}
+              brand={brand}
+              surface={surface}
+              content={{ ...tile?.content, ...placementContent[placement.id] }}
+              headlineFont={headline.fontFamily}
+              bodyFont={body.fontFamily}
+            />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const Chip = ({ active, label, onClick }: { active: boolean; label: string; onClick: () => void }) => (
+  <button
+    type="button"
+    className="rounded-md text-11 font-medium transition-fast"
+    aria-pressed={active}
+    style={{
+      padding: '2px 6px',
+      backgroundColor: active ? 'var(--accent-muted)' : 'var(--sidebar-bg-hover)',
+      color: active ? 'var(--accent)' : 'var(--sidebar-text-muted)',
+    }}
+    onClick={onClick}
+  >
+    {label}
+  </button>
+);
+
+/** Dialog body; mounted while open, so each opening starts from the current brand. */
+const VariationsDialog = ({ onClose }: { onClose: () => void }) => {
+  const applyVariation = useBrandStore((s) => s.applyVariation);
+  const currentBrand = useBrandStore((s) => s.brand);
+  const [count, setCount] = useState(6);
+  const [variations, setVariations] = useState<BrandVariation[]>(() => {
+    const { brand, locks } = useBrandStore.getState();
+    return generateBrandVariations(brand, locks, 6);
+  });
+  const [starred, setStarred] = useState<string[]>([]);
+  const [mixSources, setMixSources] = useState<Partial<Record<VariationPart, string>>>({});
+
+  // Starred variations survive; the rest are replaced with fresh seeds
+  const regenerate = (nextCount: number) => {
+    const { brand, locks } = useBrandStore.getState();
+    const kept = variations.filter((v) => v.seed && starred.includes(v.seed)).slice(0, nextCount);
+    const keptSeeds = kept.map((v) => v.seed);
+    setVariations([...kept, ...generateBrandVariations(brand, locks, nextCount - kept.length)]);
+    setMixSources((prev) =>
+      Object.fromEntries(Object.entries(prev).filter(([, seed]) => keptSeeds.includes(seed)))
+    );
+  };
+
+  const toggleStar = (seed: string) =>
+    setStarred((prev) => (prev.includes(seed) ? prev.filter((s) => s !== seed) : [...prev, seed]));
+
+  const toggleMixSource = (part: VariationPart, seed: string) =>
+    setMixSources((prev) => ({ ...prev, [part]: prev[part] === seed ? undefined : seed }));
+
+  const findBrand = (seed?: string) => variations.find((v) => v.seed === seed)?.brand;
+  const mixParts = MIX_PARTS.filter((part) => mixSources[part.key]);
+  // Parts without a picked source stay as they are on the canvas
+  const mixedBrand = mixParts.length > 0
+    ? mixBrandVariations({
+        colors: findBrand(mixSources.colors) ?? currentBrand,
+        typography: findBrand(mixSources.typography) ?? currentBrand,
+        ui: findBrand(mixSources.ui) ?? currentBrand,
+      })
+    : null;
+
+  const handleApply = (variation: BrandVariation) => {
+    applyVariation(variation);
+    toast.success('Variation applied');
+    onClose();
+  };
+
+  return (
+    <>
+    <div
+      className="flex items-center justify-between px-5 py-3 shrink-0"
+      style={{ borderBottom: '1px solid var(--sidebar-border)' }}
+    >
+      <span className="text-13 font-semibold" style={{ color: 'var(--sidebar-text)' }}>
+        Variations
+      </span>
+      <div className="flex items-center" style={{ gap: 'var(--space-2)' }}>
+        {COUNTS.map((n) => (
+          <Chip
+            key={n}
+            label={String(n)}
+            active={count === n}
+            onClick={() => {
+              setCount(n);
+              regenerate(n);
+            }}
+          />
+        ))}
+        <button type="button" className="btn-figma btn-figma-ghost" onClick={() => regenerate(count)}>
+          <Refresh size={13} />
+          <span>Regenerate</span>
+        </button>
+        <button type="button" className="icon-btn" aria-label="Close" onClick={onClose}>
+          <Close size={16} />
+        </button>
+      </div>
+    </div>
+
+    <div className="overflow-auto px-5 py-4">
+      <div
+        className="grid"
+        style={{ gridTemplateColumns: `repeat(${count === 4 ? 2 : 3}, minmax(0, 1fr))`, gap: 'var(--space-4)' }}
+      >
+        {variations.map((variation) => {
+          const seed = variation.seed ?? '';
+          const isStarred = starred.includes(seed);
+          return (
+            <div key={seed} className="flex flex-col" style={{ gap: 'var(--space-2)' }}>
+              <MiniBoard brand={variation.brand} />
+              <div className="flex items-center justify-between" style={{ gap: 'var(--space-2)' }}>
+                <div className="flex items-center min-w-0" style={{ gap: 'var(--space-1)' }}>
+                  <button
+                    type="button"
+                    className="icon-btn"
+                    aria-label={isStarred ? 'Unstar variation' : 'Star variation'}
+                    aria-pressed={isStarred}
+                    style={{ color: isStarred ? 'var(--accent)' : 'var(--sidebar-text-muted)' }}
+                    onClick={() => toggleStar(seed)}
+                  >
+                    {isStarred ? <StarFill size={14} /> : <Star size={14} />}
+                  </button>
+                  <span className="text-11 truncate" style={{ color: 'var(--sidebar-text-secondary)' }}>
+                    {variation.brand.typography.primary} / {variation.brand.typography.secondary}
+                  </span>
+                </div>
+                <button
+                  type="button"
+                  className="btn-figma btn-figma-accent shrink-0"
+                  onClick={() => handleApply(variation)}
+                >
+                  Use
+                </button>
+              </div>
+              <div className="flex items-center" style={{ gap: 'var(--space-1)' }}>
+                <span className="text-11" style={{ color: 'var(--sidebar-text-muted)', fontFamily: 'var(--font-mono)' }}>
+                  {seed}
+                </span>
+                <span className="flex-1" />
+                {MIX_PARTS.map((part) => (
+                  <Chip
+                    key={part.key}
+                    label={part.label}
+                    active={mixSources[part.key] === seed}
+                    onClick={() => toggleMixSource(part.key, seed)}
+                  />
+                ))}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+
+    <div
+      className="flex items-center justify-between px-5 py-3 shrink-0"
+      style={{ borderTop: '1px solid var(--sidebar-border)', gap: 'var(--space-4)' }}
+    >
+      {mixedBrand ? (
+        <>
+          <div className="flex items-center min-w-0" style={{ gap: 'var(--space-3)' }}>
+            <div className="shrink-0" style={{ width: 160 }}>
+              <MiniBoard brand={mixedBrand} />
+            </div>
+            <span className="text-11" style={{ color: 'var(--sidebar-text-secondary)' }}>
+              {mixParts.map((part) => `${part.label} from ${mixSources[part.key]}`).join(' · ')}
+            </span>
+          </div>
+          <button
+            type="button"
+            className="btn-figma btn-figma-accent shrink-0"
+            onClick={() => handleApply({ seed: null, brand: mixedBrand })}
+          >
+            Use mix
+          </button>
+        </>
+      ) : (
+        <span className="text-11" style={{ color: 'var(--sidebar-text-muted)' }}>
+          Pick Colors, Type or Buttons from different variations to mix them. Starred variations are kept when regenerating.
+        </span>
+      )}
+    </div>
+    </>
+  );
+};
+
+export function VariationsGrid({ open, onClose }: VariationsGridProps) {
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', handler);
+    return () => document.removeEventListener('keydown', handler);
+  }, [open, onClose]);
+
+  return createPortal(
+    <AnimatePresence>
+      {open && (
+        <motion.div
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          transition={{ duration: 0.2 }}
+          className="fixed inset-0 flex items-center justify-center p-6"
+          style={{ zIndex: 9999, background: 'rgba(0, 0, 0, 0.6)', backdropFilter: 'blur(8px)' }}
+          onClick={onClose}
+          data-export-exclude="true"
+        >
+          <motion.div
+            initial={{ opacity: 0, scale: 0.96, y: 8 }}
+            animate={{ opacity: 1, scale: 1, y: 0 }}
+            exit={{ opacity: 0, scale: 0.96, y: 8 }}
+            transition={{ duration: 0.2, ease: EASE_CURVE }}
+            role="dialog"
+            aria-label="Variations"
+            className="w-full max-w-[1080px] max-h-full rounded-2xl overflow-hidden flex flex-col"
+            style={{
+              background: 'var(--sidebar-bg)',
+              border: '1px solid var(--sidebar-border)',
+              boxShadow: '0 24px 48px rgba(0, 0, 0, 0.4)',
+            }}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <VariationsDialog onClose={onClose} />
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>,
+    document.body,
+  );
+}
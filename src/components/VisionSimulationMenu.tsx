@@ -0,0 +1,160 @@
+/**
+ * Vision Simulation Menu
+ *
+ * Toolbar dropdown for previewing the canvas under color vision
+ * deficiencies and low contrast sensitivity, with a palette report of
+ * role pairs that become indistinguishable in each mode.
+ *
+ * ## Features
+ *
+ * - Six modes: normal, protanopia, deuteranopia, tritanopia,
+ *   achromatopsia, low contrast
+ * - Button highlights while a simulation is active
+ * - Report lists each collapsing pair with its simulated swatches
+ * - Click-outside to close
+ *
+ * @component
+ * @example
+ * <VisionSimulationMenu />
+ */
+import { useState, useRef, useEffect, useMemo } from 'react';
+import { RiEyeFill as Eye, RiCheckFill as Check } from 'react-icons/ri';
+import { motion, AnimatePresence } from 'motion/react';
+import { useBrandStore } from '../store/useBrandStore';
+import { useLayoutStore } from '../store/useLayoutStore';
+import { VISION_MODES, buildVisionReport } from '../utils/visionSimulation';
+
+const EASE_CURVE: [number, number, number, number] = [0.4, 0, 0.2, 1];
+const TRANSITION_FAST = { duration: 0.1, ease: EASE_CURVE };
+
+const MODE_LABELS = Object.fromEntries(VISION_MODES.map((m) => [m.key, m.label]));
+
+const Swatch = ({ color }: { color: string }) => (
+  <span
+    className="inline-block w-3 h-3 rounded-[3px] shrink-0"
+    style={{ backgroundColor: color, boxShadow: 'inset 0 0 0 1px rgba(0,0,0,0.1)' }}
+    title={color}
+  />
+);
+
+/**
+ * Vision simulation dropdown.
+ * Mode changes only affect the on-screen canvas, never exports.
+ */
+export function VisionSimulationMenu() {
+  const visionMode = useLayoutStore((s) => s.visionMode);
+  const setVisionMode = useLayoutStore((s) => s.setVisionMode);
+  const colors = useBrandStore((s) => s.brand.colors);
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  const report = useMemo(() => (isOpen ? buildVisionReport(colors) : []), [isOpen, colors]);
+  const isActive = visionMode !== 'none';
+
+  useEffect(() => {
+    const handleClickOutside = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <motion.button
+        onClick={() => setIsOpen(!isOpen)}
+        className="icon-btn"
+        style={{
+          background: isOpen || isActive ? 'var(--accent-muted)' : 'transparent',
+          color: isOpen || isActive ? 'var(--accent)' : 'var(--sidebar-text-secondary)',
+        }}
+        whileHover={{ scale: 1.05 }}
+        whileTap={{ scale: 0.95 }}
+        transition={TRANSITION_FAST}
+        aria-label="Vision simulation"
+        aria-expanded={isOpen}
+      >
+        <Eye size={16} />
+      </motion.button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -4 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -4 }}
+            transition={TRANSITION_FAST}
+            className="absolute top-full left-1/2 -translate-x-1/2 rounded-lg z-50 w-[280px]"
+            style={{
+              marginTop: 'var(--space-1)',
+              paddingBlock: 'var(--space-1)',
+              background: 'var(--sidebar-bg-elevated)',
+              border: '1px solid var(--sidebar-border)',
+              boxShadow: 'var(--shadow-xl)',
+            }}
+          >
+            {VISION_MODES.map((option) => {
+              const isSelected = visionMode === option.key;
+              return (
+                <button
+                  key={option.key}
+                  onClick={() => setVisionMode(option.key)}
+                  className="w-full flex items-center text-left transition-fast"
+                  style={{
+                    padding: 'var(--space-2) var(--space-3)',
+                    gap: 'var(--space-2)',
+                    background: isSelected ? 'var(--accent-muted)' : 'transparent',
+                    color: isSelected ? 'var(--accent)' : 'var(--sidebar-text)',
+                  }}
+                >
+                  <span className="text-11 flex-1">{option.label}</span>
+                  <span className="text-11" style={{ color: 'var(--sidebar-text-muted)' }}>
+                    {option.description}
+                  </span>
+                  {isSelected && <Check size={14} />}
+                </button>
+              );
+            })}
+
+            {/* Palette report */}
+            <div
+              style={{
+                marginTop: 'var(--space-1)',
+                padding: 'var(--space-2) var(--space-3)',
+                borderTop: '1px solid var(--sidebar-border-subtle)',
+              }}
+            >
+              <div className="text-11 font-medium" style={{ color: 'var(--sidebar-text)', marginBottom: 'var(--space-1)' }}>
+                Palette report
+              </div>
+              {report.length === 0 ? (
+                <div className="text-11" style={{ color: 'var(--sidebar-text-muted)' }}>
+                  All role pairs stay distinguishable in every mode.
+                </div>
+              ) : (
+                <ul className="flex flex-col" style={{ gap: 'var(--space-1)' }}>
+                  {report.map((result) => (
+                    <li
+                      key={`${result.mode}-${result.label}`}
+                      className="flex items-center text-11"
+                      style={{ gap: 'var(--space-2)', color: 'var(--sidebar-text-secondary)' }}
+                    >
+                      <span className="flex shrink-0" style={{ gap: 2 }}>
+                        <Swatch color={result.simulatedA} />
+                        <Swatch color={result.simulatedB} />
+                      </span>
+                      <span className="flex-1 truncate">{result.label}</span>
+                      <span style={{ color: 'var(--sidebar-text-muted)' }}>{MODE_LABELS[result.mode]}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+}
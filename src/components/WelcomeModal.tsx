@@ -2,7 +2,8 @@ import { memo, useEffect, useCallback, useState } from 'react';
 import { createPortal } from 'react-dom';
 import { motion, AnimatePresence } from 'motion/react';
 import { RiArrowRightSLine as ChevronRight, RiArrowLeftSLine as ChevronLeft, RiSparklingFill as Sparkles, RiPaletteFill as Palette, RiDownloadFill as Download } from 'react-icons/ri';
-import { useBrandStore } from '@/store/useBrandStore';
+import { useBrandStore, selectHistorySize } from '@/store/useBrandStore';
+import { confirmHistoryLoss } from '@/utils/historyWarning';
 
 const EASE_CURVE: [number, number, number, number] = [0.4, 0, 0.2, 1];
 
@@ -40,6 +41,8 @@ export const WelcomeModal = memo(({ open, onClose }: WelcomeModalProps) => {
 
   const handleFinish = useCallback(() => {
     if (selectedTemplate === 'random') {
+      // Templates replace the board without an undo step
+      if (!confirmHistoryLoss(selectHistorySize(useBrandStore.getState()), 'Loading a template')) return;
       loadRandomTemplate();
     }
     localStorage.setItem('brandbento-onboarding-complete', 'true');
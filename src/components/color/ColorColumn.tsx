@@ -5,7 +5,8 @@
  * Shows a PreviewCard at top + 5 color role rows below it.
  * All rows are editable via inline picker. Auto-derivable rows
  * (TONE, TEXT, TEXT-CTA) show "Auto" when not overridden and
- * a reset icon when the user has set a custom value.
+ * a reset icon when the user has set a custom value. The column's
+ * 50–950 ramp sits under the contrast row.
  */
 import { memo, useState, useRef, useEffect, useCallback } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
@@ -14,7 +15,9 @@ import { HexColorPicker } from 'react-colorful';
 import { isValidHex } from '@/utils/colorDefaults';
 import type { ColumnRoles, ColumnRoleOverrides } from '@/utils/colorMapping';
 import type { Colors } from '@/store/useBrandStore';
+import type { ColorRamp } from '@/utils/colorRamps';
 import { PreviewCard } from './PreviewCard';
+import { RampStrip } from './RampStrip';
 
 interface ColorColumnProps {
   variant: 'primary' | 'surface' | 'accent';
@@ -22,6 +25,8 @@ interface ColorColumnProps {
   roles: ColumnRoles;
   overrides?: ColumnRoleOverrides;
   paletteColors: string[];
+  /** 50–950 ramp of the column's background color */
+  ramp?: ColorRamp;
   onBackgroundChange: (hex: string) => void;
   onToneChange: (hex: string) => void;
   onTextChange: (hex: string) => void;
@@ -38,6 +43,7 @@ export const ColorColumn = memo(({
   roles,
   overrides,
   paletteColors,
+  ramp,
   onBackgroundChange,
   onToneChange,
   onTextChange,
@@ -318,6 +324,19 @@ export const ColorColumn = memo(({
           {passesAA ? 'AA' : 'LOW'} {roles.contrastRatio.toFixed(1)}:1
         </span>
       </div>
+
+      {/* Ramp row */}
+      {ramp && (
+        <div className="flex items-center gap-2 px-2 py-1.5">
+          <span
+            className="text-[9px] font-semibold uppercase tracking-[0.08em] w-[68px] text-left shrink-0"
+            style={{ color: 'var(--sidebar-text-muted)' }}
+          >
+            Ramp
+          </span>
+          <RampStrip ramp={ramp} label={variant.charAt(0).toUpperCase() + variant.slice(1)} />
+        </div>
+      )}
     </div>
   );
 });
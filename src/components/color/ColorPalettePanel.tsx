@@ -4,39 +4,65 @@
  * Top-level color section with two modes:
  * - Curated: browse pre-built palettes filtered by style (inline in sidebar)
  * - Custom: opens a modal for editing individual brand color roles
- * - Import: paste CSS from Coolors or hex values
+ * - Harmony: generate palettes from one seed color
+ * - Import: paste or drop palettes (Coolors, CSS colors, Tailwind, tokens JSON,
+ *   .gpl, .ase, Procreate .swatches)
  */
-import { memo, useState, useMemo, useCallback } from 'react';
-import { RiEqualizerFill as Sliders, RiClipboardLine } from 'react-icons/ri';
+import { memo, useState, useMemo, useCallback, useRef } from 'react';
+import { RiEqualizerFill as Sliders, RiClipboardLine, RiLockFill as Lock, RiShieldCheckLine, RiImageLine, RiFileUploadLine, RiColorFilterLine } from 'react-icons/ri';
 import { useBrandStore } from '@/store/useBrandStore';
 import { getContrastRatio } from '@/utils/colorMapping';
 import { type PaletteStyle } from '@/utils/paletteStyleClassifier';
-import { parsePaletteInput } from '@/utils/parsePaletteInput';
+import { parsePaletteInput, type ParseResult, type ParsedColor } from '@/utils/parsePaletteInput';
+import { parsePaletteFile } from '@/utils/paletteFiles';
 import { PaletteStyleFilter } from './PaletteStyleFilter';
 import { PaletteGrid } from './PaletteGrid';
 import { CustomColorModal } from './CustomColorModal';
+import { ContrastAuditPanel } from './ContrastAuditPanel';
+import { ImagePalettePanel } from './ImagePalettePanel';
+import { HarmonyPanel } from './HarmonyPanel';
 
 const ROLE_PREVIEW = [
-  { key: 'bg', label: 'BG', flex: 3 },
-  { key: 'surface', label: 'Surf', flex: 2 },
-  { key: 'primary', label: 'Pri', flex: 2.5 },
-  { key: 'accent', label: 'Acc', flex: 2 },
-  { key: 'text', label: 'Text', flex: 1 },
+  { key: 'bg', label: 'BG', flex: 3, lock: 'colors.bg' },
+  { key: 'surface', label: 'Surf', flex: 2, lock: 'colors.surfaces' },
+  { key: 'primary', label: 'Pri', flex: 2.5, lock: 'colors.primary' },
+  { key: 'accent', label: 'Acc', flex: 2, lock: 'colors.accent' },
+  { key: 'text', label: 'Text', flex: 1, lock: 'colors.text' },
 ] as const;
 
+/** Per-line parse errors listed under the import box */
+const MAX_LISTED_ERRORS = 5;
+
+const PALETTE_FILE_TYPES = '.ase,.gpl,.swatches,.json,.css,.txt,.js,.ts';
+
+/** Swatch fill that shows alpha over a checkerboard. */
+const swatchBackground = (hex: string, alpha?: number): string => {
+  if (alpha === undefined) return hex;
+  const fill = `${hex}${Math.round(alpha * 255).toString(16).padStart(2, '0')}`;
+  return `linear-gradient(${fill}, ${fill}), repeating-conic-gradient(#d4d4d4 0 25%, #fff 0 50%) 0 0 / 6px 6px`;
+};
+
 export const ColorPalettePanel = memo(() => {
   const [activeStyle, setActiveStyle] = useState<PaletteStyle | null>(null);
   const [selectedPaletteId, setSelectedPaletteId] = useState<string | null>(null);
   const [customOpen, setCustomOpen] = useState(false);
+  const [auditOpen, setAuditOpen] = useState(false);
+  const [extractOpen, setExtractOpen] = useState(false);
+  const [harmonyOpen, setHarmonyOpen] = useState(false);
 
   // Import state
   const [importOpen, setImportOpen] = useState(false);
   const [importValue, setImportValue] = useState('');
   const [importError, setImportError] = useState<string | null>(null);
+  const [importFile, setImportFile] = useState<{ name: string; result: ParseResult } | null>(null);
+  const [importDragging, setImportDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const applyPalette = useBrandStore((s) => s.applyPalette);
   const applyRawPalette = useBrandStore((s) => s.applyRawPalette);
   const colors = useBrandStore((s) => s.brand.colors);
+  const locks = useBrandStore((s) => s.locks);
+  const toggleLock = useBrandStore((s) => s.toggleLock);
 
   const passesAA = useMemo(
     () => getContrastRatio(colors.text, colors.bg) >= 4.5,
@@ -48,27 +74,54 @@ export const ColorPalettePanel = memo(() => {
     applyPalette(paletteId);
   }, [applyPalette]);
 
-  // Live preview of pasted colors
+  // Live preview of pasted text, or of a dropped file
+  const importResult = useMemo(() => {
+    if (importFile) return importFile.result;
+    if (!importValue.trim()) return null;
+    return parsePaletteInput(importValue);
+  }, [importValue, importFile]);
+
   const previewColors = useMemo(() => {
-    if (!importValue.trim()) return [];
-    return parsePaletteInput(importValue).colors;
-  }, [importValue]);
+    if (!importResult) return [];
+    // One chip per imported color, keeping the first alpha seen for it
+    const byHex = new Map<string, ParsedColor>();
+    for (const entry of importResult.entries) {
+      if (!byHex.has(entry.hex)) byHex.set(entry.hex, entry);
+    }
+    return [...byHex.values()];
+  }, [importResult]);
+
+  const handleImportFile = useCallback((file: File) => {
+    setImportError(null);
+    parsePaletteFile(file)
+      .then((result) => setImportFile({ name: file.name, result }))
+      .catch(() => setImportError(`Could not read ${file.name}`));
+  }, []);
+
+  const handleImportDrop = useCallback((e: React.DragEvent) => {
+    e.preventDefault();
+    setImportDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) handleImportFile(file);
+  }, [handleImportFile]);
 
   const handleImportApply = useCallback(() => {
-    const result = parsePaletteInput(importValue);
-    if (result.error) {
-      setImportError(result.error);
+    if (!importResult) return;
+    if (importResult.error) {
+      setImportError(importResult.error);
       return;
     }
-    applyRawPalette(result.colors);
+    applyRawPalette(importResult.colors);
     setImportValue('');
+    setImportFile(null);
     setImportOpen(false);
     setImportError(null);
-  }, [importValue, applyRawPalette]);
+  }, [importResult, applyRawPalette]);
 
   const handleImportClose = useCallback(() => {
     setImportOpen(false);
     setImportValue('');
+    setImportFile(null);
     setImportError(null);
   }, []);
 
@@ -95,8 +148,16 @@ export const ColorPalettePanel = memo(() => {
         {/* Role labels + action icons */}
         <div className="flex items-center justify-between mt-1.5">
           <div className="flex items-center" style={{ gap: 8 }}>
-            {ROLE_PREVIEW.map(({ key, label }) => (
-              <div key={key} className="flex items-center" style={{ gap: 3 }}>
+            {ROLE_PREVIEW.map(({ key, label, lock }) => (
+              <button
+                key={key}
+                type="button"
+                className="flex items-center"
+                style={{ gap: 3, background: 'none', border: 'none', padding: 0, cursor: 'pointer' }}
+                title={locks.includes(lock) ? `Unlock ${label} for shuffles` : `Lock ${label} during shuffles`}
+                aria-pressed={locks.includes(lock)}
+                onClick={() => toggleLock(lock)}
+              >
                 <div
                   className="transition-colors duration-200"
                   style={{
@@ -118,7 +179,10 @@ export const ColorPalettePanel = memo(() => {
                 >
                   {label}
                 </span>
-              </div>
+                {locks.includes(lock) && (
+                  <Lock size={8} style={{ color: 'var(--sidebar-text-muted)' }} />
+                )}
+              </button>
             ))}
           </div>
 
@@ -178,10 +242,88 @@ export const ColorPalettePanel = memo(() => {
             >
               <RiClipboardLine size={12} />
             </button>
+            <button
+              title="Generate from one color"
+              onClick={() => setHarmonyOpen(!harmonyOpen)}
+              className="flex items-center justify-center w-6 h-6 rounded-md transition-colors duration-100"
+              style={{
+                color: harmonyOpen ? 'var(--sidebar-text)' : 'var(--sidebar-text-muted)',
+                background: harmonyOpen ? 'var(--sidebar-bg-hover)' : 'transparent',
+              }}
+              onMouseEnter={(e) => {
+                if (!harmonyOpen) {
+                  e.currentTarget.style.color = 'var(--sidebar-text)';
+                  e.currentTarget.style.background = 'var(--sidebar-bg-hover)';
+                }
+              }}
+              onMouseLeave={(e) => {
+                if (!harmonyOpen) {
+                  e.currentTarget.style.color = 'var(--sidebar-text-muted)';
+                  e.currentTarget.style.background = 'transparent';
+                }
+              }}
+            >
+              <RiColorFilterLine size={12} />
+            </button>
+            <button
+              title="Palette from image"
+              onClick={() => setExtractOpen(!extractOpen)}
+              className="flex items-center justify-center w-6 h-6 rounded-md transition-colors duration-100"
+              style={{
+                color: extractOpen ? 'var(--sidebar-text)' : 'var(--sidebar-text-muted)',
+                background: extractOpen ? 'var(--sidebar-bg-hover)' : 'transparent',
+              }}
+              onMouseEnter={(e) => {
+                if (!extractOpen) {
+                  e.currentTarget.style.color = 'var(--sidebar-text)';
+                  e.currentTarget.style.background = 'var(--sidebar-bg-hover)';
+                }
+              }}
+              onMouseLeave={(e) => {
+                if (!extractOpen) {
+                  e.currentTarget.style.color = 'var(--sidebar-text-muted)';
+                  e.currentTarget.style.background = 'transparent';
+                }
+              }}
+            >
+              <RiImageLine size={12} />
+            </button>
+            <button
+              title="Audit board contrast"
+              onClick={() => setAuditOpen(!auditOpen)}
+              className="flex items-center justify-center w-6 h-6 rounded-md transition-colors duration-100"
+              style={{
+                color: auditOpen ? 'var(--sidebar-text)' : 'var(--sidebar-text-muted)',
+                background: auditOpen ? 'var(--sidebar-bg-hover)' : 'transparent',
+              }}
+              onMouseEnter={(e) => {
+                if (!auditOpen) {
+                  e.currentTarget.style.color = 'var(--sidebar-text)';
+                  e.currentTarget.style.background = 'var(--sidebar-bg-hover)';
+                }
+              }}
+              onMouseLeave={(e) => {
+                if (!auditOpen) {
+                  e.currentTarget.style.color = 'var(--sidebar-text-muted)';
+                  e.currentTarget.style.background = 'transparent';
+                }
+              }}
+            >
+              <RiShieldCheckLine size={12} />
+            </button>
           </div>
         </div>
       </div>
 
+      {/* Palette from image */}
+      {extractOpen && <ImagePalettePanel onApplied={() => setExtractOpen(false)} />}
+
+      {/* Seed-based harmony generator */}
+      {harmonyOpen && <HarmonyPanel onApplied={() => setHarmonyOpen(false)} />}
+
+      {/* Board-wide contrast audit */}
+      {auditOpen && <ContrastAuditPanel />}
+
       {/* Import area */}
       {importOpen && (
         <div className="px-3 pb-2 flex flex-col gap-2">
@@ -189,16 +331,23 @@ export const ColorPalettePanel = memo(() => {
             value={importValue}
             onChange={(e) => {
               setImportValue(e.target.value);
+              setImportFile(null);
               setImportError(null);
             }}
-            placeholder={"Paste from Coolors:\n--color-name: #780000ff;\n\nOr hex values:\n#780000, #c1121f, #fdf0d5"}
+            onDragOver={(e) => {
+              e.preventDefault();
+              setImportDragging(true);
+            }}
+            onDragLeave={() => setImportDragging(false)}
+            onDrop={handleImportDrop}
+            placeholder={"Paste or drop a palette:\n--color-name: #780000ff;\n#780000, rgb(193 18 31), oklch(0.96 0.03 85)\n\nAlso .ase, .gpl, .swatches, Tailwind config, tokens JSON"}
             rows={4}
             className="w-full resize-none rounded-md text-[11px] leading-relaxed"
             style={{
               fontFamily: 'var(--font-mono, monospace)',
               padding: '8px 10px',
-              background: 'transparent',
-              border: '1px solid var(--sidebar-border-subtle)',
+              background: importDragging ? 'var(--accent-muted)' : 'transparent',
+              border: `1px solid ${importDragging ? 'var(--accent)' : 'var(--sidebar-border-subtle)'}`,
               color: 'var(--sidebar-text)',
               outline: 'none',
             }}
@@ -211,15 +360,42 @@ export const ColorPalettePanel = memo(() => {
             autoFocus
           />
 
+          <div className="flex items-center gap-1.5 text-[11px]" style={{ color: 'var(--sidebar-text-muted)' }}>
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 h-6 px-2 rounded-md transition-colors duration-100"
+              style={{ border: '1px solid var(--sidebar-border-subtle)' }}
+            >
+              <RiFileUploadLine size={12} />
+              Choose file
+            </button>
+            {importFile && <span className="truncate">{importFile.name}</span>}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={PALETTE_FILE_TYPES}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImportFile(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+
           {/* Live preview swatches */}
           {previewColors.length > 0 && (
             <div className="flex gap-1">
-              {previewColors.map((color, i) => (
+              {previewColors.map((color) => (
                 <div
-                  key={i}
+                  key={color.hex}
                   className="h-5 flex-1 rounded"
+                  title={[color.name, color.hex, color.alpha !== undefined && `${Math.round(color.alpha * 100)}%`]
+                    .filter(Boolean)
+                    .join(' · ')}
                   style={{
-                    background: color,
+                    background: swatchBackground(color.hex, color.alpha),
                     border: '1px solid rgba(128,128,128,0.15)',
                   }}
                 />
@@ -233,6 +409,19 @@ export const ColorPalettePanel = memo(() => {
             </span>
           )}
 
+          {importResult && importResult.errors.length > 0 && (
+            <ul className="flex flex-col gap-0.5 text-[10px]" style={{ color: '#ef4444', fontFamily: 'var(--font-mono)' }}>
+              {importResult.errors.slice(0, MAX_LISTED_ERRORS).map((err, i) => (
+                <li key={i} className="truncate" title={err.text}>
+                  {importResult.format === 'ase' || importResult.format === 'procreate' ? 'Swatch' : 'Line'} {err.line}: {err.message}
+                </li>
+              ))}
+              {importResult.errors.length > MAX_LISTED_ERRORS && (
+                <li>+{importResult.errors.length - MAX_LISTED_ERRORS} more</li>
+              )}
+            </ul>
+          )}
+
           <div className="flex items-center gap-2">
             <button
               onClick={handleImportApply}
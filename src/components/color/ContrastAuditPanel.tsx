@@ -0,0 +1,170 @@
+/**
+ * Contrast Audit Panel
+ *
+ * Board-wide contrast report for the active layout. Lists every failing
+ * fg/bg pair with its WCAG ratio, AA/AAA result and APCA Lc. Clicking a
+ * row focuses its tile on the canvas; "Fix" applies the verified fix
+ * (a surface, a tile override, or the logo / button color).
+ */
+import { memo, useCallback, useMemo } from 'react';
+import { useShallow } from 'zustand/react/shallow';
+import { useBrandStore, selectCanvasColors } from '@/store/useBrandStore';
+import { useLayoutStore, selectLayoutConfig } from '@/store/useLayoutStore';
+import { auditBoard, type ContrastCheck, type ContrastFix } from '@/utils/contrastAudit';
+
+const TILE_LABELS: Record<string, string> = {
+  hero: 'Hero',
+  logo: 'Logo',
+  'logo-symbol': 'Symbol',
+  editorial: 'Editorial',
+  social: 'Social',
+  'ui-preview': 'Interface',
+  card: 'Card',
+  product: 'Product',
+  menu: 'Menu',
+  utility: 'List',
+  'split-hero': 'Split',
+  'split-list': 'Split List',
+  swatch: 'Swatch',
+  icons: 'Icons',
+  stats: 'Stats',
+  messaging: 'Message',
+  specimen: 'Specimen',
+  'color-blocks': 'Blocks',
+  'business-card': 'Business Card',
+  'app-icon': 'App',
+};
+
+const Badge = ({ label, pass }: { label: string; pass: boolean }) => (
+  <span
+    className="text-[8px] font-semibold uppercase tracking-wider px-1 rounded-[3px]"
+    style={{
+      color: pass ? 'var(--sidebar-text-muted)' : '#ef4444',
+      background: 'var(--sidebar-bg-hover)',
+      textDecoration: pass ? 'none' : 'line-through',
+    }}
+  >
+    {label}
+  </span>
+);
+
+export const ContrastAuditPanel = memo(() => {
+  const state = useBrandStore(
+    useShallow((s) => ({
+      colors: selectCanvasColors(s),
+      logo: s.brand.logo,
+      ui: s.brand.ui,
+      tiles: s.tiles,
+      tileSurfaces: s.tileSurfaces,
+      placementContent: s.placementContent,
+    }))
+  );
+  const setFocusedTile = useBrandStore((s) => s.setFocusedTile);
+  const setTileSurface = useBrandStore((s) => s.setTileSurface);
+  const setPlacementContent = useBrandStore((s) => s.setPlacementContent);
+  const updateTile = useBrandStore((s) => s.updateTile);
+  const updateBrand = useBrandStore((s) => s.updateBrand);
+  const { preset, config, placementSwaps } = useLayoutStore(
+    useShallow((s) => ({ preset: s.preset, config: selectLayoutConfig(s), placementSwaps: s.placementSwaps }))
+  );
+
+  const checks = useMemo(() => {
+    return auditBoard({
+      brand: { colors: state.colors, logo: state.logo, ui: state.ui },
+      tiles: state.tiles,
+      tileSurfaces: state.tileSurfaces,
+      placementContent: state.placementContent,
+      placementSwaps,
+      placements: config.placements,
+      preset,
+    });
+  }, [state, preset, config, placementSwaps]);
+
+  const failures = checks.filter((check) => !check.passes);
+
+  const applyFix = useCallback((fix: ContrastFix) => {
+    switch (fix.kind) {
+      case 'surface':
+        setTileSurface(fix.placementId, fix.surface, true);
+        break;
+      case 'tile':
+        updateTile(fix.tileId, fix.content, true);
+        break;
+      case 'placement':
+        setPlacementContent(fix.placementId, fix.content, true);
+        break;
+      case 'logo':
+        updateBrand({ logo: { ...state.logo, ...fix.logo } });
+        break;
+      case 'ui':
+        updateBrand({ ui: { ...state.ui, ...fix.ui } });
+        break;
+    }
+  }, [setTileSurface, updateTile, setPlacementContent, updateBrand, state.logo, state.ui]);
+
+  return (
+    <div className="px-3 pb-2">
+      <div className="flex items-center gap-2 mb-1.5">
+        <span
+          className="text-[10px] font-semibold uppercase tracking-[0.08em] flex-1 text-left"
+          style={{ color: 'var(--sidebar-text-muted)' }}
+        >
+          Contrast audit
+        </span>
+        <span className="text-[10px]" style={{ color: 'var(--sidebar-text-muted)' }}>
+          {checks.length - failures.length}/{checks.length} pass
+        </span>
+      </div>
+
+      {failures.length === 0 ? (
+        <div className="text-[11px]" style={{ color: 'var(--sidebar-text-muted)' }}>
+          Every tile meets WCAG AA and APCA.
+        </div>
+      ) : (
+        <ul className="flex flex-col gap-0.5">
+          {failures.map((check: ContrastCheck) => (
+            <li key={`${check.placementId}-${check.element}`} className="flex items-center gap-1">
+              <button
+                onClick={() => setFocusedTile(check.placementId)}
+                className="flex-1 min-w-0 flex items-center gap-2 px-1.5 py-1 rounded-md text-left transition-colors duration-100"
+                title="Show tile"
+                onMouseEnter={(e) => { e.currentTarget.style.background = 'var(--sidebar-bg-hover)'; }}
+                onMouseLeave={(e) => { e.currentTarget.style.background = 'transparent'; }}
+              >
+                <span
+                  className="w-6 h-5 rounded-[4px] shrink-0 flex items-center justify-center text-[10px] font-semibold"
+                  style={{ background: check.bg, color: check.fg, boxShadow: 'inset 0 0 0 1px rgba(0,0,0,0.1)' }}
+                >
+                  Aa
+                </span>
+                <span className="flex-1 min-w-0">
+                  <span className="block text-[11px] truncate" style={{ color: 'var(--sidebar-text)' }}>
+                    {TILE_LABELS[check.tileType] ?? check.tileType} · {check.element}
+                  </span>
+                  <span className="flex items-center gap-1 text-[10px]" style={{ color: 'var(--sidebar-text-muted)', fontFamily: 'var(--font-mono)' }}>
+                    {check.ratio.toFixed(2)}:1
+                    <Badge label="AA" pass={check.aa} />
+                    <Badge label="AAA" pass={check.aaa} />
+                    <Badge label={`Lc ${Math.round(Math.abs(check.apca))}`} pass={check.apcaPass} />
+                  </span>
+                </span>
+              </button>
+              {check.fix && (
+                <button
+                  onClick={() => applyFix(check.fix!)}
+                  className="shrink-0 text-[9px] font-medium px-1.5 py-0.5 rounded-full transition-colors"
+                  style={{ color: 'var(--accent)', background: 'var(--accent-muted)' }}
+                  title={check.fix.label}
+                >
+                  Fix
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+});
+
+ContrastAuditPanel.displayName = 'ContrastAuditPanel';
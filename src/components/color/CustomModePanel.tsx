@@ -5,6 +5,8 @@
  * PreviewCard with its color roles listed below it (BACKGROUND,
  * TONE, TEXT, TEXT-CTA, CTA, CONTRAST). All roles are editable;
  * auto-derived roles can be overridden per-column and reset back.
+ * 50–950 ramps for every column, the neutral and each surface are
+ * shown alongside, followed by the derived opposite scheme.
  */
 import { memo, useCallback, useMemo, useState } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
@@ -13,7 +15,10 @@ import { RiRefreshFill as RotateCcw } from 'react-icons/ri';
 import { useBrandStore, type Colors } from '@/store/useBrandStore';
 import { getContrastRatio, mapPaletteToBrand, enforceContrast, deriveColumnRoles } from '@/utils/colorMapping';
 import { isValidHex } from '@/utils/colorDefaults';
+import { generateRamp, getBrandRamps } from '@/utils/colorRamps';
 import { ColorColumn } from './ColorColumn';
+import { RampStrip } from './RampStrip';
+import { SchemeOverridesPanel } from './SchemeOverridesPanel';
 
 type ColorKey = 'bg' | 'text' | 'primary' | 'accent' | 'surface';
 type ColumnVariant = 'primary' | 'surface' | 'accent';
@@ -108,6 +113,10 @@ export const CustomModePanel = memo(() => {
     [colors.accent, colors.bg, overrides?.accent],
   );
 
+  const ramps = useMemo(() => getBrandRamps(colors), [colors]);
+  const rampByName = (name: string) => ramps.find((r) => r.name === name)?.ramp;
+  const surfaceRamp = useMemo(() => generateRamp(colors.surface), [colors.surface]);
+
   // Overall WCAG check: text on bg
   const textBgContrast = useMemo(
     () => getContrastRatio(colors.text, colors.bg),
@@ -161,6 +170,7 @@ export const CustomModePanel = memo(() => {
           roles={primaryRoles}
           overrides={overrides?.primary}
           paletteColors={paletteColors}
+          ramp={rampByName('primary')}
           onBackgroundChange={(hex) => handleColorChange('primary', hex)}
           onToneChange={(hex) => handleOverrideChange('primary', 'tone', hex)}
           onTextChange={(hex) => handleOverrideChange('primary', 'text', hex)}
@@ -174,6 +184,7 @@ export const CustomModePanel = memo(() => {
           roles={surfaceRoles}
           overrides={overrides?.surface}
           paletteColors={paletteColors}
+          ramp={surfaceRamp}
           onBackgroundChange={(hex) => handleColorChange('surface', hex)}
           onToneChange={(hex) => handleOverrideChange('surface', 'tone', hex)}
           onTextChange={(hex) => handleOverrideChange('surface', 'text', hex)}
@@ -187,6 +198,7 @@ export const CustomModePanel = memo(() => {
           roles={accentRoles}
           overrides={overrides?.accent}
           paletteColors={paletteColors}
+          ramp={rampByName('accent')}
           onBackgroundChange={(hex) => handleColorChange('accent', hex)}
           onToneChange={(hex) => handleOverrideChange('accent', 'tone', hex)}
           onTextChange={(hex) => handleOverrideChange('accent', 'text', hex)}
@@ -196,6 +208,29 @@ export const CustomModePanel = memo(() => {
         />
       </div>
 
+      {/* Neutral + surface ramps */}
+      <div className="px-3 py-1.5 flex flex-col gap-1.5">
+        <span
+          className="text-[10px] font-semibold uppercase tracking-[0.08em] text-left"
+          style={{ color: 'var(--sidebar-text-muted)' }}
+        >
+          Ramps
+        </span>
+        {ramps
+          .filter((r) => r.name !== 'primary' && r.name !== 'accent')
+          .map(({ name, label, ramp }) => (
+            <div key={name} className="flex items-center gap-2.5">
+              <span
+                className="text-[9px] uppercase tracking-wider w-[72px] text-left shrink-0"
+                style={{ color: 'var(--sidebar-text-muted)' }}
+              >
+                {label}
+              </span>
+              <RampStrip ramp={ramp} label={label} />
+            </div>
+          ))}
+      </div>
+
       {/* Editable surface swatches */}
       {surfaceCount > 1 && (
         <div className="px-3 py-1.5">
@@ -292,6 +327,9 @@ export const CustomModePanel = memo(() => {
           </AnimatePresence>
         </div>
       )}
+
+      {/* Derived light/dark counterpart */}
+      <SchemeOverridesPanel />
     </div>
   );
 });
@@ -0,0 +1,138 @@
+/**
+ * Harmony Panel
+ *
+ * Generates palettes from one seed color (the current primary by
+ * default): classic harmonies plus brand-like variants per palette
+ * style. The selected palette previews through `PreviewCard` with the
+ * roles it would map to, and applies through `applyRawPalette`.
+ */
+import { memo, useCallback, useMemo, useState } from 'react';
+import { HexColorPicker } from 'react-colorful';
+import { useBrandStore, type Colors } from '@/store/useBrandStore';
+import { enforceContrast, mapPaletteToBrand } from '@/utils/colorMapping';
+import { generateHarmonies, type HarmonyPalette } from '@/utils/colorHarmony';
+import { parseCssColor } from '@/utils/cssColor';
+import { PreviewCard } from './PreviewCard';
+
+const sectionLabelStyle = {
+  fontSize: 9.5,
+  fontWeight: 600,
+  textTransform: 'uppercase',
+  letterSpacing: '0.08em',
+  color: 'var(--sidebar-text-muted)',
+} as const;
+
+export const HarmonyPanel = memo(({ onApplied }: { onApplied?: () => void }) => {
+  const colors = useBrandStore((s) => s.brand.colors);
+  const applyRawPalette = useBrandStore((s) => s.applyRawPalette);
+
+  const [draft, setDraft] = useState(colors.primary);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Any CSS color works as a seed; keep the primary while the draft is invalid
+  const seed = useMemo(() => parseCssColor(draft)?.hex ?? colors.primary.toUpperCase(), [draft, colors.primary]);
+  const palettes = useMemo(() => generateHarmonies(seed), [seed]);
+  const selected = palettes.find((p) => p.id === selectedId) ?? null;
+
+  // Roles the selected palette would map to, over the current brand colors
+  const previewColors = useMemo((): Colors | null => {
+    if (!selected) return null;
+    return { ...colors, ...enforceContrast(mapPaletteToBrand(selected.colors, { style: selected.style })) };
+  }, [selected, colors]);
+
+  const handleApply = useCallback(() => {
+    if (!selected) return;
+    applyRawPalette(selected.colors, { style: selected.style });
+    setSelectedId(null);
+    onApplied?.();
+  }, [selected, applyRawPalette, onApplied]);
+
+  const renderRow = (palette: HarmonyPalette) => {
+    const isSelected = palette.id === selectedId;
+    return (
+      <button
+        key={palette.id}
+        type="button"
+        onClick={() => setSelectedId(isSelected ? null : palette.id)}
+        aria-pressed={isSelected}
+        className="flex items-center gap-2 h-7 px-1.5 rounded-md text-left transition-colors duration-100"
+        style={{ background: isSelected ? 'var(--sidebar-bg-hover)' : 'transparent' }}
+      >
+        <span
+          className="w-[88px] shrink-0 truncate text-[11px]"
+          style={{ color: isSelected ? 'var(--sidebar-text)' : 'var(--sidebar-text-muted)' }}
+        >
+          {palette.label}
+        </span>
+        <span
+          className="flex flex-1 h-4 rounded-[4px] overflow-hidden"
+          style={{ boxShadow: isSelected ? '0 0 0 1px var(--accent)' : 'inset 0 0 0 1px var(--sidebar-border-subtle)' }}
+        >
+          {palette.colors.map((hex, i) => (
+            <span key={i} className="flex-1" style={{ background: hex }} title={hex} />
+          ))}
+        </span>
+      </button>
+    );
+  };
+
+  return (
+    <div className="px-3 pb-2 flex flex-col gap-2">
+      <div className="flex items-start gap-2">
+        <HexColorPicker color={seed} onChange={(hex) => setDraft(hex.toUpperCase())} style={{ width: 96, height: 72 }} />
+        <div className="flex flex-col gap-1 flex-1 min-w-0">
+          <span style={sectionLabelStyle}>Seed</span>
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            spellCheck={false}
+            className="w-full text-[11px] px-2 py-1 rounded"
+            style={{
+              background: 'var(--sidebar-bg-active)',
+              color: 'var(--sidebar-text)',
+              border: `1px solid ${parseCssColor(draft) ? 'var(--sidebar-border)' : 'var(--error)'}`,
+              fontFamily: 'var(--font-mono)',
+            }}
+          />
+          <button
+            type="button"
+            onClick={() => setDraft(colors.primary.toUpperCase())}
+            className="self-start text-[10px] underline-offset-2 hover:underline"
+            style={{ color: 'var(--sidebar-text-muted)' }}
+          >
+            Use current primary
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-0.5">
+        <span style={sectionLabelStyle}>Harmonies</span>
+        {palettes.filter((p) => !p.style).map(renderRow)}
+      </div>
+      <div className="flex flex-col gap-0.5">
+        <span style={sectionLabelStyle}>Brand-like</span>
+        {palettes.filter((p) => p.style).map(renderRow)}
+      </div>
+
+      {selected && previewColors && (
+        <>
+          <div className="flex gap-1.5">
+            <PreviewCard colors={previewColors} variant="primary" />
+            <PreviewCard colors={previewColors} variant="surface" />
+            <PreviewCard colors={previewColors} variant="accent" />
+          </div>
+          <button
+            onClick={handleApply}
+            className="h-7 rounded-md text-[11px] font-medium transition-colors duration-100"
+            style={{ background: 'var(--sidebar-text)', color: 'var(--sidebar-bg)' }}
+          >
+            Apply {selected.label}
+          </button>
+        </>
+      )}
+    </div>
+  );
+});
+
+HarmonyPanel.displayName = 'HarmonyPanel';
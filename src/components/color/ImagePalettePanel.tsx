@@ -0,0 +1,202 @@
+/**
+ * Image Palette Panel
+ *
+ * Builds a brand palette from a photo: an upload, the hero image, or an
+ * image from the active Lummi collection. Extracted colors show with
+ * their share of the image; users pick 3–7 and apply them through
+ * `applyRawPalette`, which assigns roles like any other palette.
+ */
+import { memo, useCallback, useEffect, useRef, useState } from 'react';
+import { RiCheckFill as Check } from 'react-icons/ri';
+import { useBrandStore } from '@/store/useBrandStore';
+import ImageDropZone from '@/components/ImageDropZone';
+import { extractImagePalette } from '@/services/imagePalette';
+import { getCollectionImages, hasApiKey, lummiImageUrl, type LummiImage } from '@/services/lummiApi';
+import {
+  MAX_PICKED_COLORS,
+  MIN_PICKED_COLORS,
+  getDefaultPicks,
+  type ExtractedColor,
+} from '@/utils/paletteExtraction';
+
+/** Lummi thumbnails offered as sources */
+const MAX_LUMMI_SOURCES = 8;
+
+export const ImagePalettePanel = memo(({ onApplied }: { onApplied?: () => void }) => {
+  const heroUrl = useBrandStore((s) => s.brand.imagery.url);
+  const activeCollectionId = useBrandStore((s) => s.activeCollectionId);
+  const applyRawPalette = useBrandStore((s) => s.applyRawPalette);
+
+  const [upload, setUpload] = useState<string | null>(null);
+  const [source, setSource] = useState<string | null>(null);
+  const [palette, setPalette] = useState<ExtractedColor[] | null>(null);
+  const [picks, setPicks] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [lummiImages, setLummiImages] = useState<LummiImage[]>([]);
+  const requestRef = useRef(0);
+
+  // Offer the active Lummi collection (served from the API cache)
+  useEffect(() => {
+    if (!activeCollectionId || !hasApiKey()) return;
+    let cancelled = false;
+    getCollectionImages(activeCollectionId)
+      .then((images) => {
+        if (!cancelled) setLummiImages(images.slice(0, MAX_LUMMI_SOURCES));
+      })
+      .catch(() => {
+        if (!cancelled) setLummiImages([]);
+      });
+    return () => { cancelled = true; };
+  }, [activeCollectionId]);
+
+  const extractFrom = useCallback((src: string) => {
+    const request = ++requestRef.current;
+    setSource(src);
+    setLoading(true);
+    setError(null);
+    extractImagePalette(src)
+      .then((colors) => {
+        if (request !== requestRef.current) return;
+        setPalette(colors);
+        setPicks(getDefaultPicks(colors));
+      })
+      .catch((err: unknown) => {
+        if (request !== requestRef.current) return;
+        setPalette(null);
+        setError(err instanceof Error ? err.message : 'Could not read image colors');
+      })
+      .finally(() => {
+        if (request === requestRef.current) setLoading(false);
+      });
+  }, []);
+
+  const handleUpload = useCallback((dataUrl: string | null) => {
+    setUpload(dataUrl);
+    if (dataUrl) extractFrom(dataUrl);
+  }, [extractFrom]);
+
+  const togglePick = useCallback((hex: string) => {
+    setPicks((prev) => {
+      if (prev.includes(hex)) return prev.filter((h) => h !== hex);
+      return prev.length < MAX_PICKED_COLORS ? [...prev, hex] : prev;
+    });
+  }, []);
+
+  const lummiSources = activeCollectionId ? lummiImages : [];
+  const canApply = picks.length >= MIN_PICKED_COLORS && picks.length <= MAX_PICKED_COLORS;
+
+  const handleApply = useCallback(() => {
+    if (!palette || !canApply) return;
+    // Keep the image's dominance order
+    applyRawPalette(palette.filter((c) => picks.includes(c.hex)).map((c) => c.hex));
+    onApplied?.();
+  }, [palette, picks, canApply, applyRawPalette, onApplied]);
+
+  const sourceButton = (src: string, label: string, thumb: string) => (
+    <button
+      key={src}
+      type="button"
+      onClick={() => extractFrom(src)}
+      title={label}
+      className="w-9 h-9 rounded-md overflow-hidden shrink-0 transition-shadow"
+      style={{
+        boxShadow: source === src ? '0 0 0 2px var(--accent)' : 'inset 0 0 0 1px var(--sidebar-border-subtle)',
+      }}
+    >
+      <img src={thumb} alt={label} className="w-full h-full object-cover" />
+    </button>
+  );
+
+  return (
+    <div className="px-3 pb-2 flex flex-col gap-2">
+      <ImageDropZone value={upload} onChange={handleUpload} label="Drop a photo to extract colors" compact />
+
+      {(heroUrl || lummiSources.length > 0) && (
+        <div className="flex items-center gap-1.5 overflow-x-auto">
+          {heroUrl && sourceButton(heroUrl, 'Hero image', heroUrl)}
+          {lummiSources.map((img) =>
+            sourceButton(
+              lummiImageUrl(img.url, { w: 800, fm: 'webp' }),
+              img.name,
+              lummiImageUrl(img.url, { w: 120, fm: 'webp' })
+            )
+          )}
+        </div>
+      )}
+
+      {loading && (
+        <span className="text-[11px]" style={{ color: 'var(--sidebar-text-muted)' }}>
+          Extracting colors…
+        </span>
+      )}
+
+      {error && (
+        <span className="text-[11px]" style={{ color: '#ef4444' }}>
+          {error}
+        </span>
+      )}
+
+      {palette && !loading && (
+        <>
+          {/* Relative weight of each color in the image */}
+          <div
+            className="flex h-3 rounded-[4px] overflow-hidden"
+            style={{ border: '1px solid var(--sidebar-border-subtle)' }}
+          >
+            {palette.map((color) => (
+              <div key={color.hex} style={{ flex: color.weight, background: color.hex }} />
+            ))}
+          </div>
+
+          <div className="grid grid-cols-4 gap-1.5">
+            {palette.map((color) => {
+              const picked = picks.includes(color.hex);
+              return (
+                <button
+                  key={color.hex}
+                  type="button"
+                  onClick={() => togglePick(color.hex)}
+                  aria-pressed={picked}
+                  className="flex flex-col items-stretch rounded-md overflow-hidden transition-opacity"
+                  style={{
+                    border: `1px solid ${picked ? 'var(--accent)' : 'var(--sidebar-border-subtle)'}`,
+                    opacity: picked ? 1 : 0.55,
+                  }}
+                  title={`${color.hex} · ${Math.round(color.weight * 100)}%`}
+                >
+                  <span className="h-7 flex items-start justify-end p-0.5" style={{ background: color.hex }}>
+                    {picked && <Check size={10} style={{ color: '#fff', filter: 'drop-shadow(0 0 1px rgba(0,0,0,0.6))' }} />}
+                  </span>
+                  <span
+                    className="text-[9px] py-0.5 text-center"
+                    style={{ color: 'var(--sidebar-text-muted)', fontFamily: 'var(--font-mono)' }}
+                  >
+                    {Math.round(color.weight * 100)}%
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+
+          <button
+            onClick={handleApply}
+            disabled={!canApply}
+            className="h-7 rounded-md text-[11px] font-medium transition-colors duration-100"
+            style={{
+              background: canApply ? 'var(--sidebar-text)' : 'var(--sidebar-bg-hover)',
+              color: canApply ? 'var(--sidebar-bg)' : 'var(--sidebar-text-muted)',
+              cursor: canApply ? 'pointer' : 'default',
+            }}
+          >
+            {canApply
+              ? `Apply ${picks.length} colors`
+              : `Pick ${MIN_PICKED_COLORS}–${MAX_PICKED_COLORS} colors`}
+          </button>
+        </>
+      )}
+    </div>
+  );
+});
+
+ImagePalettePanel.displayName = 'ImagePalettePanel';
@@ -0,0 +1,33 @@
+/**
+ * Ramp Strip
+ *
+ * Compact 50–950 tint/shade strip for one color ramp. Each step shows
+ * its name and hex on hover.
+ */
+import { memo } from 'react';
+import { RAMP_STEPS, type ColorRamp } from '@/utils/colorRamps';
+
+interface RampStripProps {
+  /** Ramp to display */
+  ramp: ColorRamp;
+  /** Name used in step tooltips, e.g. "Primary" */
+  label: string;
+}
+
+export const RampStrip = memo(({ ramp, label }: RampStripProps) => (
+  <div
+    className="flex h-4 flex-1 rounded-[4px] overflow-hidden ring-1 ring-inset"
+    style={{ '--tw-ring-color': 'var(--sidebar-border-subtle)' } as React.CSSProperties}
+  >
+    {RAMP_STEPS.map((step) => (
+      <div
+        key={step}
+        className="flex-1"
+        style={{ backgroundColor: ramp[step] }}
+        title={`${label} ${step} · ${ramp[step]}`}
+      />
+    ))}
+  </div>
+));
+
+RampStrip.displayName = 'RampStrip';
@@ -0,0 +1,159 @@
+/**
+ * Scheme Overrides Panel
+ *
+ * Lists the derived opposite scheme (dark for light brands, light for dark
+ * ones) role by role. Every role shows "Auto" until the user picks a
+ * color for it; overridden roles get a reset icon. The canvas can preview
+ * the derived scheme from here or from the toolbar.
+ */
+import { memo, useCallback, useMemo, useState } from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { HexColorPicker } from 'react-colorful';
+import { RiRefreshFill as RotateCcw } from 'react-icons/ri';
+import { useBrandStore } from '@/store/useBrandStore';
+import { isValidHex } from '@/utils/colorDefaults';
+import {
+  SCHEME_ROLES,
+  getColorScheme,
+  getDerivedSchemeColors,
+  getOppositeScheme,
+  type SchemeRole,
+} from '@/utils/colorScheme';
+
+const ROLE_LABELS: Record<SchemeRole, string> = {
+  bg: 'Background',
+  text: 'Text',
+  primary: 'Primary',
+  accent: 'Accent',
+  surface: 'Surface',
+};
+
+export const SchemeOverridesPanel = memo(() => {
+  const colors = useBrandStore((s) => s.brand.colors);
+  const updateBrand = useBrandStore((s) => s.updateBrand);
+  const schemePreview = useBrandStore((s) => s.schemePreview);
+  const toggleSchemePreview = useBrandStore((s) => s.toggleSchemePreview);
+  const [editing, setEditing] = useState<SchemeRole | null>(null);
+
+  const derived = useMemo(() => getDerivedSchemeColors(colors), [colors]);
+  const scheme = getOppositeScheme(getColorScheme(colors));
+  const overrides = colors.schemeOverrides;
+
+  const handleChange = useCallback((role: SchemeRole, hex: string) => {
+    if (!isValidHex(hex)) return;
+    updateBrand({ colors: { ...colors, schemeOverrides: { ...colors.schemeOverrides, [role]: hex } } }, false);
+  }, [colors, updateBrand]);
+
+  const handleClear = useCallback((role: SchemeRole) => {
+    const next = { ...colors.schemeOverrides };
+    delete next[role];
+    const schemeOverrides = Object.keys(next).length > 0 ? next : undefined;
+    updateBrand({ colors: { ...colors, schemeOverrides } }, false);
+  }, [colors, updateBrand]);
+
+  return (
+    <div className="px-3 py-1.5">
+      <div className="flex items-center gap-2.5 mb-1.5">
+        <span
+          className="text-[10px] font-semibold uppercase tracking-[0.08em] flex-1 text-left"
+          style={{ color: 'var(--sidebar-text-muted)' }}
+        >
+          {scheme} scheme
+        </span>
+        <button
+          onClick={toggleSchemePreview}
+          className="text-[9px] font-medium px-1.5 py-0.5 rounded-full transition-colors"
+          style={{
+            color: schemePreview ? 'var(--accent)' : 'var(--sidebar-text-muted)',
+            background: schemePreview ? 'var(--accent-muted)' : 'transparent',
+            border: '1px solid var(--sidebar-border)',
+          }}
+          title={`Preview the board in the ${scheme} scheme`}
+        >
+          {schemePreview ? 'Previewing' : 'Preview'}
+        </button>
+      </div>
+
+      {SCHEME_ROLES.map((role) => {
+        const color = derived[role];
+        const isOverridden = !!overrides?.[role];
+        return (
+          <div key={role}>
+            <button
+              onClick={() => setEditing(editing === role ? null : role)}
+              className="w-full flex items-center gap-2 px-2 py-1.5 rounded-md transition-colors"
+              style={{ background: editing === role ? 'var(--sidebar-bg-active)' : 'transparent' }}
+            >
+              <span
+                className="text-[9px] font-semibold uppercase tracking-[0.08em] w-[68px] text-left shrink-0"
+                style={{ color: 'var(--sidebar-text-muted)' }}
+              >
+                {ROLE_LABELS[role]}
+              </span>
+              <div
+                className="w-5 h-5 rounded-[4px] shrink-0 ring-1 ring-inset"
+                style={{
+                  backgroundColor: color,
+                  '--tw-ring-color': 'var(--sidebar-border-subtle)',
+                } as React.CSSProperties}
+              />
+              <span
+                className="text-[11px] font-medium tracking-wide flex-1 text-left"
+                style={{ color: 'var(--sidebar-text-secondary)', fontFamily: 'var(--font-mono)' }}
+              >
+                {color.toUpperCase()}
+              </span>
+              {isOverridden ? (
+                <span
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleClear(role);
+                  }}
+                  className="shrink-0 flex items-center"
+                  title="Reset to auto"
+                >
+                  <RotateCcw size={9} style={{ color: 'var(--sidebar-text-muted)', opacity: 0.6 }} />
+                </span>
+              ) : (
+                <span
+                  className="text-[8px] font-semibold uppercase tracking-wider shrink-0"
+                  style={{ color: 'var(--sidebar-text-muted)', opacity: 0.4 }}
+                >
+                  Auto
+                </span>
+              )}
+            </button>
+
+            <AnimatePresence>
+              {editing === role && (
+                <motion.div
+                  initial={{ height: 0, opacity: 0 }}
+                  animate={{ height: 'auto', opacity: 1 }}
+                  exit={{ height: 0, opacity: 0 }}
+                  transition={{ duration: 0.2, ease: [0.4, 0, 0.2, 1] }}
+                  className="overflow-hidden"
+                >
+                  <div
+                    className="rounded-lg p-2.5 mt-1 mb-1"
+                    style={{
+                      background: 'var(--sidebar-bg-elevated)',
+                      border: '1px solid var(--sidebar-border)',
+                    }}
+                  >
+                    <HexColorPicker
+                      color={overrides?.[role] ?? color}
+                      onChange={(hex) => handleChange(role, hex)}
+                      style={{ width: '100%', height: '120px' }}
+                    />
+                  </div>
+                </motion.div>
+              )}
+            </AnimatePresence>
+          </div>
+        );
+      })}
+    </div>
+  );
+});
+
+SchemeOverridesPanel.displayName = 'SchemeOverridesPanel';
@@ -2,11 +2,27 @@
  * Layout-related controls: LayoutSelector, CanvasBgPicker, CanvasRatioPicker.
  * Extracted from ControlPanel.jsx.
  */
+import { useState } from "react";
 import { useShallow } from "zustand/react/shallow";
-import { useLayoutStore, CANVAS_RATIOS } from "../../store/useLayoutStore";
-import { BENTO_LAYOUTS, type LayoutPresetName } from "../../config/bentoLayouts";
+import { AnimatePresence, motion } from "motion/react";
+import { RiAddLine as Plus, RiShuffleLine as Shuffle } from "react-icons/ri";
+import { useLayoutStore, CANVAS_RATIOS, selectLayoutConfig } from "../../store/useLayoutStore";
+import { groupHistory } from "../../store/historyCoordinator";
+import {
+  BENTO_LAYOUTS,
+  customLayoutKey,
+  findCustomLayout,
+  type BentoLayoutConfig,
+  type CustomLayout,
+  type LayoutKey,
+  type LayoutPresetName,
+} from "../../config/bentoLayouts";
+import { getPlacementTileType, type PlacementId } from "../../config/placements";
+import { PLACEMENT_IDS, createCustomLayoutDraft } from "../../utils/layoutEditor";
+import { MAX_GENERATED_TILES, generateCustomLayout } from "../../utils/layoutEngine";
+import { createRng, createSeed } from "../../utils/random";
 import { ColorRoleSlot } from "../color/ColorRoleSlot";
-import { motion } from "motion/react";
+import { LayoutEditor } from "./LayoutEditor";
 
 // Layout preset config
 const LAYOUT_PRESETS_CONFIG = [
@@ -20,10 +36,7 @@ const LAYOUT_PRESETS_CONFIG = [
   { key: "mosaic", label: "Mosaic" },
 ];
 
-const LayoutPreview = ({ preset, isActive, displaySize = 32 }: { preset: LayoutPresetName; isActive: boolean; displaySize?: number }) => {
-  const config = BENTO_LAYOUTS[preset]?.desktop;
-  if (!config) return null;
-
+const LayoutPreview = ({ config, isActive, displaySize = 32 }: { config: BentoLayoutConfig; isActive: boolean; displaySize?: number }) => {
   const { columns, rows, placements } = config;
   const padding = 3;
   const gap = 2;
@@ -94,46 +107,178 @@ const LayoutPreview = ({ preset, isActive, displaySize = 32 }: { preset: LayoutP
   );
 };
 
+/** Generated layouts replace each other until the user edits one into a layout of their own */
+const GENERATED_LAYOUT_ID = "generated";
+
+const selectStyle = { background: "var(--sidebar-bg-hover)", color: "var(--sidebar-text)" };
+
+const newLayoutId = () => `layout-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
 export const LayoutSelector = () => {
-  const { preset } = useLayoutStore(
-    useShallow((s) => ({ preset: s.preset }))
+  const { preset, customLayouts, canvasRatio } = useLayoutStore(
+    useShallow((s) => ({ preset: s.preset, customLayouts: s.customLayouts, canvasRatio: s.canvasRatio }))
   );
   const setPreset = useLayoutStore((s) => s.setPreset);
+  const saveCustomLayout = useLayoutStore((s) => s.saveCustomLayout);
+  const deleteCustomLayout = useLayoutStore((s) => s.deleteCustomLayout);
+  const clearPlacementSwaps = useLayoutStore((s) => s.clearPlacementSwaps);
+  const [editing, setEditing] = useState<CustomLayout | null>(null);
+  const [tileCount, setTileCount] = useState(
+    () => selectLayoutConfig(useLayoutStore.getState(), "desktop").placements.length
+  );
+  const [largest, setLargest] = useState<PlacementId>("hero");
+
+  const activeCustom = findCustomLayout(preset, customLayouts);
+
+  const options: { key: LayoutKey; label: string; config: BentoLayoutConfig }[] = [
+    ...LAYOUT_PRESETS_CONFIG.map((p) => ({
+      key: p.key as LayoutPresetName,
+      label: p.label,
+      config: BENTO_LAYOUTS[p.key as LayoutPresetName].desktop,
+    })),
+    ...customLayouts.map((layout) => ({
+      key: customLayoutKey(layout.id),
+      label: layout.name,
+      config: layout.configs.desktop,
+    })),
+  ];
+
+  const startNewLayout = () => {
+    const name = `Custom layout ${customLayouts.length + 1}`;
+    setEditing(createCustomLayoutDraft(newLayoutId(), name, preset, customLayouts));
+  };
+
+  const generate = () => {
+    const layout = generateCustomLayout(GENERATED_LAYOUT_ID, "Generated", {
+      tileCount,
+      largest,
+      aspect: CANVAS_RATIOS.find((r) => r.key === canvasRatio)?.value,
+      rng: createRng(createSeed(), "layout"),
+    });
+    groupHistory(() => {
+      saveCustomLayout(layout);
+      setPreset(customLayoutKey(layout.id));
+      clearPlacementSwaps();
+    }, "Generated layout");
+  };
+
+  // Editing a generated layout keeps it as a layout of its own
+  const editActiveLayout = (layout: CustomLayout) =>
+    setEditing(layout.id === GENERATED_LAYOUT_ID
+      ? { ...layout, id: newLayoutId(), name: `Custom layout ${customLayouts.length + 1}` }
+      : layout);
 
   return (
-    <div className="grid grid-cols-4 gap-2">
-      {LAYOUT_PRESETS_CONFIG.map((p) => {
-        const isActive = preset === p.key;
-        return (
-          <motion.button
-            key={p.key}
-            onClick={() => setPreset(p.key as LayoutPresetName)}
-            className="flex flex-col items-center gap-2 py-2.5 px-1 rounded-lg transition-fast"
-            style={{
-              background: isActive
-                ? "var(--accent-subtle)"
-                : "transparent",
-              border: `1px solid ${isActive ? "var(--accent)" : "var(--sidebar-border-subtle)"}`,
-            }}
-            whileHover={{
-              background: isActive ? "var(--accent-subtle)" : "var(--sidebar-bg-hover)",
-            }}
-            whileTap={{ scale: 0.97 }}
-          >
-            <LayoutPreview preset={p.key as LayoutPresetName} isActive={isActive} displaySize={28} />
-            <span
-              className="text-11"
+    <>
+      <div className="grid grid-cols-4 gap-2">
+        {options.map((p) => {
+          const isActive = preset === p.key;
+          return (
+            <motion.button
+              key={p.key}
+              onClick={() => setPreset(p.key)}
+              className="flex flex-col items-center gap-2 py-2.5 px-1 rounded-lg transition-fast min-w-0"
               style={{
-                color: isActive ? "var(--accent)" : "var(--sidebar-text-muted)",
-                fontWeight: isActive ? 500 : 400,
+                background: isActive
+                  ? "var(--accent-subtle)"
+                  : "transparent",
+                border: `1px solid ${isActive ? "var(--accent)" : "var(--sidebar-border-subtle)"}`,
               }}
+              whileHover={{
+                background: isActive ? "var(--accent-subtle)" : "var(--sidebar-bg-hover)",
+              }}
+              whileTap={{ scale: 0.97 }}
             >
-              {p.label}
-            </span>
-          </motion.button>
-        );
-      })}
-    </div>
+              <LayoutPreview config={p.config} isActive={isActive} displaySize={28} />
+              <span
+                className="text-11 max-w-full truncate"
+                style={{
+                  color: isActive ? "var(--accent)" : "var(--sidebar-text-muted)",
+                  fontWeight: isActive ? 500 : 400,
+                }}
+              >
+                {p.label}
+              </span>
+            </motion.button>
+          );
+        })}
+        <motion.button
+          type="button"
+          onClick={startNewLayout}
+          title="Create a layout from the current one"
+          className="flex flex-col items-center justify-center gap-2 py-2.5 px-1 rounded-lg transition-fast"
+          style={{ border: "1px dashed var(--sidebar-border)", color: "var(--sidebar-text-muted)" }}
+          whileHover={{ background: "var(--sidebar-bg-hover)" }}
+          whileTap={{ scale: 0.97 }}
+        >
+          <Plus size={16} />
+          <span className="text-11">New</span>
+        </motion.button>
+      </div>
+
+      {activeCustom && (
+        <div className="flex items-center justify-end gap-1 mt-1.5">
+          <button
+            type="button"
+            className="text-11 font-medium px-1.5 py-0.5 rounded hover:opacity-80 transition-fast"
+            style={{ color: "var(--sidebar-text-muted)" }}
+            onClick={() => editActiveLayout(activeCustom)}
+          >
+            Edit layout
+          </button>
+          <button
+            type="button"
+            className="text-11 font-medium px-1.5 py-0.5 rounded hover:opacity-80 transition-fast"
+            style={{ color: "var(--sidebar-text-muted)" }}
+            onClick={() => deleteCustomLayout(activeCustom.id)}
+          >
+            Delete
+          </button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-1.5 mt-2">
+        <label className="flex items-center gap-1 text-11" style={{ color: "var(--sidebar-text-muted)" }}>
+          Tiles
+          <select
+            value={tileCount}
+            onChange={(e) => setTileCount(Number(e.target.value))}
+            className="rounded-md px-1 py-0.5 text-11"
+            style={selectStyle}
+          >
+            {Array.from({ length: MAX_GENERATED_TILES }, (_, i) => i + 1).map((n) => (
+              <option key={n} value={n}>{n}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex items-center gap-1 text-11 min-w-0" style={{ color: "var(--sidebar-text-muted)" }}>
+          Largest
+          <select
+            value={largest}
+            onChange={(e) => setLargest(e.target.value as PlacementId)}
+            className="rounded-md px-1 py-0.5 text-11 min-w-0"
+            style={selectStyle}
+          >
+            {PLACEMENT_IDS.map((id) => (
+              <option key={id} value={id}>{getPlacementTileType(id)} ({id})</option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          onClick={generate}
+          title="Generate a fresh arrangement for the canvas ratio"
+          className="ml-auto flex items-center gap-1 text-11 font-medium px-2 py-1 rounded-md hover:opacity-80 transition-fast shrink-0"
+          style={{ background: "var(--sidebar-bg-hover)", color: "var(--sidebar-text)" }}
+        >
+          <Shuffle size={12} /> Generate layout
+        </button>
+      </div>
+
+      <AnimatePresence>
+        {editing && <LayoutEditor key={editing.id} initial={editing} onClose={() => setEditing(null)} />}
+      </AnimatePresence>
+    </>
   );
 };
 
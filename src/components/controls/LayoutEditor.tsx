@@ -0,0 +1,486 @@
+/**
+ * Layout Editor
+ *
+ * Modal for authoring custom bento layouts. Each breakpoint has its own
+ * grid: set columns and rows, drag across empty cells to draw a
+ * placement, drag a placement to move it, drag its corner to resize,
+ * and pick which placement ID (and so which tile) it shows.
+ *
+ * Holes and overlaps are highlighted on the grid as they happen; saving
+ * is only possible once every breakpoint covers each cell exactly once.
+ */
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { motion } from "motion/react";
+import { RiCloseFill as X, RiDeleteBinLine as Trash, RiAddLine as Plus, RiSubtractLine as Minus } from "react-icons/ri";
+import { useLayoutStore } from "../../store/useLayoutStore";
+import { groupHistory } from "../../store/historyCoordinator";
+import { customLayoutKey, type BentoLayoutConfig, type CustomLayout } from "../../config/bentoLayouts";
+import { getPlacementTileType } from "../../config/placements";
+import {
+  EDITOR_BREAKPOINTS,
+  MAX_GRID_COLUMNS,
+  MAX_GRID_ROWS,
+  PLACEMENT_IDS,
+  addPlacement,
+  isCustomLayoutValid,
+  rectFromCorners,
+  removePlacement,
+  resizeGrid,
+  updatePlacement,
+  type CellRect,
+} from "../../utils/layoutEditor";
+import { getCellOwners, getLayoutIssues } from "../../utils/layoutEngine";
+import type { BreakpointName } from "../../types/layout";
+
+const BREAKPOINT_LABELS: Record<BreakpointName, string> = {
+  mobile: "Mobile",
+  tablet: "Tablet",
+  desktop: "Desktop",
+};
+
+/** Editor grid row height in px */
+const ROW_HEIGHT = 52;
+const GRID_GAP = 4;
+
+type Drag =
+  | { mode: "draw"; from: [number, number] }
+  | { mode: "move"; id: string; offset: [number, number] }
+  | { mode: "resize"; id: string };
+
+interface LayoutEditorProps {
+  /** Layout to edit — a fresh draft or a copy of a saved custom layout */
+  initial: CustomLayout;
+  onClose: () => void;
+}
+
+const Stepper = ({ label, value, min, max, onChange }: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}) => (
+  <div className="flex items-center justify-between">
+    <span className="text-11" style={{ color: "var(--sidebar-text-secondary)" }}>{label}</span>
+    <div className="flex items-center gap-1">
+      <button
+        type="button"
+        aria-label={`Fewer ${label.toLowerCase()}`}
+        disabled={value <= min}
+        onClick={() => onChange(value - 1)}
+        className="w-6 h-6 flex items-center justify-center rounded-md"
+        style={{ color: "var(--sidebar-text-muted)", background: "var(--sidebar-bg-hover)", opacity: value <= min ? 0.4 : 1 }}
+      >
+        <Minus size={12} />
+      </button>
+      <span className="w-5 text-center text-12 tabular-nums" style={{ color: "var(--sidebar-text)" }}>{value}</span>
+      <button
+        type="button"
+        aria-label={`More ${label.toLowerCase()}`}
+        disabled={value >= max}
+        onClick={() => onChange(value + 1)}
+        className="w-6 h-6 flex items-center justify-center rounded-md"
+        style={{ color: "var(--sidebar-text-muted)", background: "var(--sidebar-bg-hover)", opacity: value >= max ? 0.4 : 1 }}
+      >
+        <Plus size={12} />
+      </button>
+    </div>
+  </div>
+);
+
+export const LayoutEditor = ({ initial, onClose }: LayoutEditorProps) => {
+  const saveCustomLayout = useLayoutStore((s) => s.saveCustomLayout);
+  const setPreset = useLayoutStore((s) => s.setPreset);
+  const clearPlacementSwaps = useLayoutStore((s) => s.clearPlacementSwaps);
+
+  const [draft, setDraft] = useState(initial);
+  const [breakpoint, setBreakpoint] = useState<BreakpointName>("desktop");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [drawRect, setDrawRect] = useState<CellRect | null>(null);
+  const dragRef = useRef<Drag | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+
+  const config = draft.configs[breakpoint];
+  const issues = useMemo(() => getLayoutIssues(config), [config]);
+  const owners = useMemo(() => getCellOwners(config), [config]);
+  const canSave = draft.name.trim().length > 0 && isCustomLayoutValid(draft);
+  const selected = config.placements.find((p) => p.id === selectedId) ?? null;
+
+  const updateConfig = useCallback((update: (config: BentoLayoutConfig) => BentoLayoutConfig) => {
+    setDraft((prev) => ({ ...prev, configs: { ...prev.configs, [breakpoint]: update(prev.configs[breakpoint]) } }));
+  }, [breakpoint]);
+
+  // Close on Escape, delete the selected placement with Backspace/Delete
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+      const typing = e.target instanceof HTMLInputElement || e.target instanceof HTMLSelectElement;
+      if ((e.key === "Delete" || e.key === "Backspace") && selectedId && !typing) {
+        updateConfig((c) => removePlacement(c, selectedId));
+        setSelectedId(null);
+      }
+    };
+    document.addEventListener("keydown", handler);
+    return () => document.removeEventListener("keydown", handler);
+  }, [onClose, selectedId, updateConfig]);
+
+  /** Grid cell under the pointer, clamped to the grid. */
+  const cellAt = (e: React.PointerEvent): [number, number] => {
+    const rect = gridRef.current!.getBoundingClientRect();
+    const col = Math.floor(((e.clientX - rect.left) / rect.width) * config.columns) + 1;
+    const row = Math.floor(((e.clientY - rect.top) / rect.height) * config.rows) + 1;
+    return [Math.min(config.columns, Math.max(1, col)), Math.min(config.rows, Math.max(1, row))];
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    const target = e.target as HTMLElement;
+    const cell = cellAt(e);
+    const handleId = target.closest<HTMLElement>("[data-resize]")?.dataset.resize;
+    const placementId = target.closest<HTMLElement>("[data-placement]")?.dataset.placement;
+
+    if (handleId) {
+      dragRef.current = { mode: "resize", id: handleId };
+    } else if (placementId) {
+      const p = config.placements.find((pl) => pl.id === placementId)!;
+      dragRef.current = { mode: "move", id: placementId, offset: [cell[0] - p.colStart, cell[1] - p.rowStart] };
+      setSelectedId(placementId);
+    } else {
+      dragRef.current = { mode: "draw", from: cell };
+      setDrawRect(rectFromCorners(cell, cell));
+      setSelectedId(null);
+    }
+    gridRef.current!.setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const [col, row] = cellAt(e);
+
+    if (drag.mode === "draw") {
+      setDrawRect(rectFromCorners(drag.from, [col, row]));
+      return;
+    }
+    const p = config.placements.find((pl) => pl.id === drag.id);
+    if (!p) return;
+    if (drag.mode === "move") {
+      const colStart = Math.min(config.columns - p.colSpan + 1, Math.max(1, col - drag.offset[0]));
+      const rowStart = Math.min(config.rows - p.rowSpan + 1, Math.max(1, row - drag.offset[1]));
+      if (colStart !== p.colStart || rowStart !== p.rowStart) {
+        updateConfig((c) => updatePlacement(c, drag.id, { colStart, rowStart }));
+      }
+    } else {
+      const colSpan = Math.max(1, col - p.colStart + 1);
+      const rowSpan = Math.max(1, row - p.rowStart + 1);
+      if (colSpan !== p.colSpan || rowSpan !== p.rowSpan) {
+        updateConfig((c) => updatePlacement(c, drag.id, { colSpan, rowSpan }));
+      }
+    }
+  };
+
+  const handlePointerUp = () => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (drag?.mode === "draw" && drawRect) {
+      const next = addPlacement(config, drawRect);
+      if (next !== config) {
+        updateConfig(() => next);
+        setSelectedId(next.placements[next.placements.length - 1].id);
+      }
+    }
+    setDrawRect(null);
+  };
+
+  const handleSave = () => {
+    if (!canSave) return;
+    groupHistory(() => {
+      saveCustomLayout({ ...draft, name: draft.name.trim() });
+      setPreset(customLayoutKey(draft.id));
+      // Swaps refer to placement IDs the edited grid may no longer have
+      clearPlacementSwaps();
+    }, `Saved layout "${draft.name.trim()}"`);
+    onClose();
+  };
+
+  const copyToAllBreakpoints = () => {
+    setDraft((prev) => ({
+      ...prev,
+      configs: Object.fromEntries(
+        EDITOR_BREAKPOINTS.map((bp) => [bp, bp === breakpoint ? prev.configs[bp] : { ...config, gap: prev.configs[bp].gap }])
+      ) as CustomLayout["configs"],
+    }));
+  };
+
+  const usedIds = new Set(config.placements.map((p) => p.id));
+
+  return createPortal(
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      transition={{ duration: 0.2 }}
+      className="fixed inset-0 flex items-center justify-center p-6"
+      style={{ zIndex: 9999, background: "rgba(0, 0, 0, 0.6)", backdropFilter: "blur(8px)" }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <motion.div
+        initial={{ opacity: 0, scale: 0.96, y: 8 }}
+        animate={{ opacity: 1, scale: 1, y: 0 }}
+        transition={{ duration: 0.2, ease: [0.4, 0, 0.2, 1] }}
+        className="w-full max-w-[860px] max-h-[85vh] rounded-2xl overflow-hidden flex flex-col"
+        style={{
+          background: "var(--sidebar-bg)",
+          border: "1px solid var(--sidebar-border)",
+          boxShadow: "0 24px 48px rgba(0, 0, 0, 0.4)",
+        }}
+      >
+        {/* Header */}
+        <div
+          className="flex items-center justify-between gap-3 px-5 py-4 shrink-0"
+          style={{ borderBottom: "1px solid var(--sidebar-border-subtle)" }}
+        >
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft((prev) => ({ ...prev, name: e.target.value }))}
+            placeholder="Layout name"
+            aria-label="Layout name"
+            className="flex-1 bg-transparent text-[13px] font-semibold tracking-[-0.01em] outline-none"
+            style={{ color: "var(--sidebar-text)" }}
+          />
+          <button
+            onClick={onClose}
+            aria-label="Close"
+            className="w-7 h-7 flex items-center justify-center rounded-lg transition-colors"
+            style={{ color: "var(--sidebar-text-muted)" }}
+          >
+            <X size={16} />
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0 overflow-auto">
+          {/* Grid canvas */}
+          <div className="flex-1 p-5 flex flex-col gap-3">
+            <div className="flex rounded-lg self-start" style={{ background: "var(--sidebar-bg-hover)", padding: 3, gap: 2 }}>
+              {EDITOR_BREAKPOINTS.map((bp) => {
+                const valid = getLayoutIssues(draft.configs[bp]).length === 0;
+                const isActive = bp === breakpoint;
+                return (
+                  <button
+                    key={bp}
+                    type="button"
+                    onClick={() => {
+                      setBreakpoint(bp);
+                      setSelectedId(null);
+                    }}
+                    className="flex items-center gap-1.5 px-3 rounded-md text-11 font-medium"
+                    style={{
+                      padding: "5px 10px",
+                      backgroundColor: isActive ? "var(--sidebar-bg)" : "transparent",
+                      color: isActive ? "var(--sidebar-text)" : "var(--sidebar-text-muted)",
+                    }}
+                  >
+                    <span
+                      className="w-1.5 h-1.5 rounded-full"
+                      style={{ background: valid ? "var(--success)" : "var(--error)" }}
+                    />
+                    {BREAKPOINT_LABELS[bp]}
+                  </button>
+                );
+              })}
+            </div>
+
+            <div
+              ref={gridRef}
+              role="application"
+              aria-label={`${BREAKPOINT_LABELS[breakpoint]} grid, ${config.columns} by ${config.rows}`}
+              className="relative grid select-none touch-none"
+              style={{
+                gridTemplateColumns: `repeat(${config.columns}, 1fr)`,
+                gridTemplateRows: `repeat(${config.rows}, ${ROW_HEIGHT}px)`,
+                gap: GRID_GAP,
+                cursor: "crosshair",
+              }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              {/* Cells: dashed when empty, red when covered twice */}
+              {owners.flatMap((row, r) =>
+                row.map((ids, c) => (
+                  <div
+                    key={`cell-${c}-${r}`}
+                    className="rounded-md"
+                    style={{
+                      gridColumn: c + 1,
+                      gridRow: r + 1,
+                      border: ids.length === 0 ? "1.5px dashed var(--error)" : "1px solid var(--sidebar-border-subtle)",
+                      background: ids.length > 1 ? "rgba(239, 68, 68, 0.35)" : "transparent",
+                    }}
+                  />
+                ))
+              )}
+
+              {config.placements.map((p) => {
+                const isSelected = p.id === selectedId;
+                return (
+                  <div
+                    key={p.id}
+                    data-placement={p.id}
+                    className="relative rounded-md flex flex-col items-center justify-center text-11"
+                    style={{
+                      gridColumn: `${p.colStart} / span ${p.colSpan}`,
+                      gridRow: `${p.rowStart} / span ${p.rowSpan}`,
+                      background: isSelected ? "var(--accent-muted)" : "var(--sidebar-bg-active)",
+                      border: `1.5px solid ${isSelected ? "var(--accent)" : "var(--sidebar-border)"}`,
+                      color: isSelected ? "var(--accent)" : "var(--sidebar-text-secondary)",
+                      opacity: 0.92,
+                      cursor: "move",
+                    }}
+                  >
+                    <span className="font-semibold">{p.id}</span>
+                    <span className="text-[10px]" style={{ color: "var(--sidebar-text-muted)" }}>
+                      {getPlacementTileType(p.id)}
+                    </span>
+                    {isSelected && (
+                      <span
+                        data-resize={p.id}
+                        aria-hidden
+                        className="absolute bottom-0.5 right-0.5 w-3 h-3 rounded-sm"
+                        style={{ background: "var(--accent)", cursor: "nwse-resize" }}
+                      />
+                    )}
+                  </div>
+                );
+              })}
+
+              {drawRect && (
+                <div
+                  className="rounded-md pointer-events-none"
+                  style={{
+                    gridColumn: `${drawRect.colStart} / span ${drawRect.colSpan}`,
+                    gridRow: `${drawRect.rowStart} / span ${drawRect.rowSpan}`,
+                    border: "1.5px dashed var(--accent)",
+                    background: "var(--accent-subtle)",
+                  }}
+                />
+              )}
+            </div>
+
+            <p className="text-11" style={{ color: "var(--sidebar-text-muted)" }}>
+              Drag across cells to add a tile. Drag a tile to move it, drag its corner to resize.
+            </p>
+          </div>
+
+          {/* Settings */}
+          <div
+            className="w-[240px] shrink-0 p-5 flex flex-col gap-3"
+            style={{ borderLeft: "1px solid var(--sidebar-border-subtle)" }}
+          >
+            <Stepper
+              label="Columns"
+              value={config.columns}
+              min={1}
+              max={MAX_GRID_COLUMNS}
+              onChange={(columns) => updateConfig((c) => resizeGrid(c, columns, c.rows))}
+            />
+            <Stepper
+              label="Rows"
+              value={config.rows}
+              min={1}
+              max={MAX_GRID_ROWS}
+              onChange={(rows) => updateConfig((c) => resizeGrid(c, c.columns, rows))}
+            />
+            <Stepper
+              label="Gap"
+              value={config.gap}
+              min={0}
+              max={32}
+              onChange={(gap) => updateConfig((c) => ({ ...c, gap }))}
+            />
+            <button
+              type="button"
+              onClick={copyToAllBreakpoints}
+              className="self-start text-11 underline-offset-2 hover:underline"
+              style={{ color: "var(--sidebar-text-muted)" }}
+            >
+              Use this grid for all breakpoints
+            </button>
+
+            {selected && (
+              <div className="flex flex-col gap-2 pt-3 border-t" style={{ borderColor: "var(--sidebar-border-subtle)" }}>
+                <span className="text-12 font-medium" style={{ color: "var(--sidebar-text-secondary)" }}>
+                  Selected tile
+                </span>
+                <label className="flex items-center justify-between text-11" style={{ color: "var(--sidebar-text-secondary)" }}>
+                  Placement
+                  <select
+                    value={selected.id}
+                    onChange={(e) => {
+                      const id = e.target.value;
+                      updateConfig((c) => updatePlacement(c, selected.id, { id }));
+                      setSelectedId(id);
+                    }}
+                    className="rounded-md px-1.5 py-1 text-11"
+                    style={{ background: "var(--sidebar-bg-hover)", color: "var(--sidebar-text)" }}
+                  >
+                    {PLACEMENT_IDS.filter((id) => id === selected.id || !usedIds.has(id)).map((id) => (
+                      <option key={id} value={id}>
+                        {id} · {getPlacementTileType(id)}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <span className="text-11" style={{ color: "var(--sidebar-text-muted)" }}>
+                  {selected.colSpan} × {selected.rowSpan} at column {selected.colStart}, row {selected.rowStart}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => {
+                    updateConfig((c) => removePlacement(c, selected.id));
+                    setSelectedId(null);
+                  }}
+                  className="flex items-center gap-1 self-start text-11"
+                  style={{ color: "var(--error)" }}
+                >
+                  <Trash size={12} /> Remove tile
+                </button>
+              </div>
+            )}
+
+            <div className="flex flex-col gap-1 pt-3 border-t mt-auto" style={{ borderColor: "var(--sidebar-border-subtle)" }}>
+              {issues.length === 0 ? (
+                <span className="text-11" style={{ color: "var(--sidebar-text-muted)" }}>
+                  {BREAKPOINT_LABELS[breakpoint]} grid is complete.
+                </span>
+              ) : (
+                issues.map((issue, i) => (
+                  <span key={i} className="text-11" style={{ color: "var(--error)" }}>
+                    {issue.message}
+                  </span>
+                ))
+              )}
+              <button
+                type="button"
+                onClick={handleSave}
+                disabled={!canSave}
+                className="h-8 mt-2 rounded-md text-12 font-medium"
+                style={{
+                  background: canSave ? "var(--sidebar-text)" : "var(--sidebar-bg-hover)",
+                  color: canSave ? "var(--sidebar-bg)" : "var(--sidebar-text-muted)",
+                  cursor: canSave ? "pointer" : "default",
+                }}
+                title={canSave ? undefined : "Every breakpoint needs a complete grid and the layout needs a name"}
+              >
+                Save layout
+              </button>
+            </div>
+          </div>
+        </div>
+      </motion.div>
+    </motion.div>,
+    document.body
+  );
+};
@@ -5,6 +5,8 @@
 import React, { useState } from "react";
 import {
   RiArrowRightSLine as ChevronRight,
+  RiLockFill as Lock,
+  RiLockUnlockLine as Unlock,
 } from "react-icons/ri";
 import { motion, AnimatePresence } from "motion/react";
 
@@ -74,6 +76,34 @@ export const PropRow = ({
   </div>
 );
 
+/** Small chip that pins an attribute so shuffles leave it alone */
+export const LockToggle = ({
+  label,
+  locked,
+  onToggle,
+}: {
+  label: string;
+  locked: boolean;
+  onToggle: () => void;
+}) => (
+  <button
+    type="button"
+    onClick={onToggle}
+    aria-pressed={locked}
+    title={locked ? `${label} is locked — shuffles keep it` : `Lock ${label.toLowerCase()} during shuffles`}
+    className="flex items-center gap-1 h-6 px-2 rounded-md text-11 font-medium transition-fast"
+    style={{
+      background: locked ? "var(--sidebar-bg-active)" : "var(--sidebar-bg-hover)",
+      color: locked ? "var(--sidebar-text)" : "var(--sidebar-text-muted)",
+      border: locked ? "1px solid var(--sidebar-border)" : "1px solid transparent",
+      cursor: "pointer",
+    }}
+  >
+    {locked ? <Lock size={10} /> : <Unlock size={10} />}
+    {label}
+  </button>
+);
+
 export const Input = ({
   value,
   onChange,
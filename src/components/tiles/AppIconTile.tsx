@@ -13,7 +13,7 @@
  * - Square: icon upper-right, text lower-left — diagonal tension
  */
 import { useRef, useState, useEffect } from 'react';
-import { useBrandStore, type BrandStore } from '@/store/useBrandStore';
+import { useBrandStore, selectCanvasColors, type BrandStore } from '@/store/useBrandStore';
 import { useShallow } from 'zustand/react/shallow';
 import { getAdaptiveTextColor } from '@/utils/color';
 import { COLOR_DEFAULTS } from '@/utils/colorDefaults';
@@ -24,6 +24,7 @@ import { clampFontSize, getFontCategory, getTypeScale, getHeadlineTracking, getH
 import { useTileToolbar } from '@/hooks/useTileToolbar';
 import {
   FloatingToolbar,
+  ToolbarActions,
   ToolbarDivider,
   ToolbarTileTypeGrid,
   ToolbarSurfaceSwatches,
@@ -62,7 +63,7 @@ export function AppIconTile({ placementId }: AppIconTileProps) {
   /* ─── Store ─── */
   const { colors, typography, logo } = useBrandStore(
     useShallow((state: BrandStore) => ({
-      colors: state.brand.colors,
+      colors: selectCanvasColors(state),
       typography: state.brand.typography,
       logo: state.brand.logo,
     }))
@@ -82,7 +83,7 @@ export function AppIconTile({ placementId }: AppIconTileProps) {
 
   /* ─── Colors ─── */
   const { bg, text: textColor, primary, surfaces } = colors;
-  const surfaceBg = resolveSurfaceColor({ placementId, tileSurfaceIndex, surfaces, bg, defaultIndex: 1 });
+  const surfaceBg = resolveSurfaceColor({ placementId, tileSurfaceIndex, surfaces, bg, defaultIndex: 1, colors });
   const adaptiveText = getAdaptiveTextColor(surfaceBg, textColor, COLOR_DEFAULTS.TEXT_LIGHT);
   const fontPreview = useBrandStore((state) => state.fontPreview);
 
@@ -103,6 +104,8 @@ export function AppIconTile({ placementId }: AppIconTileProps) {
 
   const toolbar = isFocused && anchorRect && (
     <FloatingToolbar anchorRect={anchorRect}>
+      <ToolbarActions />
+      <ToolbarDivider />
       <ToolbarTileTypeGrid
         currentType={tile?.type || 'app-icon'}
         onTypeChange={(type) => tile?.id && swapTileType(tile.id, type)}
@@ -158,6 +161,7 @@ export function AppIconTile({ placementId }: AppIconTileProps) {
       }}
     >
       <div
+        data-app-icon="true"
         style={{
           width: iconSize,
           height: iconSize,
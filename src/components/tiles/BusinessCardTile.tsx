@@ -9,7 +9,7 @@
  * scale factor) like InterfaceTile and SocialPostTile.
  */
 import { useRef, useState, useEffect, useCallback } from 'react';
-import { useBrandStore, type BrandStore } from '@/store/useBrandStore';
+import { useBrandStore, selectCanvasColors, nextShuffleRng, type BrandStore } from '@/store/useBrandStore';
 import { useShallow } from 'zustand/react/shallow';
 import { hexToHSL } from '@/utils/colorMapping';
 import { resolveSurfaceColor } from '@/utils/surface';
@@ -18,6 +18,7 @@ import { useGoogleFonts } from '@/hooks/useGoogleFonts';
 import { getFontCategory, getHeadlineLineHeight, getBodyLineHeight, getBodyTracking } from '@/utils/typography';
 import { getPresetContent } from '@/data/tilePresetContent';
 import { useTileToolbar } from '@/hooks/useTileToolbar';
+import { pickIndex } from '@/utils/random';
 import {
   FloatingToolbar,
   ToolbarActions,
@@ -73,7 +74,7 @@ export function BusinessCardTile({ placementId }: BusinessCardTileProps) {
   /* ─── Store ─── */
   const { colors, typography, logo } = useBrandStore(
     useShallow((state: BrandStore) => ({
-      colors: state.brand.colors,
+      colors: selectCanvasColors(state),
       typography: state.brand.typography,
       logo: state.brand.logo,
     }))
@@ -94,7 +95,7 @@ export function BusinessCardTile({ placementId }: BusinessCardTileProps) {
 
   /* ─── Colors ─── */
   const { bg, text: textColor, primary, surfaces } = colors;
-  const surfaceBg = resolveSurfaceColor({ placementId, tileSurfaceIndex, surfaces, bg, defaultIndex: 0 });
+  const surfaceBg = resolveSurfaceColor({ placementId, tileSurfaceIndex, surfaces, bg, defaultIndex: 0, colors });
 
   // Card itself is always light (like a real business card)
   const cardBg = '#ffffff';
@@ -127,7 +128,7 @@ export function BusinessCardTile({ placementId }: BusinessCardTileProps) {
   const handleShuffle = useCallback(() => {
     if (!tile?.id) return;
     const candidates = CARD_PRESETS.filter((p) => p.headline !== name);
-    const preset = candidates[Math.floor(Math.random() * candidates.length)];
+    const preset = candidates[pickIndex(nextShuffleRng(`business-card:${tile.id}`), candidates.length)];
     updateTile(tile.id, preset, true);
   }, [tile?.id, name, updateTile]);
 
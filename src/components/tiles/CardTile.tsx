@@ -6,7 +6,7 @@
  */
 
 import { useState, useEffect } from 'react';
-import { useBrandStore, type BrandStore } from '@/store/useBrandStore';
+import { useBrandStore, selectCanvasColors, type BrandStore } from '@/store/useBrandStore';
 import { useShallow } from 'zustand/react/shallow';
 import { getAdaptiveTextColor } from '@/utils/color';
 import { COLOR_DEFAULTS } from '@/utils/colorDefaults';
@@ -36,7 +36,7 @@ interface CardTileProps {
 export function CardTile({ placementId }: CardTileProps) {
   const { colors, typography, imagery } = useBrandStore(
     useShallow((state: BrandStore) => ({
-      colors: state.brand.colors,
+      colors: selectCanvasColors(state),
       typography: state.brand.typography,
       imagery: state.brand.imagery,
     }))
@@ -63,6 +63,7 @@ export function CardTile({ placementId }: CardTileProps) {
     surfaces,
     bg,
     defaultIndex: 1,
+    colors,
   });
   const adaptiveText = getAdaptiveTextColor(surfaceBg, text, COLOR_DEFAULTS.TEXT_LIGHT);
 
@@ -183,7 +184,7 @@ export function CardTile({ placementId }: CardTileProps) {
           <ToolbarActions
             onShuffle={() => {
               if (tile?.id && !content.imageLocked) {
-                updateTile(tile.id, { image: getRandomShuffleImage(content.image) }, true);
+                updateTile(tile.id, { image: getRandomShuffleImage(content.image, tile.id) }, true);
               }
             }}
             hasImage
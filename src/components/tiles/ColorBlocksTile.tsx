@@ -7,7 +7,7 @@
  * gets a subtle highlight border.
  */
 import { useRef, useState, useEffect } from 'react';
-import { useBrandStore, type BrandStore } from '@/store/useBrandStore';
+import { useBrandStore, selectCanvasColors, type BrandStore } from '@/store/useBrandStore';
 import { useShallow } from 'zustand/react/shallow';
 import { getAdaptiveTextColor } from '@/utils/color';
 import { hexToHSL } from '@/utils/colorMapping';
@@ -19,6 +19,7 @@ import { clampFontSize, getFontCategory, getTypeScale } from '@/utils/typography
 import { useTileToolbar } from '@/hooks/useTileToolbar';
 import {
   FloatingToolbar,
+  ToolbarActions,
   ToolbarDivider,
   ToolbarTileTypeGrid,
   ToolbarSurfaceSwatches,
@@ -56,7 +57,7 @@ export function ColorBlocksTile({ placementId }: ColorBlocksTileProps) {
   /* ─── Store ─── */
   const { colors, typography } = useBrandStore(
     useShallow((state: BrandStore) => ({
-      colors: state.brand.colors,
+      colors: selectCanvasColors(state),
       typography: state.brand.typography,
     }))
   );
@@ -74,7 +75,7 @@ export function ColorBlocksTile({ placementId }: ColorBlocksTileProps) {
 
   /* ─── Colors ─── */
   const { bg, text: textColor, primary, accent, surfaces } = colors;
-  const surfaceBg = resolveSurfaceColor({ placementId, tileSurfaceIndex, surfaces, bg, defaultIndex: 0 });
+  const surfaceBg = resolveSurfaceColor({ placementId, tileSurfaceIndex, surfaces, bg, defaultIndex: 0, colors });
   const adaptiveText = getAdaptiveTextColor(surfaceBg, textColor, COLOR_DEFAULTS.TEXT_LIGHT);
   const fontPreview = useBrandStore((state) => state.fontPreview);
 
@@ -180,6 +181,8 @@ export function ColorBlocksTile({ placementId }: ColorBlocksTileProps) {
 
   const toolbar = isFocused && anchorRect && (
     <FloatingToolbar anchorRect={anchorRect}>
+      <ToolbarActions />
+      <ToolbarDivider />
       <ToolbarTileTypeGrid
         currentType={tile?.type || 'color-blocks'}
         onTypeChange={(type) => tile?.id && swapTileType(tile.id, type)}
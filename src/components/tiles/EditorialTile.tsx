@@ -11,7 +11,7 @@
  * - Landscape/compact: centered, tighter spacing
  */
 import { useRef, useState, useEffect } from 'react';
-import { useBrandStore, type BrandStore } from '@/store/useBrandStore';
+import { useBrandStore, selectCanvasColors, type BrandStore } from '@/store/useBrandStore';
 import { useShallow } from 'zustand/react/shallow';
 import { getAdaptiveTextColor } from '@/utils/color';
 import { COLOR_DEFAULTS } from '@/utils/colorDefaults';
@@ -66,7 +66,7 @@ export function EditorialTile({ placementId }: EditorialTileProps) {
   const { typography, colors } = useBrandStore(
     useShallow((state) => ({
       typography: state.brand.typography,
-      colors: state.brand.colors,
+      colors: selectCanvasColors(state),
     }))
   );
   const activePreset = useBrandStore((state) => state.activePreset);
@@ -99,6 +99,7 @@ export function EditorialTile({ placementId }: EditorialTileProps) {
     surfaces,
     bg,
     defaultIndex: 1,
+    colors,
   });
 
   const adaptiveTextColor = getAdaptiveTextColor(surfaceBg, textColor, COLOR_DEFAULTS.TEXT_LIGHT);
@@ -19,7 +19,7 @@
  *
  * @module FloatingToolbar
  */
-import { useRef, useCallback, useState, useEffect, useLayoutEffect, type ReactNode } from 'react';
+import { useRef, useCallback, useState, useEffect, useLayoutEffect, useMemo, type ReactNode } from 'react';
 import { createPortal } from 'react-dom';
 import {
   RiShuffleFill as Shuffle,
@@ -47,9 +47,27 @@ import {
   RiBankCardFill,
   RiSmartphoneFill,
   RiCameraFill,
+  RiDownload2Fill as Download,
 } from 'react-icons/ri';
 import { HexColorPicker } from 'react-colorful';
-import { useBrandStore } from '@/store/useBrandStore';
+import toast from 'react-hot-toast';
+import { useBrandStore, selectCanvasColors, nextShuffleRng } from '@/store/useBrandStore';
+import {
+  RAMP_STEPS,
+  getBrandRamps,
+  isRampStepRef,
+  type RampStepRef,
+  type SurfaceRef,
+} from '@/utils/colorRamps';
+import { usePlacementTile } from '@/hooks/usePlacementTile';
+import {
+  IMAGE_FORMATS,
+  exportAllTiles,
+  exportAppIconSet,
+  exportTile,
+  type ImageFormat,
+} from '@/utils/export';
+import { pickIndex } from '@/utils/random';
 
 /* ─── Image pool for shuffle ───
  * Curated stock images used when the user clicks "Shuffle" on an
@@ -84,13 +102,15 @@ const SHUFFLE_IMAGES = [
 ];
 
 /** Pick a random image from the active pool, excluding `current` to avoid no-ops.
- *  Uses Lummi collection pool when active, falls back to local SHUFFLE_IMAGES. */
-export function getRandomShuffleImage(current?: string): string {
+ *  Uses Lummi collection pool when active, falls back to local SHUFFLE_IMAGES.
+ *  Draws from the board's shuffle seed, one step per call for `key` (the
+ *  tile or placement ID), so the same seed always leads to the same run. */
+export function getRandomShuffleImage(current: string | undefined, key: string): string {
   const { collectionImagePool } = useBrandStore.getState();
   const source = collectionImagePool.length > 0 ? collectionImagePool : SHUFFLE_IMAGES;
   const pool = current ? source.filter((img) => img !== current) : source;
   if (pool.length === 0) return source[0] ?? SHUFFLE_IMAGES[0];
-  return pool[Math.floor(Math.random() * pool.length)];
+  return pool[pickIndex(nextShuffleRng(`image:${key}`), pool.length)];
 }
 
 /* ─── Wrapper ─── */
@@ -184,10 +204,12 @@ export function FloatingToolbar({ anchorRect, children, width = 260 }: FloatingT
   );
 }
 
-/* ─── Action Bar (shuffle / upload / lock) ───
+/* ─── Action Bar (shuffle / upload / lock / export) ───
  * Row of icon buttons shown at the top of every toolbar.
- * - Shuffle is always visible (cycles preset content or images).
+ * - Shuffle appears when the tile provides `onShuffle`.
  * - Upload and Lock appear only when `hasImage` is true.
+ * - Export is always visible and acts on the focused placement; it opens
+ *   an inline panel for single-tile, app-icon set and whole-board exports.
  */
 
 const iconBtnStyle: React.CSSProperties = {
@@ -203,8 +225,8 @@ const iconBtnStyle: React.CSSProperties = {
 };
 
 interface ToolbarActionsProps {
-  /** Called when user clicks the shuffle button */
-  onShuffle: () => void;
+  /** Called when user clicks the shuffle button (button hidden when omitted) */
+  onShuffle?: () => void;
   /** Show image upload + lock controls (image-bearing tiles only) */
   hasImage?: boolean;
   /** When true, shuffle is a no-op and lock icon is highlighted */
@@ -223,6 +245,7 @@ export function ToolbarActions({
   onImageUpload,
 }: ToolbarActionsProps) {
   const fileRef = useRef<HTMLInputElement>(null);
+  const [showExport, setShowExport] = useState(false);
 
   const handleFile = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -239,34 +262,13 @@ export function ToolbarActions({
   );
 
   return (
-    <div style={{ display: 'flex', gap: 4 }}>
-      {/* Shuffle */}
-      <button
-        onClick={onShuffle}
-        aria-label="Shuffle content"
-        style={{
-          ...iconBtnStyle,
-          background: 'var(--sidebar-bg-hover)',
-          color: 'var(--sidebar-text-muted)',
-        }}
-        onMouseEnter={(e) => {
-          e.currentTarget.style.background = 'var(--sidebar-bg-active)';
-          e.currentTarget.style.color = 'var(--sidebar-text)';
-        }}
-        onMouseLeave={(e) => {
-          e.currentTarget.style.background = 'var(--sidebar-bg-hover)';
-          e.currentTarget.style.color = 'var(--sidebar-text-muted)';
-        }}
-      >
-        <Shuffle size={14} />
-      </button>
-
-      {/* Image upload */}
-      {hasImage && onImageUpload && (
-        <>
+    <>
+      <div style={{ display: 'flex', gap: 4 }}>
+        {/* Shuffle */}
+        {onShuffle && (
           <button
-            onClick={() => fileRef.current?.click()}
-            aria-label="Upload image"
+            onClick={onShuffle}
+            aria-label="Shuffle content"
             style={{
               ...iconBtnStyle,
               background: 'var(--sidebar-bg-hover)',
@@ -281,44 +283,169 @@ export function ToolbarActions({
               e.currentTarget.style.color = 'var(--sidebar-text-muted)';
             }}
           >
-            <ImagePlus size={14} />
+            <Shuffle size={14} />
           </button>
-          <input
-            ref={fileRef}
-            type="file"
-            accept="image/*"
-            onChange={handleFile}
-            style={{ display: 'none' }}
-          />
-        </>
-      )}
+        )}
 
-      {/* Lock toggle */}
-      {hasImage && onToggleLock && (
+        {/* Image upload */}
+        {hasImage && onImageUpload && (
+          <>
+            <button
+              onClick={() => fileRef.current?.click()}
+              aria-label="Upload image"
+              style={{
+                ...iconBtnStyle,
+                background: 'var(--sidebar-bg-hover)',
+                color: 'var(--sidebar-text-muted)',
+              }}
+              onMouseEnter={(e) => {
+                e.currentTarget.style.background = 'var(--sidebar-bg-active)';
+                e.currentTarget.style.color = 'var(--sidebar-text)';
+              }}
+              onMouseLeave={(e) => {
+                e.currentTarget.style.background = 'var(--sidebar-bg-hover)';
+                e.currentTarget.style.color = 'var(--sidebar-text-muted)';
+              }}
+            >
+              <ImagePlus size={14} />
+            </button>
+            <input
+              ref={fileRef}
+              type="file"
+              accept="image/*"
+              onChange={handleFile}
+              style={{ display: 'none' }}
+            />
+          </>
+        )}
+
+        {/* Lock toggle */}
+        {hasImage && onToggleLock && (
+          <button
+            onClick={onToggleLock}
+            aria-label={imageLocked ? 'Unlock image' : 'Lock image'}
+            style={{
+              ...iconBtnStyle,
+              background: imageLocked ? 'var(--accent)' : 'var(--sidebar-bg-hover)',
+              color: imageLocked ? '#fff' : 'var(--sidebar-text-muted)',
+            }}
+            onMouseEnter={(e) => {
+              if (!imageLocked) {
+                e.currentTarget.style.background = 'var(--sidebar-bg-active)';
+                e.currentTarget.style.color = 'var(--sidebar-text)';
+              }
+            }}
+            onMouseLeave={(e) => {
+              if (!imageLocked) {
+                e.currentTarget.style.background = 'var(--sidebar-bg-hover)';
+                e.currentTarget.style.color = 'var(--sidebar-text-muted)';
+              }
+            }}
+          >
+            {imageLocked ? <Lock size={14} /> : <Unlock size={14} />}
+          </button>
+        )}
+
+        {/* Export */}
         <button
-          onClick={onToggleLock}
-          aria-label={imageLocked ? 'Unlock image' : 'Lock image'}
+          onClick={() => setShowExport((v) => !v)}
+          aria-label="Export tile"
+          aria-expanded={showExport}
           style={{
             ...iconBtnStyle,
-            background: imageLocked ? 'var(--accent)' : 'var(--sidebar-bg-hover)',
-            color: imageLocked ? '#fff' : 'var(--sidebar-text-muted)',
-          }}
-          onMouseEnter={(e) => {
-            if (!imageLocked) {
-              e.currentTarget.style.background = 'var(--sidebar-bg-active)';
-              e.currentTarget.style.color = 'var(--sidebar-text)';
-            }
-          }}
-          onMouseLeave={(e) => {
-            if (!imageLocked) {
-              e.currentTarget.style.background = 'var(--sidebar-bg-hover)';
-              e.currentTarget.style.color = 'var(--sidebar-text-muted)';
-            }
+            marginLeft: 'auto',
+            background: showExport ? 'var(--sidebar-bg-active)' : 'var(--sidebar-bg-hover)',
+            color: showExport ? 'var(--sidebar-text)' : 'var(--sidebar-text-muted)',
           }}
         >
-          {imageLocked ? <Lock size={14} /> : <Unlock size={14} />}
+          <Download size={14} />
+        </button>
+      </div>
+      {showExport && <ToolbarExportPanel />}
+    </>
+  );
+}
+
+/* ─── Export Panel ───
+ * Inline panel under the action bar. Exports the focused placement's
+ * tile at a chosen format and scale, the app icon as a multi-size set,
+ * or every tile on the board as a ZIP.
+ */
+
+const EXPORT_SCALES = ['1', '2', '3', '4'];
+
+function ToolbarExportPanel() {
+  const placementId = useBrandStore((s) => s.focusedTileId);
+  const { tileId, tileType: defaultType } = usePlacementTile(placementId ?? undefined);
+  const tileType = useBrandStore((s) => s.tiles.find((t) => t.id === tileId)?.type) ?? defaultType;
+  const [format, setFormat] = useState<ImageFormat>('png');
+  const [scale, setScale] = useState('2');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (label: string, task: () => Promise<unknown>) => {
+    setBusy(true);
+    try {
+      await task();
+      toast.success(`${label} exported!`);
+    } catch (error) {
+      console.error(`${label} export failed:`, error);
+      toast.error('Export failed. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const exportBoardTiles = () => {
+    const canvas = document.querySelector<HTMLElement>('.bento-canvas');
+    if (!canvas) return Promise.reject(new Error('Canvas not found'));
+    return exportAllTiles(canvas, format, Number(scale));
+  };
+
+  const buttonStyle: React.CSSProperties = {
+    height: 28,
+    fontSize: 11,
+    fontWeight: 500,
+    borderRadius: 7,
+    border: 'none',
+    cursor: busy ? 'wait' : 'pointer',
+    background: 'var(--sidebar-bg-hover)',
+    color: 'var(--sidebar-text)',
+    opacity: busy ? 0.6 : 1,
+  };
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+      <ToolbarSegmented
+        label="Format"
+        options={IMAGE_FORMATS.map((f) => ({ value: f.key, label: f.label }))}
+        value={format}
+        onChange={(v) => setFormat(v as ImageFormat)}
+      />
+      <ToolbarSegmented
+        label="Scale"
+        options={EXPORT_SCALES.map((s) => ({ value: s, label: `${s}x` }))}
+        value={scale}
+        onChange={setScale}
+      />
+      <button
+        disabled={busy || !placementId}
+        style={{ ...buttonStyle, background: 'var(--accent)', color: '#1C1917' }}
+        onClick={() => placementId && run('Tile', () => exportTile(placementId, format, Number(scale)))}
+      >
+        Export this tile
+      </button>
+      {tileType === 'app-icon' && placementId && (
+        <button
+          disabled={busy}
+          style={buttonStyle}
+          onClick={() => run('Icon set', () => exportAppIconSet(placementId))}
+        >
+          Icon set 16–1024 (.zip)
         </button>
       )}
+      <button disabled={busy} style={buttonStyle} onClick={() => run('Tiles', exportBoardTiles)}>
+        All tiles (.zip)
+      </button>
     </div>
   );
 }
@@ -651,18 +778,44 @@ export function ToolbarTextArea({
 interface ToolbarSurfaceSwatchesProps {
   surfaces: string[];
   bgColor: string;
-  currentIndex: number | undefined;
-  onSurfaceChange: (index: number | undefined) => void;
+  /** Surface index or ramp step reference; undefined means auto */
+  currentIndex: SurfaceRef | undefined;
+  onSurfaceChange: (surface: SurfaceRef | undefined) => void;
 }
 
 export function ToolbarSurfaceSwatches({ surfaces, bgColor, currentIndex, onSurfaceChange }: ToolbarSurfaceSwatchesProps) {
   const swatchSize = 20;
+  const colors = useBrandStore(selectCanvasColors);
+  const [showRamps, setShowRamps] = useState(() => isRampStepRef(currentIndex));
+  // Only the surfaces offered as swatches get a ramp row
+  const ramps = useMemo(
+    () => (showRamps ? getBrandRamps({ ...colors, surfaces: (surfaces || []).slice(0, 7) }) : []),
+    [showRamps, colors, surfaces]
+  );
 
   return (
     <div>
-      <span style={{ fontSize: 11, fontWeight: 500, color: 'var(--sidebar-text-muted)', display: 'block', marginBottom: 6 }}>
-        Surface
-      </span>
+      <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: 6 }}>
+        <span style={{ fontSize: 11, fontWeight: 500, color: 'var(--sidebar-text-muted)' }}>
+          Surface
+        </span>
+        <button
+          onClick={() => setShowRamps((v) => !v)}
+          aria-expanded={showRamps}
+          style={{
+            fontSize: 10,
+            fontWeight: 500,
+            padding: '1px 6px',
+            borderRadius: 4,
+            border: 'none',
+            cursor: 'pointer',
+            background: showRamps ? 'var(--sidebar-bg-active)' : 'transparent',
+            color: showRamps ? 'var(--sidebar-text)' : 'var(--sidebar-text-muted)',
+          }}
+        >
+          Ramps
+        </button>
+      </div>
       <div style={{ display: 'flex', gap: 4, flexWrap: 'wrap' }}>
         {/* Auto option */}
         <button
@@ -703,6 +856,44 @@ export function ToolbarSurfaceSwatches({ surfaces, bgColor, currentIndex, onSurf
           />
         ))}
       </div>
+
+      {/* Ramp steps (50–950) */}
+      {showRamps && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 3, marginTop: 8 }}>
+          {ramps.map(({ name, label, ramp }) => (
+            <div key={name} style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+              <span style={{ fontSize: 10, color: 'var(--sidebar-text-muted)', width: 56, flexShrink: 0 }}>
+                {label}
+              </span>
+              <div style={{ display: 'flex', gap: 1 }}>
+                {RAMP_STEPS.map((step) => {
+                  const ref: RampStepRef = `${name}.${step}`;
+                  return (
+                    <button
+                      key={step}
+                      onClick={() => onSurfaceChange(ref)}
+                      aria-label={`${label} ${step}`}
+                      title={`${label} ${step} · ${ramp[step]}`}
+                      style={{
+                        width: 12,
+                        height: 14,
+                        borderRadius: 2,
+                        border: 'none',
+                        padding: 0,
+                        cursor: 'pointer',
+                        backgroundColor: ramp[step],
+                        boxShadow: currentIndex === ref
+                          ? `0 0 0 1px var(--sidebar-bg), 0 0 0 2px var(--accent)`
+                          : 'none',
+                      }}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
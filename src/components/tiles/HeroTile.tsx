@@ -10,7 +10,7 @@
  * (Previously also served as "overlay" tile type — now merged into one.)
  */
 import { useRef, useCallback } from 'react';
-import { useBrandStore, type BrandStore, type TileContent } from '@/store/useBrandStore';
+import { useBrandStore, selectCanvasColors, type BrandStore, type TileContent } from '@/store/useBrandStore';
 import { useShallow } from 'zustand/react/shallow';
 import { motion } from 'motion/react';
 import { usePlacementTile } from '@/hooks/usePlacementTile';
@@ -46,7 +46,7 @@ export function HeroTile({ placementId }: HeroTileProps) {
   const { typography, colors, imagery } = useBrandStore(
     useShallow((state: BrandStore) => ({
       typography: state.brand.typography,
-      colors: state.brand.colors,
+      colors: selectCanvasColors(state),
       imagery: state.brand.imagery,
     }))
   );
@@ -119,7 +119,7 @@ export function HeroTile({ placementId }: HeroTileProps) {
     <ToolbarActions
       onShuffle={() => {
         if (!content.imageLocked) {
-          updateTile(tile!.id, { image: getRandomShuffleImage(content.image) }, true);
+          updateTile(tile!.id, { image: getRandomShuffleImage(content.image, tile!.id) }, true);
         }
       }}
       hasImage
@@ -8,7 +8,7 @@
  */
 import { memo, useRef, useState, useEffect, useCallback } from 'react';
 import type { IconType } from 'react-icons';
-import { useBrandStore } from '@/store/useBrandStore';
+import { useBrandStore, selectCanvasColors } from '@/store/useBrandStore';
 import { useShallow } from 'zustand/react/shallow';
 import { hexToHSL } from '@/utils/colorMapping';
 import { COLOR_DEFAULTS } from '@/utils/colorDefaults';
@@ -163,7 +163,7 @@ export const IconsTile = memo(function IconsTile({ placementId }: IconsTileProps
 
   const { colors } = useBrandStore(
     useShallow((state) => ({
-      colors: state.brand.colors,
+      colors: selectCanvasColors(state),
     }))
   );
   const swapTileType = useBrandStore((s) => s.swapTileType);
@@ -195,6 +195,7 @@ export const IconsTile = memo(function IconsTile({ placementId }: IconsTileProps
     surfaces,
     bg,
     defaultIndex: 0,
+    colors,
   });
 
   const surfaceL = hexToHSL(surfaceBg).l;
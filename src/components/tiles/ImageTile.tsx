@@ -68,7 +68,7 @@ export const ImageTile = ({ placementId }: { placementId: string }) => {
                     <FloatingToolbar anchorRect={anchorRect}>
                         <ToolbarActions
                             onShuffle={() => {
-                                updateTile(tile!.id, { image: getRandomShuffleImage(content.image) }, true);
+                                updateTile(tile!.id, { image: getRandomShuffleImage(content.image, tile!.id) }, true);
                             }}
                             hasImage
                             imageLocked={!!content.imageLocked}
@@ -126,7 +126,7 @@ export const ImageTile = ({ placementId }: { placementId: string }) => {
                     <ToolbarActions
                         onShuffle={() => {
                             if (!content.imageLocked) {
-                                updateTile(tile!.id, { image: getRandomShuffleImage(content.image) }, true);
+                                updateTile(tile!.id, { image: getRandomShuffleImage(content.image, tile!.id) }, true);
                             }
                         }}
                         hasImage
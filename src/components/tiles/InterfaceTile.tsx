@@ -6,12 +6,11 @@
  * Click tile to show floating toolbar for editing button settings.
  */
 import { useRef, useState, useEffect, useCallback } from 'react';
-import { useBrandStore, type BrandStore } from '@/store/useBrandStore';
+import { useBrandStore, selectCanvasColors, type BrandStore } from '@/store/useBrandStore';
 import { useShallow } from 'zustand/react/shallow';
 import { HexColorPicker } from 'react-colorful';
-import { getAdaptiveTextColor } from '@/utils/color';
-import { COLOR_DEFAULTS } from '@/utils/colorDefaults';
 import { resolveSurfaceColor } from '@/utils/surface';
+import { BUTTON_SIZES, getButtonStyleColors } from '@/utils/buttons';
 import { usePlacementTile } from '@/hooks/usePlacementTile';
 import { useGoogleFonts } from '@/hooks/useGoogleFonts';
 import { getFontCategory } from '@/utils/typography';
@@ -42,7 +41,7 @@ interface InterfaceTileProps {
 export function InterfaceTile({ placementId }: InterfaceTileProps) {
   const { colors, bodyFont, ui } = useBrandStore(
     useShallow((state: BrandStore) => ({
-      colors: state.brand.colors,
+      colors: selectCanvasColors(state),
       bodyFont: state.brand.typography.secondary,
       ui: state.brand.ui,
     }))
@@ -77,12 +76,7 @@ export function InterfaceTile({ placementId }: InterfaceTileProps) {
   const btnUppercase = ui?.buttonUppercase ?? false;
   const btnLetterSpacing = ui?.buttonLetterSpacing ?? 0;
 
-  const sizeMap: Record<string, { height: number; fontSize: number; px: number }> = {
-    compact: { height: 36, fontSize: 12, px: 16 },
-    default: { height: 46, fontSize: 14, px: 22 },
-    large: { height: 54, fontSize: 15, px: 28 },
-  };
-  const sizeConfig = sizeMap[btnSize] || sizeMap.default;
+  const sizeConfig = BUTTON_SIZES[btnSize] || BUTTON_SIZES.default;
   const content = tile?.content || {};
   const primaryLabel = content.buttonLabel || 'Get Started';
   const secondaryLabel = content.headerTitle || 'Learn More';
@@ -95,6 +89,7 @@ export function InterfaceTile({ placementId }: InterfaceTileProps) {
     surfaces,
     bg,
     defaultIndex: 1,
+    colors,
   });
 
   const tileBgL = hexToHSL(tileBg).l;
@@ -104,37 +99,7 @@ export function InterfaceTile({ placementId }: InterfaceTileProps) {
     ? `color-mix(in srgb, ${text} 80%, transparent)`
     : `color-mix(in srgb, ${text} 75%, transparent)`;
 
-  const btnTextOnFilled = getAdaptiveTextColor(
-    btnColor,
-    COLOR_DEFAULTS.TEXT_DARK,
-    COLOR_DEFAULTS.WHITE
-  );
-
-  const primaryBtnStyles = (() => {
-    switch (btnStyle) {
-      case 'outline':
-        return {
-          backgroundColor: 'transparent',
-          color: btnColor,
-          border: `1.5px solid ${btnColor}`,
-          boxShadow: 'none',
-        };
-      case 'soft':
-        return {
-          backgroundColor: `color-mix(in srgb, ${btnColor} 12%, transparent)`,
-          color: btnColor,
-          border: 'none',
-          boxShadow: 'none',
-        };
-      default:
-        return {
-          backgroundColor: btnColor,
-          color: btnTextOnFilled,
-          border: 'none',
-          boxShadow: 'none',
-        };
-    }
-  })();
+  const primaryBtnStyles = { ...getButtonStyleColors(btnStyle, btnColor), boxShadow: 'none' };
 
   // Scale-to-fit: the button card is authored at CARD_W x CARD_H,
   // then uniformly scaled to fill the tile with 8% proportional padding.
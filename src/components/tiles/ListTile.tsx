@@ -11,7 +11,7 @@
  *   Adapts to portrait/landscape/square shapes.
  */
 import { useRef, useState, useEffect } from 'react';
-import { useBrandStore, type BrandStore, type Tile } from '@/store/useBrandStore';
+import { useBrandStore, selectCanvasColors, type BrandStore, type Tile } from '@/store/useBrandStore';
 import { useShallow } from 'zustand/react/shallow';
 import { motion } from 'motion/react';
 import { getAdaptiveTextColor } from '@/utils/color';
@@ -67,7 +67,7 @@ export function ListTile({ placementId, variant = 'list' }: ListTileProps) {
 
   const { colors, typography, activePreset, imagery } = useBrandStore(
     useShallow((state: BrandStore) => ({
-      colors: state.brand.colors,
+      colors: selectCanvasColors(state),
       typography: state.brand.typography,
       activePreset: state.activePreset,
       imagery: state.brand.imagery,
@@ -95,6 +95,7 @@ export function ListTile({ placementId, variant = 'list' }: ListTileProps) {
     surfaces,
     bg,
     defaultIndex: 1,
+    colors,
   });
   const adaptiveText = getAdaptiveTextColor(surfaceBg, text, COLOR_DEFAULTS.TEXT_LIGHT);
   const fontPreview = useBrandStore((state) => state.fontPreview);
@@ -503,7 +504,7 @@ function SplitLayout({
         <FloatingToolbar anchorRect={anchorRect}>
           <ToolbarActions
             onShuffle={() => {
-              if (tile?.id) updateTile(tile.id, { image: getRandomShuffleImage(content.image as string) }, true);
+              if (tile?.id) updateTile(tile.id, { image: getRandomShuffleImage(content.image as string, tile.id) }, true);
             }}
             hasImage
             imageLocked={!!content.imageLocked}
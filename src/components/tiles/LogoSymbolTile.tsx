@@ -13,7 +13,7 @@
  * headline font — aligning visually with LogoTile's fallback.
  */
 import { memo, useCallback } from 'react';
-import { useBrandStore, type BrandStore } from '@/store/useBrandStore';
+import { useBrandStore, selectCanvasColors, type BrandStore } from '@/store/useBrandStore';
 import { useShallow } from 'zustand/react/shallow';
 import { COLOR_DEFAULTS } from '@/utils/colorDefaults';
 import { getAdaptiveTextColor } from '@/utils/color';
@@ -45,7 +45,7 @@ export const LogoSymbolTile = memo(function LogoSymbolTile({ placementId }: Logo
   const { logo, colors, typography } = useBrandStore(
     useShallow((state: BrandStore) => ({
       logo: state.brand.logo,
-      colors: state.brand.colors,
+      colors: selectCanvasColors(state),
       typography: state.brand.typography,
     }))
   );
@@ -86,6 +86,7 @@ export const LogoSymbolTile = memo(function LogoSymbolTile({ placementId }: Logo
     surfaces,
     bg,
     defaultIndex: 1,
+    colors,
   });
   const adaptiveText = getAdaptiveTextColor(surfaceBg, textColor, COLOR_DEFAULTS.TEXT_LIGHT);
 
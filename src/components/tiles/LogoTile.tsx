@@ -6,7 +6,7 @@
  * Adapts size for hero placements.
  */
 import { memo, useCallback } from 'react';
-import { useBrandStore } from '@/store/useBrandStore';
+import { useBrandStore, selectCanvasColors } from '@/store/useBrandStore';
 import { useShallow } from 'zustand/react/shallow';
 import { hexToHSL } from '@/utils/colorMapping';
 import { COLOR_DEFAULTS } from '@/utils/colorDefaults';
@@ -35,7 +35,7 @@ export const LogoTile = memo(function LogoTile({ placementId }: LogoTileProps) {
   const { logo, colors, typography } = useBrandStore(
     useShallow((state) => ({
       logo: state.brand.logo,
-      colors: state.brand.colors,
+      colors: selectCanvasColors(state),
       typography: state.brand.typography,
     }))
   );
@@ -6,7 +6,7 @@
  * maximum typographic impact. No body copy, no CTA, just color + type.
  */
 import { useRef, useState, useEffect, useCallback } from 'react';
-import { useBrandStore, type BrandStore } from '@/store/useBrandStore';
+import { useBrandStore, selectCanvasColors, nextShuffleRng, type BrandStore } from '@/store/useBrandStore';
 import { useShallow } from 'zustand/react/shallow';
 import { getAdaptiveTextColor } from '@/utils/color';
 import { COLOR_DEFAULTS } from '@/utils/colorDefaults';
@@ -16,6 +16,7 @@ import { useGoogleFonts } from '@/hooks/useGoogleFonts';
 import { clampFontSize, getFontCategory, getTypeScale, getHeadlineTracking, getHeadlineLineHeight, getHeadlineTransform } from '@/utils/typography';
 import { getPresetContent } from '@/data/tilePresetContent';
 import { useTileToolbar } from '@/hooks/useTileToolbar';
+import { pickIndex } from '@/utils/random';
 import {
   FloatingToolbar,
   ToolbarActions,
@@ -64,7 +65,7 @@ export function MessagingTile({ placementId }: MessagingTileProps) {
   /* ─── Store ─── */
   const { colors, typography } = useBrandStore(
     useShallow((state: BrandStore) => ({
-      colors: state.brand.colors,
+      colors: selectCanvasColors(state),
       typography: state.brand.typography,
     }))
   );
@@ -84,7 +85,7 @@ export function MessagingTile({ placementId }: MessagingTileProps) {
 
   /* ─── Colors ─── */
   const { bg, text: textColor, surfaces } = colors;
-  const surfaceBg = resolveSurfaceColor({ placementId, tileSurfaceIndex, surfaces, bg, defaultIndex: 2 });
+  const surfaceBg = resolveSurfaceColor({ placementId, tileSurfaceIndex, surfaces, bg, defaultIndex: 2, colors });
   const adaptiveText = getAdaptiveTextColor(surfaceBg, textColor, COLOR_DEFAULTS.TEXT_LIGHT);
   const fontPreview = useBrandStore((state) => state.fontPreview);
 
@@ -109,7 +110,7 @@ export function MessagingTile({ placementId }: MessagingTileProps) {
   const handleShuffle = useCallback(() => {
     if (!tile?.id) return;
     const candidates = MESSAGING_PRESETS.filter((p) => p !== statement);
-    const preset = candidates[Math.floor(Math.random() * candidates.length)];
+    const preset = candidates[pickIndex(nextShuffleRng(`messaging:${tile.id}`), candidates.length)];
     updateTile(tile.id, { headline: preset }, true);
   }, [tile?.id, statement, updateTile]);
 
@@ -9,7 +9,7 @@
  * Pattern color and scale derive from the brand store — never hardcoded.
  */
 import { useRef, useState, useEffect, useCallback, useId } from 'react';
-import { useBrandStore, type BrandStore } from '@/store/useBrandStore';
+import { useBrandStore, selectCanvasColors, type BrandStore } from '@/store/useBrandStore';
 import { useShallow } from 'zustand/react/shallow';
 import { resolveSurfaceColor } from '@/utils/surface';
 import { hexToHSL } from '@/utils/colorMapping';
@@ -186,7 +186,7 @@ export function PatternTile({ placementId }: PatternTileProps) {
 
   const { colors } = useBrandStore(
     useShallow((state: BrandStore) => ({
-      colors: state.brand.colors,
+      colors: selectCanvasColors(state),
     }))
   );
   const updateTile = useBrandStore((s) => s.updateTile);
@@ -211,6 +211,7 @@ export function PatternTile({ placementId }: PatternTileProps) {
     surfaces,
     bg,
     defaultIndex: 0,
+    colors,
   });
 
   const currentVariant: PatternVariant =
@@ -5,7 +5,7 @@
  * Supports 1–3 cards that scale fluidly to fill available space.
  */
 import { useRef, useState, useEffect, useCallback } from 'react';
-import { useBrandStore, type BrandStore } from '@/store/useBrandStore';
+import { useBrandStore, selectCanvasColors, type BrandStore } from '@/store/useBrandStore';
 import { useShallow } from 'zustand/react/shallow';
 import { RiHeartFill as Heart, RiChat1Fill as MessageCircle, RiSendPlaneFill as Send, RiBookmarkFill as Bookmark, RiMoreFill as MoreHorizontal } from 'react-icons/ri';
 import { resolveSurfaceColor } from '@/utils/surface';
@@ -51,7 +51,7 @@ interface SocialPostTileProps {
 export function SocialPostTile({ placementId }: SocialPostTileProps) {
   const { colors, logoText, imagery } = useBrandStore(
     useShallow((state: BrandStore) => ({
-      colors: state.brand.colors,
+      colors: selectCanvasColors(state),
       logoText: state.brand.logo.text,
       imagery: state.brand.imagery,
     }))
@@ -97,6 +97,7 @@ export function SocialPostTile({ placementId }: SocialPostTileProps) {
     surfaces,
     bg,
     defaultIndex: 1,
+    colors,
   });
 
   const surfaceL = hexToHSL(surfaceBg).l;
@@ -154,7 +155,7 @@ export function SocialPostTile({ placementId }: SocialPostTileProps) {
 
   const handleShuffle = useCallback(() => {
     const currentImage = placementContent?.image || tile?.content?.image;
-    const newImage = getRandomShuffleImage(currentImage);
+    const newImage = getRandomShuffleImage(currentImage, placementId ?? tile?.id ?? 'social-post');
     if (placementId) {
       setPlacementContent(placementId, { image: newImage }, true);
     } else if (tile?.id) {
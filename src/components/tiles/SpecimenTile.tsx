@@ -8,7 +8,7 @@
  *   brand accent color. Inspired by type-foundry posters.
  */
 import { useRef, useState, useEffect, useCallback, useMemo } from 'react';
-import { useBrandStore, type BrandStore } from '@/store/useBrandStore';
+import { useBrandStore, selectCanvasColors, nextShuffleRng, type BrandStore } from '@/store/useBrandStore';
 import { useShallow } from 'zustand/react/shallow';
 import { getAdaptiveTextColor } from '@/utils/color';
 import { COLOR_DEFAULTS } from '@/utils/colorDefaults';
@@ -17,6 +17,7 @@ import { usePlacementTile } from '@/hooks/usePlacementTile';
 import { useGoogleFonts } from '@/hooks/useGoogleFonts';
 import { clampFontSize, getFontCategory, getTypeScale, getHeadlineTracking, getHeadlineLineHeight } from '@/utils/typography';
 import { useTileToolbar } from '@/hooks/useTileToolbar';
+import { pickIndex } from '@/utils/random';
 import {
   FloatingToolbar,
   ToolbarActions,
@@ -79,7 +80,7 @@ export function SpecimenTile({ placementId }: SpecimenTileProps) {
   /* ─── Store ─── */
   const { colors, typography } = useBrandStore(
     useShallow((state: BrandStore) => ({
-      colors: state.brand.colors,
+      colors: selectCanvasColors(state),
       typography: state.brand.typography,
     }))
   );
@@ -98,7 +99,7 @@ export function SpecimenTile({ placementId }: SpecimenTileProps) {
 
   /* ─── Colors ─── */
   const { bg, text: textColor, primary: primaryColor, surfaces } = colors;
-  const surfaceBg = resolveSurfaceColor({ placementId, tileSurfaceIndex, surfaces, bg, defaultIndex: 0 });
+  const surfaceBg = resolveSurfaceColor({ placementId, tileSurfaceIndex, surfaces, bg, defaultIndex: 0, colors });
   const adaptiveText = getAdaptiveTextColor(surfaceBg, textColor, COLOR_DEFAULTS.TEXT_LIGHT);
   const fontPreview = useBrandStore((state) => state.fontPreview);
 
@@ -135,11 +136,11 @@ export function SpecimenTile({ placementId }: SpecimenTileProps) {
     if (!tile?.id) return;
     if (variation === 'wordlist') {
       const candidates = WORDLIST_PRESETS.filter((p) => JSON.stringify(p) !== JSON.stringify(wordlistData));
-      const preset = candidates[Math.floor(Math.random() * candidates.length)];
+      const preset = candidates[pickIndex(nextShuffleRng(`wordlist:${tile.id}`), candidates.length)];
       updateTile(tile.id, { body: JSON.stringify(preset) }, true);
     } else {
       const candidates = ALPHABET_PRESETS.filter((p) => p !== characters);
-      const preset = candidates[Math.floor(Math.random() * candidates.length)];
+      const preset = candidates[pickIndex(nextShuffleRng(`alphabet:${tile.id}`), candidates.length)];
       updateTile(tile.id, { headline: preset }, true);
     }
   }, [tile?.id, variation, characters, wordlistData, updateTile]);
@@ -10,7 +10,7 @@
  * - Portrait/narrow: stacked (image top, copy bottom)
  */
 import { useRef, useState, useEffect } from 'react';
-import { useBrandStore, type BrandStore } from '@/store/useBrandStore';
+import { useBrandStore, selectCanvasColors, type BrandStore } from '@/store/useBrandStore';
 import { useShallow } from 'zustand/react/shallow';
 import { motion } from 'motion/react';
 import { getAdaptiveTextColor } from '@/utils/color';
@@ -68,7 +68,7 @@ export function SplitHeroTile({ placementId }: SplitHeroTileProps) {
   const { typography, colors, ui, imagery } = useBrandStore(
     useShallow((state: BrandStore) => ({
       typography: state.brand.typography,
-      colors: state.brand.colors,
+      colors: selectCanvasColors(state),
       ui: state.brand.ui,
       imagery: state.brand.imagery,
     }))
@@ -108,6 +108,7 @@ export function SplitHeroTile({ placementId }: SplitHeroTileProps) {
     surfaces,
     bg,
     defaultIndex: 0,
+    colors,
   });
   const adaptiveText = getAdaptiveTextColor(surfaceBg, text, COLOR_DEFAULTS.TEXT_LIGHT);
 
@@ -266,7 +267,7 @@ export function SplitHeroTile({ placementId }: SplitHeroTileProps) {
         <FloatingToolbar anchorRect={anchorRect}>
           <ToolbarActions
             onShuffle={() => {
-              if (tile?.id) updateTile(tile.id, { image: getRandomShuffleImage(content.image) }, true);
+              if (tile?.id) updateTile(tile.id, { image: getRandomShuffleImage(content.image, tile.id) }, true);
             }}
             hasImage
             imageLocked={!!content.imageLocked}
@@ -10,7 +10,7 @@
  * - Landscape: side-by-side, number left, label + detail right
  */
 import { useRef, useState, useEffect, useCallback } from 'react';
-import { useBrandStore, type BrandStore } from '@/store/useBrandStore';
+import { useBrandStore, selectCanvasColors, nextShuffleRng, type BrandStore } from '@/store/useBrandStore';
 import { useShallow } from 'zustand/react/shallow';
 import { getAdaptiveTextColor } from '@/utils/color';
 import { COLOR_DEFAULTS } from '@/utils/colorDefaults';
@@ -19,6 +19,7 @@ import { usePlacementTile } from '@/hooks/usePlacementTile';
 import { useGoogleFonts } from '@/hooks/useGoogleFonts';
 import { clampFontSize, getFontCategory, getTypeScale, getHeadlineTracking } from '@/utils/typography';
 import { useTileToolbar } from '@/hooks/useTileToolbar';
+import { pickIndex } from '@/utils/random';
 import {
   FloatingToolbar,
   ToolbarActions,
@@ -75,7 +76,7 @@ export function StatsTile({ placementId }: StatsTileProps) {
   /* ─── Store subscriptions ─── */
   const { colors, typography } = useBrandStore(
     useShallow((state: BrandStore) => ({
-      colors: state.brand.colors,
+      colors: selectCanvasColors(state),
       typography: state.brand.typography,
     }))
   );
@@ -94,7 +95,7 @@ export function StatsTile({ placementId }: StatsTileProps) {
 
   /* ─── Surface + text color ─── */
   const { bg, text, surfaces } = colors;
-  const surfaceBg = resolveSurfaceColor({ placementId, tileSurfaceIndex, surfaces, bg, defaultIndex: 0 });
+  const surfaceBg = resolveSurfaceColor({ placementId, tileSurfaceIndex, surfaces, bg, defaultIndex: 0, colors });
   const adaptiveText = getAdaptiveTextColor(surfaceBg, text, COLOR_DEFAULTS.TEXT_LIGHT);
   const fontPreview = useBrandStore((state) => state.fontPreview);
 
@@ -118,7 +119,7 @@ export function StatsTile({ placementId }: StatsTileProps) {
   const handleShuffle = useCallback(() => {
     if (!tile?.id) return;
     const candidates = STAT_PRESETS.filter((p) => p.headline !== statValue);
-    const preset = candidates[Math.floor(Math.random() * candidates.length)];
+    const preset = candidates[pickIndex(nextShuffleRng(`stats:${tile.id}`), candidates.length)];
     updateTile(tile.id, { headline: preset.headline, label: preset.label, body: preset.body }, true);
   }, [tile?.id, statValue, updateTile]);
 
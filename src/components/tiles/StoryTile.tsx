@@ -76,7 +76,7 @@ export function StoryTile({ placementId }: StoryTileProps) {
 
   /* ─── Image handling ─── */
   const handleShuffle = useCallback(() => {
-    const newImage = getRandomShuffleImage(imageUrl);
+    const newImage = getRandomShuffleImage(imageUrl, placementId ?? tile?.id ?? 'story');
     if (placementId) {
       setPlacementContent(placementId, { image: newImage }, true);
     } else if (tile?.id) {
@@ -10,7 +10,7 @@
  *   and accent. Click any bar to copy its hex value.
  */
 import { useRef } from 'react';
-import { useBrandStore, type BrandStore } from '@/store/useBrandStore';
+import { useBrandStore, selectCanvasColors, type BrandStore } from '@/store/useBrandStore';
 import { useShallow } from 'zustand/react/shallow';
 import { useMemo, useState } from 'react';
 import { motion } from 'motion/react';
@@ -23,6 +23,8 @@ import { RiCheckFill as Check } from 'react-icons/ri';
 import { useTileToolbar } from '@/hooks/useTileToolbar';
 import {
   FloatingToolbar,
+  ToolbarActions,
+  ToolbarDivider,
   ToolbarTileTypeGrid,
 } from './FloatingToolbar';
 
@@ -40,7 +42,7 @@ export function SwatchTile({ placementId, variant = 'chips' }: SwatchTileProps)
   const containerRef = useRef<HTMLDivElement>(null);
   const { colors, typography } = useBrandStore(
     useShallow((state: BrandStore) => ({
-      colors: state.brand.colors,
+      colors: selectCanvasColors(state),
       typography: state.brand.typography,
     }))
   );
@@ -86,7 +88,7 @@ export function SwatchTile({ placementId, variant = 'chips' }: SwatchTileProps)
   // Default to neutral bg so color chips pop — only use a surface
   // if the user explicitly picked one via the tile surface selector.
   const surfaceBg = tileSurfaceIndex !== undefined
-    ? resolveSurfaceColor({ placementId, tileSurfaceIndex, surfaces, bg, defaultIndex: 0 })
+    ? resolveSurfaceColor({ placementId, tileSurfaceIndex, surfaces, bg, defaultIndex: 0, colors })
     : bg;
 
   const surfaceL = hexToHSL(surfaceBg).l;
@@ -103,6 +105,8 @@ export function SwatchTile({ placementId, variant = 'chips' }: SwatchTileProps)
 
   const toolbar = isFocused && anchorRect && (
     <FloatingToolbar anchorRect={anchorRect}>
+      <ToolbarActions />
+      <ToolbarDivider />
       <ToolbarTileTypeGrid
         currentType={tile?.type || 'swatch'}
         onTypeChange={(type) => tile?.id && swapTileType(tile.id, type)}
@@ -40,7 +40,7 @@ const mockState = {
 vi.mock('@/store/useBrandStore', () => {
   const store = (selector: (s: typeof mockState) => unknown) => selector(mockState);
   store.getState = () => mockState;
-  return { useBrandStore: store };
+  return { useBrandStore: store, selectCanvasColors: (s: typeof mockState) => s.brand.colors };
 });
 
 vi.mock('@/hooks/useGoogleFonts', () => ({
@@ -43,6 +43,34 @@ export type LayoutPresetName =
   | 'spread'
   | 'mosaic';
 
+/** A user-authored layout with its own grid per breakpoint. */
+export interface CustomLayout {
+  id: string;
+  /** Label shown in the layout picker */
+  name: string;
+  /** Same shape as a built-in preset entry */
+  configs: Record<BreakpointName, BentoLayoutConfig>;
+}
+
+/** Custom layouts are selected as `custom:<id>` alongside preset names. */
+export type CustomLayoutKey = `custom:${string}`;
+
+/** Anything the layout store's `preset` can hold. */
+export type LayoutKey = LayoutPresetName | CustomLayoutKey;
+
+const CUSTOM_LAYOUT_PREFIX = 'custom:';
+
+export const customLayoutKey = (id: string): CustomLayoutKey => `${CUSTOM_LAYOUT_PREFIX}${id}`;
+
+export const isCustomLayoutKey = (key: string): key is CustomLayoutKey => key.startsWith(CUSTOM_LAYOUT_PREFIX);
+
+/** Custom layout a key points at, if it is a custom key and the layout exists. */
+export const findCustomLayout = (key: string, customLayouts: readonly CustomLayout[]): CustomLayout | undefined => {
+  if (!isCustomLayoutKey(key)) return undefined;
+  const id = key.slice(CUSTOM_LAYOUT_PREFIX.length);
+  return customLayouts.find((layout) => layout.id === id);
+};
+
 /** Breakpoints (px) – layout only changes at these thresholds for stability */
 export const BENTO_BREAKPOINTS = {
   mobile: 0,
@@ -419,3 +447,17 @@ export const BENTO_LAYOUTS: Record<
     },
   },
 };
+
+/**
+ * Grid config for a preset or custom layout at a breakpoint.
+ * Unknown keys (e.g. a deleted custom layout) fall back to `balanced`.
+ */
+export const resolveLayoutConfig = (
+  key: string,
+  breakpoint: BreakpointName,
+  customLayouts: readonly CustomLayout[] = [],
+): BentoLayoutConfig => {
+  const custom = findCustomLayout(key, customLayouts);
+  if (custom) return custom.configs[breakpoint];
+  return BENTO_LAYOUTS[key as LayoutPresetName]?.[breakpoint] ?? BENTO_LAYOUTS.balanced.desktop;
+};
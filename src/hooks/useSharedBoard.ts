@@ -0,0 +1,100 @@
+/**
+ * Shared Board Hook
+ *
+ * Hydrates the canvas from a share link produced by `generateShareUrl`
+ * (`?view=readonly#<compressed payload>`). While a shared board is shown,
+ * both persisted stores write to an in-memory storage so the viewer's own
+ * `brand-store` and `layout-store` in localStorage are left untouched.
+ *
+ * @module hooks/useSharedBoard
+ */
+import { useCallback, useEffect, useMemo } from 'react';
+import { createJSONStorage, type StateStorage } from 'zustand/middleware';
+import { useBrandStore } from '../store/useBrandStore';
+import { useLayoutStore } from '../store/useLayoutStore';
+import { withoutHistory } from '../store/historyCoordinator';
+import { useWorkspaceStore } from '../store/useWorkspaceStore';
+import { INITIAL_TILE_SURFACES } from '../config/placements';
+import { decodeShareHash, type SharedBoard } from '../utils/sharing';
+import { formatMoodboardReport } from '../utils/moodboardSchema';
+import { useReadOnly } from './useReadOnly';
+
+/** Throwaway storage used while viewing someone else's board. */
+const createMemoryStorage = (): StateStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (name) => items.get(name) ?? null,
+    setItem: (name, value) => {
+      items.set(name, value);
+    },
+    removeItem: (name) => {
+      items.delete(name);
+    },
+  };
+};
+
+const setPersistenceTarget = (getStorage: () => StateStorage) => {
+  useBrandStore.persist.setOptions({ storage: createJSONStorage(getStorage) });
+  useLayoutStore.persist.setOptions({ storage: createJSONStorage(getStorage) });
+};
+
+/** Write a shared board into both stores. History starts empty. */
+const applySharedBoard = (board: SharedBoard) => {
+  const current = useBrandStore.getState();
+  useBrandStore.setState({
+    brand: board.brand,
+    tiles: board.tiles,
+    tileSurfaces: { ...INITIAL_TILE_SURFACES, ...board.tileSurfaces },
+    placementContent: Object.keys(board.placementContent).length > 0
+      ? board.placementContent
+      : current.placementContent,
+    activePreset: 'custom',
+    shuffleSeed: board.shuffleSeed,
+    locks: board.locks,
+    focusedTileId: null,
+    history: { past: [], future: [] },
+  });
+
+  if (board.layout) {
+    withoutHistory(() => useLayoutStore.getState().applyLayoutDocument(board.layout!));
+  }
+};
+
+/**
+ * Load the shared board from the URL hash when in read-only mode.
+ *
+ * @returns sharedBoard - Decoded board, or null when the URL carries none
+ * @returns duplicateIntoWorkspace - Add the shared board to the viewer's
+ *   board library and reload into edit mode
+ */
+export function useSharedBoard() {
+  const isReadOnly = useReadOnly();
+
+  const sharedBoard = useMemo(
+    () => (isReadOnly && typeof window !== 'undefined'
+      ? decodeShareHash(window.location.hash)
+      : null),
+    [isReadOnly]
+  );
+
+  useEffect(() => {
+    if (!sharedBoard) return;
+    if (sharedBoard.report.issues.length > 0) {
+      console.warn('Shared board loaded with changes:\n' + formatMoodboardReport(sharedBoard.report).join('\n'));
+    }
+    setPersistenceTarget(createMemoryStorage);
+    applySharedBoard(sharedBoard);
+  }, [sharedBoard]);
+
+  const duplicateIntoWorkspace = useCallback(() => {
+    if (!sharedBoard) return;
+    setPersistenceTarget(() => window.localStorage);
+    applySharedBoard(sharedBoard);
+    // The working copy is now the shared board; file it as a new library
+    // board on reload instead of overwriting the previously active one.
+    useWorkspaceStore.getState().detachActiveBoard();
+    window.location.replace(window.location.pathname);
+  }, [sharedBoard]);
+
+  return { sharedBoard, duplicateIntoWorkspace };
+}
@@ -0,0 +1,112 @@
+/**
+ * Slot Drag Hook
+ *
+ * Pointer-based drag-and-drop between bento grid slots, so tiles can be
+ * rearranged with a mouse, pen or finger. Mouse drags start anywhere on
+ * a slot once the pointer has moved a few pixels; touch and pen drags
+ * start from the slot's grip handle so the canvas still scrolls.
+ *
+ * Slots are found under the pointer through their `data-slot-id`
+ * attribute. Escape cancels a drag in progress.
+ *
+ * @module hooks/useSlotDrag
+ */
+import { useEffect, useRef, useState } from 'react';
+import type React from 'react';
+
+/** Drag in progress: where it came from, what it hovers and the pointer position. */
+export interface SlotDrag {
+  sourceId: string;
+  targetId: string | null;
+  x: number;
+  y: number;
+}
+
+/** Mouse movement in px before a press on a slot becomes a drag */
+const DRAG_THRESHOLD = 5;
+
+/** Presses on these stay with the tile (inline editing, controls) */
+const INTERACTIVE_SELECTOR = 'input, textarea, select, button, a, [contenteditable="true"]';
+
+const slotAt = (x: number, y: number): string | null =>
+  document.elementFromPoint(x, y)?.closest('[data-slot-id]')?.getAttribute('data-slot-id') ?? null;
+
+/**
+ * @param onSwap - Called with the dragged and the dropped-on slot; no drag starts when omitted
+ */
+export const useSlotDrag = (onSwap?: (fromId: string, toId: string) => void) => {
+  const [drag, setDrag] = useState<SlotDrag | null>(null);
+  const pressRef = useRef<{ id: string; x: number; y: number; pointerId: number } | null>(null);
+  const draggedRef = useRef(false);
+
+  // Escape drops the drag without swapping
+  useEffect(() => {
+    if (!drag) return;
+    const handler = (e: KeyboardEvent) => {
+      if (e.key !== 'Escape') return;
+      pressRef.current = null;
+      setDrag(null);
+    };
+    document.addEventListener('keydown', handler);
+    return () => document.removeEventListener('keydown', handler);
+  }, [drag]);
+
+  const begin = (e: React.PointerEvent<HTMLElement>, id: string) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDrag({ sourceId: id, targetId: null, x: e.clientX, y: e.clientY });
+  };
+
+  const finish = () => {
+    pressRef.current = null;
+    setDrag(null);
+  };
+
+  /** Handlers for a slot's outer element. */
+  const getSlotProps = (id: string) => ({
+    'data-slot-id': id,
+    onPointerDown: (e: React.PointerEvent<HTMLElement>) => {
+      draggedRef.current = false;
+      if (!onSwap || e.button !== 0 || e.pointerType !== 'mouse') return;
+      if ((e.target as HTMLElement).closest(INTERACTIVE_SELECTOR)) return;
+      pressRef.current = { id, x: e.clientX, y: e.clientY, pointerId: e.pointerId };
+    },
+    onPointerMove: (e: React.PointerEvent<HTMLElement>) => {
+      const press = pressRef.current;
+      if (!press || press.pointerId !== e.pointerId) return;
+      if (!drag) {
+        if (Math.hypot(e.clientX - press.x, e.clientY - press.y) < DRAG_THRESHOLD) return;
+        begin(e, press.id);
+        return;
+      }
+      const over = slotAt(e.clientX, e.clientY);
+      setDrag({ ...drag, targetId: over !== drag.sourceId ? over : null, x: e.clientX, y: e.clientY });
+    },
+    onPointerUp: (e: React.PointerEvent<HTMLElement>) => {
+      if (!pressRef.current || pressRef.current.pointerId !== e.pointerId) return;
+      if (drag) {
+        draggedRef.current = true;
+        if (drag.targetId) onSwap?.(drag.sourceId, drag.targetId);
+      }
+      finish();
+    },
+    onPointerCancel: finish,
+    // The click that ends a drag should not also select the tile underneath
+    onClickCapture: (e: React.MouseEvent) => {
+      if (!draggedRef.current) return;
+      draggedRef.current = false;
+      e.stopPropagation();
+    },
+  });
+
+  /** Handlers for a slot's grip handle, the touch and pen entry point. */
+  const getHandleProps = (id: string) => ({
+    onPointerDown: (e: React.PointerEvent<HTMLElement>) => {
+      if (!onSwap || e.button !== 0) return;
+      e.stopPropagation();
+      pressRef.current = { id, x: e.clientX, y: e.clientY, pointerId: e.pointerId };
+      begin(e, id);
+    },
+  });
+
+  return { drag, getSlotProps, getHandleProps };
+};
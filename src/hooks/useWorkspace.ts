@@ -0,0 +1,74 @@
+/**
+ * Workspace Hook
+ *
+ * Loads the board library and checkpoints on mount and autosaves the active board to
+ * IndexedDB whenever board content or layout changes (debounced). Does
+ * nothing in read-only mode, where a shared board is shown instead.
+ *
+ * @module hooks/useWorkspace
+ */
+import { useEffect } from 'react';
+import { useBrandStore } from '../store/useBrandStore';
+import { useLayoutStore } from '../store/useLayoutStore';
+import { useWorkspaceStore } from '../store/useWorkspaceStore';
+import { useCheckpointStore } from '../store/useCheckpointStore';
+import { useReadOnly } from './useReadOnly';
+
+/** Delay between the last edit and the library write */
+const AUTOSAVE_DELAY_MS = 1000;
+
+export function useWorkspace() {
+  const isReadOnly = useReadOnly();
+
+  useEffect(() => {
+    if (isReadOnly) return;
+    useWorkspaceStore.getState().initWorkspace();
+    useCheckpointStore.getState().loadCheckpoints();
+  }, [isReadOnly]);
+
+  useEffect(() => {
+    if (isReadOnly) return;
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const scheduleSave = () => {
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        timer = null;
+        useWorkspaceStore.getState().saveActiveBoard().catch((error) => {
+          console.error('Autosave failed:', error);
+        });
+      }, AUTOSAVE_DELAY_MS);
+    };
+
+    const unsubscribeBrand = useBrandStore.subscribe((state, prev) => {
+      if (
+        state.brand !== prev.brand ||
+        state.tiles !== prev.tiles ||
+        state.tileSurfaces !== prev.tileSurfaces ||
+        state.placementContent !== prev.placementContent ||
+        state.activePreset !== prev.activePreset ||
+        state.collectionImagePool !== prev.collectionImagePool
+      ) {
+        scheduleSave();
+      }
+    });
+    const unsubscribeLayout = useLayoutStore.subscribe((state, prev) => {
+      if (
+        state.preset !== prev.preset ||
+        state.customLayouts !== prev.customLayouts ||
+        state.density !== prev.density ||
+        state.placementSwaps !== prev.placementSwaps ||
+        state.canvasBg !== prev.canvasBg ||
+        state.canvasRatio !== prev.canvasRatio
+      ) {
+        scheduleSave();
+      }
+    });
+
+    return () => {
+      if (timer) clearTimeout(timer);
+      unsubscribeBrand();
+      unsubscribeLayout();
+    };
+  }, [isReadOnly]);
+}
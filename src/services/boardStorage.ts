@@ -0,0 +1,147 @@
+/**
+ * Board Storage
+ *
+ * IndexedDB persistence for the board library and its named checkpoints.
+ * Both hold full moodboard documents (including data-URL images from
+ * ImageDropZone), and boards add a JPEG thumbnail, which quickly outgrows
+ * the localStorage quota.
+ *
+ * @module services/boardStorage
+ */
+import type { MoodboardDocument } from '../utils/moodboardSchema';
+
+const DB_NAME = 'brandbento';
+const DB_VERSION = 2;
+const STORE_NAME = 'boards';
+const CHECKPOINT_STORE_NAME = 'checkpoints';
+
+/** A board as stored in the library. */
+export interface StoredBoard {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  /** Small JPEG data URL of the canvas, or null before the first capture */
+  thumbnail: string | null;
+  document: MoodboardDocument;
+}
+
+/** A named board snapshot, kept per board. */
+export interface StoredCheckpoint {
+  id: string;
+  name: string;
+  /** Board the checkpoint was made on (null without a board library) */
+  boardId: string | null;
+  createdAt: number;
+  document: MoodboardDocument;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      for (const name of [STORE_NAME, CHECKPOINT_STORE_NAME]) {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+        }
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a retry on the next call if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = STORE_NAME,
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** All boards, most recently updated first. */
+export async function listBoards(): Promise<StoredBoard[]> {
+  const boards = await withStore('readonly', (store) => store.getAll() as IDBRequest<StoredBoard[]>);
+  return boards.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getBoard(id: string): Promise<StoredBoard | null> {
+  const board = await withStore('readonly', (store) => store.get(id) as IDBRequest<StoredBoard | undefined>);
+  return board ?? null;
+}
+
+/** Insert or replace a board. */
+export async function putBoard(board: StoredBoard): Promise<void> {
+  await withStore('readwrite', (store) => store.put(board));
+}
+
+/**
+ * Read, change and write back one board in a single transaction, so updates
+ * of different fields can't overwrite each other. Resolves with the stored
+ * board, or null when it no longer exists.
+ */
+export async function updateBoard(
+  id: string,
+  mutate: (board: StoredBoard) => StoredBoard,
+): Promise<StoredBoard | null> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    let updated: StoredBoard | null = null;
+    const request = store.get(id) as IDBRequest<StoredBoard | undefined>;
+    request.onsuccess = () => {
+      if (!request.result) return;
+      updated = mutate(request.result);
+      store.put(updated);
+    };
+    tx.oncomplete = () => resolve(updated);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export async function deleteBoard(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id));
+}
+
+/** All checkpoints of every board, oldest first. */
+export async function listCheckpoints(): Promise<StoredCheckpoint[]> {
+  const checkpoints = await withStore(
+    'readonly',
+    (store) => store.getAll() as IDBRequest<StoredCheckpoint[]>,
+    CHECKPOINT_STORE_NAME,
+  );
+  return checkpoints.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/** Insert or replace a checkpoint. */
+export async function putCheckpoint(checkpoint: StoredCheckpoint): Promise<void> {
+  await withStore('readwrite', (store) => store.put(checkpoint), CHECKPOINT_STORE_NAME);
+}
+
+export async function deleteCheckpoint(id: string): Promise<void> {
+  await withStore('readwrite', (store) => store.delete(id), CHECKPOINT_STORE_NAME);
+}
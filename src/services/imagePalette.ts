@@ -0,0 +1,80 @@
+/**
+ * Image Palette
+ *
+ * Extracts a palette from any image URL (data URL uploads, the hero
+ * image, Lummi photos). The image is drawn to a small canvas and its
+ * pixels are clustered in a Web Worker; environments without workers
+ * cluster on the main thread instead.
+ *
+ * Lummi images already carry a `colorPalette`, which is used directly —
+ * no download, and no canvas that cross-origin rules could taint.
+ *
+ * @module services/imagePalette
+ */
+import { EXTRACTED_PALETTE_SIZE, extractPalette, paletteFromColors, type ExtractedColor } from '../utils/paletteExtraction';
+import { findCachedLummiImage } from './lummiApi';
+
+/** Longest side the image is scaled to before sampling. */
+const SAMPLE_SIZE = 96;
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load image'));
+    img.src = src;
+  });
+}
+
+async function readPixels(src: string): Promise<Uint8ClampedArray> {
+  const img = await loadImage(src);
+  const scale = Math.min(1, SAMPLE_SIZE / Math.max(img.naturalWidth, img.naturalHeight));
+  const width = Math.max(1, Math.round(img.naturalWidth * scale));
+  const height = Math.max(1, Math.round(img.naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(img, 0, 0, width, height);
+  try {
+    return ctx.getImageData(0, 0, width, height).data;
+  } catch {
+    // Cross-origin images without CORS headers taint the canvas
+    throw new Error('This image does not allow color sampling');
+  }
+}
+
+function clusterInWorker(pixels: Uint8ClampedArray, count: number): Promise<ExtractedColor[]> {
+  if (typeof Worker === 'undefined') return Promise.resolve(extractPalette(pixels, count));
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./imagePalette.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<ExtractedColor[]>) => {
+      resolve(event.data);
+      worker.terminate();
+    };
+    worker.onerror = () => {
+      reject(new Error('Palette extraction failed'));
+      worker.terminate();
+    };
+    worker.postMessage({ pixels, count }, [pixels.buffer]);
+  });
+}
+
+/**
+ * Dominant colors of an image, heaviest first.
+ * Rejects when the image can't be loaded or sampled.
+ */
+export async function extractImagePalette(
+  src: string,
+  count: number = EXTRACTED_PALETTE_SIZE,
+): Promise<ExtractedColor[]> {
+  const lummi = findCachedLummiImage(src);
+  if (lummi && lummi.colorPalette.length > 0) return paletteFromColors(lummi.colorPalette);
+
+  const pixels = await readPixels(src);
+  return clusterInWorker(pixels, count);
+}
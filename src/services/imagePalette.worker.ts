@@ -0,0 +1,12 @@
+/**
+ * Palette extraction worker: receives RGBA pixels, posts back the
+ * extracted palette. Keeps k-means off the main thread for large images.
+ *
+ * @module services/imagePalette.worker
+ */
+import { extractPalette } from '../utils/paletteExtraction';
+
+self.onmessage = (event: MessageEvent<{ pixels: Uint8ClampedArray; count: number }>) => {
+  const { pixels, count } = event.data;
+  self.postMessage(extractPalette(pixels, count));
+};
@@ -80,6 +80,16 @@ export async function getCollectionImages(
   return images;
 }
 
+/** Find a previously fetched image by URL, ignoring transform params */
+export function findCachedLummiImage(url: string): LummiImage | undefined {
+  const base = url.split('?')[0];
+  for (const { images } of cache.values()) {
+    const match = images.find((img) => img.url === base);
+    if (match) return match;
+  }
+  return undefined;
+}
+
 /** Check if API key is configured */
 export function hasApiKey(): boolean {
   return !!import.meta.env.VITE_LUMMI_API_KEY;
@@ -0,0 +1,124 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { useBrandStore } from './useBrandStore';
+import { useLayoutStore } from './useLayoutStore';
+import { groupHistory, withoutHistory } from './historyCoordinator';
+import { createCustomLayoutDraft } from '../utils/layoutEditor';
+import { customLayoutKey } from '../config/bentoLayouts';
+
+const initialBrand = useBrandStore.getState();
+const initialLayout = useLayoutStore.getState();
+
+const brand = () => useBrandStore.getState();
+const layout = () => useLayoutStore.getState();
+
+beforeEach(() => {
+  localStorage.clear();
+  withoutHistory(() => useLayoutStore.setState(initialLayout));
+  useBrandStore.setState({ ...initialBrand, history: { past: [], future: [] } });
+});
+
+describe('layout changes in undo history', () => {
+  it('undoes and redoes a preset change', () => {
+    layout().setPreset('mosaic');
+    expect(brand().history.past).toHaveLength(1);
+
+    brand().undo();
+    expect(layout().preset).toBe(initialLayout.preset);
+
+    brand().redo();
+    expect(layout().preset).toBe('mosaic');
+  });
+
+  it('records placement swaps, canvas ratio and density as separate steps', () => {
+    layout().swapPlacements('hero', 'b');
+    layout().setCanvasRatio('1:1');
+    layout().setDensity('dense');
+    expect(brand().history.past).toHaveLength(3);
+
+    brand().undo();
+    brand().undo();
+    expect(layout().canvasRatio).toBe('auto');
+    expect(layout().placementSwaps).toEqual({ hero: 'b', b: 'hero' });
+
+    brand().undo();
+    expect(layout().placementSwaps).toEqual({});
+  });
+
+  it('coalesces a run of canvas background changes into one step', () => {
+    layout().setCanvasBg('#111111');
+    layout().setCanvasBg('#222222');
+    layout().setCanvasBg('#333333');
+    expect(brand().history.past).toHaveLength(1);
+
+    brand().undo();
+    expect(layout().canvasBg).toBeNull();
+  });
+
+  it('leaves the layout alone when undoing brand-only changes', () => {
+    withoutHistory(() => layout().swapPlacements('hero', 'b'));
+    brand().setPlacementContent('social', { socialHandle: 'committed' }, true);
+
+    brand().undo();
+    expect(layout().placementSwaps).toEqual({ hero: 'b', b: 'hero' });
+  });
+
+  it('does not record changes made without history', () => {
+    withoutHistory(() => layout().setPreset('mosaic'));
+    expect(brand().history.past).toHaveLength(0);
+  });
+
+  it('labels steps by the layout field they change', () => {
+    layout().setPreset('mosaic');
+    layout().swapPlacements('hero', 'b');
+    layout().setCanvasRatio('1:1');
+    expect(brand().history.past.map((e) => e.label)).toEqual([
+      'Changed layout',
+      'Rearranged tiles',
+      'Changed canvas ratio',
+    ]);
+  });
+});
+
+describe('groupHistory', () => {
+  it('makes a preset change that clears swaps one step', () => {
+    withoutHistory(() => layout().swapPlacements('hero', 'b'));
+    const custom = createCustomLayoutDraft('mine', 'Mine', 'spread');
+
+    groupHistory(() => {
+      layout().saveCustomLayout(custom);
+      layout().setPreset(customLayoutKey('mine'));
+      layout().clearPlacementSwaps();
+    });
+    expect(brand().history.past).toHaveLength(1);
+
+    brand().undo();
+    expect(layout().preset).toBe(initialLayout.preset);
+    expect(layout().customLayouts).toEqual([]);
+    expect(layout().placementSwaps).toEqual({ hero: 'b', b: 'hero' });
+  });
+
+  it('folds layout changes into a brand step committed in the same group', () => {
+    groupHistory(() => {
+      brand().updateBrand({ logo: { ...initialBrand.brand.logo, text: 'Loaded' } });
+      layout().setCanvasRatio('16:9');
+    });
+    expect(brand().history.past).toHaveLength(1);
+
+    brand().undo();
+    expect(brand().brand.logo.text).toBe(initialBrand.brand.logo.text);
+    expect(layout().canvasRatio).toBe('auto');
+
+    brand().redo();
+    expect(brand().brand.logo.text).toBe('Loaded');
+    expect(layout().canvasRatio).toBe('16:9');
+  });
+
+  it('names the step with the group label', () => {
+    groupHistory(() => {
+      brand().updateBrand({ logo: { ...initialBrand.brand.logo, text: 'Loaded' } });
+      layout().setCanvasRatio('16:9');
+    }, 'Opened board.json');
+    groupHistory(() => layout().setPreset('mosaic'), 'Generated layout');
+    expect(brand().history.past.map((e) => e.label)).toEqual(['Opened board.json', 'Generated layout']);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * History Coordinator
+ *
+ * Makes layout changes part of the undo history. `useBrandStore` owns the
+ * undo/redo stacks; this module watches `useLayoutStore` and hands every
+ * user-visible layout change (preset, custom layouts, density, canvas
+ * background and ratio, placement swaps) to the brand store as a step
+ * that restores the previous layout.
+ *
+ * - `groupHistory(fn, label)` turns everything `fn` changes into one step,
+ *   also when it commits brand changes (e.g. loading a file) or touches
+ *   several layout fields (a preset change that clears placement swaps).
+ *   The label, when given, names the step in the history timeline.
+ * - `withoutHistory(fn)` applies layout changes that are not user edits:
+ *   loading a board, undo/redo itself, temporary export relayouts.
+ * - Dragging the canvas background picker makes one step, not one per
+ *   color it passes through.
+ *
+ * The brand store registers itself through `registerHistoryRecorder`, so
+ * this module does not import it and the stores stay free of cycles.
+ *
+ * @module store/historyCoordinator
+ */
+import { useLayoutStore } from './useLayoutStore';
+
+type LayoutState = ReturnType<typeof useLayoutStore.getState>;
+
+/** Layout store fields that undo and redo restore */
+const LAYOUT_HISTORY_KEYS = [
+  'preset',
+  'customLayouts',
+  'density',
+  'canvasBg',
+  'canvasRatio',
+  'placementSwaps',
+] as const;
+
+type LayoutHistoryKey = (typeof LAYOUT_HISTORY_KEYS)[number];
+
+export type LayoutHistoryState = Pick<LayoutState, LayoutHistoryKey>;
+
+/** Timeline labels for steps that change a layout field */
+const LAYOUT_LABELS: Record<LayoutHistoryKey, string> = {
+  preset: 'Changed layout',
+  customLayouts: 'Edited custom layouts',
+  density: 'Changed density',
+  canvasBg: 'Changed canvas background',
+  canvasRatio: 'Changed canvas ratio',
+  placementSwaps: 'Rearranged tiles',
+};
+
+/** Fields edited continuously, and how close together changes form one step (ms) */
+const CONTINUOUS_KEYS = ['canvasBg'];
+const COALESCE_WINDOW = 1000;
+
+/**
+ * How history steps reach the undo stack.
+ *
+ * `mark` identifies the newest step; `record` adds a step restoring
+ * `before`, or folds it into the newest step when that step was added
+ * after `since` (inside the same group). A `label` names the step; `before`
+ * is null when a group only needs its label applied.
+ */
+export interface HistoryRecorder {
+  mark: () => unknown;
+  record: (before: LayoutHistoryState | null, since: unknown, label?: string) => void;
+}
+
+let recorder: HistoryRecorder | null = null;
+let silent = 0;
+let group: { before: LayoutHistoryState; since: unknown } | null = null;
+/** Last continuous edit, to coalesce the ones that follow */
+let lastStep: { keys: string; at: number; mark: unknown } | null = null;
+
+export const snapshotLayout = (state: LayoutState = useLayoutStore.getState()): LayoutHistoryState => ({
+  preset: state.preset,
+  customLayouts: state.customLayouts,
+  density: state.density,
+  canvasBg: state.canvasBg,
+  canvasRatio: state.canvasRatio,
+  placementSwaps: state.placementSwaps,
+});
+
+const changedKeys = (a: LayoutHistoryState, b: LayoutHistoryState): LayoutHistoryKey[] =>
+  LAYOUT_HISTORY_KEYS.filter((key) => !Object.is(a[key], b[key]));
+
+/** Timeline label for the change from `before` to the current layout. */
+export const describeLayoutChange = (before: LayoutHistoryState): string => {
+  const [key] = changedKeys(before, snapshotLayout());
+  return key ? LAYOUT_LABELS[key] : 'Changed layout';
+};
+
+export const registerHistoryRecorder = (next: HistoryRecorder) => {
+  recorder = next;
+};
+
+/** Run `fn` without recording its layout changes. */
+export const withoutHistory = <T>(fn: () => T): T => {
+  silent++;
+  try {
+    return fn();
+  } finally {
+    silent--;
+  }
+};
+
+/** Put a layout snapshot back, e.g. from undo/redo, without recording it. */
+export const restoreLayout = (snapshot: LayoutHistoryState) =>
+  withoutHistory(() => useLayoutStore.setState(snapshot));
+
+/** Run `fn` as one undoable step across the brand and layout stores. */
+export const groupHistory = <T>(fn: () => T, label?: string): T => {
+  if (group || silent > 0 || !recorder) return fn();
+
+  group = { before: snapshotLayout(), since: recorder.mark() };
+  try {
+    return fn();
+  } finally {
+    const { before, since } = group;
+    group = null;
+    const changed = changedKeys(before, snapshotLayout()).length > 0;
+    if (changed || (label && recorder.mark() !== since)) {
+      recorder.record(changed ? before : null, since, label);
+      lastStep = null;
+    }
+  }
+};
+
+useLayoutStore.subscribe((state, prev) => {
+  if (silent > 0 || group || !recorder) return;
+  const before = snapshotLayout(prev);
+  const keys = changedKeys(before, snapshotLayout(state)).join(',');
+  if (!keys) return;
+
+  // A quick follow-up to a continuous edit extends the step it already made
+  const now = Date.now();
+  if (CONTINUOUS_KEYS.includes(keys) && lastStep?.keys === keys && now - lastStep.at < COALESCE_WINDOW && lastStep.mark === recorder.mark()) {
+    lastStep.at = now;
+    return;
+  }
+
+  recorder.record(before, recorder.mark());
+  lastStep = { keys, at: now, mark: recorder.mark() };
+});
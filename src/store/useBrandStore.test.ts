@@ -4,8 +4,13 @@ import {
   selectFocusedTile,
   selectCanUndo,
   selectCanRedo,
+  selectCanvasColors,
   exportAsCSS,
   exportAsJSON,
+  createBrandVariation,
+  generateBrandVariations,
+  mixBrandVariations,
+  nextShuffleRng,
 } from './useBrandStore';
 import { DEFAULT_BRAND } from '../data/brandPresets';
 import { getAllPalettes } from '../data/colorPalettes';
@@ -21,6 +26,10 @@ const pickState = () => {
     history: state.history,
     tileSurfaces: state.tileSurfaces,
     placementContent: state.placementContent,
+    shuffleSeed: state.shuffleSeed,
+    shuffleSteps: state.shuffleSteps,
+    locks: state.locks,
+    schemePreview: state.schemePreview,
   };
 };
 
@@ -449,7 +458,7 @@ describe('undo and redo', () => {
     const state = useBrandStore.getState();
     expect(state.history.past.length).toBe(0);
     expect(state.history.future.length).toBe(1);
-    expect(state.history.future[0].brand.logo.text).toBe('V2');
+    expect(state.history.future[0].patch).toContainEqual({ path: ['brand', 'logo', 'text'], value: 'V2' });
   });
 
   it('new commit clears future (redo stack)', () => {
@@ -503,13 +512,75 @@ describe('undo and redo', () => {
     expect(useBrandStore.getState().brand.logo.text).toBe('V3');
   });
 
-  it('history is capped at MAX_HISTORY (50)', () => {
-    for (let i = 0; i < 60; i++) {
+  it('history is capped at MAX_HISTORY (500)', () => {
+    for (let i = 0; i < 510; i++) {
       useBrandStore.getState().updateBrand({
         logo: { ...useBrandStore.getState().brand.logo, text: `V${i}` },
       });
     }
-    expect(useBrandStore.getState().history.past.length).toBeLessThanOrEqual(50);
+    expect(useBrandStore.getState().history.past.length).toBe(500);
+  });
+
+  it('stores patches rather than snapshots', () => {
+    useBrandStore.getState().updateBrand({
+      logo: { ...useBrandStore.getState().brand.logo, text: 'V2' },
+    });
+    const [entry] = useBrandStore.getState().history.past;
+    expect(entry.patch).toEqual([{ path: ['brand', 'logo', 'text'], value: DEFAULT_BRAND.logo.text }]);
+  });
+
+  it('labels each step', () => {
+    const { tiles, updateTile, applyPalette, setTileSurface } = useBrandStore.getState();
+    const hero = tiles.find((t) => t.type === 'hero')!;
+    const palette = getAllPalettes()[1];
+
+    updateTile(hero.id, { headline: 'Launch day' });
+    applyPalette(palette.id);
+    setTileSurface('hero', 2);
+    useBrandStore.getState().updateBrand({
+      logo: { ...useBrandStore.getState().brand.logo, text: 'V2' },
+    });
+
+    expect(useBrandStore.getState().history.past.map((e) => e.label)).toEqual([
+      'Changed hero headline',
+      `Applied palette ${palette.name}`,
+      'Changed hero surface',
+      'Changed logo',
+    ]);
+  });
+
+  it('jumps across several steps and back', () => {
+    for (const text of ['V1', 'V2', 'V3']) {
+      useBrandStore.getState().updateBrand({
+        logo: { ...useBrandStore.getState().brand.logo, text },
+      });
+    }
+
+    useBrandStore.getState().jumpToHistory(1);
+    let state = useBrandStore.getState();
+    expect(state.brand.logo.text).toBe('V1');
+    expect(state.history.past.length).toBe(1);
+    expect(state.history.future.map((e) => e.label)).toEqual(['Changed logo', 'Changed logo']);
+
+    useBrandStore.getState().jumpToHistory(0);
+    expect(useBrandStore.getState().brand.logo.text).toBe(DEFAULT_BRAND.logo.text);
+
+    useBrandStore.getState().jumpToHistory(3);
+    state = useBrandStore.getState();
+    expect(state.brand.logo.text).toBe('V3');
+    expect(state.history.future.length).toBe(0);
+  });
+
+  it('commits several fields as one labelled step', () => {
+    useBrandStore.getState().commitChanges(
+      { brand: { ...DEFAULT_BRAND, logo: { ...DEFAULT_BRAND.logo, text: 'Opened' } }, shuffleSeed: 'abc' },
+      'Opened board.json'
+    );
+    expect(useBrandStore.getState().history.past.map((e) => e.label)).toEqual(['Opened board.json']);
+
+    useBrandStore.getState().undo();
+    expect(useBrandStore.getState().brand.logo.text).toBe(DEFAULT_BRAND.logo.text);
+    expect(useBrandStore.getState().shuffleSeed).toBeNull();
   });
 });
 
@@ -560,6 +631,169 @@ describe('shuffleBrand', () => {
     expect(colors.primary).toMatch(hexRegex);
     expect(colors.accent).toMatch(hexRegex);
   });
+
+  it('records the seed it used', () => {
+    useBrandStore.getState().shuffleBrand();
+    expect(useBrandStore.getState().shuffleSeed).toMatch(/^[a-z2-9]{6}$/);
+  });
+
+  it('reproduces the same board from the same seed', () => {
+    useBrandStore.getState().shuffleBrand('k3vq8m');
+    const first = clone(useBrandStore.getState().brand);
+    useBrandStore.getState().shuffleBrand();
+    useBrandStore.getState().shuffleBrand('k3vq8m');
+
+    expect(useBrandStore.getState().brand.colors).toEqual(first.colors);
+    expect(useBrandStore.getState().brand.typography).toEqual(first.typography);
+    expect(useBrandStore.getState().shuffleSeed).toBe('k3vq8m');
+  });
+
+  it('picks the same palette as shuffleColors for a seed', () => {
+    useBrandStore.getState().shuffleBrand('k3vq8m');
+    const colors = clone(useBrandStore.getState().brand.colors);
+    useBrandStore.getState().resetToDefaults();
+    useBrandStore.getState().shuffleColors('k3vq8m');
+    expect(useBrandStore.getState().brand.colors).toEqual(colors);
+  });
+
+  it('restores the previous seed on undo', () => {
+    useBrandStore.getState().shuffleBrand('first');
+    useBrandStore.getState().shuffleBrand('second');
+    useBrandStore.getState().undo();
+    expect(useBrandStore.getState().shuffleSeed).toBe('first');
+    useBrandStore.getState().redo();
+    expect(useBrandStore.getState().shuffleSeed).toBe('second');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Tile shuffle steps
+// ---------------------------------------------------------------------------
+describe('nextShuffleRng', () => {
+  const draw = (key: string, count: number) =>
+    Array.from({ length: count }, () => nextShuffleRng(key)());
+
+  it('moves on with every shuffle and replays the run for the same seed', () => {
+    useBrandStore.setState({ shuffleSeed: 'k3vq8m' });
+    const run = draw('image:hero', 6);
+    expect(new Set(run).size).toBe(6);
+    expect(useBrandStore.getState().shuffleSteps.counts['image:hero']).toBe(6);
+
+    useBrandStore.setState({ shuffleSteps: { seed: null, counts: {} } });
+    expect(draw('image:hero', 6)).toEqual(run);
+  });
+
+  it('keeps separate steps per key and starts over with a new seed', () => {
+    useBrandStore.setState({ shuffleSeed: 'first' });
+    draw('image:hero', 3);
+    draw('image:card', 1);
+    expect(useBrandStore.getState().shuffleSteps.counts).toEqual({ 'image:hero': 3, 'image:card': 1 });
+
+    useBrandStore.setState({ shuffleSeed: 'second' });
+    draw('image:hero', 1);
+    expect(useBrandStore.getState().shuffleSteps).toEqual({ seed: 'second', counts: { 'image:hero': 1 } });
+  });
+
+  it('persists steps with the seed', async () => {
+    useBrandStore.setState({ shuffleSeed: 'k3vq8m' });
+    draw('stats:slot-a', 2);
+    const stored = localStorage.getItem('brand-store');
+
+    useBrandStore.setState({ shuffleSteps: { seed: null, counts: {} } });
+    localStorage.setItem('brand-store', stored!);
+    await useBrandStore.persist.rehydrate();
+    expect(useBrandStore.getState().shuffleSteps).toEqual({ seed: 'k3vq8m', counts: { 'stats:slot-a': 2 } });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Shuffle locks
+// ---------------------------------------------------------------------------
+describe('shuffle locks', () => {
+  it('toggles locks without creating history', () => {
+    useBrandStore.getState().toggleLock('colors.primary');
+    useBrandStore.getState().toggleLock('logo');
+    expect(useBrandStore.getState().locks).toEqual(['colors.primary', 'logo']);
+    useBrandStore.getState().toggleLock('colors.primary');
+    expect(useBrandStore.getState().locks).toEqual(['logo']);
+    expect(useBrandStore.getState().history.past).toHaveLength(0);
+  });
+
+  it('keeps locked colors and fonts across shuffles', () => {
+    const { brand } = useBrandStore.getState();
+    useBrandStore.getState().toggleLock('colors.primary');
+    useBrandStore.getState().toggleLock('typography.primary');
+
+    for (const seed of ['a', 'b', 'c', 'd']) {
+      useBrandStore.getState().shuffleBrand(seed);
+      const next = useBrandStore.getState().brand;
+      expect(next.colors.primary).toBe(brand.colors.primary);
+      expect(next.typography.primary).toBe(brand.typography.primary);
+    }
+  });
+
+  it('pins the logo when locked', () => {
+    useBrandStore.getState().toggleLock('logo');
+    const { brand } = useBrandStore.getState();
+    useBrandStore.getState().shuffleBrand('k3vq8m');
+    const { logo } = useBrandStore.getState().brand;
+    expect(logo.bgColor).toBe(brand.logo.bgColor || brand.colors.primary);
+    expect(logo.fontFamily).toBe(brand.logo.fontFamily || brand.typography.primary);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// variations
+// ---------------------------------------------------------------------------
+describe('variations', () => {
+  it('matches shuffleBrand palette and fonts for the same seed', () => {
+    const { brand, locks } = useBrandStore.getState();
+    const variation = createBrandVariation(brand, locks, 'k3vq8m');
+    useBrandStore.getState().shuffleBrand('k3vq8m');
+    const shuffled = useBrandStore.getState().brand;
+    expect(variation.colors).toEqual(shuffled.colors);
+    expect(variation.typography).toEqual(shuffled.typography);
+  });
+
+  it('generates the requested number of distinct candidates', () => {
+    const { brand, locks } = useBrandStore.getState();
+    const variations = generateBrandVariations(brand, locks, 6);
+    expect(variations).toHaveLength(6);
+    expect(new Set(variations.map((v) => v.seed)).size).toBe(6);
+  });
+
+  it('keeps the UI when locked', () => {
+    useBrandStore.getState().toggleLock('ui');
+    const { brand, locks } = useBrandStore.getState();
+    for (const seed of ['a', 'b', 'c']) {
+      const { ui } = createBrandVariation(brand, locks, seed);
+      expect(ui.buttonStyle).toBe(brand.ui.buttonStyle);
+      expect(ui.buttonRadius).toBe(brand.ui.buttonRadius);
+    }
+  });
+
+  it('mixes parts from different variations', () => {
+    const { brand, locks } = useBrandStore.getState();
+    const a = createBrandVariation(brand, locks, 'a');
+    const b = createBrandVariation(brand, locks, 'b');
+    const mixed = mixBrandVariations({ colors: a, typography: b, ui: a });
+    expect(mixed.colors).toEqual(a.colors);
+    expect(mixed.typography).toEqual(b.typography);
+    expect(mixed.ui).toEqual(a.ui);
+  });
+
+  it('applies a variation as one undoable step', () => {
+    const { brand, locks } = useBrandStore.getState();
+    const variation = { seed: 'k3vq8m', brand: createBrandVariation(brand, locks, 'k3vq8m') };
+    useBrandStore.getState().applyVariation(variation);
+    expect(useBrandStore.getState().brand).toEqual(variation.brand);
+    expect(useBrandStore.getState().shuffleSeed).toBe('k3vq8m');
+    expect(useBrandStore.getState().activePreset).toBe('custom');
+
+    useBrandStore.getState().undo();
+    expect(useBrandStore.getState().brand).toEqual(brand);
+    expect(useBrandStore.getState().shuffleSeed).toBeNull();
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -800,6 +1034,17 @@ describe('selectors', () => {
     useBrandStore.getState().undo();
     expect(selectCanRedo(useBrandStore.getState())).toBe(true);
   });
+
+  it('selectCanvasColors follows the scheme preview', () => {
+    const { brand } = useBrandStore.getState();
+    expect(selectCanvasColors(useBrandStore.getState())).toBe(brand.colors);
+
+    useBrandStore.getState().toggleSchemePreview();
+    const derived = selectCanvasColors(useBrandStore.getState());
+    expect(derived.bg).not.toBe(brand.colors.bg);
+    // Same object on every call, so components don't re-render needlessly
+    expect(selectCanvasColors(useBrandStore.getState())).toBe(derived);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -829,6 +1074,18 @@ describe('exportAsJSON', () => {
     expect(parsed.colors.bg).toBe('#FFFFFF');
   });
 
+  it('includes the color ramps', () => {
+    const parsed = JSON.parse(exportAsJSON(DEFAULT_BRAND));
+    expect(Object.keys(parsed.ramps)).toEqual(expect.arrayContaining(['primary', 'accent', 'neutral', 'surface-1']));
+    expect(Object.keys(parsed.ramps.primary)).toHaveLength(11);
+  });
+
+  it('includes both color schemes', () => {
+    const parsed = JSON.parse(exportAsJSON(DEFAULT_BRAND));
+    expect(parsed.schemes.light.bg).toBe('#FFFFFF');
+    expect(parsed.schemes.dark.bg).not.toBe('#FFFFFF');
+  });
+
   it('returns empty object for null brand', () => {
     const json = exportAsJSON(null);
     expect(JSON.parse(json)).toEqual({});
@@ -14,12 +14,18 @@
  * ## History Management (Undo/Redo)
  *
  * Implements a manual history stack pattern:
- * - `past`: Array of previous states (for undo)
- * - `future`: Array of undone states (for redo)
+ * - `past`: Steps to undo, each a labelled patch back to the previous state
+ * - `future`: Undone steps (for redo)
  *
  * Actions that modify brand/tiles can optionally push to history via
  * the `isCommit` parameter (default: true). Use `isCommit: false` for
- * live previews that shouldn't create undo points.
+ * live previews that shouldn't create undo points. Every step carries a
+ * label for the history timeline, and `jumpToHistory` moves across several
+ * steps at once.
+ *
+ * Layout store changes are recorded into the same stacks by the history
+ * coordinator (`historyCoordinator.ts`); their patches restore the layout
+ * alongside the brand state.
  *
  * ## Usage
  *
@@ -40,9 +46,42 @@ import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { getPaletteById, getAllPalettes } from "../data/colorPalettes";
 import { mapPaletteToBrand, enforceContrast } from "../utils/colorMapping";
+import type { PaletteStyle } from "../utils/paletteStyleClassifier";
 import { DEFAULT_BRAND, BRAND_PRESETS } from "../data/brandPresets";
 import { INITIAL_TILES } from "../data/tileDefaults";
+import {
+  describeLayoutChange,
+  registerHistoryRecorder,
+  restoreLayout,
+  snapshotLayout,
+  type LayoutHistoryState,
+} from "./historyCoordinator";
+import { applyPatch, diff, type Patch } from "../utils/patch";
 import { getPlacementTileId, getPlacementTileType, INITIAL_TILE_SURFACES } from "../config/placements";
+import {
+  MOODBOARD_SCHEMA_VERSION,
+  countLossyIssues,
+  formatMoodboardReport,
+  migrateMoodboard,
+  parseMoodboard,
+} from "../utils/moodboardSchema";
+import { buildBrandCSS, type CSSExportOptions } from "../utils/cssExport";
+import { buildRampRecord, type SurfaceRef } from "../utils/colorRamps";
+import { getBrandSchemes, getDerivedSchemeColors } from "../utils/colorScheme";
+import { createRng, createSeed, pickIndex, pickWeightedIndex, type Rng } from "../utils/random";
+import {
+  BRAND_LOCK_KEYS,
+  applyPairingWithLocks,
+  filterPaletteWeights,
+  getCompatiblePairings,
+  getLockedColorRoles,
+  getLockedTypographyRoles,
+  mapPaletteWithLocks,
+  pinLogo,
+  pinUI,
+  type BrandLockKey,
+  type FontPairing,
+} from "../utils/brandLocks";
 
 // ============================================
 // TYPE DEFINITIONS
@@ -107,6 +146,14 @@ export interface Colors {
     surface?: { tone?: string; text?: string; textCta?: string };
     accent?: { tone?: string; text?: string; textCta?: string };
   };
+  /** Manual overrides for the derived opposite scheme (dark for light brands) */
+  schemeOverrides?: {
+    bg?: string;
+    text?: string;
+    primary?: string;
+    accent?: string;
+    surface?: string;
+  };
 }
 
 /**
@@ -330,20 +377,17 @@ export interface Tile {
 }
 
 /**
- * Snapshot of state for history tracking.
- * Captures both brand and tiles for complete undo/redo.
+ * One step in the undo/redo history.
+ * Stores a structural patch of what changed instead of a full snapshot.
  */
-export interface HistoryState {
-  /** Brand configuration at this point in history */
-  brand: Brand;
-  /** Tile configurations at this point in history */
-  tiles: Tile[];
-  /** Surface overrides at this point in history */
-  tileSurfaces: Record<string, number | undefined>;
-  /** Placement-specific content overrides */
-  placementContent: Record<string, TileContent>;
-  /** Recently used fonts at this point in history */
-  recentFonts?: string[];
+export interface HistoryEntry {
+  /** Timeline label, e.g. "Applied palette Sunset" */
+  label: string;
+  /** When the step was made (ms since epoch) */
+  at: number;
+  /** Turns the current state into the one this step leads to: the state
+   *  before it on the undo stack, the state after it on the redo stack */
+  patch: Patch;
 }
 
 /**
@@ -351,12 +395,38 @@ export interface HistoryState {
  * Uses a dual-stack pattern for bidirectional navigation.
  */
 export interface History {
-  /** Stack of previous states (most recent at end) */
-  past: HistoryState[];
-  /** Stack of undone states (for redo, most recent at start) */
-  future: HistoryState[];
+  /** Stack of steps to undo (most recent at end) */
+  past: HistoryEntry[];
+  /** Stack of undone steps (for redo, most recent at start) */
+  future: HistoryEntry[];
 }
 
+/** Store fields that undo and redo restore */
+type HistoryFields = Pick<
+  BrandStore,
+  "brand" | "tiles" | "tileSurfaces" | "placementContent" | "recentFonts" | "shuffleSeed"
+>;
+
+/** What history patches apply to: the brand fields plus the layout store's */
+interface HistoryDocument extends HistoryFields {
+  layout: LayoutHistoryState;
+}
+
+/** Board fields that `commitChanges` can set as one undo step */
+export type BoardFields = Pick<
+  BrandStore,
+  | "brand"
+  | "tiles"
+  | "tileSurfaces"
+  | "placementContent"
+  | "activePreset"
+  | "theme"
+  | "activeCollectionId"
+  | "collectionImagePool"
+  | "shuffleSeed"
+  | "locks"
+>;
+
 const createDefaultBrand = (): Brand => ({
   typography: { ...DEFAULT_BRAND.typography },
   colors: {
@@ -391,7 +461,7 @@ const isValidImageSrc = (src: unknown): src is string => {
  * @param source - Partial brand from persistence or preset (null/undefined = use defaults)
  * @returns Complete Brand object with all fields guaranteed
  */
-const mergeBrand = (source?: Partial<Brand> | null): Brand => {
+export const mergeBrand = (source?: Partial<Brand> | null): Brand => {
   const base = createDefaultBrand();
 
   if (!source) return base;
@@ -427,17 +497,103 @@ const mergeBrand = (source?: Partial<Brand> | null): Brand => {
 
 /**
  * Maximum number of history entries to keep.
- * Prevents unbounded memory growth from undo/redo operations.
+ * Entries only hold patches, so hundreds of steps stay small in memory.
  */
-const MAX_HISTORY = 50;
+const MAX_HISTORY = 500;
 
 /**
- * Helper to push a new state to history while respecting MAX_HISTORY limit.
+ * Helper to push a new entry to history while respecting MAX_HISTORY limit.
  */
 const pushToHistory = (
-  currentPast: HistoryState[],
-  newEntry: HistoryState
-): HistoryState[] => [...currentPast, newEntry].slice(-MAX_HISTORY);
+  currentPast: HistoryEntry[],
+  newEntry: HistoryEntry
+): HistoryEntry[] => [...currentPast, newEntry].slice(-MAX_HISTORY);
+
+const pickHistoryFields = ({
+  brand,
+  tiles,
+  tileSurfaces,
+  placementContent,
+  recentFonts,
+  shuffleSeed,
+}: HistoryFields): HistoryFields => ({ brand, tiles, tileSurfaces, placementContent, recentFonts, shuffleSeed });
+
+/**
+ * Store updates for a commit: `changes` plus an undo step, labelled
+ * `label`, that patches the result back to `state`. Clears the redo stack.
+ * Commits that change nothing undoable add no step.
+ */
+const commitToHistory = (
+  state: BrandStore,
+  changes: Partial<BrandStore>,
+  label: string
+): Partial<BrandStore> => {
+  const patch = diff(pickHistoryFields({ ...state, ...changes }), pickHistoryFields(state));
+  if (patch.length === 0) return changes;
+  return {
+    ...changes,
+    history: {
+      past: pushToHistory(state.history.past, { label, at: Date.now(), patch }),
+      future: [],
+    },
+  };
+};
+
+/**
+ * Store updates for moving `steps` entries back (negative) or forward
+ * through history, or null when there is nothing to move across. The
+ * layout store is restored directly.
+ *
+ * Each entry crossed is re-diffed against the state it leaves, so stepping
+ * back over it returns exactly there, edits made outside history included.
+ */
+const travelHistory = (state: BrandStore, steps: number): Partial<BrandStore> | null => {
+  let { past, future } = state.history;
+  const count = Math.min(Math.abs(steps), steps < 0 ? past.length : future.length);
+  if (count === 0) return null;
+
+  const layout = snapshotLayout();
+  let doc: HistoryDocument = { ...pickHistoryFields(state), layout };
+  for (let i = 0; i < count; i += 1) {
+    const entry = steps < 0 ? past[past.length - 1] : future[0];
+    const next = applyPatch(doc, entry.patch);
+    const reverse = { ...entry, patch: diff(next, doc) };
+    if (steps < 0) {
+      past = past.slice(0, -1);
+      future = [reverse, ...future];
+    } else {
+      future = future.slice(1);
+      past = pushToHistory(past, reverse);
+    }
+    doc = next;
+  }
+
+  if (doc.layout !== layout) restoreLayout(doc.layout);
+  return { ...pickHistoryFields(doc), history: { past, future } };
+};
+
+/** Timeline wording for a field or tile type: "imageLocked" → "image locked" */
+const humanize = (key: string): string =>
+  key.replace(/([a-z])([A-Z])/g, "$1 $2").replace(/-/g, " ").toLowerCase();
+
+const BRAND_SECTION_LABELS: Record<keyof Brand, string> = {
+  typography: "typography",
+  colors: "colors",
+  logo: "logo",
+  imagery: "imagery",
+  ui: "UI style",
+};
+
+/** Timeline label for an `updateBrand` commit, e.g. "Changed colors" */
+const describeBrandChange = (newBrand: Partial<Brand>): string =>
+  `Changed ${(Object.keys(newBrand) as (keyof Brand)[]).map((key) => BRAND_SECTION_LABELS[key] ?? key).join(" and ")}`;
+
+/** Timeline label for a content edit, e.g. "Changed hero headline" */
+const describeContentChange = (tileType: string | undefined, content: Partial<TileContent>): string => {
+  const fields = Object.keys(content);
+  const subject = tileType ? `${humanize(tileType)} ` : "";
+  return `Changed ${subject}${fields.length === 1 ? humanize(fields[0]) : "content"}`;
+};
 
 const shallowEqualArray = (a?: unknown[], b?: unknown[]): boolean => {
   if (a === b) return true;
@@ -567,8 +723,8 @@ export interface BrandStore {
   resolvedTheme: "light" | "dark";
   /** Undo/redo history stacks */
   history: History;
-  /** Surface index overrides by placement ID (e.g., 'a', 'b', 'hero') */
-  tileSurfaces: Record<string, number | undefined>;
+  /** Surface overrides by placement ID — a surface index or ramp step (e.g., 'a', 'b', 'hero') */
+  tileSurfaces: Record<string, SurfaceRef | undefined>;
   /** Placement-specific content overrides (e.g., social post content) */
   placementContent: Record<string, TileContent>;
   /** Currently selected Lummi collection ID (null = local images) */
@@ -579,6 +735,14 @@ export interface BrandStore {
   recentFonts: string[];
   /** Live font preview state (null when not previewing) */
   fontPreview: { font: string; target: "primary" | "secondary" } | null;
+  /** Seed of the most recent shuffle (null until the first shuffle) */
+  shuffleSeed: string | null;
+  /** Steps taken per tile shuffle under `seed` (see `nextShuffleRng`) */
+  shuffleSteps: { seed: string | null; counts: Record<string, number> };
+  /** Brand attributes kept as-is by shuffles */
+  locks: BrandLockKey[];
+  /** Whether the canvas previews the derived opposite color scheme */
+  schemePreview: boolean;
 
   // ─────────────────────────────────────────────────────────────────
   // UI State Actions
@@ -595,20 +759,24 @@ export interface BrandStore {
   // Template & Preset Actions
   // ─────────────────────────────────────────────────────────────────
 
-  /** Loads a random starter template (clears history) */
+  /** Loads a random starter template (clears history; callers confirm first) */
   loadRandomTemplate: () => void;
-  /** Shuffles color palette + typography randomly (keeps layout) */
-  shuffleBrand: () => void;
+  /** Shuffles color palette + typography (keeps layout); pass a seed to reproduce a board */
+  shuffleBrand: (seed?: string) => void;
   /** Shuffles only color palette (keeps typography + layout) */
-  shuffleColors: () => void;
+  shuffleColors: (seed?: string) => void;
   /** Shuffles only typography (keeps colors + layout) */
-  shuffleTypography: () => void;
+  shuffleTypography: (seed?: string) => void;
+  /** Locks or unlocks a brand attribute for shuffles */
+  toggleLock: (key: BrandLockKey) => void;
+  /** Replaces the brand with a variation as one undoable step */
+  applyVariation: (variation: BrandVariation) => void;
   /** Loads a named brand preset (typography + colors only) */
   loadPreset: (presetName: string) => void;
   /** Applies a color palette, mapping to semantic roles */
   applyPalette: (paletteId: string, complexity?: 'simple' | 'curated' | 'full') => void;
-  /** Applies raw hex colors (e.g. from Coolors import) through the mapping pipeline */
-  applyRawPalette: (colors: string[]) => void;
+  /** Applies raw hex colors (e.g. from Coolors import) through the mapping pipeline; `style` picks dark/neon backgrounds */
+  applyRawPalette: (colors: string[], options?: { style?: PaletteStyle }) => void;
 
   // ─────────────────────────────────────────────────────────────────
   // Tile Actions
@@ -618,8 +786,8 @@ export interface BrandStore {
   swapTileType: (tileId: string, newType: string) => void;
   /** Updates tile content (isCommit=true creates undo point) */
   updateTile: (tileId: string, newContent: Partial<TileContent>, isCommit?: boolean) => void;
-  /** Sets the surface color index for a specific tile placement */
-  setTileSurface: (placementId: string, surfaceIndex: number | undefined, isCommit?: boolean) => void;
+  /** Sets the surface (index or ramp step) for a specific tile placement */
+  setTileSurface: (placementId: string, surfaceIndex: SurfaceRef | undefined, isCommit?: boolean) => void;
   /** Updates placement-specific content (isCommit=true creates undo point) */
   setPlacementContent: (placementId: string, newContent: Partial<TileContent>, isCommit?: boolean) => void;
 
@@ -637,6 +805,8 @@ export interface BrandStore {
   addRecentFont: (family: string) => void;
   /** Sets live font preview (null to clear) */
   setFontPreview: (font: string | null, target: "primary" | "secondary") => void;
+  /** Switches the canvas between the brand colors and the derived opposite scheme */
+  toggleSchemePreview: () => void;
 
   // ─────────────────────────────────────────────────────────────────
   // History Actions
@@ -646,6 +816,10 @@ export interface BrandStore {
   undo: () => void;
   /** Restores next state from future stack (no-op if future is empty) */
   redo: () => void;
+  /** Undoes or redoes until `position` steps are applied (0 = oldest state kept) */
+  jumpToHistory: (position: number) => void;
+  /** Sets several board fields as one labelled undo step (file loads, checkpoints) */
+  commitChanges: (changes: Partial<BoardFields>, label: string) => void;
 }
 
 // ============================================
@@ -1277,65 +1451,44 @@ const STARTER_TEMPLATES: StarterTemplate[] = [
 // ============================================
 
 /**
- * Exports brand configuration as CSS custom properties.
- * Generates a :root block with design tokens for typography, colors, and logo.
+ * Exports brand configuration as a complete stylesheet.
+ * Generates a :root block with typography (including computed `--step-*`
+ * sizes), colors, per-column roles, buttons, imagery and logo tokens, plus
+ * `.btn` classes. See `utils/cssExport` for the full list.
  *
  * @param brand - Brand configuration to export (null returns empty placeholder)
- * @returns CSS string with custom properties
+ * @param options - `darkScheme: true` appends a `prefers-color-scheme` block with
+ *   the derived opposite scheme (dark for light brands, light for dark ones)
+ * @returns CSS string
  *
  * @example
- * const css = exportAsCSS(brand);
+ * const css = exportAsCSS(brand, { darkScheme: true });
  * // :root {
  * //   --font-primary: Inter;
+ * //   --step-0: 16px;
  * //   --color-primary: #3B82F6;
  * //   ...
  * // }
  */
-export const exportAsCSS = (brand: Brand | null): string => {
-  if (!brand) return ":root { /* No brand data */ }";
-
-  const letterSpacingMap: Record<string, string> = {
-    tight: "-0.02em",
-    normal: "0",
-    wide: "0.05em",
-  };
-
-  const typography = brand.typography || {};
-  const colors = brand.colors || {};
-  const logo = brand.logo || {};
-
-  return `:root {
-  /* Typography */
-  --font-primary: ${typography.primary ?? "Inter"};
-  --font-secondary: ${typography.secondary ?? "Inter"};
-  --font-ui: ${typography.ui ?? "Inter"};
-  --type-scale: ${typography.scale ?? 1.25};
-  --type-base-size: ${typography.baseSize ?? 16}px;
-  --type-letter-spacing: ${letterSpacingMap[typography.letterSpacing] ?? "0"};
-
-  /* Colors */
-  --color-bg: ${colors.bg ?? "#FFFFFF"};
-  --color-text: ${colors.text ?? "#171717"};
-  --color-primary: ${colors.primary ?? "#000000"};
-  --color-accent: ${colors.accent ?? "#555555"};
-  --color-surface: ${colors.surface ?? "#F5F5F5"};
-
-  /* Logo */
-  --logo-text: "${logo.text ?? "BRAND"}";
-  --logo-padding: ${logo.padding ?? 16}px;
-  --logo-size: ${logo.size ?? 24}px;
-}`;
-};
+export const exportAsCSS = (brand: Brand | null, options?: CSSExportOptions): string =>
+  buildBrandCSS(brand, options);
 
 /**
  * Exports brand configuration as formatted JSON.
  * Useful for saving brand settings or importing into other tools.
+ * Includes the computed 50–950 color ramps under `ramps` and both color
+ * schemes (the brand's own plus the derived one) under `schemes`.
  *
  * @param brand - Brand configuration to export (null returns empty object)
  * @returns Pretty-printed JSON string (2-space indent)
  */
 export const exportAsJSON = (brand: Brand | null): string => {
-  return JSON.stringify(brand ?? {}, null, 2);
+  if (!brand) return JSON.stringify({}, null, 2);
+  return JSON.stringify(
+    { ...brand, ramps: buildRampRecord(brand.colors), schemes: getBrandSchemes(brand.colors) },
+    null,
+    2
+  );
 };
 
 // ============================================
@@ -1423,7 +1576,7 @@ const defaultPlacementContent: Record<string, TileContent> = {
 };
 
 /** Curated font pairings for shuffle (headline / body) */
-const FONT_PAIRINGS: { primary: string; secondary: string; weight: string; spacing: Typography['letterSpacing'] }[] = [
+const FONT_PAIRINGS: FontPairing[] = [
   { primary: "Sora", secondary: "Inter", weight: "700", spacing: "normal" },
   { primary: "Playfair Display", secondary: "Montserrat", weight: "700", spacing: "wide" },
   { primary: "Bricolage Grotesque", secondary: "Inter", weight: "800", spacing: "normal" },
@@ -1443,6 +1596,188 @@ let _lastTemplateIdx = -1;
 let _lastShufflePaletteIdx = -1;
 let _lastShuffleFontIdx = -1;
 
+/** Fresh seeds tried before accepting a repeat of the previous pick */
+const MAX_SEED_ATTEMPTS = 8;
+
+/**
+ * Shuffle weight for a palette: more colors (up to 7) and more distinct
+ * 60° hue buckets rank higher. Base 0.4 so no palette is excluded.
+ */
+const getPaletteShuffleWeight = (colors: string[]): number => {
+  const colorCount = Math.min(colors.length, 7);
+  const colorWeight = colorCount / 7; // 0-1, more colors = better
+
+  // Hue diversity: count distinct hue buckets (60° each)
+  const hueBuckets = new Set<number>();
+  for (const hex of colors) {
+    const rgb = hex.replace('#', '');
+    if (rgb.length !== 6) continue;
+    const r = parseInt(rgb.slice(0, 2), 16) / 255;
+    const g = parseInt(rgb.slice(2, 4), 16) / 255;
+    const b = parseInt(rgb.slice(4, 6), 16) / 255;
+    const max = Math.max(r, g, b), min = Math.min(r, g, b);
+    if (max === min) continue;
+    let h = 0;
+    const d = max - min;
+    if (max === r) h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
+    else if (max === g) h = ((b - r) / d + 2) / 6;
+    else h = ((r - g) / d + 4) / 6;
+    hueBuckets.add(Math.floor(h * 6));
+  }
+  const hueWeight = Math.min(hueBuckets.size, 4) / 4; // 0-1, more hue variety = better
+
+  return 0.4 + 0.3 * colorWeight + 0.3 * hueWeight;
+};
+
+/**
+ * Shuffle weights for every palette in `getAllPalettes()`. With locked
+ * colors, palettes that can't keep them at AA contrast get weight 0.
+ */
+const getShufflePaletteWeights = (colors: Colors, locks: BrandLockKey[]): number[] => {
+  const palettes = getAllPalettes();
+  return filterPaletteWeights(
+    palettes,
+    palettes.map((p) => getPaletteShuffleWeight(p.colors)),
+    colors,
+    getLockedColorRoles(locks)
+  );
+};
+
+/** Weighted palette pick for a seed (index into `getAllPalettes()`). */
+const pickShufflePalette = (seed: string, weights: number[]): number =>
+  pickWeightedIndex(createRng(seed, 'palette'), weights);
+
+/** Font pairing pick for a seed among `candidates` (indices into `FONT_PAIRINGS`). */
+const pickShuffleFonts = (seed: string, candidates: number[]): number =>
+  candidates[pickIndex(createRng(seed, 'fonts'), candidates.length)];
+
+/** Stored shuffle steps, or null when the shape doesn't match. */
+const parseShuffleSteps = (value: unknown): BrandStore["shuffleSteps"] | null => {
+  if (!value || typeof value !== "object") return null;
+  const { seed, counts } = value as { seed?: unknown; counts?: unknown };
+  if (seed !== null && typeof seed !== "string") return null;
+  if (!counts || typeof counts !== "object") return null;
+  const valid = Object.entries(counts).filter(
+    (entry): entry is [string, number] => Number.isInteger(entry[1]) && entry[1] >= 0
+  );
+  return { seed, counts: Object.fromEntries(valid) };
+};
+
+/**
+ * Seed for the next shuffle. An explicit seed is used as-is so the board
+ * is reproduced exactly; otherwise fresh seeds are drawn until `isRepeat`
+ * is false, so a new shuffle never lands on the previous pick and the
+ * result still depends only on its seed and the locks.
+ */
+const resolveShuffleSeed = (seed: string | undefined, isRepeat: (seed: string) => boolean): string => {
+  if (seed) return seed;
+  let candidate = createSeed();
+  for (let attempt = 1; attempt < MAX_SEED_ATTEMPTS && isRepeat(candidate); attempt++) {
+    candidate = createSeed();
+  }
+  return candidate;
+};
+
+/**
+ * Brand after a shuffle, honoring locks. Pass null for the part that is
+ * not being shuffled. A locked logo or UI keeps its current look by
+ * pinning the colors and fonts it would otherwise inherit.
+ */
+const buildShuffledBrand = (
+  brand: Brand,
+  locks: BrandLockKey[],
+  paletteColors: string[] | null,
+  pairing: FontPairing | null
+): Brand => ({
+  ...brand,
+  colors: paletteColors
+    ? mapPaletteWithLocks(paletteColors, brand.colors, getLockedColorRoles(locks)).mapping
+    : brand.colors,
+  typography: pairing
+    ? applyPairingWithLocks(brand.typography, pairing, getLockedTypographyRoles(locks))
+    : brand.typography,
+  logo: locks.includes('logo') ? pinLogo(brand.logo, brand) : brand.logo,
+  ui: locks.includes('ui') ? pinUI(brand.ui, brand) : brand.ui,
+});
+
+// ============================================
+// VARIATIONS
+// ============================================
+
+/** Button styles and radii a variation picks from */
+const VARIATION_BUTTON_STYLES: UISettings['buttonStyle'][] = ['filled', 'outline', 'soft'];
+const VARIATION_BUTTON_RADII = [0, 4, 10, 16, 24];
+
+/** A candidate brand; `seed` is null for mixes of several candidates. */
+export interface BrandVariation {
+  seed: string | null;
+  brand: Brand;
+}
+
+/** Brand attributes that can be taken from different variations */
+export type VariationPart = 'colors' | 'typography' | 'ui';
+
+/**
+ * Candidate brand for a seed. Palette and font pairing are picked exactly
+ * like `shuffleBrand(seed)`; button style and radius come from a separate
+ * `ui` stream and are left alone when the UI is locked.
+ */
+export const createBrandVariation = (brand: Brand, locks: BrandLockKey[], seed: string): Brand => {
+  const weights = getShufflePaletteWeights(brand.colors, locks);
+  const pairings = getCompatiblePairings(FONT_PAIRINGS, brand.typography, getLockedTypographyRoles(locks));
+  const shuffled = buildShuffledBrand(
+    brand,
+    locks,
+    getAllPalettes()[pickShufflePalette(seed, weights)].colors,
+    FONT_PAIRINGS[pickShuffleFonts(seed, pairings)]
+  );
+  if (locks.includes('ui')) return shuffled;
+
+  const rng = createRng(seed, 'ui');
+  return {
+    ...shuffled,
+    ui: {
+      ...shuffled.ui,
+      buttonStyle: VARIATION_BUTTON_STYLES[pickIndex(rng, VARIATION_BUTTON_STYLES.length)],
+      buttonRadius: VARIATION_BUTTON_RADII[pickIndex(rng, VARIATION_BUTTON_RADII.length)],
+    },
+  };
+};
+
+/**
+ * `count` candidates for the current brand and locks. Seeds that repeat an
+ * earlier candidate's palette and font pairing are redrawn a few times, so
+ * the grid shows distinct options whenever the locks allow them.
+ */
+export const generateBrandVariations = (
+  brand: Brand,
+  locks: BrandLockKey[],
+  count: number
+): BrandVariation[] => {
+  const weights = getShufflePaletteWeights(brand.colors, locks);
+  const pairings = getCompatiblePairings(FONT_PAIRINGS, brand.typography, getLockedTypographyRoles(locks));
+  const seen = new Set<string>();
+  const variations: BrandVariation[] = [];
+
+  for (let i = 0; i < count; i++) {
+    const pickKey = (seed: string) => `${pickShufflePalette(seed, weights)}:${pickShuffleFonts(seed, pairings)}`;
+    const seed = resolveShuffleSeed(undefined, (candidate) => seen.has(pickKey(candidate)));
+    seen.add(pickKey(seed));
+    variations.push({ seed, brand: createBrandVariation(brand, locks, seed) });
+  }
+  return variations;
+};
+
+/**
+ * Combine parts of several variations, e.g. colors from one and type from
+ * another. Logo and imagery are shared by all variations of a board.
+ */
+export const mixBrandVariations = (sources: Record<VariationPart, Brand>): Brand => ({
+  ...sources.colors,
+  typography: sources.typography.typography,
+  ui: sources.ui.ui,
+});
+
 // ============================================
 // STORE
 // ============================================
@@ -1481,6 +1816,10 @@ export const useBrandStore = create<BrandStore>()(
       collectionImagePool: [],
       recentFonts: [],
       fontPreview: null,
+      shuffleSeed: null,
+      shuffleSteps: { seed: null, counts: {} },
+      locks: [],
+      schemePreview: false,
 
       setFocusedTile: (id) => set({ focusedTileId: id }),
 
@@ -1490,7 +1829,7 @@ export const useBrandStore = create<BrandStore>()(
 
       loadRandomTemplate: () => {
         // Avoid picking the same template consecutively
-        let idx = Math.floor(Math.random() * STARTER_TEMPLATES.length);
+        let idx = pickIndex(createRng(get().shuffleSeed ?? createSeed(), "template"), STARTER_TEMPLATES.length);
         if (STARTER_TEMPLATES.length > 1 && idx === _lastTemplateIdx) {
           idx = (idx + 1) % STARTER_TEMPLATES.length;
         }
@@ -1505,6 +1844,7 @@ export const useBrandStore = create<BrandStore>()(
           placementContent: defaultPlacementContent,
           activeCollectionId: null,
           collectionImagePool: [],
+          shuffleSeed: null,
           history: {
             past: [],
             future: [],
@@ -1512,203 +1852,109 @@ export const useBrandStore = create<BrandStore>()(
         });
       },
 
-      shuffleBrand: () => {
-        const { brand, tiles, tileSurfaces, placementContent, history, recentFonts } = get();
+      shuffleBrand: (seed) => {
+        const { brand, locks } = get();
         const allPalettes = getAllPalettes();
-
-        // Weight palettes by color count and hue diversity for better shuffle quality
-        const weights = allPalettes.map((p) => {
-          const colorCount = Math.min(p.colors.length, 7);
-          const colorWeight = colorCount / 7; // 0-1, more colors = better
-
-          // Hue diversity: count distinct hue buckets (60° each)
-          const hueBuckets = new Set<number>();
-          for (const hex of p.colors) {
-            const rgb = hex.replace('#', '');
-            if (rgb.length !== 6) continue;
-            const r = parseInt(rgb.slice(0, 2), 16) / 255;
-            const g = parseInt(rgb.slice(2, 4), 16) / 255;
-            const b = parseInt(rgb.slice(4, 6), 16) / 255;
-            const max = Math.max(r, g, b), min = Math.min(r, g, b);
-            if (max === min) continue;
-            let h = 0;
-            const d = max - min;
-            if (max === r) h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
-            else if (max === g) h = ((b - r) / d + 2) / 6;
-            else h = ((r - g) / d + 4) / 6;
-            hueBuckets.add(Math.floor(h * 6));
-          }
-          const hueWeight = Math.min(hueBuckets.size, 4) / 4; // 0-1, more hue variety = better
-
-          return 0.4 + 0.3 * colorWeight + 0.3 * hueWeight; // base 0.4 so no palette is excluded
-        });
-
-        // Weighted random selection
-        const totalWeight = weights.reduce((sum, w) => sum + w, 0);
-        let r = Math.random() * totalWeight;
-        let pIdx = 0;
-        for (let i = 0; i < weights.length; i++) {
-          r -= weights[i];
-          if (r <= 0) { pIdx = i; break; }
-        }
-        if (allPalettes.length > 1 && pIdx === _lastShufflePaletteIdx) {
-          pIdx = (pIdx + 1) % allPalettes.length;
-        }
+        const weights = getShufflePaletteWeights(brand.colors, locks);
+        const pairings = getCompatiblePairings(FONT_PAIRINGS, brand.typography, getLockedTypographyRoles(locks));
+        const paletteChoices = weights.filter((w) => w > 0).length;
+
+        const nextSeed = resolveShuffleSeed(
+          seed,
+          (candidate) =>
+            (paletteChoices > 1 && pickShufflePalette(candidate, weights) === _lastShufflePaletteIdx) ||
+            (pairings.length > 1 && pickShuffleFonts(candidate, pairings) === _lastShuffleFontIdx)
+        );
+        const pIdx = pickShufflePalette(nextSeed, weights);
+        const fIdx = pickShuffleFonts(nextSeed, pairings);
         _lastShufflePaletteIdx = pIdx;
-
-        // Pick random font pairing, avoiding repeat
-        let fIdx = Math.floor(Math.random() * FONT_PAIRINGS.length);
-        if (FONT_PAIRINGS.length > 1 && fIdx === _lastShuffleFontIdx) {
-          fIdx = (fIdx + 1) % FONT_PAIRINGS.length;
-        }
         _lastShuffleFontIdx = fIdx;
 
-        const palette = allPalettes[pIdx];
-        const fontPairing = FONT_PAIRINGS[fIdx];
-
-        // Map palette to brand colors
-        const rawMapping = mapPaletteToBrand(palette.colors);
-        const colorMapping = enforceContrast(rawMapping);
-
-        set({
-          brand: {
-            ...brand,
-            typography: {
-              ...brand.typography,
-              primary: fontPairing.primary,
-              secondary: fontPairing.secondary,
-              ui: fontPairing.secondary,
-              weightHeadline: fontPairing.weight,
-              letterSpacing: fontPairing.spacing,
-            },
-            colors: colorMapping,
-          },
+        set(commitToHistory(get(), {
+          brand: buildShuffledBrand(brand, locks, allPalettes[pIdx].colors, FONT_PAIRINGS[fIdx]),
           activePreset: "custom",
-          history: {
-            past: pushToHistory(history.past, { brand, tiles, tileSurfaces, placementContent, recentFonts }),
-            future: [],
-          },
-        });
+          shuffleSeed: nextSeed,
+        }, "Shuffled brand"));
       },
 
-      shuffleColors: () => {
-        const { brand, tiles, tileSurfaces, placementContent, history, recentFonts } = get();
+      shuffleColors: (seed) => {
+        const { brand, locks } = get();
         const allPalettes = getAllPalettes();
+        const weights = getShufflePaletteWeights(brand.colors, locks);
+        const paletteChoices = weights.filter((w) => w > 0).length;
 
-        // Weighted random palette selection (same logic as shuffleBrand)
-        const weights = allPalettes.map((p) => {
-          const colorCount = Math.min(p.colors.length, 7);
-          const colorWeight = colorCount / 7;
-          const hueBuckets = new Set<number>();
-          for (const hex of p.colors) {
-            const rgb = hex.replace('#', '');
-            if (rgb.length !== 6) continue;
-            const r = parseInt(rgb.slice(0, 2), 16) / 255;
-            const g = parseInt(rgb.slice(2, 4), 16) / 255;
-            const b = parseInt(rgb.slice(4, 6), 16) / 255;
-            const max = Math.max(r, g, b), min = Math.min(r, g, b);
-            if (max === min) continue;
-            let h = 0;
-            const d = max - min;
-            if (max === r) h = ((g - b) / d + (g < b ? 6 : 0)) / 6;
-            else if (max === g) h = ((b - r) / d + 2) / 6;
-            else h = ((r - g) / d + 4) / 6;
-            hueBuckets.add(Math.floor(h * 6));
-          }
-          const hueWeight = Math.min(hueBuckets.size, 4) / 4;
-          return 0.4 + 0.3 * colorWeight + 0.3 * hueWeight;
-        });
-
-        const totalWeight = weights.reduce((sum, w) => sum + w, 0);
-        let r = Math.random() * totalWeight;
-        let pIdx = 0;
-        for (let i = 0; i < weights.length; i++) {
-          r -= weights[i];
-          if (r <= 0) { pIdx = i; break; }
-        }
-        if (allPalettes.length > 1 && pIdx === _lastShufflePaletteIdx) {
-          pIdx = (pIdx + 1) % allPalettes.length;
-        }
+        // Same weighted pick as shuffleBrand, so a seed yields the same palette in both
+        const nextSeed = resolveShuffleSeed(
+          seed,
+          (candidate) => paletteChoices > 1 && pickShufflePalette(candidate, weights) === _lastShufflePaletteIdx
+        );
+        const pIdx = pickShufflePalette(nextSeed, weights);
         _lastShufflePaletteIdx = pIdx;
 
-        const palette = allPalettes[pIdx];
-        const rawMapping = mapPaletteToBrand(palette.colors);
-        const colorMapping = enforceContrast(rawMapping);
-
-        set({
-          brand: { ...brand, colors: colorMapping },
+        set(commitToHistory(get(), {
+          brand: buildShuffledBrand(brand, locks, allPalettes[pIdx].colors, null),
           activePreset: "custom",
-          history: {
-            past: pushToHistory(history.past, { brand, tiles, tileSurfaces, placementContent, recentFonts }),
-            future: [],
-          },
-        });
+          shuffleSeed: nextSeed,
+        }, "Shuffled colors"));
       },
 
-      shuffleTypography: () => {
-        const { brand, tiles, tileSurfaces, placementContent, history, recentFonts } = get();
+      shuffleTypography: (seed) => {
+        const { brand, locks } = get();
+        const pairings = getCompatiblePairings(FONT_PAIRINGS, brand.typography, getLockedTypographyRoles(locks));
 
-        let fIdx = Math.floor(Math.random() * FONT_PAIRINGS.length);
-        if (FONT_PAIRINGS.length > 1 && fIdx === _lastShuffleFontIdx) {
-          fIdx = (fIdx + 1) % FONT_PAIRINGS.length;
-        }
+        const nextSeed = resolveShuffleSeed(
+          seed,
+          (candidate) => pairings.length > 1 && pickShuffleFonts(candidate, pairings) === _lastShuffleFontIdx
+        );
+        const fIdx = pickShuffleFonts(nextSeed, pairings);
         _lastShuffleFontIdx = fIdx;
 
-        const fontPairing = FONT_PAIRINGS[fIdx];
+        set(commitToHistory(get(), {
+          brand: buildShuffledBrand(brand, locks, null, FONT_PAIRINGS[fIdx]),
+          activePreset: "custom",
+          shuffleSeed: nextSeed,
+        }, "Shuffled typography"));
+      },
 
+      toggleLock: (key) => {
+        const { locks } = get();
         set({
-          brand: {
-            ...brand,
-            typography: {
-              ...brand.typography,
-              primary: fontPairing.primary,
-              secondary: fontPairing.secondary,
-              ui: fontPairing.secondary,
-              weightHeadline: fontPairing.weight,
-              letterSpacing: fontPairing.spacing,
-            },
-          },
-          activePreset: "custom",
-          history: {
-            past: pushToHistory(history.past, { brand, tiles, tileSurfaces, placementContent, recentFonts }),
-            future: [],
-          },
+          locks: locks.includes(key)
+            ? locks.filter((k) => k !== key)
+            : BRAND_LOCK_KEYS.filter((k) => k === key || locks.includes(k)),
         });
       },
 
+      applyVariation: (variation) => {
+        set(commitToHistory(get(), {
+          brand: variation.brand,
+          activePreset: "custom",
+          shuffleSeed: variation.seed,
+        }, "Applied variation"));
+      },
+
       loadPreset: (presetName) => {
-        const { brand, tiles, tileSurfaces, placementContent, history, recentFonts } = get();
         const preset = BRAND_PRESETS[presetName];
         if (!preset) return;
 
-        set({
+        set(commitToHistory(get(), {
           brand: preset,
           activePreset: presetName,
-          history: {
-            past: pushToHistory(history.past, { brand, tiles, tileSurfaces, placementContent, recentFonts }),
-            future: [],
-          },
-        });
+        }, `Loaded preset ${presetName}`));
       },
 
-      applyRawPalette: (colors) => {
+      applyRawPalette: (colors, options) => {
         if (colors.length === 0) return;
-        const { brand, tiles, tileSurfaces, placementContent, history, recentFonts } = get();
+        const { brand } = get();
 
-        const rawMapping = mapPaletteToBrand(colors);
+        const rawMapping = mapPaletteToBrand(colors, options);
         const colorMapping = enforceContrast(rawMapping);
 
-        set({
-          brand: { ...brand, colors: colorMapping as Colors },
-          history: {
-            past: pushToHistory(history.past, { brand, tiles, tileSurfaces, placementContent, recentFonts }),
-            future: [],
-          },
-        });
+        set(commitToHistory(get(), { brand: { ...brand, colors: colorMapping as Colors } }, "Applied custom palette"));
       },
 
       applyPalette: (paletteId, complexity = 'full') => {
-        const { brand, tiles, tileSurfaces, placementContent, history, recentFonts } = get();
+        const { brand } = get();
         const palette = getPaletteById(paletteId);
         if (!palette) return;
 
@@ -1747,20 +1993,16 @@ export const useBrandStore = create<BrandStore>()(
           }
         }
 
-        set({
+        set(commitToHistory(get(), {
           brand: {
             ...brand,
             colors: colorMapping as Colors,
           },
-          history: {
-            past: pushToHistory(history.past, { brand, tiles, tileSurfaces, placementContent, recentFonts }),
-            future: [],
-          },
-        });
+        }, `Applied palette ${palette.name}`));
       },
 
       swapTileType: (tileId, newType) => {
-        const { brand, tiles, tileSurfaces, placementContent, history, recentFonts } = get();
+        const { tiles } = get();
         const tile = tiles.find((t) => t.id === tileId);
         if (!tile) return;
 
@@ -1770,17 +2012,11 @@ export const useBrandStore = create<BrandStore>()(
             : t
         );
 
-        set({
-          tiles: newTiles,
-          history: {
-            past: pushToHistory(history.past, { brand, tiles, tileSurfaces, placementContent, recentFonts }),
-            future: [],
-          },
-        });
+        set(commitToHistory(get(), { tiles: newTiles }, `Changed ${humanize(tile.type)} tile to ${humanize(newType)}`));
       },
 
       updateBrand: (newBrand, isCommit = true) => {
-        const { brand, history, tiles, tileSurfaces, placementContent, recentFonts } = get();
+        const { brand } = get();
         if (!newBrand || Object.keys(newBrand).length === 0) return;
         if (!hasBrandChanges(brand, newBrand)) return;
 
@@ -1810,20 +2046,14 @@ export const useBrandStore = create<BrandStore>()(
         };
 
         if (isCommit) {
-          set({
-            brand: nextBrand,
-            history: {
-              past: pushToHistory(history.past, { brand, tiles, tileSurfaces, placementContent, recentFonts }),
-              future: [],
-            },
-          });
+          set(commitToHistory(get(), { brand: nextBrand }, describeBrandChange(newBrand)));
         } else {
           set({ brand: nextBrand });
         }
       },
 
       updateTile: (tileId, newContent, isCommit = true) => {
-        const { brand, tiles, tileSurfaces, placementContent, history, recentFonts } = get();
+        const { tiles } = get();
         const currentTile = tiles.find((t) => t.id === tileId);
         if (!currentTile) return;
         if (!hasTileContentChanges(currentTile.content, newContent)) return;
@@ -1832,20 +2062,14 @@ export const useBrandStore = create<BrandStore>()(
         );
 
         if (isCommit) {
-          set({
-            tiles: newTiles,
-            history: {
-              past: pushToHistory(history.past, { brand, tiles, tileSurfaces, placementContent, recentFonts }),
-              future: [],
-            },
-          });
+          set(commitToHistory(get(), { tiles: newTiles }, describeContentChange(currentTile.type, newContent)));
         } else {
           set({ tiles: newTiles });
         }
       },
 
       setTileSurface: (placementId, surfaceIndex, isCommit = true) => {
-        const { tileSurfaces, history, brand, tiles, placementContent, recentFonts } = get();
+        const { tileSurfaces } = get();
         if (tileSurfaces[placementId] === surfaceIndex) return;
         const nextSurfaces = {
           ...tileSurfaces,
@@ -1853,20 +2077,15 @@ export const useBrandStore = create<BrandStore>()(
         };
 
         if (isCommit) {
-          set({
-            tileSurfaces: nextSurfaces,
-            history: {
-              past: pushToHistory(history.past, { brand, tiles, tileSurfaces, placementContent, recentFonts }),
-              future: [],
-            },
-          });
+          const label = `Changed ${humanize(getPlacementTileType(placementId) ?? placementId)} surface`;
+          set(commitToHistory(get(), { tileSurfaces: nextSurfaces }, label));
         } else {
           set({ tileSurfaces: nextSurfaces });
         }
       },
 
       setPlacementContent: (placementId, newContent, isCommit = true) => {
-        const { placementContent, history, brand, tiles, tileSurfaces, recentFonts } = get();
+        const { placementContent } = get();
         const currentContent = placementContent[placementId] || {};
         if (!hasTileContentChanges(currentContent, newContent)) return;
         const nextContent = {
@@ -1875,27 +2094,20 @@ export const useBrandStore = create<BrandStore>()(
         };
 
         if (isCommit) {
-          set({
-            placementContent: nextContent,
-            history: {
-              past: pushToHistory(history.past, { brand, tiles, tileSurfaces, placementContent, recentFonts }),
-              future: [],
-            },
-          });
+          const label = describeContentChange(getPlacementTileType(placementId), newContent);
+          set(commitToHistory(get(), { placementContent: nextContent }, label));
         } else {
           set({ placementContent: nextContent });
         }
       },
 
       resetToDefaults: () => {
-        const { history, brand, tiles, tileSurfaces, placementContent, recentFonts } = get();
-
         // Reset module-level shuffle indices so next shuffle starts fresh
         _lastTemplateIdx = -1;
         _lastShufflePaletteIdx = -1;
         _lastShuffleFontIdx = -1;
 
-        set({
+        set(commitToHistory(get(), {
           brand: DEFAULT_BRAND,
           tiles: INITIAL_TILES,
           activePreset: "default",
@@ -1903,15 +2115,12 @@ export const useBrandStore = create<BrandStore>()(
           placementContent: defaultPlacementContent,
           activeCollectionId: null,
           collectionImagePool: [],
-          history: {
-            past: pushToHistory(history.past, { brand, tiles, tileSurfaces, placementContent, recentFonts }),
-            future: [],
-          },
-        });
+          shuffleSeed: null,
+        }, "Reset to defaults"));
       },
 
       setImageCollection: (collectionId, imageUrls) => {
-        const { brand, tiles, tileSurfaces, placementContent, history, recentFonts } = get();
+        const { tiles, placementContent } = get();
 
         if (imageUrls.length === 0) {
           set({ activeCollectionId: collectionId, collectionImagePool: [] });
@@ -1942,56 +2151,31 @@ export const useBrandStore = create<BrandStore>()(
           }
         }
 
-        set({
+        set(commitToHistory(get(), {
           activeCollectionId: collectionId,
           collectionImagePool: imageUrls,
           tiles: newTiles,
           placementContent: newPlacementContent,
-          history: {
-            past: pushToHistory(history.past, { brand, tiles, tileSurfaces, placementContent, recentFonts }),
-            future: [],
-          },
-        });
+        }, "Applied image collection"));
       },
 
       undo: () => {
-        const { history, brand, tiles, tileSurfaces, placementContent, recentFonts } = get();
-        if (history.past.length === 0) return;
-
-        const previous = history.past[history.past.length - 1];
-        const newPast = history.past.slice(0, history.past.length - 1);
-
-        set({
-          brand: previous.brand,
-          tiles: previous.tiles,
-          tileSurfaces: previous.tileSurfaces,
-          placementContent: previous.placementContent ?? defaultPlacementContent,
-          recentFonts: previous.recentFonts ?? [],
-          history: {
-            past: newPast,
-            future: [{ brand, tiles, tileSurfaces, placementContent, recentFonts }, ...history.future].slice(0, MAX_HISTORY),
-          },
-        });
+        const changes = travelHistory(get(), -1);
+        if (changes) set(changes);
       },
 
       redo: () => {
-        const { history, brand, tiles, tileSurfaces, placementContent, recentFonts } = get();
-        if (history.future.length === 0) return;
+        const changes = travelHistory(get(), 1);
+        if (changes) set(changes);
+      },
 
-        const next = history.future[0];
-        const newFuture = history.future.slice(1);
+      jumpToHistory: (position) => {
+        const changes = travelHistory(get(), position - get().history.past.length);
+        if (changes) set(changes);
+      },
 
-        set({
-          brand: next.brand,
-          tiles: next.tiles,
-          tileSurfaces: next.tileSurfaces,
-          placementContent: next.placementContent ?? defaultPlacementContent,
-          recentFonts: next.recentFonts ?? [],
-          history: {
-            past: pushToHistory(history.past, { brand, tiles, tileSurfaces, placementContent, recentFonts }),
-            future: newFuture,
-          },
-        });
+      commitChanges: (changes, label) => {
+        set(commitToHistory(get(), changes, label));
       },
 
       addRecentFont: (family) => {
@@ -2006,51 +2190,59 @@ export const useBrandStore = create<BrandStore>()(
       setFontPreview: (font, target) => {
         set({ fontPreview: font ? { font, target } : null });
       },
+
+      toggleSchemePreview: () => set({ schemePreview: !get().schemePreview }),
     }),
     {
       name: "brand-store",
-      // Merge persisted localStorage state with fresh defaults on app load.
-      // Handles schema migrations (e.g. adding slot tiles for new layout system).
+      // Stored state follows the moodboard document schema; older versions
+      // are upgraded through the same migration chain used for files and
+      // share links.
+      version: MOODBOARD_SCHEMA_VERSION,
+      migrate: (persisted, version) =>
+        migrateMoodboard((persisted ?? {}) as Record<string, unknown>, version) as unknown as BrandStore,
+      // Validate persisted state against the schema and merge with fresh
+      // defaults on app load (INITIAL_TILE_SURFACES, default placement content).
       merge: (persisted, current) => {
         const persistedState = persisted as Partial<BrandStore> | undefined;
         if (!persistedState) return current;
 
-        let tiles = Array.isArray(persistedState.tiles) && persistedState.tiles.length > 0
-          ? persistedState.tiles
-          : current.tiles;
+        // `migrate` has already run when the stored version was older.
+        const { document: doc, report } = parseMoodboard({
+          ...persistedState,
+          version: MOODBOARD_SCHEMA_VERSION,
+        });
+        if (!doc) return current;
 
-        // Ensure slot tiles exist for letter placements (migration from
-        // shared-ID era where 'a' -> 'logo-1' to unique-ID 'a' -> 'slot-a').
-        const slotIds = ['slot-a', 'slot-b', 'slot-c', 'slot-d', 'slot-e', 'slot-f'];
-        const existingIds = new Set(tiles.map((t: Tile) => t.id));
-        const missingSlots = INITIAL_TILES.filter(
-          (t) => slotIds.includes(t.id) && !existingIds.has(t.id)
-        );
-        if (missingSlots.length > 0) {
-          tiles = [...tiles, ...missingSlots];
+        const { dropped, coerced } = countLossyIssues(report);
+        if (dropped + coerced > 0) {
+          console.warn('Stored moodboard loaded with changes:\n' + formatMoodboardReport(report).join('\n'));
         }
 
         return {
           ...current,
-          brand: mergeBrand(persistedState.brand),
-          tiles,
-          theme: persistedState.theme ?? current.theme,
+          brand: doc.brand,
+          tiles: doc.tiles.length > 0 ? doc.tiles : current.tiles,
+          theme: doc.theme ?? current.theme,
           tileSurfaces: {
             ...INITIAL_TILE_SURFACES,
-            ...(persistedState.tileSurfaces ?? current.tileSurfaces),
+            ...doc.tileSurfaces,
           },
-          activePreset: persistedState.activePreset ?? current.activePreset,
+          activePreset: doc.activePreset ?? current.activePreset,
           placementContent: {
             ...defaultPlacementContent,
-            ...(persistedState.placementContent ?? current.placementContent),
+            ...doc.placementContent,
           },
-          activeCollectionId: persistedState.activeCollectionId ?? null,
-          collectionImagePool: persistedState.collectionImagePool ?? [],
-          recentFonts: persistedState.recentFonts ?? [],
+          activeCollectionId: doc.activeCollectionId ?? null,
+          collectionImagePool: doc.collectionImagePool ?? [],
+          shuffleSeed: doc.shuffleSeed ?? null,
+          locks: doc.locks ?? [],
+          recentFonts: Array.isArray(persistedState.recentFonts) ? persistedState.recentFonts : [],
+          shuffleSteps: parseShuffleSteps(persistedState.shuffleSteps) ?? current.shuffleSteps,
         } as BrandStore;
       },
       // Persist only serializable user data. Exclude:
-      // - focusedTileId (UI state, not user data)
+      // - focusedTileId, schemePreview (UI state, not user data)
       // - history (undo/redo is session-only)
       partialize: (state) => ({
         brand: state.brand,
@@ -2061,12 +2253,30 @@ export const useBrandStore = create<BrandStore>()(
         placementContent: state.placementContent,
         activeCollectionId: state.activeCollectionId,
         collectionImagePool: state.collectionImagePool,
+        shuffleSeed: state.shuffleSeed,
+        shuffleSteps: state.shuffleSteps,
+        locks: state.locks,
         recentFonts: state.recentFonts,
       }),
     }
   )
 );
 
+/**
+ * PRNG for the next shuffle of one tile's image or copy (`key` names the
+ * tile and what is shuffled). Each call moves that key one step on, so
+ * repeated shuffles under a fixed seed keep walking a reproducible
+ * sequence instead of bouncing between two picks. Steps start over when
+ * the seed changes.
+ */
+export const nextShuffleRng = (key: string): Rng => {
+  const { shuffleSeed, shuffleSteps } = useBrandStore.getState();
+  const counts = shuffleSteps.seed === shuffleSeed ? shuffleSteps.counts : {};
+  const step = counts[key] ?? 0;
+  useBrandStore.setState({ shuffleSteps: { seed: shuffleSeed, counts: { ...counts, [key]: step + 1 } } });
+  return createRng(shuffleSeed ?? createSeed(), `${key}:${step}`);
+};
+
 // ============================================
 // SELECTORS
 // ============================================
@@ -2088,6 +2298,14 @@ export const selectFocusedTile = (state: BrandStore): Tile | undefined => {
     ?? state.tiles.find((t) => t.type === getPlacementTileType(state.focusedTileId ?? undefined));
 };
 
+/**
+ * Selector for the colors tiles render with: the brand colors, or the
+ * derived opposite scheme while the canvas previews it. The derived object
+ * is cached per colors object, so it is safe inside `useShallow`.
+ */
+export const selectCanvasColors = (state: BrandStore): Colors =>
+  state.schemePreview ? getDerivedSchemeColors(state.brand.colors) : state.brand.colors;
+
 /**
  * Selector to check if undo is available.
  */
@@ -2099,3 +2317,34 @@ export const selectCanUndo = (state: BrandStore): boolean =>
  */
 export const selectCanRedo = (state: BrandStore): boolean =>
   state.history.future.length > 0;
+
+/**
+ * Selector for how many steps clearing history would lose (undo and redo).
+ */
+export const selectHistorySize = (state: BrandStore): number =>
+  state.history.past.length + state.history.future.length;
+
+// Layout changes reach the undo history through the coordinator
+registerHistoryRecorder({
+  mark: () => useBrandStore.getState().history.past.at(-1) ?? null,
+  record: (before, since, label) => {
+    const { history } = useBrandStore.getState();
+    const patch = before ? diff({ layout: snapshotLayout() }, { layout: before }) : [];
+    const last = history.past.at(-1);
+    // A brand step committed in the same group restores the layout too
+    if (last && last !== since) {
+      const merged = { ...last, label: label ?? last.label, patch: [...last.patch, ...patch] };
+      useBrandStore.setState({
+        history: { ...history, past: [...history.past.slice(0, -1), merged] },
+      });
+      return;
+    }
+    if (!before || patch.length === 0) return;
+    useBrandStore.setState({
+      history: {
+        past: pushToHistory(history.past, { label: label ?? describeLayoutChange(before), at: Date.now(), patch }),
+        future: [],
+      },
+    });
+  },
+});
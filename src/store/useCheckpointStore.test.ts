@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { StoredCheckpoint } from '../services/boardStorage';
+import { useCheckpointStore, MAX_CHECKPOINTS } from './useCheckpointStore';
+import { useBrandStore } from './useBrandStore';
+import { useLayoutStore } from './useLayoutStore';
+import { withoutHistory } from './historyCoordinator';
+
+// jsdom has no IndexedDB — keep checkpoints in memory
+const stored = vi.hoisted(() => new Map<string, StoredCheckpoint>());
+// Set to make the next `putCheckpoint` fail with this error
+const nextPut = vi.hoisted(() => ({ error: null as Error | null }));
+vi.mock('../services/boardStorage', () => ({
+  listCheckpoints: async () => [...stored.values()].sort((a, b) => a.createdAt - b.createdAt),
+  putCheckpoint: async (checkpoint: StoredCheckpoint) => {
+    const { error } = nextPut;
+    nextPut.error = null;
+    if (error) throw error;
+    stored.set(checkpoint.id, structuredClone(checkpoint));
+  },
+  deleteCheckpoint: async (id: string) => {
+    stored.delete(id);
+  },
+}));
+
+const setLogoText = (text: string) => {
+  const { brand } = useBrandStore.getState();
+  useBrandStore.getState().updateBrand({ logo: { ...brand.logo, text } });
+};
+
+beforeEach(() => {
+  stored.clear();
+  localStorage.clear();
+  withoutHistory(() => useLayoutStore.setState(useLayoutStore.getInitialState()));
+  useBrandStore.setState(useBrandStore.getInitialState());
+  useCheckpointStore.setState({ checkpoints: [] });
+});
+
+describe('checkpoints', () => {
+  it('restores a saved board as one undoable step', async () => {
+    setLogoText('Draft one');
+    useLayoutStore.getState().setPreset('mosaic');
+    await useCheckpointStore.getState().saveCheckpoint('  First pass ', 'board-1');
+
+    setLogoText('Draft two');
+    withoutHistory(() => useLayoutStore.getState().setPreset('spread'));
+
+    const [checkpoint] = useCheckpointStore.getState().checkpoints;
+    expect(checkpoint.name).toBe('First pass');
+    useCheckpointStore.getState().restoreCheckpoint(checkpoint.id);
+
+    expect(useBrandStore.getState().brand.logo.text).toBe('Draft one');
+    expect(useLayoutStore.getState().preset).toBe('mosaic');
+    expect(useBrandStore.getState().history.past.at(-1)?.label).toBe('Restored checkpoint "First pass"');
+
+    useBrandStore.getState().undo();
+    expect(useBrandStore.getState().brand.logo.text).toBe('Draft two');
+    expect(useLayoutStore.getState().preset).toBe('spread');
+  });
+
+  it('ignores blank names and keeps the newest per board', async () => {
+    const { saveCheckpoint } = useCheckpointStore.getState();
+    await saveCheckpoint('   ', 'board-1');
+    expect(useCheckpointStore.getState().checkpoints).toHaveLength(0);
+
+    await saveCheckpoint('Other board', 'board-2');
+    for (let i = 0; i <= MAX_CHECKPOINTS; i++) await saveCheckpoint(`Point ${i}`, 'board-1');
+
+    const { checkpoints } = useCheckpointStore.getState();
+    const own = checkpoints.filter((c) => c.boardId === 'board-1');
+    expect(own).toHaveLength(MAX_CHECKPOINTS);
+    expect(own[0].name).toBe('Point 1');
+    expect(checkpoints.some((c) => c.name === 'Other board')).toBe(true);
+    expect(stored.size).toBe(MAX_CHECKPOINTS + 1);
+  });
+
+  it('deletes single checkpoints and whole boards', async () => {
+    const { saveCheckpoint } = useCheckpointStore.getState();
+    await saveCheckpoint('A', 'board-1');
+    await saveCheckpoint('B', 'board-1');
+    await saveCheckpoint('C', 'board-2');
+
+    const [a] = useCheckpointStore.getState().checkpoints;
+    await useCheckpointStore.getState().deleteCheckpoint(a.id);
+    await useCheckpointStore.getState().deleteBoardCheckpoints('board-2');
+    expect(useCheckpointStore.getState().checkpoints.map((c) => c.name)).toEqual(['B']);
+    expect([...stored.values()].map((c) => c.name)).toEqual(['B']);
+  });
+
+  it('survives a reload and drops checkpoints that no longer load', async () => {
+    await useCheckpointStore.getState().saveCheckpoint('Kept', null);
+    stored.set('broken', { id: 'broken', name: 'Broken', boardId: null, createdAt: 0, document: 'nope' as never });
+
+    useCheckpointStore.setState({ checkpoints: [] });
+    await useCheckpointStore.getState().loadCheckpoints();
+    expect(useCheckpointStore.getState().checkpoints.map((c) => c.name)).toEqual(['Kept']);
+  });
+
+  it('rejects and keeps nothing when storing fails', async () => {
+    nextPut.error = new DOMException('The quota has been exceeded.', 'QuotaExceededError');
+    await expect(useCheckpointStore.getState().saveCheckpoint('Too big', 'board-1')).rejects.toThrow('quota');
+
+    expect(useCheckpointStore.getState().checkpoints).toHaveLength(0);
+    await useCheckpointStore.getState().loadCheckpoints();
+    expect(useCheckpointStore.getState().checkpoints).toHaveLength(0);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Checkpoint Store
+ *
+ * Named snapshots of the board that survive reloads, for getting back to a
+ * known point after undo history has moved on or been cleared. Each
+ * checkpoint holds a full moodboard document; restoring one is an undoable
+ * step of its own, so the board it replaces is never lost.
+ *
+ * Checkpoints belong to the workspace board they were made on (`boardId`,
+ * null when the board library is unavailable). They are kept in IndexedDB
+ * next to the boards (`services/boardStorage`), since documents with
+ * uploaded images quickly outgrow localStorage. Stored documents go through
+ * the moodboard schema on load, so checkpoints from older versions are
+ * migrated.
+ *
+ * @module store/useCheckpointStore
+ */
+import { create } from 'zustand';
+import { useBrandStore } from './useBrandStore';
+import { useLayoutStore } from './useLayoutStore';
+import { snapshotDocument } from './useWorkspaceStore';
+import { groupHistory } from './historyCoordinator';
+import {
+  deleteCheckpoint as deleteStoredCheckpoint,
+  listCheckpoints,
+  putCheckpoint,
+  type StoredCheckpoint,
+} from '../services/boardStorage';
+import { parseMoodboard } from '../utils/moodboardSchema';
+
+/** A named board snapshot. */
+export type Checkpoint = StoredCheckpoint;
+
+/** Checkpoints kept per board; saving past this drops the oldest */
+export const MAX_CHECKPOINTS = 20;
+
+interface CheckpointStore {
+  // ── State ──
+
+  /** Every board's checkpoints, oldest first within a board. Session copy
+   *  of IndexedDB, filled by `loadCheckpoints`. */
+  checkpoints: Checkpoint[];
+
+  // ── Actions ──
+
+  /** Read checkpoints from IndexedDB */
+  loadCheckpoints: () => Promise<void>;
+  /** Save the current board under `name` (ignored when blank). Rejects when
+   *  the checkpoint could not be stored; it is not kept in that case. */
+  saveCheckpoint: (name: string, boardId: string | null) => Promise<void>;
+  /** Load a checkpoint into the editor as one undoable step */
+  restoreCheckpoint: (id: string) => void;
+  deleteCheckpoint: (id: string) => Promise<void>;
+  /** Drop all checkpoints of a board (used when the board is deleted) */
+  deleteBoardCheckpoints: (boardId: string) => Promise<void>;
+}
+
+const createCheckpointId = (): string =>
+  `checkpoint-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** Checkpoints whose documents still load; others are dropped. */
+const parseCheckpoints = (stored: unknown): Checkpoint[] => {
+  if (!Array.isArray(stored)) return [];
+  return stored.flatMap((checkpoint): Checkpoint[] => {
+    if (typeof checkpoint?.id !== 'string' || typeof checkpoint.name !== 'string') return [];
+    const { document } = parseMoodboard(checkpoint.document);
+    return document ? [{ ...checkpoint, document }] : [];
+  });
+};
+
+/** Checkpoint store hook — named snapshots per board. */
+export const useCheckpointStore = create<CheckpointStore>()((set, get) => ({
+  checkpoints: [],
+
+  loadCheckpoints: async () => {
+    try {
+      const checkpoints = parseCheckpoints(await listCheckpoints());
+      set({ checkpoints });
+    } catch (error) {
+      console.error('Checkpoints unavailable:', error);
+    }
+  },
+
+  saveCheckpoint: async (name, boardId) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    const checkpoint: Checkpoint = {
+      id: createCheckpointId(),
+      name: trimmed,
+      boardId,
+      createdAt: Date.now(),
+      document: snapshotDocument(),
+    };
+    await putCheckpoint(checkpoint);
+
+    const { checkpoints } = get();
+    const own = [...checkpoints.filter((c) => c.boardId === boardId), checkpoint];
+    const dropped = own.slice(0, -MAX_CHECKPOINTS);
+    set({ checkpoints: [...checkpoints.filter((c) => c.boardId !== boardId), ...own.slice(-MAX_CHECKPOINTS)] });
+    // Leftovers only cost space; the new checkpoint is already safe
+    await Promise.all(dropped.map((c) => deleteStoredCheckpoint(c.id))).catch((error) => {
+      console.error('Could not drop old checkpoints:', error);
+    });
+  },
+
+  restoreCheckpoint: (id) => {
+    const checkpoint = get().checkpoints.find((c) => c.id === id);
+    if (!checkpoint) return;
+
+    const { document: doc } = checkpoint;
+    const label = `Restored checkpoint "${checkpoint.name}"`;
+    groupHistory(() => {
+      useBrandStore.getState().commitChanges({
+        brand: doc.brand,
+        tiles: doc.tiles,
+        tileSurfaces: doc.tileSurfaces,
+        placementContent: doc.placementContent,
+        ...(doc.activePreset ? { activePreset: doc.activePreset } : {}),
+        activeCollectionId: doc.activeCollectionId ?? null,
+        collectionImagePool: doc.collectionImagePool ?? [],
+        shuffleSeed: doc.shuffleSeed ?? null,
+        locks: doc.locks ?? [],
+      }, label);
+      if (doc.layout) {
+        useLayoutStore.getState().applyLayoutDocument(doc.layout);
+      }
+    }, label);
+  },
+
+  deleteCheckpoint: async (id) => {
+    set({ checkpoints: get().checkpoints.filter((c) => c.id !== id) });
+    await deleteStoredCheckpoint(id);
+  },
+
+  deleteBoardCheckpoints: async (boardId) => {
+    const { checkpoints } = get();
+    set({ checkpoints: checkpoints.filter((c) => c.boardId !== boardId) });
+    await Promise.all(
+      checkpoints.filter((c) => c.boardId === boardId).map((c) => deleteStoredCheckpoint(c.id))
+    );
+  },
+}));
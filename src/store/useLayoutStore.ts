@@ -3,20 +3,31 @@
  *
  * Zustand store for bento grid layout state: breakpoint, preset,
  * density, canvas background, and aspect ratio. Persists user
- * preferences (preset, density, canvasBg, canvasRatio) to localStorage.
- * Breakpoint and debugMode are session-only.
+ * preferences (preset, density, canvasBg, canvasRatio) and the custom
+ * layout library to localStorage.
+ * Breakpoint, debugMode and visionMode are session-only.
  */
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { BreakpointName, DensityMode, LayoutPresetName } from '../types/layout';
+import type { BreakpointName, DensityMode } from '../types/layout';
+import type { VisionMode } from '../utils/visionSimulation';
+import type { MoodboardLayout } from '../utils/moodboardSchema';
+import {
+  findCustomLayout,
+  resolveLayoutConfig,
+  type BentoLayoutConfig,
+  type CustomLayout,
+  type LayoutKey,
+} from '../config/bentoLayouts';
 
 /** Canvas aspect ratio options. `auto` fills available space; others enforce fixed ratio. */
-export type CanvasRatio = 'auto' | '16:9' | '4:3' | '1:1' | '3:4' | '9:16';
+export type CanvasRatio = 'auto' | '16:9' | '1.91:1' | '4:3' | '1:1' | '3:4' | '9:16';
 
 /** Available canvas ratios with display labels and numeric values (null = auto). */
 export const CANVAS_RATIOS: { key: CanvasRatio; label: string; value: number | null }[] = [
   { key: 'auto', label: 'Auto', value: null },
   { key: '16:9', label: '16:9', value: 16 / 9 },
+  { key: '1.91:1', label: 'OG', value: 1200 / 630 },
   { key: '4:3', label: '4:3', value: 4 / 3 },
   { key: '1:1', label: '1:1', value: 1 },
   { key: '3:4', label: '3:4', value: 3 / 4 },
@@ -30,9 +41,12 @@ interface LayoutStore {
    *  Values: 'mobile' (< 640px), 'tablet' (640–1023px), 'desktop' (>= 1024px).
    *  Session-only (not persisted) since it depends on viewport size. */
   breakpoint: BreakpointName;
-  /** Active layout arrangement (e.g. 'balanced', 'geos', 'spread', 'mosaic').
+  /** Active layout arrangement (e.g. 'balanced', 'geos', 'spread', 'mosaic'),
+   *  or `custom:<id>` for a layout from `customLayouts`.
    *  Determines tile placement grid via bentoLayouts.ts. Persisted. */
-  preset: LayoutPresetName;
+  preset: LayoutKey;
+  /** User-authored layouts, listed after the built-in presets. Persisted. */
+  customLayouts: CustomLayout[];
   /** Grid density mode — controls gap size and row height.
    *  Values: 'compact' (tight), 'cozy' (default), 'spacious' (generous). Persisted. */
   density: DensityMode;
@@ -48,13 +62,22 @@ interface LayoutStore {
    *  { "hero": "b", "b": "hero" }, then the "hero" slot renders what "b"
    *  normally shows, and vice versa. Persisted. */
   placementSwaps: Record<string, string>;
+  /** Color vision / low-vision simulation applied over the canvas.
+   *  Display-only (exports are unaffected). Session-only (not persisted). */
+  visionMode: VisionMode;
 
   // ── Actions ──
 
   /** Update responsive breakpoint (called by BentoGridNew on resize) */
   setBreakpoint: (bp: BreakpointName) => void;
   /** Switch layout arrangement — triggers full grid reflow */
-  setPreset: (preset: LayoutPresetName) => void;
+  setPreset: (preset: LayoutKey) => void;
+  /** Add a custom layout, or replace the one with the same id */
+  saveCustomLayout: (layout: CustomLayout) => void;
+  /** Remove a custom layout; an active one falls back to the default preset */
+  deleteCustomLayout: (id: string) => void;
+  /** Load the layout section of a moodboard document, adding its custom layout to the library */
+  applyLayoutDocument: (layout: MoodboardLayout) => void;
   /** Change grid density (affects gap and row height) */
   setDensity: (density: DensityMode) => void;
   /** Toggle debug overlay on/off */
@@ -67,6 +90,8 @@ interface LayoutStore {
   swapPlacements: (idA: string, idB: string) => void;
   /** Reset all placement swaps (e.g. when changing layout presets). */
   clearPlacementSwaps: () => void;
+  /** Set the canvas vision simulation ('none' turns it off) */
+  setVisionMode: (mode: VisionMode) => void;
 }
 
 /** Layout store hook — provides grid layout state and actions.
@@ -74,17 +99,35 @@ interface LayoutStore {
  *  Excludes `breakpoint` and `debugMode` from persistence since they're session-specific. */
 export const useLayoutStore = create<LayoutStore>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       breakpoint: 'desktop',
       preset: 'geos',
+      customLayouts: [],
       density: 'cozy',
       debugMode: false,
       canvasBg: null,
       canvasRatio: 'auto',
       placementSwaps: {},
+      visionMode: 'none',
 
       setBreakpoint: (breakpoint) => set({ breakpoint }),
       setPreset: (preset) => set({ preset }),
+      saveCustomLayout: (layout) =>
+        set((state) => ({ customLayouts: upsertCustomLayout(state.customLayouts, layout) })),
+      deleteCustomLayout: (id) => {
+        const { preset, customLayouts } = get();
+        const remaining = customLayouts.filter((layout) => layout.id !== id);
+        const wasActive = findCustomLayout(preset, customLayouts)?.id === id;
+        set({
+          customLayouts: remaining,
+          ...(wasActive ? { preset: useLayoutStore.getInitialState().preset, placementSwaps: {} } : {}),
+        });
+      },
+      applyLayoutDocument: ({ customLayout, ...layout }) =>
+        set((state) => ({
+          ...layout,
+          customLayouts: customLayout ? upsertCustomLayout(state.customLayouts, customLayout) : state.customLayouts,
+        })),
       setDensity: (density) => set({ density }),
       toggleDebug: () => set((state) => ({ debugMode: !state.debugMode })),
       setCanvasBg: (color) => set({ canvasBg: color }),
@@ -103,13 +146,15 @@ export const useLayoutStore = create<LayoutStore>()(
           };
         }),
       clearPlacementSwaps: () => set({ placementSwaps: {} }),
+      setVisionMode: (mode) => set({ visionMode: mode }),
     }),
     {
       name: 'layout-store',
-      // Only persist user preferences. Exclude breakpoint (viewport-dependent)
-      // and debugMode (developer tool, not a user preference).
+      // Only persist user preferences. Exclude breakpoint (viewport-dependent),
+      // debugMode (developer tool) and visionMode (review aid, not a preference).
       partialize: (state) => ({
         preset: state.preset,
+        customLayouts: state.customLayouts,
         density: state.density,
         canvasBg: state.canvasBg,
         canvasRatio: state.canvasRatio,
@@ -118,3 +163,24 @@ export const useLayoutStore = create<LayoutStore>()(
     }
   )
 );
+
+function upsertCustomLayout(layouts: CustomLayout[], layout: CustomLayout): CustomLayout[] {
+  return layouts.some((l) => l.id === layout.id)
+    ? layouts.map((l) => (l.id === layout.id ? layout : l))
+    : [...layouts, layout];
+}
+
+/** Grid config of the active preset or custom layout at a breakpoint (default: current). */
+export const selectLayoutConfig = (
+  state: Pick<LayoutStore, 'preset' | 'customLayouts' | 'breakpoint'>,
+  breakpoint: BreakpointName = state.breakpoint,
+): BentoLayoutConfig => resolveLayoutConfig(state.preset, breakpoint, state.customLayouts);
+
+/** Layout section of a moodboard document; a custom layout in use travels with it. */
+export const selectMoodboardLayout = (
+  state: Pick<LayoutStore, 'preset' | 'customLayouts' | 'density' | 'placementSwaps' | 'canvasBg' | 'canvasRatio'>,
+): MoodboardLayout => {
+  const { preset, density, placementSwaps, canvasBg, canvasRatio } = state;
+  const customLayout = findCustomLayout(preset, state.customLayouts);
+  return { preset, density, placementSwaps, canvasBg, canvasRatio, ...(customLayout ? { customLayout } : {}) };
+};
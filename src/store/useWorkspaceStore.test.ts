@@ -0,0 +1,165 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { StoredBoard } from '../services/boardStorage';
+import { useWorkspaceStore } from './useWorkspaceStore';
+import { useBrandStore } from './useBrandStore';
+import { useLayoutStore } from './useLayoutStore';
+
+// jsdom has no IndexedDB — keep the library in memory
+const stored = vi.hoisted(() => new Map<string, StoredBoard>());
+// Set to hold the next `updateBoard` until the promise settles
+const nextUpdate = vi.hoisted(() => ({ wait: null as Promise<void> | null }));
+vi.mock('../services/boardStorage', () => ({
+  listBoards: async () => [...stored.values()].sort((a, b) => b.updatedAt - a.updatedAt),
+  getBoard: async (id: string) => stored.get(id) ?? null,
+  putBoard: async (board: StoredBoard) => {
+    stored.set(board.id, structuredClone(board));
+  },
+  // Like the real transaction: the read and the write happen together
+  updateBoard: async (id: string, mutate: (board: StoredBoard) => StoredBoard) => {
+    const { wait } = nextUpdate;
+    nextUpdate.wait = null;
+    if (wait) await wait;
+    const board = stored.get(id);
+    if (!board) return null;
+    const updated = mutate(structuredClone(board));
+    stored.set(id, structuredClone(updated));
+    return updated;
+  },
+  deleteBoard: async (id: string) => {
+    stored.delete(id);
+  },
+}));
+
+const setPrimary = (hex: string) => {
+  const { brand } = useBrandStore.getState();
+  useBrandStore.setState({ brand: { ...brand, colors: { ...brand.colors, primary: hex } } });
+};
+
+beforeEach(async () => {
+  stored.clear();
+  localStorage.clear();
+  useBrandStore.setState(useBrandStore.getInitialState());
+  useLayoutStore.setState(useLayoutStore.getInitialState());
+  useWorkspaceStore.setState({ boards: [], activeBoardId: null, isReady: false });
+  await useWorkspaceStore.getState().initWorkspace();
+});
+
+describe('initWorkspace', () => {
+  it('files the working copy as the first board', () => {
+    const { boards, activeBoardId, isReady } = useWorkspaceStore.getState();
+    expect(isReady).toBe(true);
+    expect(boards).toHaveLength(1);
+    expect(boards[0].name).toBe('Untitled board');
+    expect(activeBoardId).toBe(boards[0].id);
+  });
+
+  it('keeps the active board when it is already in the library', async () => {
+    const { activeBoardId } = useWorkspaceStore.getState();
+    await useWorkspaceStore.getState().initWorkspace();
+    expect(useWorkspaceStore.getState().activeBoardId).toBe(activeBoardId);
+    expect(stored.size).toBe(1);
+  });
+});
+
+describe('board actions', () => {
+  it('switches between boards, saving the one being left', async () => {
+    const firstId = useWorkspaceStore.getState().activeBoardId!;
+    setPrimary('#FF0000');
+    useLayoutStore.setState({ preset: 'mosaic' });
+
+    await useWorkspaceStore.getState().createBoard('data:image/jpeg;base64,abc');
+    const secondId = useWorkspaceStore.getState().activeBoardId!;
+    expect(secondId).not.toBe(firstId);
+    expect(useBrandStore.getState().brand.colors.primary).not.toBe('#FF0000');
+    expect(stored.get(firstId)!.thumbnail).toBe('data:image/jpeg;base64,abc');
+
+    await useWorkspaceStore.getState().switchBoard(firstId);
+    expect(useBrandStore.getState().brand.colors.primary).toBe('#FF0000');
+    expect(useLayoutStore.getState().preset).toBe('mosaic');
+    expect(useBrandStore.getState().history.past).toEqual([]);
+  });
+
+  it('renames and duplicates boards', async () => {
+    const id = useWorkspaceStore.getState().activeBoardId!;
+    await useWorkspaceStore.getState().renameBoard(id, '  Client A  ');
+    await useWorkspaceStore.getState().duplicateBoard(id);
+
+    const names = useWorkspaceStore.getState().boards.map((b) => b.name).sort();
+    expect(names).toEqual(['Client A', 'Client A copy']);
+    expect(useWorkspaceStore.getState().activeBoardId).toBe(id);
+  });
+
+  it('switches to the next board when the active one is deleted', async () => {
+    const firstId = useWorkspaceStore.getState().activeBoardId!;
+    await useWorkspaceStore.getState().createBoard();
+    const secondId = useWorkspaceStore.getState().activeBoardId!;
+
+    await useWorkspaceStore.getState().deleteBoard(secondId);
+    expect(useWorkspaceStore.getState().activeBoardId).toBe(firstId);
+    expect(stored.has(secondId)).toBe(false);
+  });
+
+  it('starts a fresh board when the last one is deleted', async () => {
+    const id = useWorkspaceStore.getState().activeBoardId!;
+    await useWorkspaceStore.getState().deleteBoard(id);
+
+    const { boards, activeBoardId } = useWorkspaceStore.getState();
+    expect(boards).toHaveLength(1);
+    expect(activeBoardId).not.toBe(id);
+  });
+});
+
+describe('pending autosave', () => {
+  /** Start a save whose library write waits until `release` is called */
+  const startHeldSave = () => {
+    let release = () => {};
+    nextUpdate.wait = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    const save = useWorkspaceStore.getState().saveActiveBoard();
+    return { save, release };
+  };
+
+  it('does not bring back a board deleted while it was saving', async () => {
+    await useWorkspaceStore.getState().createBoard();
+    const id = useWorkspaceStore.getState().activeBoardId!;
+
+    const { save, release } = startHeldSave();
+    await useWorkspaceStore.getState().deleteBoard(id);
+    release();
+    await save;
+
+    expect(stored.has(id)).toBe(false);
+    expect(useWorkspaceStore.getState().boards.some((b) => b.id === id)).toBe(false);
+  });
+
+  it('stores the content of the board it started on across a switch', async () => {
+    const firstId = useWorkspaceStore.getState().activeBoardId!;
+    setPrimary('#FF0000');
+    await useWorkspaceStore.getState().createBoard();
+    const secondId = useWorkspaceStore.getState().activeBoardId!;
+    setPrimary('#0000FF');
+
+    const { save, release } = startHeldSave();
+    await useWorkspaceStore.getState().switchBoard(firstId);
+    release();
+    await save;
+
+    expect(useBrandStore.getState().brand.colors.primary).toBe('#FF0000');
+    expect(stored.get(secondId)!.document.brand.colors.primary).toBe('#0000FF');
+    expect(stored.get(firstId)!.document.brand.colors.primary).toBe('#FF0000');
+  });
+  it('keeps a rename made while it was saving', async () => {
+    const id = useWorkspaceStore.getState().activeBoardId!;
+    setPrimary('#00FF00');
+
+    const { save, release } = startHeldSave();
+    await useWorkspaceStore.getState().renameBoard(id, 'Client B');
+    release();
+    await save;
+
+    expect(stored.get(id)!.name).toBe('Client B');
+    expect(stored.get(id)!.document.brand.colors.primary).toBe('#00FF00');
+    expect(useWorkspaceStore.getState().boards.find((b) => b.id === id)!.name).toBe('Client B');
+  });
+});
@@ -0,0 +1,292 @@
+/**
+ * Workspace Store
+ *
+ * Board library layered over `useBrandStore` and `useLayoutStore`. Those two
+ * stores keep holding the *active* board (their localStorage entries act as
+ * the working copy); every board, including the active one, is also kept in
+ * IndexedDB via `services/boardStorage`. Switching boards saves the working
+ * copy back to the library and loads the target document into both stores.
+ *
+ * Only `activeBoardId` is persisted here (localStorage, `workspace-store`).
+ *
+ * @module store/useWorkspaceStore
+ */
+import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
+import { useBrandStore } from './useBrandStore';
+import { useLayoutStore, selectMoodboardLayout } from './useLayoutStore';
+import { withoutHistory } from './historyCoordinator';
+import { INITIAL_TILE_SURFACES } from '../config/placements';
+import {
+  deleteBoard as deleteStoredBoard,
+  getBoard,
+  listBoards,
+  putBoard,
+  updateBoard,
+  type StoredBoard,
+} from '../services/boardStorage';
+import {
+  createMoodboardDocument,
+  parseMoodboard,
+  type MoodboardDocument,
+} from '../utils/moodboardSchema';
+
+/** Board metadata shown in the switcher (the document stays in IndexedDB). */
+export type BoardSummary = Omit<StoredBoard, 'document'>;
+
+interface WorkspaceStore {
+  // ── State ──
+
+  /** Library boards, most recently updated first. Session-only. */
+  boards: BoardSummary[];
+  /** Board currently loaded into the brand/layout stores. Persisted. */
+  activeBoardId: string | null;
+  /** True once the library has loaded. False when IndexedDB is unavailable,
+   *  in which case the app keeps working as a single board. */
+  isReady: boolean;
+
+  // ── Actions ──
+
+  /** Load the library and file the working copy as a board if it isn't one yet */
+  initWorkspace: () => Promise<void>;
+  /** Write the working copy to the library (thumbnail kept unless given).
+   *  Does nothing once the active board has been deleted. */
+  saveActiveBoard: (thumbnail?: string | null) => Promise<void>;
+  /** Save the active board, then start a fresh board with default content */
+  createBoard: (thumbnail?: string | null) => Promise<void>;
+  renameBoard: (id: string, name: string) => Promise<void>;
+  /** Copy a board into the library without switching to it */
+  duplicateBoard: (id: string, thumbnail?: string | null) => Promise<void>;
+  /** Remove a board. Deleting the active board switches to the next one. */
+  deleteBoard: (id: string) => Promise<void>;
+  /** Save the active board, then load another into the editor */
+  switchBoard: (id: string, thumbnail?: string | null) => Promise<void>;
+  /** Forget the active board so the next `initWorkspace` files the working
+   *  copy as a new board (used when a shared board replaces the working copy). */
+  detachActiveBoard: () => void;
+}
+
+const toSummary = (board: StoredBoard): BoardSummary => ({
+  id: board.id,
+  name: board.name,
+  createdAt: board.createdAt,
+  updatedAt: board.updatedAt,
+  thumbnail: board.thumbnail,
+});
+
+const createBoardId = (): string =>
+  `board-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/** "Untitled board", then "Untitled board 2", "Untitled board 3", … */
+const nextBoardName = (boards: BoardSummary[]): string => {
+  const names = new Set(boards.map((b) => b.name));
+  if (!names.has('Untitled board')) return 'Untitled board';
+  let n = 2;
+  while (names.has(`Untitled board ${n}`)) n += 1;
+  return `Untitled board ${n}`;
+};
+
+/** Snapshot the brand and layout stores as a moodboard document. */
+export const snapshotDocument = (): MoodboardDocument => {
+  const brand = useBrandStore.getState();
+  return createMoodboardDocument({
+    brand: brand.brand,
+    tiles: brand.tiles,
+    tileSurfaces: brand.tileSurfaces,
+    placementContent: brand.placementContent,
+    activePreset: brand.activePreset,
+    layout: selectMoodboardLayout(useLayoutStore.getState()),
+    activeCollectionId: brand.activeCollectionId,
+    collectionImagePool: brand.collectionImagePool,
+    shuffleSeed: brand.shuffleSeed,
+    locks: brand.locks,
+  });
+};
+
+/** Load a document into the brand and layout stores. History starts empty;
+ *  the app theme is a viewer preference and is left alone. */
+const applyDocument = (doc: MoodboardDocument) => {
+  const initialBrand = useBrandStore.getInitialState();
+  useBrandStore.setState({
+    brand: doc.brand,
+    tiles: doc.tiles.length > 0 ? doc.tiles : initialBrand.tiles,
+    tileSurfaces: { ...INITIAL_TILE_SURFACES, ...doc.tileSurfaces },
+    placementContent: { ...initialBrand.placementContent, ...doc.placementContent },
+    activePreset: doc.activePreset ?? initialBrand.activePreset,
+    activeCollectionId: doc.activeCollectionId ?? null,
+    collectionImagePool: doc.collectionImagePool ?? [],
+    shuffleSeed: doc.shuffleSeed ?? null,
+    locks: doc.locks ?? [],
+    focusedTileId: null,
+    history: { past: [], future: [] },
+  });
+
+  const initialLayout = useLayoutStore.getInitialState();
+  withoutHistory(() => useLayoutStore.getState().applyLayoutDocument(doc.layout ?? {
+    preset: initialLayout.preset,
+    density: initialLayout.density,
+    placementSwaps: initialLayout.placementSwaps,
+    canvasBg: initialLayout.canvasBg,
+    canvasRatio: initialLayout.canvasRatio,
+  }));
+};
+
+/** Document for a brand-new board: the stores' initial state. */
+const defaultDocument = (): MoodboardDocument => {
+  const brand = useBrandStore.getInitialState();
+  const layout = useLayoutStore.getInitialState();
+  return createMoodboardDocument({
+    brand: brand.brand,
+    tiles: brand.tiles,
+    tileSurfaces: brand.tileSurfaces,
+    placementContent: brand.placementContent,
+    activePreset: brand.activePreset,
+    layout: {
+      preset: layout.preset,
+      density: layout.density,
+      placementSwaps: layout.placementSwaps,
+      canvasBg: layout.canvasBg,
+      canvasRatio: layout.canvasRatio,
+    },
+    activeCollectionId: null,
+    collectionImagePool: [],
+    shuffleSeed: null,
+    locks: [],
+  });
+};
+
+const createStoredBoard = (name: string, document: MoodboardDocument, thumbnail: string | null = null): StoredBoard => {
+  const now = Date.now();
+  return { id: createBoardId(), name, createdAt: now, updatedAt: now, thumbnail, document };
+};
+
+/** Replace or insert a summary, keeping most-recent-first order. */
+const upsertSummary = (boards: BoardSummary[], board: StoredBoard): BoardSummary[] =>
+  [toSummary(board), ...boards.filter((b) => b.id !== board.id)]
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+
+/** Workspace store hook — board library and active board selection. */
+export const useWorkspaceStore = create<WorkspaceStore>()(
+  persist(
+    (set, get) => ({
+      boards: [],
+      activeBoardId: null,
+      isReady: false,
+
+      initWorkspace: async () => {
+        try {
+          const stored = await listBoards();
+          const boards = stored.map(toSummary);
+          const { activeBoardId } = get();
+
+          if (activeBoardId && boards.some((b) => b.id === activeBoardId)) {
+            set({ boards, isReady: true });
+            return;
+          }
+
+          const board = createStoredBoard(nextBoardName(boards), snapshotDocument());
+          await putBoard(board);
+          set({ boards: upsertSummary(boards, board), activeBoardId: board.id, isReady: true });
+        } catch (error) {
+          console.error('Board library unavailable:', error);
+          set({ isReady: false });
+        }
+      },
+
+      saveActiveBoard: async (thumbnail) => {
+        const { activeBoardId, isReady } = get();
+        if (!isReady || !activeBoardId) return;
+        // Take the content with the id it belongs to: a switch may load
+        // another board into the stores while the library is written
+        const document = snapshotDocument();
+
+        // Only this save's fields change, so a rename in between is kept
+        const board = await updateBoard(activeBoardId, (stored) => ({
+          ...stored,
+          updatedAt: Date.now(),
+          thumbnail: thumbnail ?? stored.thumbnail,
+          document,
+        }));
+        // Deleted while this save was pending; don't bring it back
+        if (!board || !get().boards.some((b) => b.id === activeBoardId)) return;
+        set({ boards: upsertSummary(get().boards, board) });
+      },
+
+      createBoard: async (thumbnail) => {
+        if (!get().isReady) return;
+        await get().saveActiveBoard(thumbnail);
+
+        const board = createStoredBoard(nextBoardName(get().boards), defaultDocument());
+        await putBoard(board);
+        set({ boards: upsertSummary(get().boards, board), activeBoardId: board.id });
+        applyDocument(board.document);
+      },
+
+      renameBoard: async (id, name) => {
+        const trimmed = name.trim();
+        if (!trimmed) return;
+
+        const renamed = await updateBoard(id, (board) => ({ ...board, name: trimmed }));
+        if (!renamed) return;
+        set({ boards: get().boards.map((b) => (b.id === id ? toSummary(renamed) : b)) });
+      },
+
+      duplicateBoard: async (id, thumbnail) => {
+        if (id === get().activeBoardId) {
+          await get().saveActiveBoard(thumbnail);
+        }
+        const source = await getBoard(id);
+        if (!source) return;
+
+        const copy = createStoredBoard(`${source.name} copy`, source.document, source.thumbnail);
+        await putBoard(copy);
+        set({ boards: upsertSummary(get().boards, copy) });
+      },
+
+      deleteBoard: async (id) => {
+        // Leave the list first so a pending save skips this board
+        const boards = get().boards.filter((b) => b.id !== id);
+        set({ boards });
+        await deleteStoredBoard(id);
+        if (id !== get().activeBoardId) return;
+
+        const next = boards[0] ? await getBoard(boards[0].id) : null;
+        const parsed = next ? parseMoodboard(next.document).document : null;
+        if (next && parsed) {
+          set({ activeBoardId: next.id });
+          applyDocument(parsed);
+          return;
+        }
+
+        const board = createStoredBoard(nextBoardName(boards), defaultDocument());
+        await putBoard(board);
+        set({ boards: upsertSummary(boards, board), activeBoardId: board.id });
+        applyDocument(board.document);
+      },
+
+      switchBoard: async (id, thumbnail) => {
+        if (id === get().activeBoardId) return;
+
+        const target = await getBoard(id);
+        if (!target) return;
+        // Stored boards go through the schema so older documents are migrated
+        const { document, error } = parseMoodboard(target.document);
+        if (!document) {
+          throw new Error(error ?? 'Board could not be loaded');
+        }
+
+        await get().saveActiveBoard(thumbnail);
+        set({ activeBoardId: id });
+        applyDocument(document);
+      },
+
+      detachActiveBoard: () => {
+        set({ activeBoardId: null });
+      },
+    }),
+    {
+      name: 'workspace-store',
+      partialize: (state) => ({ activeBoardId: state.activeBoardId }),
+    }
+  )
+);
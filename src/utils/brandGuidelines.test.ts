@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatColorValues,
+  getContrastRating,
+  getGuidelineColorRoles,
+  getGuidelinesTitle,
+  getLogoClearSpace,
+  getTypeSpecimen,
+} from './brandGuidelines';
+import { DEFAULT_BRAND } from '../data/brandPresets';
+import { getContrastRatio } from './colorMapping';
+import { getTypeScale } from './typography';
+import type { Colors } from '../store/useBrandStore';
+
+const colors: Colors = {
+  ...DEFAULT_BRAND.colors,
+  bg: '#FFFFFF',
+  text: '#111111',
+  primary: '#1D4ED8',
+  accent: '#F59E0B',
+  surface: '#F3F4F6',
+  surfaces: ['#FFFFFF', '#F3F4F6'],
+};
+
+describe('formatColorValues', () => {
+  it('formats hex, rgb and hsl', () => {
+    expect(formatColorValues('#1d4ed8')).toEqual({
+      hex: '#1D4ED8',
+      rgb: 'rgb(29, 78, 216)',
+      hsl: 'hsl(224, 76%, 48%)',
+    });
+    expect(formatColorValues('#fff').rgb).toBe('rgb(255, 255, 255)');
+  });
+});
+
+describe('getContrastRating', () => {
+  it('maps ratios to WCAG levels', () => {
+    expect(getContrastRating(7.2)).toBe('AAA');
+    expect(getContrastRating(4.5)).toBe('AA');
+    expect(getContrastRating(3.1)).toBe('AA Large');
+    expect(getContrastRating(2)).toBe('Fail');
+  });
+});
+
+describe('getGuidelineColorRoles', () => {
+  const roles = getGuidelineColorRoles(colors);
+
+  it('lists the main roles followed by each surface', () => {
+    expect(roles.map((r) => r.id)).toEqual([
+      'bg', 'text', 'primary', 'accent', 'surface', 'surface-1', 'surface-2',
+    ]);
+  });
+
+  it('measures contrast with getContrastRatio', () => {
+    const primary = roles.find((r) => r.id === 'primary')!;
+    const onBg = primary.contrast.find((c) => c.against === 'Background')!;
+    expect(onBg.ratio).toBeCloseTo(getContrastRatio('#1D4ED8', '#FFFFFF'), 2);
+    expect(onBg.rating).toBe('AA');
+    // A role is never measured against itself
+    expect(roles[0].contrast.map((c) => c.against)).toEqual(['Text']);
+  });
+});
+
+describe('getTypeSpecimen', () => {
+  it('follows the type scale from display down to caption', () => {
+    const scale = getTypeScale(DEFAULT_BRAND.typography);
+    const steps = getTypeSpecimen(DEFAULT_BRAND.typography);
+    expect(steps[0]).toMatchObject({ token: 'step-3', role: 'headline', size: scale.step3 });
+    expect(steps[3]).toMatchObject({ token: 'step-0', role: 'body', size: scale.base });
+    expect(steps.at(-1)!.size).toBe(scale.stepMinus2);
+  });
+});
+
+describe('logo helpers', () => {
+  it('uses the larger of padding and half the wordmark size for clear space', () => {
+    expect(getLogoClearSpace({ ...DEFAULT_BRAND.logo, padding: 16, size: 24 })).toBe(16);
+    expect(getLogoClearSpace({ ...DEFAULT_BRAND.logo, padding: 8, size: 48 })).toBe(24);
+  });
+
+  it('titles the document after the wordmark', () => {
+    expect(getGuidelinesTitle({ ...DEFAULT_BRAND, logo: { ...DEFAULT_BRAND.logo, text: 'Acme' } })).toBe(
+      'Acme Brand Guidelines'
+    );
+    expect(getGuidelinesTitle({ ...DEFAULT_BRAND, logo: { ...DEFAULT_BRAND.logo, text: ' ' } })).toBe(
+      'Brand Guidelines'
+    );
+  });
+});
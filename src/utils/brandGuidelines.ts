@@ -0,0 +1,158 @@
+/**
+ * Brand Guidelines
+ *
+ * Data for the printable guidelines document: color role specs with
+ * HEX/RGB/HSL values and WCAG contrast, the type specimen ladder and the
+ * logo clear-space rule. Rendering lives in `components/BrandGuidelines`.
+ *
+ * @module utils/brandGuidelines
+ */
+import type { Brand, Colors, Logo, Typography } from '@/store/useBrandStore';
+import { getContrastRatio, hexToHSL } from '@/utils/colorMapping';
+import {
+  getBodyLineHeight,
+  getBodyTracking,
+  getHeadlineLineHeight,
+  getHeadlineTracking,
+  getTypeScale,
+} from '@/utils/typography';
+
+/** WCAG 2.1 rating for a contrast ratio. */
+export type ContrastRating = 'AAA' | 'AA' | 'AA Large' | 'Fail';
+
+export interface ColorValues {
+  hex: string;
+  rgb: string;
+  hsl: string;
+}
+
+export interface ContrastCheck {
+  /** Label of the color this role is measured against */
+  against: string;
+  ratio: number;
+  rating: ContrastRating;
+}
+
+export interface GuidelineColorRole {
+  id: string;
+  label: string;
+  usage: string;
+  values: ColorValues;
+  contrast: ContrastCheck[];
+}
+
+export interface TypeSpecimenStep {
+  token: string;
+  label: string;
+  role: 'headline' | 'body';
+  size: number;
+  lineHeight: number;
+  letterSpacing: string;
+}
+
+/** Format a hex color as HEX, `rgb()` and `hsl()` strings. */
+export const formatColorValues = (hex: string): ColorValues => {
+  const clean = hex.replace('#', '');
+  const full = clean.length === 3 ? clean.split('').map((c) => c + c).join('') : clean.slice(0, 6);
+  const [r, g, b] = [0, 2, 4].map((i) => parseInt(full.slice(i, i + 2), 16) || 0);
+  const { h, s, l } = hexToHSL(hex);
+
+  return {
+    hex: `#${full.toUpperCase()}`,
+    rgb: `rgb(${r}, ${g}, ${b})`,
+    hsl: `hsl(${Math.round(h)}, ${Math.round(s)}%, ${Math.round(l)}%)`,
+  };
+};
+
+/** Rate a contrast ratio against the WCAG 2.1 text thresholds. */
+export const getContrastRating = (ratio: number): ContrastRating => {
+  if (ratio >= 7) return 'AAA';
+  if (ratio >= 4.5) return 'AA';
+  if (ratio >= 3) return 'AA Large';
+  return 'Fail';
+};
+
+const check = (against: string, hex: string, role: string): ContrastCheck => {
+  const ratio = Math.round(getContrastRatio(role, hex) * 100) / 100;
+  return { against, ratio, rating: getContrastRating(ratio) };
+};
+
+/**
+ * Color roles in document order. Each role is measured against the
+ * background and the text color (the pairings used on the canvas).
+ */
+export const getGuidelineColorRoles = (colors: Colors): GuidelineColorRole[] => {
+  const roles: Omit<GuidelineColorRole, 'values' | 'contrast'>[] = [
+    { id: 'bg', label: 'Background', usage: 'Page and canvas background' },
+    { id: 'text', label: 'Text', usage: 'Body copy and headlines' },
+    { id: 'primary', label: 'Primary', usage: 'Calls to action, links, key accents' },
+    { id: 'accent', label: 'Accent', usage: 'Secondary emphasis' },
+    { id: 'surface', label: 'Surface', usage: 'Cards, tiles and containers' },
+  ];
+  const hexFor: Record<string, string> = {
+    bg: colors.bg,
+    text: colors.text,
+    primary: colors.primary,
+    accent: colors.accent,
+    surface: colors.surface,
+  };
+
+  const main = roles.map((role) => {
+    const hex = hexFor[role.id];
+    return {
+      ...role,
+      values: formatColorValues(hex),
+      contrast: [
+        ...(role.id !== 'bg' ? [check('Background', colors.bg, hex)] : []),
+        ...(role.id !== 'text' ? [check('Text', colors.text, hex)] : []),
+      ],
+    };
+  });
+
+  const surfaces = (colors.surfaces ?? []).map((hex, i) => ({
+    id: `surface-${i + 1}`,
+    label: `Surface ${i + 1}`,
+    usage: 'Tile background',
+    values: formatColorValues(hex),
+    contrast: [check('Text', colors.text, hex)],
+  }));
+
+  return [...main, ...surfaces];
+};
+
+/** Type scale steps from largest to smallest, labelled by role. */
+export const getTypeSpecimen = (typography: Typography): TypeSpecimenStep[] => {
+  const scale = getTypeScale(typography);
+  const headline = {
+    role: 'headline' as const,
+    lineHeight: getHeadlineLineHeight(typography),
+    letterSpacing: getHeadlineTracking(typography),
+  };
+  const body = {
+    role: 'body' as const,
+    lineHeight: getBodyLineHeight(typography),
+    letterSpacing: getBodyTracking(typography),
+  };
+
+  return [
+    { token: 'step-3', label: 'Display', size: scale.step3, ...headline },
+    { token: 'step-2', label: 'Headline', size: scale.step2, ...headline },
+    { token: 'step-1', label: 'Subheadline', size: scale.step1, ...headline },
+    { token: 'step-0', label: 'Body', size: scale.base, ...body },
+    { token: 'step--1', label: 'Small', size: scale.stepMinus1, ...body },
+    { token: 'step--2', label: 'Caption', size: scale.stepMinus2, ...body },
+  ];
+};
+
+/**
+ * Minimum clear space around the logo in px: the larger of the logo
+ * padding and half the wordmark size, so small wordmarks still breathe.
+ */
+export const getLogoClearSpace = (logo: Logo): number =>
+  Math.round(Math.max(logo.padding ?? 16, (logo.size ?? 24) / 2));
+
+/** Document title, e.g. "ACME Brand Guidelines". */
+export const getGuidelinesTitle = (brand: Brand): string => {
+  const name = brand.logo.text?.trim();
+  return name ? `${name} Brand Guidelines` : 'Brand Guidelines';
+};
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyPairingWithLocks,
+  filterPaletteWeights,
+  getCompatiblePairings,
+  isBrandLockKey,
+  mapPaletteWithLocks,
+  pinLogo,
+  pinUI,
+  type FontPairing,
+} from './brandLocks';
+import { getContrastRatio } from './colorMapping';
+import { DEFAULT_BRAND } from '../data/brandPresets';
+import type { Colors } from '../store/useBrandStore';
+
+const colors: Colors = {
+  ...DEFAULT_BRAND.colors,
+  bg: '#FFFFFF',
+  text: '#111111',
+  primary: '#1D4ED8',
+  accent: '#F59E0B',
+  surface: '#F3F4F6',
+  surfaces: ['#F3F4F6', '#E5E7EB'],
+};
+
+const PAIRINGS: FontPairing[] = [
+  { primary: 'Sora', secondary: 'Inter', weight: '700', spacing: 'normal' },
+  { primary: 'Oswald', secondary: 'Montserrat', weight: '700', spacing: 'wide' },
+  { primary: 'Inter', secondary: 'JetBrains Mono', weight: '700', spacing: 'tight' },
+];
+
+describe('lock keys', () => {
+  it('accepts only known keys', () => {
+    expect(isBrandLockKey('colors.primary')).toBe(true);
+    expect(isBrandLockKey('typography.ui')).toBe(true);
+    expect(isBrandLockKey('colors.surface')).toBe(false);
+    expect(isBrandLockKey(3)).toBe(false);
+  });
+});
+
+describe('mapPaletteWithLocks', () => {
+  it('keeps locked roles and maps the rest from the palette', () => {
+    const { mapping } = mapPaletteWithLocks(
+      ['#0B132B', '#1C2541', '#3A506B', '#5BC0BE', '#F4F1DE'],
+      colors,
+      ['primary', 'surfaces']
+    );
+    expect(mapping.primary).toBe('#1D4ED8');
+    expect(mapping.surfaces).toEqual(colors.surfaces);
+    expect(mapping.paletteColors).toContain('#5BC0BE');
+  });
+
+  it('flags palettes that would force a locked color to change', () => {
+    // A near-blue background leaves the locked primary below 3:1
+    const dark = mapPaletteWithLocks(['#1E40AF', '#1E3A8A', '#1D4ED8'], colors, ['primary']);
+    expect(dark.compatible).toBe(getContrastRatio('#1D4ED8', dark.mapping.bg) >= 3);
+  });
+
+  it('falls back to all palettes when none are compatible', () => {
+    const palettes = [{ colors: ['#1D4ED8', '#1E40AF'] }];
+    expect(filterPaletteWeights(palettes, [0.7], { ...colors, bg: '#1D4ED8' }, ['bg', 'primary'])).toEqual([0.7]);
+    expect(filterPaletteWeights(palettes, [0.7], colors, [])).toEqual([0.7]);
+  });
+});
+
+describe('font pairings', () => {
+  const typography = { ...DEFAULT_BRAND.typography, primary: 'Oswald', secondary: 'Lora' };
+
+  it('prefers pairings built around the locked font', () => {
+    expect(getCompatiblePairings(PAIRINGS, typography, ['primary'])).toEqual([1]);
+    expect(getCompatiblePairings(PAIRINGS, typography, [])).toEqual([0, 1, 2]);
+  });
+
+  it('avoids repeating a locked font in the other role', () => {
+    // No pairing leads with Montserrat, so any pairing that doesn't use it as body fits
+    expect(getCompatiblePairings(PAIRINGS, { ...typography, primary: 'Montserrat' }, ['primary'])).toEqual([0, 2]);
+  });
+
+  it('applies a pairing without touching locked roles', () => {
+    const next = applyPairingWithLocks(typography, PAIRINGS[0], ['primary']);
+    expect(next.primary).toBe('Oswald');
+    expect(next.weightHeadline).toBe(typography.weightHeadline);
+    expect(next.secondary).toBe('Inter');
+    expect(next.ui).toBe('Inter');
+
+    expect(applyPairingWithLocks({ ...typography, ui: 'Mono' }, PAIRINGS[0], ['ui']).ui).toBe('Mono');
+  });
+});
+
+describe('pinning', () => {
+  it('pins inherited logo and button styles', () => {
+    const brand = { ...DEFAULT_BRAND, colors };
+    const logo = pinLogo({ ...DEFAULT_BRAND.logo, bgColor: null, fontFamily: null, fontWeight: null }, brand);
+    expect(logo.bgColor).toBe('#1D4ED8');
+    expect(logo.fontFamily).toBe(DEFAULT_BRAND.typography.primary);
+    expect(logo.fontWeight).toBe(parseInt(DEFAULT_BRAND.typography.weightHeadline) || 700);
+
+    expect(pinUI({ ...DEFAULT_BRAND.ui, buttonColor: null }, brand).buttonColor).toBe('#1D4ED8');
+    expect(pinUI({ ...DEFAULT_BRAND.ui, buttonColor: '#000000' }, brand).buttonColor).toBe('#000000');
+  });
+});
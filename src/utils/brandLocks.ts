@@ -0,0 +1,185 @@
+/**
+ * Shuffle Locks
+ *
+ * Brand attributes the user has pinned so `shuffleBrand`, `shuffleColors`
+ * and `shuffleTypography` leave them alone. Locks are stored as a flat list
+ * of keys (e.g. `colors.primary`, `typography.primary`, `logo`) so they
+ * serialize with the moodboard as-is.
+ *
+ * Shuffles don't just copy locked values over the new pick: palettes and
+ * font pairings that clash with the locked values are filtered out first,
+ * so the rest of the board is chosen around what was kept.
+ *
+ * @module utils/brandLocks
+ */
+import type { Brand, Colors, Logo, Typography, UISettings } from '../store/useBrandStore';
+import { enforceContrast, mapPaletteToBrand, type BrandColorMapping } from './colorMapping';
+
+/** Color roles that can be locked; `surfaces` covers `surface` and the surface list. */
+export type ColorLockRole = 'bg' | 'text' | 'primary' | 'accent' | 'surfaces';
+
+/** Font roles that can be locked; `primary` also keeps headline weight and spacing. */
+export type TypographyLockRole = 'primary' | 'secondary' | 'ui';
+
+export type BrandLockKey =
+  | `colors.${ColorLockRole}`
+  | `typography.${TypographyLockRole}`
+  | 'logo'
+  | 'ui';
+
+export const COLOR_LOCK_ROLES: ColorLockRole[] = ['bg', 'text', 'primary', 'accent', 'surfaces'];
+export const TYPOGRAPHY_LOCK_ROLES: TypographyLockRole[] = ['primary', 'secondary', 'ui'];
+
+/** Every valid lock key, in display order. */
+export const BRAND_LOCK_KEYS: BrandLockKey[] = [
+  ...COLOR_LOCK_ROLES.map((role) => `colors.${role}` as const),
+  ...TYPOGRAPHY_LOCK_ROLES.map((role) => `typography.${role}` as const),
+  'logo',
+  'ui',
+];
+
+export const isBrandLockKey = (value: unknown): value is BrandLockKey =>
+  typeof value === 'string' && (BRAND_LOCK_KEYS as string[]).includes(value);
+
+export const getLockedColorRoles = (locks: BrandLockKey[]): ColorLockRole[] =>
+  COLOR_LOCK_ROLES.filter((role) => locks.includes(`colors.${role}`));
+
+export const getLockedTypographyRoles = (locks: BrandLockKey[]): TypographyLockRole[] =>
+  TYPOGRAPHY_LOCK_ROLES.filter((role) => locks.includes(`typography.${role}`));
+
+// ============================================
+// COLORS
+// ============================================
+
+/** Copy the locked roles from `current` onto a new mapping. */
+const withLockedColors = (
+  mapping: BrandColorMapping,
+  current: Colors,
+  roles: ColorLockRole[]
+): BrandColorMapping => {
+  const result = { ...mapping };
+  for (const role of roles) {
+    if (role === 'surfaces') {
+      result.surface = current.surface;
+      result.surfaces = [...current.surfaces];
+    } else {
+      result[role] = current[role];
+    }
+  }
+  return result;
+};
+
+/**
+ * Map a palette to brand colors with the locked roles kept.
+ *
+ * @returns The contrast-enforced mapping, and whether the locked roles
+ *   survived `enforceContrast` unchanged (i.e. the palette is compatible)
+ */
+export const mapPaletteWithLocks = (
+  paletteColors: string[],
+  current: Colors,
+  roles: ColorLockRole[]
+): { mapping: BrandColorMapping; compatible: boolean } => {
+  const mapped = enforceContrast(withLockedColors(mapPaletteToBrand(paletteColors), current, roles));
+  const compatible = roles.every((role) =>
+    role === 'surfaces'
+      ? mapped.surface === current.surface
+      : mapped[role].toUpperCase() === current[role].toUpperCase()
+  );
+  return { mapping: withLockedColors(mapped, current, roles), compatible };
+};
+
+/**
+ * Zero out shuffle weights for palettes that can't keep the locked colors
+ * at AA contrast. When no palette is compatible the weights are returned
+ * unchanged, so a shuffle always has something to pick from.
+ */
+export const filterPaletteWeights = (
+  palettes: { colors: string[] }[],
+  weights: number[],
+  current: Colors,
+  roles: ColorLockRole[]
+): number[] => {
+  if (roles.length === 0) return weights;
+  const filtered = palettes.map((palette, i) =>
+    mapPaletteWithLocks(palette.colors, current, roles).compatible ? weights[i] : 0
+  );
+  return filtered.some((w) => w > 0) ? filtered : weights;
+};
+
+// ============================================
+// TYPOGRAPHY
+// ============================================
+
+export interface FontPairing {
+  primary: string;
+  secondary: string;
+  weight: string;
+  spacing: Typography['letterSpacing'];
+}
+
+/**
+ * Indices of pairings that fit the locked fonts. Pairings built around the
+ * locked font in the same role come first; failing that, any pairing that
+ * doesn't repeat a locked font in the other role.
+ */
+export const getCompatiblePairings = (
+  pairings: FontPairing[],
+  typography: Typography,
+  roles: TypographyLockRole[]
+): number[] => {
+  const all = pairings.map((_, i) => i);
+  const lockedPrimary = roles.includes('primary') ? typography.primary : null;
+  const lockedSecondary = roles.includes('secondary') ? typography.secondary : null;
+  if (!lockedPrimary && !lockedSecondary) return all;
+
+  const exact = all.filter((i) =>
+    (!lockedPrimary || pairings[i].primary === lockedPrimary) &&
+    (!lockedSecondary || pairings[i].secondary === lockedSecondary)
+  );
+  if (exact.length > 0) return exact;
+
+  const distinct = all.filter((i) =>
+    pairings[i].secondary !== lockedPrimary && pairings[i].primary !== lockedSecondary
+  );
+  return distinct.length > 0 ? distinct : all;
+};
+
+/** Apply a pairing to the typography, keeping locked roles. */
+export const applyPairingWithLocks = (
+  typography: Typography,
+  pairing: FontPairing,
+  roles: TypographyLockRole[]
+): Typography => {
+  const next: Typography = { ...typography };
+  if (!roles.includes('primary')) {
+    next.primary = pairing.primary;
+    next.weightHeadline = pairing.weight;
+    next.letterSpacing = pairing.spacing;
+  }
+  if (!roles.includes('secondary')) next.secondary = pairing.secondary;
+  // UI text follows the body font unless pinned
+  if (!roles.includes('ui')) next.ui = next.secondary;
+  return next;
+};
+
+// ============================================
+// LOGO & UI
+// ============================================
+
+/**
+ * Pin the logo's inherited color, font and weight to explicit overrides so
+ * it looks the same after the brand colors and fonts change underneath it.
+ */
+export const pinLogo = (logo: Logo, brand: Brand): Logo => ({
+  ...logo,
+  bgColor: logo.bgColor || brand.colors.primary || brand.colors.bg,
+  fontFamily: logo.fontFamily || brand.typography.primary,
+  fontWeight: logo.fontWeight ?? (parseInt(brand.typography.weightHeadline) || 700),
+});
+
+/** Pin the inherited button color (brand primary) for a locked UI. */
+export const pinUI = (ui: UISettings, brand: Brand): UISettings => ({
+  ...ui,
+  buttonColor: ui.buttonColor || brand.colors.primary,
+});
@@ -0,0 +1,35 @@
+import type { UISettings } from '@/store/useBrandStore';
+import { getAdaptiveTextColor } from '@/utils/color';
+import { COLOR_DEFAULTS } from '@/utils/colorDefaults';
+
+/** Button metrics per size in px (height, label font size, horizontal padding). */
+export const BUTTON_SIZES: Record<UISettings['buttonSize'], { height: number; fontSize: number; px: number }> = {
+  compact: { height: 36, fontSize: 12, px: 16 },
+  default: { height: 46, fontSize: 14, px: 22 },
+  large: { height: 54, fontSize: 15, px: 28 },
+};
+
+/** Button label tracking in em. Uppercase labels get at least 0.04em. */
+export const getButtonLetterSpacing = (ui?: Partial<UISettings>): number => {
+  const spacing = ui?.buttonLetterSpacing ?? 0;
+  return ui?.buttonUppercase ? Math.max(spacing, 0.04) : spacing;
+};
+
+/** Fill, label and border for a button style in the given color. */
+export const getButtonStyleColors = (
+  style: UISettings['buttonStyle'],
+  color: string
+): { backgroundColor: string; color: string; border: string } => {
+  switch (style) {
+    case 'outline':
+      return { backgroundColor: 'transparent', color, border: `1.5px solid ${color}` };
+    case 'soft':
+      return { backgroundColor: `color-mix(in srgb, ${color} 12%, transparent)`, color, border: 'none' };
+    default:
+      return {
+        backgroundColor: color,
+        color: getAdaptiveTextColor(color, COLOR_DEFAULTS.TEXT_DARK, COLOR_DEFAULTS.WHITE),
+        border: 'none',
+      };
+  }
+};
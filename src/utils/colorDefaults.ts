@@ -24,6 +24,12 @@ export const imageOverlayTextMuted = (opacity: number) =>
 /** Lightness threshold (0-100) above which a color is considered "light" */
 export const LIGHTNESS_THRESHOLD = 55;
 
+/**
+ * Perceptual lightness threshold (OKLCH L, 0-100) above which a color is
+ * considered "light". Matches `LIGHTNESS_THRESHOLD` for grays.
+ */
+export const PERCEPTUAL_LIGHTNESS_THRESHOLD = 65;
+
 /**
  * Regex matching valid CSS hex color strings (#RGB or #RRGGBB).
  * Used for input validation in color pickers and text fields.
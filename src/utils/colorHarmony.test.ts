@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  HARMONY_MODES,
+  generateHarmonies,
+  generateHarmony,
+  generateStyledPalette,
+} from './colorHarmony';
+import { getHueDistance, hexToOklch } from './oklch';
+import { STYLE_ORDER } from './paletteStyleClassifier';
+
+const SEED = '#1D4ED8';
+const seedHue = hexToOklch(SEED).h;
+const hueOf = (hex: string) => hexToOklch(hex).h;
+
+describe('generateHarmony', () => {
+  it('keeps the seed and adds a light and a dark neutral in every mode', () => {
+    for (const mode of HARMONY_MODES) {
+      const colors = generateHarmony(SEED, mode);
+      expect(colors).toContain(SEED);
+      expect(hexToOklch(colors[0]).l).toBeGreaterThan(0.9);
+      expect(hexToOklch(colors[colors.length - 1]).l).toBeLessThan(0.3);
+      for (const hex of colors) expect(hex).toMatch(/^#[0-9A-F]{6}$/);
+    }
+  });
+
+  it('rotates hues by the harmony angles', () => {
+    const [, , complement] = generateHarmony(SEED, 'complementary');
+    expect(getHueDistance(hueOf(complement), seedHue)).toBeGreaterThan(170);
+
+    const [, , second, third] = generateHarmony(SEED, 'triadic');
+    expect(getHueDistance(hueOf(second), seedHue)).toBeCloseTo(120, -1);
+    expect(getHueDistance(hueOf(third), seedHue)).toBeCloseTo(120, -1);
+
+    const [, left, , right] = generateHarmony(SEED, 'analogous');
+    expect(getHueDistance(hueOf(left), seedHue)).toBeLessThan(40);
+    expect(getHueDistance(hueOf(right), seedHue)).toBeLessThan(40);
+  });
+
+  it('keeps monochrome palettes on the seed hue', () => {
+    const colors = generateHarmony(SEED, 'monochrome');
+    const lightness = colors.map((hex) => hexToOklch(hex).l);
+    expect([...lightness].sort((a, b) => b - a)).toEqual(lightness);
+    for (const hex of colors.slice(1, -1)) {
+      expect(getHueDistance(hueOf(hex), seedHue)).toBeLessThan(10);
+    }
+  });
+
+  it('gives gray seeds colorful harmonies', () => {
+    const [, , complement] = generateHarmony('#808080', 'complementary');
+    expect(hexToOklch(complement).c).toBeGreaterThan(0.04);
+  });
+});
+
+describe('generateStyledPalette', () => {
+  it('keeps the seed for every style', () => {
+    for (const style of STYLE_ORDER) {
+      expect(generateStyledPalette(SEED, style)).toContain(SEED);
+    }
+  });
+
+  it('biases supporting colors toward the style', () => {
+    const pastel = generateStyledPalette(SEED, 'pastel').slice(2, -1);
+    for (const hex of pastel) expect(hexToOklch(hex).l).toBeGreaterThan(0.85);
+
+    const [neonBg, , ...neon] = generateStyledPalette(SEED, 'neon');
+    expect(hexToOklch(neonBg).l).toBeLessThan(0.2);
+    for (const hex of neon.slice(0, -1)) expect(hexToOklch(hex).c).toBeGreaterThan(0.12);
+
+    const minimal = generateStyledPalette(SEED, 'minimal').filter((hex) => hex !== SEED);
+    for (const hex of minimal) expect(hexToOklch(hex).c).toBeLessThan(0.02);
+  });
+
+  it('pulls warm and cold variants toward their temperature', () => {
+    const warm = generateStyledPalette(SEED, 'warm').slice(2, -1);
+    const cold = generateStyledPalette(SEED, 'cold').slice(2, -1);
+    const avgDistance = (colors: string[], hue: number) =>
+      colors.reduce((sum, hex) => sum + getHueDistance(hueOf(hex), hue), 0) / colors.length;
+    expect(avgDistance(warm, 50)).toBeLessThan(avgDistance(cold, 50));
+  });
+});
+
+describe('generateHarmonies', () => {
+  it('lists every mode and style with unique ids', () => {
+    const palettes = generateHarmonies(SEED);
+    expect(palettes).toHaveLength(HARMONY_MODES.length + STYLE_ORDER.length);
+    expect(new Set(palettes.map((p) => p.id)).size).toBe(palettes.length);
+    expect(palettes.find((p) => p.id === 'style-dark')?.style).toBe('dark');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * Color Harmony
+ *
+ * Builds full palettes from a single seed color, for when a client only
+ * has a primary. Classic harmonies rotate the seed's hue in OKLCH, so
+ * rotated colors keep the seed's perceived lightness and strength.
+ * Brand-like variants bias the supporting colors toward one of the
+ * `PaletteStyle` categories (pastel tints, neon on near-black, …).
+ *
+ * Every palette keeps the seed exactly and adds a light and a dark
+ * neutral tinted with its hue, so `mapPaletteToBrand` always finds a
+ * background and text color.
+ *
+ * @module utils/colorHarmony
+ */
+import { hexToOklch, oklchToHex, type Oklch } from './oklch';
+import { STYLE_LABELS, STYLE_ORDER, type PaletteStyle } from './paletteStyleClassifier';
+
+export type HarmonyMode =
+  | 'complementary'
+  | 'split-complementary'
+  | 'analogous'
+  | 'triadic'
+  | 'tetradic'
+  | 'monochrome';
+
+export const HARMONY_MODES: HarmonyMode[] = [
+  'complementary',
+  'split-complementary',
+  'analogous',
+  'triadic',
+  'tetradic',
+  'monochrome',
+];
+
+export const HARMONY_LABELS: Record<HarmonyMode, string> = {
+  complementary: 'Complementary',
+  'split-complementary': 'Split complementary',
+  analogous: 'Analogous',
+  triadic: 'Triadic',
+  tetradic: 'Tetradic',
+  monochrome: 'Monochrome',
+};
+
+/** A generated palette, seed first among its chromatic colors. */
+export interface HarmonyPalette {
+  id: string;
+  label: string;
+  colors: string[];
+  /** Set on brand-like variants; passed on to role mapping */
+  style?: PaletteStyle;
+}
+
+/**
+ * Grays have no meaningful hue, so rotated colors get at least this
+ * chroma — otherwise every harmony of a gray seed collapses to grays.
+ */
+const MIN_SUPPORT_CHROMA = 0.06;
+
+const normalizeHue = (h: number): number => ((h % 360) + 360) % 360;
+
+const toHex = (color: Oklch): string =>
+  oklchToHex({ l: Math.min(1, Math.max(0, color.l)), c: Math.max(0, color.c), h: normalizeHue(color.h) });
+
+const rotate = (seed: Oklch, degrees: number): string =>
+  toHex({ ...seed, c: Math.max(seed.c, MIN_SUPPORT_CHROMA), h: seed.h + degrees });
+
+const lightNeutral = (seed: Oklch): string => toHex({ l: 0.97, c: Math.min(0.012, seed.c * 0.1), h: seed.h });
+const darkNeutral = (seed: Oklch): string => toHex({ l: 0.22, c: Math.min(0.02, seed.c * 0.15), h: seed.h });
+
+/**
+ * Classic harmony for a seed.
+ * @example generateHarmony('#1D4ED8', 'complementary') // [light neutral, seed, complement, seed shade, dark neutral]
+ */
+export const generateHarmony = (seedHex: string, mode: HarmonyMode): string[] => {
+  const seed = hexToOklch(seedHex);
+  const seedHex6 = seedHex.toUpperCase();
+  const palette = (...chromatic: string[]) => [lightNeutral(seed), ...chromatic, darkNeutral(seed)];
+
+  switch (mode) {
+    case 'complementary':
+      return palette(seedHex6, rotate(seed, 180), toHex({ ...seed, l: seed.l > 0.5 ? seed.l - 0.2 : seed.l + 0.2 }));
+    case 'split-complementary':
+      return palette(seedHex6, rotate(seed, 150), rotate(seed, 210));
+    case 'analogous':
+      return palette(rotate(seed, -30), seedHex6, rotate(seed, 30));
+    case 'triadic':
+      return palette(seedHex6, rotate(seed, 120), rotate(seed, 240));
+    case 'tetradic':
+      return palette(seedHex6, rotate(seed, 90), rotate(seed, 180), rotate(seed, 270));
+    case 'monochrome':
+      return [
+        toHex({ ...seed, l: 0.96, c: seed.c * 0.15 }),
+        toHex({ ...seed, l: 0.82, c: seed.c * 0.5 }),
+        seedHex6,
+        toHex({ ...seed, l: 0.4, c: seed.c * 0.8 }),
+        toHex({ ...seed, l: 0.2, c: seed.c * 0.3 }),
+      ];
+  }
+};
+
+interface StyleBias {
+  /** Hue offsets of the supporting colors, relative to the seed */
+  offsets: number[];
+  /** Lightness range the supporting colors are spread over */
+  lightness: [number, number];
+  chroma: number;
+  /** Pull supporting hues toward this hue by `amount` (0–1) */
+  hueTarget?: { hue: number; amount: number };
+  /** Background and text neutral lightness */
+  neutrals: [number, number];
+}
+
+const STYLE_BIAS: Record<PaletteStyle, StyleBias> = {
+  pastel: { offsets: [40, 180, -40], lightness: [0.86, 0.92], chroma: 0.07, neutrals: [0.98, 0.3] },
+  vintage: { offsets: [40, 180], lightness: [0.55, 0.75], chroma: 0.07, hueTarget: { hue: 70, amount: 0.3 }, neutrals: [0.94, 0.28] },
+  neon: { offsets: [120, 240], lightness: [0.75, 0.88], chroma: 0.32, neutrals: [0.16, 0.97] },
+  warm: { offsets: [30, 60], lightness: [0.6, 0.8], chroma: 0.14, hueTarget: { hue: 50, amount: 0.5 }, neutrals: [0.97, 0.25] },
+  cold: { offsets: [-30, 30], lightness: [0.5, 0.75], chroma: 0.12, hueTarget: { hue: 240, amount: 0.5 }, neutrals: [0.97, 0.22] },
+  light: { offsets: [30, 180], lightness: [0.85, 0.93], chroma: 0.04, neutrals: [0.99, 0.25] },
+  dark: { offsets: [30, 180], lightness: [0.35, 0.5], chroma: 0.1, neutrals: [0.18, 0.93] },
+  minimal: { offsets: [], lightness: [0.6, 0.6], chroma: 0, neutrals: [0.98, 0.18] },
+};
+
+/** Shortest signed hue difference from `from` to `to`, in degrees. */
+const hueDelta = (from: number, to: number): number => ((to - from + 540) % 360) - 180;
+
+/**
+ * Brand-like palette biased toward a style: the seed stays as the
+ * primary and the supporting colors and neutrals take the style's
+ * lightness, chroma and temperature.
+ */
+export const generateStyledPalette = (seedHex: string, style: PaletteStyle): string[] => {
+  const seed = hexToOklch(seedHex);
+  const { offsets, lightness, chroma, hueTarget, neutrals } = STYLE_BIAS[style];
+  const [bgL, textL] = neutrals;
+
+  const supporting = offsets.map((offset, i) => {
+    let h = seed.h + offset;
+    if (hueTarget) h += hueDelta(h, hueTarget.hue) * hueTarget.amount;
+    const t = offsets.length > 1 ? i / (offsets.length - 1) : 0;
+    return toHex({ l: lightness[0] + (lightness[1] - lightness[0]) * t, c: chroma, h });
+  });
+
+  // Minimal keeps the seed as the only color among near-grays
+  const extras = style === 'minimal'
+    ? [toHex({ l: 0.92, c: 0.004, h: seed.h }), toHex({ l: 0.45, c: 0.006, h: seed.h })]
+    : supporting;
+
+  const tint = style === 'vintage' ? { c: 0.025, h: 85 } : { c: Math.min(0.015, seed.c * 0.1), h: seed.h };
+  return [toHex({ l: bgL, ...tint }), seedHex.toUpperCase(), ...extras, toHex({ l: textL, ...tint })];
+};
+
+/** Every harmony and brand-like variant for a seed, in display order. */
+export const generateHarmonies = (seedHex: string): HarmonyPalette[] => [
+  ...HARMONY_MODES.map((mode) => ({
+    id: mode,
+    label: HARMONY_LABELS[mode],
+    colors: generateHarmony(seedHex, mode),
+  })),
+  ...STYLE_ORDER.map((style) => ({
+    id: `style-${style}`,
+    label: STYLE_LABELS[style],
+    colors: generateStyledPalette(seedHex, style),
+    style,
+  })),
+];
@@ -5,10 +5,14 @@ import {
   analyzeColors,
   mapPaletteToBrand,
   getContrastRatio,
+  getApcaContrast,
+  mixHex,
   validateMapping,
   enforceContrast,
+  deriveColumnRoles,
   type BrandColorMapping,
 } from './colorMapping';
+import { getHueDistance, hexToOklch } from './oklch';
 
 // ---------------------------------------------------------------------------
 // hexToHSL
@@ -162,6 +166,41 @@ describe('getContrastRatio', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// getApcaContrast
+// ---------------------------------------------------------------------------
+describe('getApcaContrast', () => {
+  it('returns about Lc 106 for black text on white', () => {
+    expect(getApcaContrast('#000000', '#FFFFFF')).toBeCloseTo(106, 0);
+  });
+
+  it('is negative for light text on a dark background', () => {
+    expect(getApcaContrast('#FFFFFF', '#000000')).toBeCloseTo(-107.9, 0);
+  });
+
+  it('returns 0 for identical colors', () => {
+    expect(getApcaContrast('#808080', '#808080')).toBe(0);
+  });
+
+  it('scores mid-gray on white below the body text minimum', () => {
+    expect(Math.abs(getApcaContrast('#888888', '#FFFFFF'))).toBeLessThan(75);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// mixHex
+// ---------------------------------------------------------------------------
+describe('mixHex', () => {
+  it('returns the first color at amount 1 and the second at 0', () => {
+    expect(mixHex('#FF0000', '#0000FF', 1)).toBe('#FF0000');
+    expect(mixHex('#FF0000', '#0000FF', 0)).toBe('#0000FF');
+  });
+
+  it('mixes channels in sRGB', () => {
+    expect(mixHex('#000000', '#FFFFFF', 0.5)).toBe('#808080');
+  });
+});
+
 // ---------------------------------------------------------------------------
 // validateMapping
 // ---------------------------------------------------------------------------
@@ -408,6 +447,53 @@ describe('enforceContrast', () => {
   });
 });
 
+// ---------------------------------------------------------------------------
+// hue preservation
+// ---------------------------------------------------------------------------
+describe('hue preservation', () => {
+  const base: BrandColorMapping = {
+    bg: '#FFFFFF',
+    text: '#171717',
+    primary: '#0000CC',
+    accent: '#CC0000',
+    surface: '#F5F5F5',
+    surfaces: ['#F5F5F5'],
+    paletteColors: [],
+  };
+
+  const expectSameHue = (before: string, after: string) => {
+    expect(getHueDistance(hexToOklch(before).h, hexToOklch(after).h)).toBeLessThan(4);
+  };
+
+  it('keeps a darkened yellow yellow', () => {
+    const result = enforceContrast({ ...base, primary: '#FFD60A' });
+    expect(getContrastRatio(result.primary, result.bg)).toBeGreaterThanOrEqual(3);
+    expectSameHue('#FFD60A', result.primary);
+  });
+
+  it('keeps a lightened blue blue', () => {
+    const result = enforceContrast({ ...base, bg: '#0A0A0A', text: '#FAFAFA', primary: '#1D2B8C' });
+    expect(getContrastRatio(result.primary, result.bg)).toBeGreaterThanOrEqual(3);
+    expectSameHue('#1D2B8C', result.primary);
+  });
+
+  it('keeps the hue of adjusted accents across the wheel', () => {
+    for (const accent of ['#FFB3B3', '#B3FFB3', '#B3E5FF', '#F0B3FF']) {
+      const result = enforceContrast({ ...base, accent });
+      expect(getContrastRatio(result.accent, result.bg)).toBeGreaterThanOrEqual(2.5);
+      expectSameHue(accent, result.accent);
+    }
+  });
+
+  it('derives column tones at the background hue', () => {
+    for (const background of ['#FDE68A', '#1E3A8A', '#F5D0FE']) {
+      const { tone } = deriveColumnRoles(background, '#000000');
+      expect(tone).not.toBe(background);
+      expectSameHue(background, tone);
+    }
+  });
+});
+
 // ---------------------------------------------------------------------------
 // hexToHSL ↔ hslToHex roundtrip
 // ---------------------------------------------------------------------------
@@ -2,7 +2,12 @@
  * Color Mapping Utility
  *
  * Automatically maps palette colors to brand roles (bg, text, primary, accent, surface)
- * based on color analysis (lightness, saturation, hue).
+ * based on color analysis (lightness, chroma, hue).
+ *
+ * Role selection, contrast fixes and derived tones work in OKLCH (see
+ * `utils/oklch`), so lightness comparisons match what the eye sees and
+ * adjusted colors keep their perceived hue. Derived colors are
+ * gamut-mapped back into sRGB.
  *
  * Enhanced for moodboard variety:
  * - Multiple surface colors for tile backgrounds
@@ -10,13 +15,20 @@
  * - Full palette access for creative flexibility
  */
 
-import { COLOR_DEFAULTS, LIGHTNESS_THRESHOLD } from './colorDefaults';
+import { COLOR_DEFAULTS, PERCEPTUAL_LIGHTNESS_THRESHOLD } from './colorDefaults';
+import { getHueDistance, hexToOklch, oklchToHex } from './oklch';
 
 export interface ColorAnalysis {
   hex: string;
   h: number; // Hue (0-360)
   s: number; // Saturation (0-100)
   l: number; // Lightness (0-100)
+  /** Perceptual lightness: OKLCH L scaled to 0-100 */
+  lightness: number;
+  /** Perceptual chroma: OKLCH C (0 to ~0.32 in sRGB) */
+  chroma: number;
+  /** Perceptual hue: OKLCH h (0-360) */
+  hue: number;
 }
 
 export interface BrandColorMapping {
@@ -98,20 +110,36 @@ export const hexToHSL = (hex: string): { h: number; s: number; l: number } => {
   return { h: h * 360, s: s * 100, l: l * 100 };
 };
 
+/** HSL and OKLCH analysis of a single hex color. */
+const analyzeColor = (hex: string): ColorAnalysis => {
+  const { l, c, h } = hexToOklch(hex);
+  return {
+    hex: hex.toUpperCase(),
+    ...hexToHSL(hex),
+    lightness: l * 100,
+    chroma: c,
+    hue: h,
+  };
+};
+
 /**
- * Parse and analyze an array of hex color strings into HSL objects.
+ * Parse and analyze an array of hex color strings into HSL + OKLCH objects.
  * Filters out invalid hex values.
  * @param colors - Array of CSS hex color strings
  */
 export const analyzeColors = (colors: string[]): ColorAnalysis[] => {
   return colors
     .filter(hex => /^#([0-9A-Fa-f]{3}|[0-9A-Fa-f]{6})$/.test(hex)) // Only valid hex colors
-    .map(hex => ({
-      hex: hex.toUpperCase(),
-      ...hexToHSL(hex),
-    }));
+    .map(analyzeColor);
 };
 
+/** Hex for an OKLCH color given with lightness on the 0-100 scale. */
+const fromPerceptual = (lightness: number, chroma: number, hue: number): string =>
+  oklchToHex({ l: Math.max(0, Math.min(100, lightness)) / 100, c: chroma, h: hue });
+
+/** OKLCH chroma below which a color reads as gray */
+const NEUTRAL_CHROMA = 0.02;
+
 /**
  * Neutral color scales for text - true neutrals ensure readability
  */
@@ -129,24 +157,24 @@ const NEUTRAL_SCALES = {
 };
 
 /**
- * Check if a color is truly neutral (low saturation)
+ * Check if a color is truly neutral (low chroma)
  */
 const isNeutral = (color: ColorAnalysis): boolean => {
-  return color.s < 10;
+  return color.chroma < NEUTRAL_CHROMA;
 };
 
 /**
- * Get best neutral text color based on background lightness
+ * Get best neutral text color based on background perceptual lightness
  */
 const getNeutralText = (bgLightness: number, paletteColors: ColorAnalysis[]): string => {
-  if (bgLightness > LIGHTNESS_THRESHOLD) {
+  if (bgLightness > PERCEPTUAL_LIGHTNESS_THRESHOLD) {
     // Light background needs dark text
-    const neutralDark = paletteColors.find(c => isNeutral(c) && c.l < 25);
+    const neutralDark = paletteColors.find(c => isNeutral(c) && c.lightness < 35);
     if (neutralDark) return neutralDark.hex;
     return NEUTRAL_SCALES.dark[800];
   } else {
     // Dark background needs light text
-    const neutralLight = paletteColors.find(c => isNeutral(c) && c.l > 85);
+    const neutralLight = paletteColors.find(c => isNeutral(c) && c.lightness > 90);
     if (neutralLight) return neutralLight.hex;
     return NEUTRAL_SCALES.light[100];
   }
@@ -155,8 +183,8 @@ const getNeutralText = (bgLightness: number, paletteColors: ColorAnalysis[]): st
 /**
  * Derive a neutral surface from a reference color.
  *
- * Keeps a hint of the palette's hue warmth while dropping saturation
- * to near-neutral (s <= 6). This creates a surface that feels cohesive
+ * Keeps a hint of the palette's hue warmth while dropping chroma
+ * to near-neutral (C <= 0.012). This creates a surface that feels cohesive
  * with the palette without adding visual weight.
  *
  * @param ref - Reference color (usually the bg) whose hue provides warmth
@@ -167,48 +195,47 @@ const deriveNeutralSurface = (
   ref: ColorAnalysis,
   isLightMode: boolean,
 ): string => {
-  // Cap saturation at 6% — just enough hue warmth to feel intentional,
+  // Cap chroma at 0.012 — just enough hue warmth to feel intentional,
   // not enough to read as "colored"
-  const s = Math.min(ref.s, 6);
-  const l = isLightMode
-    ? Math.min(ref.l + 3, 95) // Slightly lighter than bg in light mode
-    : Math.max(ref.l - 5, 12); // Slightly darker shade in dark mode
-  return hslToHex(ref.h, s, l);
+  const c = Math.min(ref.chroma, 0.012);
+  const lightness = isLightMode
+    ? Math.min(ref.lightness + 2, 97) // Slightly lighter than bg in light mode
+    : Math.max(ref.lightness - 4, 20); // Slightly darker shade in dark mode
+  return fromPerceptual(lightness, c, ref.hue);
 };
 
 /**
  * Check if two colors are visually too similar to coexist as
  * surface + accent (would look like the same color at a glance).
  *
- * Uses three criteria (all must be true):
+ * Uses three criteria (all must be true), all in OKLCH:
  * - Hue difference < 40° (accounts for hue wheel wrapping via min of both arcs)
- * - Lightness difference < 20 points
- * - Both colors have saturation > 15% (neutrals are never "too similar" to chromatic)
+ * - Lightness difference < 15 points
+ * - Both colors have chroma > 0.04 (neutrals are never "too similar" to chromatic)
  *
  * Used by `mapPaletteToBrand` to swap out duplicate-feeling surfaces.
  */
 const areTooSimilar = (a: ColorAnalysis, b: ColorAnalysis): boolean => {
-  // Shortest arc on the 360° hue wheel
-  const hueDiff = Math.min(Math.abs(a.h - b.h), 360 - Math.abs(a.h - b.h));
-  const lightDiff = Math.abs(a.l - b.l);
-  return hueDiff < 40 && lightDiff < 20 && a.s > 15 && b.s > 15;
+  const hueDiff = getHueDistance(a.hue, b.hue);
+  const lightDiff = Math.abs(a.lightness - b.lightness);
+  return hueDiff < 40 && lightDiff < 15 && a.chroma > 0.04 && b.chroma > 0.04;
 };
 
 /**
  * Extract multiple surface colors from palette for moodboard variety.
  *
  * Returns up to 8 surfaces ordered by visual intensity:
- * 1. **Neutral** (default) — low saturation, close to bg lightness → visual rest
+ * 1. **Neutral** (default) — low chroma, close to bg lightness → visual rest
  * 2. **Muted** — very lightly tinted, feels neutral but with a hint of palette hue
  * 3. **Tinted** — colored but not dominant, one per hue group (60° buckets)
- * 4. **Accent** — saturated color for one bold/featured tile
+ * 4. **Accent** — high-chroma color for one bold/featured tile
  * 5. **Contrast** — opposite lightness (dark on light bg, light on dark bg)
  *
  * Most surfaces (indices 0–3) are neutral or muted so the default board
  * feels restrained. Strong colors live at higher indices for intentional use.
  * Each tile picks a surface by index via `tileSurfaces[placementId]`.
  *
- * @param colors - All palette colors as HSL analysis objects
+ * @param colors - All palette colors as HSL + OKLCH analysis objects
  * @param bgColor - The chosen background color (excluded from surface candidates)
  * @returns Array of hex strings, ordered neutral → muted → tinted → accent → contrast
  */
@@ -216,7 +243,7 @@ const extractSurfaceColors = (
   colors: ColorAnalysis[],
   bgColor: ColorAnalysis,
 ): string[] => {
-  const isLightMode = bgColor.l > LIGHTNESS_THRESHOLD;
+  const isLightMode = bgColor.lightness > PERCEPTUAL_LIGHTNESS_THRESHOLD;
   const surfaces: string[] = [];
   const seen = new Set<string>();
 
@@ -229,27 +256,27 @@ const extractSurfaceColors = (
   };
 
   // ── 1. NEUTRALS (target: 2–3 slots) ──────────────────────────────
-  // Low saturation, close to bg. These are the default for most tiles
+  // Low chroma, close to bg. These are the default for most tiles
   // and provide the breathing room that makes a moodboard feel curated.
   const neutralCandidates = colors.filter(c => {
     if (c.hex === bgColor.hex) return false;
 
-    const isNeutralish = c.s < 15;
+    const isNeutralish = c.chroma < 0.03;
     if (isLightMode) {
-      return isNeutralish && c.l >= 50 && c.l <= 98;
+      return isNeutralish && c.lightness >= 60 && c.lightness <= 99;
     } else {
-      return isNeutralish && c.l >= 5 && c.l <= 50;
+      return isNeutralish && c.lightness >= 14 && c.lightness <= 60;
     }
   });
 
-  // Sort neutrals by "ideal distance" from bg: 5–20% lightness difference
-  // is the sweet spot — enough to distinguish the surface, not so much it
-  // looks like a different section.
+  // Sort neutrals by "ideal distance" from bg: 4–16 points of lightness
+  // difference is the sweet spot — enough to distinguish the surface, not
+  // so much it looks like a different section.
   const sortedNeutrals = [...neutralCandidates].sort((a, b) => {
-    const aDiff = Math.abs(a.l - bgColor.l);
-    const bDiff = Math.abs(b.l - bgColor.l);
-    const aScore = aDiff >= 5 && aDiff <= 20 ? 0 : Math.abs(aDiff - 12);
-    const bScore = bDiff >= 5 && bDiff <= 20 ? 0 : Math.abs(bDiff - 12);
+    const aDiff = Math.abs(a.lightness - bgColor.lightness);
+    const bDiff = Math.abs(b.lightness - bgColor.lightness);
+    const aScore = aDiff >= 4 && aDiff <= 16 ? 0 : Math.abs(aDiff - 10);
+    const bScore = bDiff >= 4 && bDiff <= 16 ? 0 : Math.abs(bDiff - 10);
     return aScore - bScore;
   });
 
@@ -262,29 +289,30 @@ const extractSurfaceColors = (
   // This guarantees the first few surface indices are always restrained.
   for (let attempt = 0; surfaces.length < 2 && attempt < 4; attempt++) {
     const offset = surfaces.length === 0 ? 0 : 1;
-    const s = Math.min(bgColor.s, 6);
-    const shift = 4 + offset * 5 + attempt * 3; // widen gap on retries
-    const l = isLightMode
-      ? Math.min(bgColor.l - shift, 95)
-      : Math.max(bgColor.l + shift, 12);
-    addSurface(hslToHex(bgColor.h, s, Math.max(5, Math.min(95, l))));
+    const c = Math.min(bgColor.chroma, 0.012);
+    const shift = 3 + offset * 4 + attempt * 2.5; // widen gap on retries
+    const lightness = isLightMode
+      ? Math.min(bgColor.lightness - shift, 97)
+      : Math.max(bgColor.lightness + shift, 24);
+    addSurface(fromPerceptual(Math.max(14, Math.min(97, lightness)), c, bgColor.hue));
   }
 
   // ── 2. MUTED TINTS (target: 1–2 slots) ───────────────────────────
-  // Very low saturation (5–25%) — feels neutral but with a whisper of
-  // palette hue. These fill slots 2–3 so most tiles stay calm.
+  // Very low chroma — feels neutral but with a whisper of palette hue.
+  // These fill slots 2–3 so most tiles stay calm.
   const mutedCandidates = colors.filter(c => {
     if (c.hex === bgColor.hex) return false;
     if (seen.has(c.hex)) return false;
 
+    const isMuted = c.chroma >= 0.015 && c.chroma <= 0.06;
     if (isLightMode) {
-      return c.s >= 5 && c.s <= 25 && c.l >= 65 && c.l <= 95;
+      return isMuted && c.lightness >= 72 && c.lightness <= 97;
     } else {
-      return c.s >= 5 && c.s <= 25 && c.l >= 8 && c.l <= 35;
+      return isMuted && c.lightness >= 18 && c.lightness <= 46;
     }
   });
 
-  const sortedMuted = [...mutedCandidates].sort((a, b) => a.s - b.s); // least saturated first
+  const sortedMuted = [...mutedCandidates].sort((a, b) => a.chroma - b.chroma); // least chromatic first
   for (let i = 0; i < Math.min(2, sortedMuted.length); i++) {
     addSurface(sortedMuted[i].hex);
   }
@@ -293,33 +321,33 @@ const extractSurfaceColors = (
   // the primary hue so the board still has subtle variety.
   if (mutedCandidates.length === 0 && surfaces.length < 4) {
     const primaryHue = colors.find(c =>
-      c.hex !== bgColor.hex && c.s >= 30
-    )?.h ?? bgColor.h;
-    const s = 12; // Just enough to notice
-    const l = isLightMode
-      ? Math.max(bgColor.l - 8, 70)
-      : Math.min(bgColor.l + 8, 30);
-    addSurface(hslToHex(primaryHue, s, l));
+      c.hex !== bgColor.hex && c.chroma >= 0.08
+    )?.hue ?? bgColor.hue;
+    const c = 0.03; // Just enough to notice
+    const lightness = isLightMode
+      ? Math.max(bgColor.lightness - 6, 78)
+      : Math.min(bgColor.lightness + 6, 42);
+    addSurface(fromPerceptual(lightness, c, primaryHue));
   }
 
   // ── 3. TINTED SURFACES (target: 1–2 slots) ───────────────────────
-  // Moderate saturation — colored but not dominant. One per hue bucket.
+  // Moderate chroma — colored but not dominant. One per hue bucket.
   const tintedCandidates = colors.filter(c => {
     if (c.hex === bgColor.hex) return false;
     if (seen.has(c.hex)) return false;
 
     if (isLightMode) {
-      return c.l >= 60 && c.l <= 95 && c.s > 25;
+      return c.lightness >= 68 && c.lightness <= 97 && c.chroma > 0.06;
     } else {
-      return c.l >= 8 && c.l <= 40 && c.s > 25;
+      return c.lightness >= 18 && c.lightness <= 51 && c.chroma > 0.06;
     }
   });
 
-  // Prefer moderate saturation (25–50%). Penalize very high saturation.
+  // Prefer moderate chroma (0.06–0.12). Penalize very high chroma.
   const sortedTinted = [...tintedCandidates].sort((a, b) => {
-    const aSatScore = a.s > 50 ? 100 - a.s : a.s;
-    const bSatScore = b.s > 50 ? 100 - b.s : b.s;
-    return bSatScore - aSatScore;
+    const aChromaScore = a.chroma > 0.12 ? 0.24 - a.chroma : a.chroma;
+    const bChromaScore = b.chroma > 0.12 ? 0.24 - b.chroma : b.chroma;
+    return bChromaScore - aChromaScore;
   });
 
   // Limited to one per 60° hue bucket, max 2 total (down from unlimited)
@@ -327,7 +355,7 @@ const extractSurfaceColors = (
   let tintedAdded = 0;
   for (const color of sortedTinted) {
     if (tintedAdded >= 2) break;
-    const hueGroup = Math.round(color.h / 60) * 60;
+    const hueGroup = Math.round(color.hue / 60) * 60;
     if (!hueGroups.has(hueGroup)) {
       addSurface(color.hex);
       hueGroups.add(hueGroup);
@@ -336,20 +364,20 @@ const extractSurfaceColors = (
   }
 
   // ── 4. ACCENT SURFACE (target: 1 slot) ───────────────────────────
-  // One saturated color for a bold, intentional pop. Not multiple.
+  // One strongly chromatic color for a bold, intentional pop. Not multiple.
   const accentCandidates = colors.filter(c => {
     if (c.hex === bgColor.hex) return false;
     if (seen.has(c.hex)) return false;
 
     if (isLightMode) {
-      return c.s >= 30 && c.l >= 45 && c.l <= 85;
+      return c.chroma >= 0.08 && c.lightness >= 55 && c.lightness <= 89;
     } else {
-      return c.s >= 30 && c.l >= 15 && c.l <= 55;
+      return c.chroma >= 0.08 && c.lightness >= 27 && c.lightness <= 64;
     }
   });
 
-  // Pick the most saturated candidate — with only 1 slot, make it count.
-  const sortedAccent = [...accentCandidates].sort((a, b) => b.s - a.s);
+  // Pick the most chromatic candidate — with only 1 slot, make it count.
+  const sortedAccent = [...accentCandidates].sort((a, b) => b.chroma - a.chroma);
   if (sortedAccent.length > 0) {
     addSurface(sortedAccent[0].hex);
   }
@@ -361,13 +389,13 @@ const extractSurfaceColors = (
     if (seen.has(c.hex)) return false;
 
     if (isLightMode) {
-      return c.l >= 10 && c.l <= 40;
+      return c.lightness >= 21 && c.lightness <= 51;
     } else {
-      return c.l >= 70 && c.l <= 95;
+      return c.lightness >= 80 && c.lightness <= 97;
     }
   });
 
-  const sortedContrast = [...contrastCandidates].sort((a, b) => b.s - a.s);
+  const sortedContrast = [...contrastCandidates].sort((a, b) => b.chroma - a.chroma);
   if (sortedContrast.length > 0) {
     addSurface(sortedContrast[0].hex);
   }
@@ -383,27 +411,28 @@ const extractSurfaceColors = (
 /**
  * Calculate "vibrancy" score for primary/accent color selection.
  *
- * Combines three factors into a 0–1 score:
- * - **Saturation** (0–1): higher saturation = more vibrant.
- * - **Lightness gate**: near-white (> 85) or near-black (< 15) score 0
+ * Combines three factors into a 0–1 score, all from OKLCH:
+ * - **Chroma** (0–1): C / 0.25, capped — higher chroma = more vibrant.
+ *   Unlike HSL saturation, pale tints of a hue don't score as "fully saturated".
+ * - **Lightness gate**: near-white (> 95) or near-black (< 20) score 0
  *   because they can't carry brand identity.
- * - **Ideal lightness proximity**: colors near L=50 score highest
+ * - **Ideal lightness proximity**: colors near L=62 score highest
  *   (most visually prominent). The `0.5 + 0.5 * proximity` term
  *   ensures even off-center colors still contribute (floor at 0.5).
  *
- * @param color - HSL color analysis
+ * @param color - Color analysis
  * @returns Score from 0 (unusable) to ~1 (ideal brand color)
  */
 const getVibrancyScore = (color: ColorAnalysis): number => {
-  const lightnessScore = color.l > 85 || color.l < 15 ? 0 : 1;
-  const saturationScore = color.s / 100;
-  const idealLightnessProximity = 1 - Math.abs(color.l - 50) / 50;
+  const lightnessScore = color.lightness > 95 || color.lightness < 20 ? 0 : 1;
+  const chromaScore = Math.min(color.chroma / 0.25, 1);
+  const idealLightnessProximity = 1 - Math.min(Math.abs(color.lightness - 62) / 40, 1);
 
-  return saturationScore * lightnessScore * (0.5 + 0.5 * idealLightnessProximity);
+  return chromaScore * lightnessScore * (0.5 + 0.5 * idealLightnessProximity);
 };
 
 /**
- * Map an array of palette hex colors to brand roles using HSL analysis.
+ * Map an array of palette hex colors to brand roles using OKLCH analysis.
  *
  * Strategy:
  * 1. Background: Style-aware (dark/neon use darkest; others use lightest)
@@ -432,7 +461,7 @@ export const mapPaletteToBrand = (colors: string[], options?: { style?: string }
     };
   }
 
-  const byLightness = [...analyzed].sort((a, b) => b.l - a.l);
+  const byLightness = [...analyzed].sort((a, b) => b.lightness - a.lightness);
   const byVibrancy = [...analyzed].sort((a, b) => getVibrancyScore(b) - getVibrancyScore(a));
 
   // === BACKGROUND ===
@@ -441,24 +470,24 @@ export const mapPaletteToBrand = (colors: string[], options?: { style?: string }
 
   if (style === 'dark') {
     // Dark palettes: pick darkest color with low saturation as bg
-    const darkCandidates = [...analyzed].sort((a, b) => a.l - b.l);
-    const darkNeutral = darkCandidates.find(c => c.l <= 25 && c.s < 20);
+    const darkCandidates = [...analyzed].sort((a, b) => a.lightness - b.lightness);
+    const darkNeutral = darkCandidates.find(c => c.lightness <= 37 && c.chroma < 0.05);
     bg = darkNeutral || darkCandidates[0];
   } else if (style === 'neon') {
     // Neon palettes: use a very dark bg to let neon colors pop
-    const darkCandidates = [...analyzed].sort((a, b) => a.l - b.l);
-    const darkest = darkCandidates.find(c => c.l <= 20);
+    const darkCandidates = [...analyzed].sort((a, b) => a.lightness - b.lightness);
+    const darkest = darkCandidates.find(c => c.lightness <= 32);
     bg = darkest || darkCandidates[0];
   } else {
     // Default (light, pastel, warm, cold, minimal, vintage): lightest color
-    const bgCandidates = byLightness.filter(c => c.l >= 85);
+    const bgCandidates = byLightness.filter(c => c.lightness >= 89);
     bg = bgCandidates.length > 0
-      ? bgCandidates.sort((a, b) => a.s - b.s)[0]
+      ? bgCandidates.sort((a, b) => a.chroma - b.chroma)[0]
       : byLightness[0];
   }
 
   // === TEXT (Neutral) ===
-  const textHex = getNeutralText(bg.l, analyzed);
+  const textHex = getNeutralText(bg.lightness, analyzed);
 
   // === PRIMARY ===
   const primaryCandidates = byVibrancy.filter(
@@ -475,10 +504,7 @@ export const mapPaletteToBrand = (colors: string[], options?: { style?: string }
 
   let accent: ColorAnalysis;
   if (accentCandidates.length > 0) {
-    const differentHue = accentCandidates.find(c => {
-      const hueDiff = Math.abs(c.h - primary.h);
-      return hueDiff > 30 && hueDiff < 330;
-    });
+    const differentHue = accentCandidates.find(c => getHueDistance(c.hue, primary.hue) > 30);
     accent = differentHue || accentCandidates[0];
   } else {
     accent = primary;
@@ -490,9 +516,8 @@ export const mapPaletteToBrand = (colors: string[], options?: { style?: string }
 
   // === DIVERSITY CHECK ===
   // If surface and accent ended up too similar, replace surface with a neutral
-  const surfaceAnalysis: ColorAnalysis = { hex: surface, ...hexToHSL(surface) };
-  if (areTooSimilar(surfaceAnalysis, accent)) {
-    const isLightMode = bg.l > LIGHTNESS_THRESHOLD;
+  if (areTooSimilar(analyzeColor(surface), accent)) {
+    const isLightMode = bg.lightness > PERCEPTUAL_LIGHTNESS_THRESHOLD;
     const neutral = deriveNeutralSurface(bg, isLightMode);
     surface = neutral;
     // Put the neutral first, keep the old surface later in the list
@@ -549,6 +574,51 @@ export const getContrastRatio = (color1: string, color2: string): number => {
   return (lighter + 0.05) / (darker + 0.05);
 };
 
+/**
+ * APCA lightness contrast (Lc) of text on a background, per APCA-W3
+ * 0.0.98G. Unlike the WCAG ratio it is polarity-aware: dark text on a
+ * light background is positive, light text on dark is negative.
+ * @returns Lc from about -108 to 106 (|Lc| >= 60 for body text, >= 45 for headlines)
+ */
+export const getApcaContrast = (textHex: string, bgHex: string): number => {
+  // Simple 2.4 exponent (not the piecewise sRGB curve), then a soft clamp
+  // that lifts near-black so very dark pairs don't read as high contrast.
+  const getY = (hex: string): number => {
+    const rgb = parseHex(hex);
+    if (!rgb) return 0;
+    const y = 0.2126729 * Math.pow(rgb.r / 255, 2.4)
+      + 0.7151522 * Math.pow(rgb.g / 255, 2.4)
+      + 0.072175 * Math.pow(rgb.b / 255, 2.4);
+    return y < 0.022 ? y + Math.pow(0.022 - y, 1.414) : y;
+  };
+
+  const text = getY(textHex);
+  const bg = getY(bgHex);
+  if (Math.abs(bg - text) < 0.0005) return 0;
+
+  if (bg > text) {
+    const sapc = (Math.pow(bg, 0.56) - Math.pow(text, 0.57)) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+  const sapc = (Math.pow(bg, 0.65) - Math.pow(text, 0.62)) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+};
+
+/**
+ * Mix two hex colors in sRGB, like CSS `color-mix(in srgb, a p%, b)`.
+ * Also gives the composited color of `a` at opacity `amount` over `b`.
+ * @param amount - Share of `a`, 0–1
+ */
+export const mixHex = (a: string, b: string, amount: number): string => {
+  const ca = parseHex(a);
+  const cb = parseHex(b);
+  if (!ca || !cb) return a;
+  const t = Math.min(1, Math.max(0, amount));
+  const channel = (x: number, y: number) =>
+    Math.round(x * t + y * (1 - t)).toString(16).padStart(2, '0');
+  return `#${channel(ca.r, cb.r)}${channel(ca.g, cb.g)}${channel(ca.b, cb.b)}`.toUpperCase();
+};
+
 /**
  * Validate a color mapping against WCAG AA contrast requirements.
  * @param mapping - The brand color mapping to validate
@@ -572,41 +642,34 @@ export const validateMapping = (mapping: BrandColorMapping): {
 /**
  * Adjust a hex color's lightness to meet a minimum contrast ratio against a reference color.
  *
- * Strategy: shift lightness in 5-point increments (up to ±40) in the
- * "natural" direction first (darker for light bg, lighter for dark bg),
- * then try the opposite direction at each step. This preserves the
- * original hue and saturation as much as possible.
+ * Strategy: shift OKLCH lightness in 1-point increments in the "natural"
+ * direction first (darker for light bg, lighter for dark bg), then try the
+ * opposite direction at each step, returning the smallest shift that
+ * passes. Hue and chroma are kept; chroma only drops where the new
+ * lightness can't hold it in sRGB, so a darkened yellow stays yellow
+ * instead of turning olive.
  *
- * Falls back to pure black or white if 40 steps aren't enough.
+ * Falls back to near-black or near-white if no lightness passes.
  *
  * @param hex - Color to adjust
  * @param againstHex - Background color to measure contrast against
  * @param minRatio - Target WCAG contrast ratio (e.g. 4.5 for AA normal text)
  */
-const adjustForContrast = (hex: string, againstHex: string, minRatio: number): string => {
-  const hsl = hexToHSL(hex);
-  const againstHsl = hexToHSL(againstHex);
-  const isLightBg = againstHsl.l > LIGHTNESS_THRESHOLD;
+export const adjustForContrast = (hex: string, againstHex: string, minRatio: number): string => {
+  const color = analyzeColor(hex);
+  const isLightBg = analyzeColor(againstHex).lightness > PERCEPTUAL_LIGHTNESS_THRESHOLD;
 
-  // Walk lightness in 5-point steps; 9 iterations covers the full usable range
-  for (let step = 0; step <= 40; step += 5) {
-    const darkerL = Math.max(0, hsl.l - step);
-    const lighterL = Math.min(100, hsl.l + step);
+  for (let step = 0; step <= 100; step++) {
+    const darker = color.lightness - step;
+    const lighter = color.lightness + step;
 
     // For light backgrounds, try darker first; for dark backgrounds, try lighter first
-    const candidateL = isLightBg ? darkerL : lighterL;
-    const candidateHex = hslToHex(hsl.h, hsl.s, candidateL);
-
-    if (getContrastRatio(candidateHex, againstHex) >= minRatio) {
-      return candidateHex;
-    }
-
-    // Try the other direction
-    const altL = isLightBg ? lighterL : darkerL;
-    const altHex = hslToHex(hsl.h, hsl.s, altL);
-
-    if (getContrastRatio(altHex, againstHex) >= minRatio) {
-      return altHex;
+    for (const lightness of isLightBg ? [darker, lighter] : [lighter, darker]) {
+      if (lightness < 0 || lightness > 100) continue;
+      const candidateHex = fromPerceptual(lightness, color.chroma, color.hue);
+      if (getContrastRatio(candidateHex, againstHex) >= minRatio) {
+        return candidateHex;
+      }
     }
   }
 
@@ -635,7 +698,8 @@ export const hslToHex = (h: number, s: number, l: number): string => {
 
 /**
  * Enforce WCAG AA contrast on a color mapping.
- * Adjusts text (4.5:1), primary (3:1), accent (2.5:1) against bg.
+ * Adjusts text (4.5:1), primary (3:1), accent (2.5:1) against bg by moving
+ * OKLCH lightness only, so adjusted colors keep their perceived hue.
  * Surfaces are kept as-is — tiles use getAdaptiveTextColor() for contrast safety.
  *
  * @param mapping - Raw mapping from `mapPaletteToBrand()`
@@ -694,23 +758,24 @@ export interface ColumnRoleOverrides {
  * Background and CTA are pass-through (editable by user).
  * Tone, text, textCta, and contrastRatio are auto-derived
  * unless overridden via the optional `overrides` param.
+ * The tone is the background shifted 8 points in OKLCH lightness at the
+ * same hue and chroma.
  */
 export const deriveColumnRoles = (
   background: string,
   cta: string,
   overrides?: ColumnRoleOverrides,
 ): ColumnRoles => {
-  const bgHsl = hexToHSL(background);
-  const isLight = bgHsl.l > LIGHTNESS_THRESHOLD;
+  const bgColor = analyzeColor(background);
+  const isLight = bgColor.lightness > PERCEPTUAL_LIGHTNESS_THRESHOLD;
 
   // Auto-derive base values
-  const toneL = isLight
-    ? Math.max(bgHsl.l - 10, 5)
-    : Math.min(bgHsl.l + 10, 95);
-  const autoTone = hslToHex(bgHsl.h, bgHsl.s, toneL);
+  const toneLightness = isLight
+    ? Math.max(bgColor.lightness - 8, 5)
+    : Math.min(bgColor.lightness + 8, 97);
+  const autoTone = fromPerceptual(toneLightness, bgColor.chroma, bgColor.hue);
   const autoText = isLight ? COLOR_DEFAULTS.TEXT_DARK : COLOR_DEFAULTS.TEXT_LIGHT;
-  const ctaHsl = hexToHSL(cta);
-  const autoTextCta = ctaHsl.l > LIGHTNESS_THRESHOLD
+  const autoTextCta = analyzeColor(cta).lightness > PERCEPTUAL_LIGHTNESS_THRESHOLD
     ? COLOR_DEFAULTS.TEXT_DARK
     : COLOR_DEFAULTS.TEXT_LIGHT;
 
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import {
+  RAMP_STEPS,
+  buildRampCSSLines,
+  generateNeutralRamp,
+  generateRamp,
+  getBrandRamps,
+  isSurfaceRef,
+  parseRampStepRef,
+  resolveRampStep,
+} from './colorRamps';
+import { getHueDistance, hexToOklch } from './oklch';
+
+const colors = {
+  primary: '#1D4ED8',
+  accent: '#F59E0B',
+  text: '#1A1A2E',
+  bg: '#FAFAF7',
+  surfaces: ['#F3F4F6', '#E5E7EB'],
+};
+
+describe('generateRamp', () => {
+  it('steps evenly in perceptual lightness from light to dark', () => {
+    const ramp = generateRamp('#1D4ED8');
+    const lightness = RAMP_STEPS.map((step) => hexToOklch(ramp[step]).l);
+    const gaps = lightness.slice(1).map((l, i) => lightness[i] - l);
+    for (const gap of gaps) {
+      expect(gap).toBeGreaterThan(0.06);
+      expect(gap).toBeLessThan(0.085);
+    }
+  });
+
+  it('keeps the base hue across the scale', () => {
+    const ramp = generateRamp('#F59E0B');
+    const hue = hexToOklch('#F59E0B').h;
+    for (const step of [100, 300, 500, 700, 900] as const) {
+      expect(getHueDistance(hexToOklch(ramp[step]).h, hue)).toBeLessThan(8);
+    }
+  });
+
+  it('keeps neutrals close to gray', () => {
+    const ramp = generateNeutralRamp(colors.text, colors.bg);
+    for (const step of RAMP_STEPS) {
+      expect(hexToOklch(ramp[step]).c).toBeLessThanOrEqual(0.021);
+    }
+  });
+});
+
+describe('brand ramps', () => {
+  it('covers primary, accent, neutral and every surface', () => {
+    expect(getBrandRamps(colors).map((r) => r.name)).toEqual([
+      'primary',
+      'accent',
+      'neutral',
+      'surface-1',
+      'surface-2',
+    ]);
+    expect(getBrandRamps(colors)[3].label).toBe('Surface 1');
+  });
+
+  it('parses and resolves step references', () => {
+    expect(parseRampStepRef('surface-2.50')).toEqual({ name: 'surface-2', step: 50 });
+    expect(parseRampStepRef('primary.550')).toBeNull();
+    expect(parseRampStepRef('surface-0.50')).toBeNull();
+    expect(resolveRampStep('accent.500', colors)).toBe(generateRamp(colors.accent)[500]);
+    expect(resolveRampStep('surface-3.500', colors)).toBeNull();
+
+    expect(isSurfaceRef(2)).toBe(true);
+    expect(isSurfaceRef('neutral.950')).toBe(true);
+    expect(isSurfaceRef(-1)).toBe(false);
+    expect(isSurfaceRef('secondary.500')).toBe(false);
+  });
+
+  it('emits one custom property per step', () => {
+    const lines = buildRampCSSLines(colors);
+    expect(lines).toHaveLength(5 * RAMP_STEPS.length);
+    expect(lines).toContain(`--color-neutral-50: ${generateNeutralRamp(colors.text, colors.bg)[50]};`);
+  });
+});
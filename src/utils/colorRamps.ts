@@ -0,0 +1,160 @@
+/**
+ * Color Ramps
+ *
+ * 50–950 tint/shade scales for the brand colors, in the familiar Tailwind
+ * step names. Steps are spaced evenly in OKLCH lightness, so 100→200 looks
+ * like the same jump as 700→800 whatever the hue, and every step keeps the
+ * base hue. Chroma tapers toward the ends of the scale where sRGB can't
+ * hold it anyway.
+ *
+ * Ramps exist for `primary`, `accent`, a neutral derived from `text`/`bg`
+ * and each entry in `surfaces`. Tiles reference a step with a string like
+ * `primary.300` or `surface-2.50` wherever they would otherwise store a
+ * surface index (see `SurfaceRef`).
+ *
+ * @module utils/colorRamps
+ */
+import type { Colors } from '../store/useBrandStore';
+import { hexToOklch, oklchToHex } from './oklch';
+
+export const RAMP_STEPS = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950] as const;
+
+export type RampStep = (typeof RAMP_STEPS)[number];
+
+/** Hex color for every step of a ramp. */
+export type ColorRamp = Record<RampStep, string>;
+
+export type RampName = 'primary' | 'accent' | 'neutral' | `surface-${number}`;
+
+/** Reference to one ramp step, e.g. `primary.300` or `surface-2.50`. */
+export type RampStepRef = `${RampName}.${RampStep}`;
+
+/** What a tile's surface points at: a `surfaces` index or a ramp step. */
+export type SurfaceRef = number | RampStepRef;
+
+export interface NamedRamp {
+  name: RampName;
+  label: string;
+  base: string;
+  ramp: ColorRamp;
+}
+
+/** Colors the ramps are built from. */
+export type RampColors = Pick<Colors, 'primary' | 'accent' | 'text' | 'bg' | 'surfaces'>;
+
+/** OKLCH lightness of step 50 and step 950 */
+const LIGHTEST = 0.97;
+const DARKEST = 0.26;
+
+/** Share of the base chroma kept at the far end of the scale */
+const MIN_CHROMA_SHARE = 0.4;
+
+/** Lightness distance over which chroma tapers to `MIN_CHROMA_SHARE` */
+const TAPER_DISTANCE = 0.6;
+
+/** Neutrals keep a hint of the brand hue, no more */
+const NEUTRAL_MAX_CHROMA = 0.02;
+
+const REF_PATTERN = /^(primary|accent|neutral|surface-([1-9]\d*))\.(\d+)$/;
+
+/** OKLCH lightness (0-1) of a step; evenly spaced from 50 to 950. */
+export const getRampStepLightness = (step: RampStep): number => {
+  const index = RAMP_STEPS.indexOf(step);
+  return LIGHTEST - ((LIGHTEST - DARKEST) * index) / (RAMP_STEPS.length - 1);
+};
+
+/**
+ * Build a 50–950 ramp around a base color.
+ *
+ * @param hex - Base color; its hue and chroma carry through the ramp
+ * @param maxChroma - Optional chroma cap (used for neutrals)
+ */
+export const generateRamp = (hex: string, maxChroma = Infinity): ColorRamp => {
+  const base = hexToOklch(hex);
+  const chroma = Math.min(base.c, maxChroma);
+
+  const ramp = {} as ColorRamp;
+  for (const step of RAMP_STEPS) {
+    const l = getRampStepLightness(step);
+    const taper = Math.min(1, Math.abs(l - base.l) / TAPER_DISTANCE);
+    ramp[step] = oklchToHex({ l, c: chroma * (1 - (1 - MIN_CHROMA_SHARE) * taper), h: base.h });
+  }
+  return ramp;
+};
+
+/**
+ * Neutral ramp from text and background: the hue of whichever is more
+ * colorful, with chroma capped so the grays stay gray.
+ */
+export const generateNeutralRamp = (text: string, bg: string): ColorRamp => {
+  const tinted = hexToOklch(text).c >= hexToOklch(bg).c ? text : bg;
+  return generateRamp(tinted, NEUTRAL_MAX_CHROMA);
+};
+
+const rampLabel = (name: RampName): string =>
+  name.startsWith('surface-')
+    ? `Surface ${name.slice('surface-'.length)}`
+    : name.charAt(0).toUpperCase() + name.slice(1);
+
+/** Base color a ramp is built from, or null when it doesn't exist. */
+const getRampBase = (name: RampName, colors: RampColors): string | null => {
+  if (name === 'primary' || name === 'accent') return colors[name];
+  if (name === 'neutral') return null;
+  return colors.surfaces[Number(name.slice('surface-'.length)) - 1] ?? null;
+};
+
+/** Build a single named ramp; null for a surface that doesn't exist. */
+export const getBrandRamp = (name: RampName, colors: RampColors): ColorRamp | null => {
+  if (name === 'neutral') return generateNeutralRamp(colors.text, colors.bg);
+  const base = getRampBase(name, colors);
+  return base ? generateRamp(base) : null;
+};
+
+/** Every brand ramp, in display order: primary, accent, neutral, surfaces. */
+export const getBrandRamps = (colors: RampColors): NamedRamp[] => {
+  const names: RampName[] = [
+    'primary',
+    'accent',
+    'neutral',
+    ...colors.surfaces.map((_, i) => `surface-${i + 1}` as const),
+  ];
+  return names.map((name) => ({
+    name,
+    label: rampLabel(name),
+    base: getRampBase(name, colors) ?? colors.text,
+    ramp: getBrandRamp(name, colors) as ColorRamp,
+  }));
+};
+
+/** Split a ramp step reference; null when it isn't one. */
+export const parseRampStepRef = (value: unknown): { name: RampName; step: RampStep } | null => {
+  if (typeof value !== 'string') return null;
+  const match = REF_PATTERN.exec(value);
+  if (!match) return null;
+  const step = Number(match[3]);
+  if (!(RAMP_STEPS as readonly number[]).includes(step)) return null;
+  return { name: match[1] as RampName, step: step as RampStep };
+};
+
+export const isRampStepRef = (value: unknown): value is RampStepRef => parseRampStepRef(value) !== null;
+
+/** Whether a value can be stored as a tile surface. */
+export const isSurfaceRef = (value: unknown): value is SurfaceRef =>
+  (typeof value === 'number' && Number.isInteger(value) && value >= 0) || isRampStepRef(value);
+
+/** Hex color a ramp step reference points at, or null if it can't be resolved. */
+export const resolveRampStep = (ref: RampStepRef, colors: RampColors): string | null => {
+  const parsed = parseRampStepRef(ref);
+  if (!parsed) return null;
+  return getBrandRamp(parsed.name, colors)?.[parsed.step] ?? null;
+};
+
+/** CSS custom properties for every ramp, e.g. `--color-primary-500`. */
+export const buildRampCSSLines = (colors: RampColors): string[] =>
+  getBrandRamps(colors).flatMap(({ name, ramp }) =>
+    RAMP_STEPS.map((step) => `--color-${name}-${step}: ${ramp[step]};`)
+  );
+
+/** Ramps keyed by name and step, for JSON export. */
+export const buildRampRecord = (colors: RampColors): Record<string, ColorRamp> =>
+  Object.fromEntries(getBrandRamps(colors).map(({ name, ramp }) => [name, ramp]));
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import {
+  deriveSchemeColors,
+  getBrandSchemes,
+  getColorScheme,
+  getDerivedSchemeColors,
+  mirrorLightness,
+} from './colorScheme';
+import { getContrastRatio } from './colorMapping';
+import { getHueDistance, hexToOklch } from './oklch';
+import { DEFAULT_BRAND } from '../data/brandPresets';
+import type { Colors } from '../store/useBrandStore';
+
+const light: Colors = {
+  ...DEFAULT_BRAND.colors,
+  bg: '#FAFAF7',
+  text: '#1A1A2E',
+  primary: '#1D4ED8',
+  accent: '#F59E0B',
+  surface: '#F3EFE7',
+  surfaces: ['#F3EFE7', '#E5E7EB'],
+  columnOverrides: { surface: { text: '#222222' }, primary: { tone: '#0B2A80' } },
+};
+
+describe('deriveSchemeColors', () => {
+  it('turns a light brand dark with readable text and primary', () => {
+    const dark = deriveSchemeColors(light);
+    expect(getColorScheme(light)).toBe('light');
+    expect(getColorScheme(dark)).toBe('dark');
+    expect(getContrastRatio(dark.text, dark.bg)).toBeGreaterThanOrEqual(4.5);
+    expect(getContrastRatio(dark.primary, dark.bg)).toBeGreaterThanOrEqual(3);
+    expect(dark.surfaces).toHaveLength(2);
+  });
+
+  it('turns a dark brand light', () => {
+    const derived = deriveSchemeColors({ ...light, bg: '#111827', text: '#F9FAFB', surface: '#1F2937', surfaces: ['#1F2937'] });
+    expect(getColorScheme(derived)).toBe('light');
+    expect(getContrastRatio(derived.text, derived.bg)).toBeGreaterThanOrEqual(4.5);
+  });
+
+  it('keeps hue when mirroring lightness', () => {
+    const mirrored = mirrorLightness('#F3EFE7');
+    expect(hexToOklch(mirrored).l).toBeLessThan(0.3);
+    expect(getHueDistance(hexToOklch(mirrored).h, hexToOklch('#F3EFE7').h)).toBeLessThan(15);
+  });
+
+  it('mirrors surface column overrides and keeps the others', () => {
+    const dark = deriveSchemeColors(light);
+    expect(dark.columnOverrides?.primary).toEqual({ tone: '#0B2A80' });
+    expect(dark.columnOverrides?.surface?.text).toBe(mirrorLightness('#222222'));
+  });
+
+  it('applies manual overrides, still enforcing contrast', () => {
+    const dark = deriveSchemeColors({ ...light, schemeOverrides: { bg: '#0A0A23', surface: '#22223B', text: '#101010' } });
+    expect(dark.bg).toBe('#0A0A23');
+    expect(dark.surface).toBe('#22223B');
+    expect(dark.surfaces[0]).toBe('#22223B');
+    expect(getContrastRatio(dark.text, dark.bg)).toBeGreaterThanOrEqual(4.5);
+  });
+
+  it('caches per colors object and keys both schemes by name', () => {
+    expect(getDerivedSchemeColors(light)).toBe(getDerivedSchemeColors(light));
+    const schemes = getBrandSchemes(light);
+    expect(schemes.light).toBe(light);
+    expect(schemes.dark).toBe(getDerivedSchemeColors(light));
+  });
+});
@@ -0,0 +1,108 @@
+/**
+ * Color Schemes
+ *
+ * Derives the opposite scheme of the brand colors — a dark variant for a
+ * light brand, a light variant for a dark one. Background, text and
+ * surfaces mirror their OKLCH lightness at the same hue and chroma;
+ * primary and accent carry over and are nudged by `enforceContrast` until
+ * they read on the new background.
+ *
+ * Per-role overrides (`colors.schemeOverrides`) replace the mirrored value
+ * before contrast enforcement, so the guarantees hold for them too.
+ *
+ * @module utils/colorScheme
+ */
+import type { Colors } from '../store/useBrandStore';
+import { enforceContrast } from './colorMapping';
+import { PERCEPTUAL_LIGHTNESS_THRESHOLD } from './colorDefaults';
+import { hexToOklch, oklchToHex } from './oklch';
+
+export type ColorScheme = 'light' | 'dark';
+
+/** Roles that can be overridden in the derived scheme. */
+export type SchemeRole = keyof NonNullable<Colors['schemeOverrides']>;
+
+export const SCHEME_ROLES: SchemeRole[] = ['bg', 'text', 'primary', 'accent', 'surface'];
+
+/**
+ * Mirrored lightness is `MIRROR_SUM - l`: white lands on a soft near-black
+ * (~0.18) and a near-black text on an off-white.
+ */
+const MIRROR_SUM = 1.18;
+const MIN_LIGHTNESS = 0.14;
+const MAX_LIGHTNESS = 0.98;
+
+/** Whether colors are a light or dark scheme, judged by the background. */
+export const getColorScheme = (colors: Pick<Colors, 'bg'>): ColorScheme =>
+  hexToOklch(colors.bg).l * 100 >= PERCEPTUAL_LIGHTNESS_THRESHOLD ? 'light' : 'dark';
+
+export const getOppositeScheme = (scheme: ColorScheme): ColorScheme =>
+  scheme === 'light' ? 'dark' : 'light';
+
+/** Flip a color's perceptual lightness, keeping hue and chroma. */
+export const mirrorLightness = (hex: string): string => {
+  const { l, c, h } = hexToOklch(hex);
+  return oklchToHex({ l: Math.min(MAX_LIGHTNESS, Math.max(MIN_LIGHTNESS, MIRROR_SUM - l)), c, h });
+};
+
+/** Mirror the column overrides whose column background is mirrored. */
+const deriveColumnOverrides = (overrides: Colors['columnOverrides']): Colors['columnOverrides'] => {
+  if (!overrides?.surface) return overrides && { ...overrides };
+  const surface = Object.fromEntries(
+    Object.entries(overrides.surface).map(([role, hex]) => [role, hex && mirrorLightness(hex)])
+  );
+  return { ...overrides, surface };
+};
+
+/**
+ * Derive the opposite scheme of a set of brand colors.
+ *
+ * Column overrides follow their column: surface overrides mirror with
+ * the surface, primary and accent overrides carry over with those colors.
+ */
+export const deriveSchemeColors = (colors: Colors): Colors => {
+  const overrides = colors.schemeOverrides ?? {};
+  const surface = overrides.surface ?? mirrorLightness(colors.surface);
+  const surfaces = colors.surfaces.map(mirrorLightness);
+  if (overrides.surface && surfaces.length > 0) surfaces[0] = overrides.surface;
+
+  const mapping = enforceContrast({
+    bg: overrides.bg ?? mirrorLightness(colors.bg),
+    text: overrides.text ?? mirrorLightness(colors.text),
+    primary: overrides.primary ?? colors.primary,
+    accent: overrides.accent ?? colors.accent,
+    surface,
+    surfaces,
+    paletteColors: colors.paletteColors,
+  });
+
+  return {
+    ...mapping,
+    surface,
+    columnOverrides: deriveColumnOverrides(colors.columnOverrides),
+  };
+};
+
+const derivedCache = new WeakMap<Colors, Colors>();
+
+/**
+ * Cached `deriveSchemeColors`, keyed by the colors object. Store selectors
+ * use it so components get the same derived object until the colors change.
+ */
+export const getDerivedSchemeColors = (colors: Colors): Colors => {
+  let derived = derivedCache.get(colors);
+  if (!derived) {
+    derived = deriveSchemeColors(colors);
+    derivedCache.set(colors, derived);
+  }
+  return derived;
+};
+
+/** Both schemes of the brand colors, keyed by scheme name. */
+export const getBrandSchemes = (colors: Colors): Record<ColorScheme, Colors> => {
+  const scheme = getColorScheme(colors);
+  return {
+    [scheme]: colors,
+    [getOppositeScheme(scheme)]: getDerivedSchemeColors(colors),
+  } as Record<ColorScheme, Colors>;
+};
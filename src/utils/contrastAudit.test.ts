@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { applyContrastFix, auditBoard, type ContrastAuditInput } from './contrastAudit';
+import { DEFAULT_BRAND } from '../data/brandPresets';
+import { INITIAL_TILES } from '../data/tileDefaults';
+import { BENTO_LAYOUTS } from '../config/bentoLayouts';
+import type { Colors, Tile } from '../store/useBrandStore';
+
+const colors: Colors = {
+  ...DEFAULT_BRAND.colors,
+  bg: '#FAFAF7',
+  text: '#1A1A2E',
+  primary: '#1D4ED8',
+  accent: '#F59E0B',
+  surface: '#F3EFE7',
+  // Index 1 is a mid gray: brand text and the light fallback both fail on it
+  surfaces: ['#F3EFE7', '#8A8A8A', '#E5E7EB'],
+};
+
+const tile = (id: string, type: string, content: Tile['content'] = {}): Tile => ({
+  id,
+  type,
+  content,
+  colSpan: 1,
+  rowSpan: 1,
+});
+
+const makeInput = (overrides: Partial<ContrastAuditInput> = {}): ContrastAuditInput => ({
+  brand: { colors, logo: { ...DEFAULT_BRAND.logo }, ui: { ...DEFAULT_BRAND.ui } },
+  tiles: [],
+  tileSurfaces: {},
+  placementContent: {},
+  placementSwaps: {},
+  placements: [],
+  preset: 'balanced',
+  ...overrides,
+});
+
+const at = (id: string) => ({ id, colStart: 1, rowStart: 1, colSpan: 1, rowSpan: 1 });
+
+describe('auditBoard', () => {
+  it('checks every rendered pair of the default board', () => {
+    const checks = auditBoard(makeInput({
+      brand: { ...DEFAULT_BRAND },
+      tiles: INITIAL_TILES,
+      placements: BENTO_LAYOUTS.balanced.desktop.placements,
+    }));
+    const placementIds = BENTO_LAYOUTS.balanced.desktop.placements.map((p) => p.id);
+
+    expect(checks.length).toBeGreaterThan(0);
+    for (const check of checks) {
+      expect(placementIds).toContain(check.placementId);
+      expect(check.ratio).toBeGreaterThanOrEqual(1);
+      expect(check.passes).toBe(check.aa && check.apcaPass);
+    }
+  });
+
+  it('flags text on a low-contrast surface and fixes it with a passing surface', () => {
+    const input = makeInput({
+      tiles: [tile('editorial-1', 'editorial')],
+      placements: [at('editorial')],
+    });
+    const [check] = auditBoard(input);
+
+    expect(check).toMatchObject({ placementId: 'editorial', tileType: 'editorial', element: 'Text', bg: '#8A8A8A', aa: false, passes: false });
+    expect(check.fix?.kind).toBe('surface');
+
+    const [fixed] = auditBoard(applyContrastFix(input, check.fix!));
+    expect(fixed.passes).toBe(true);
+  });
+
+  it('scores hero headlines against the overlay on a worst-case image', () => {
+    const input = makeInput({
+      tiles: [tile('hero-1', 'hero', { heroOverlayOpacity: 10 })],
+      placements: [at('hero')],
+    });
+    const [check] = auditBoard(input);
+
+    expect(check.element).toBe('Headline on image');
+    expect(check.passes).toBe(false);
+    expect(check.fix).toMatchObject({ kind: 'tile', tileId: 'hero-1', content: { heroOverlayEnabled: true } });
+    expect(auditBoard(applyContrastFix(input, check.fix!))[0].passes).toBe(true);
+  });
+
+  it('skips image-only heroes', () => {
+    const input = makeInput({
+      tiles: [tile('hero-1', 'hero', { heroVariation: 'image' })],
+      placements: [at('hero')],
+    });
+    expect(auditBoard(input)).toEqual([]);
+  });
+
+  it('follows placement swaps to the tile that renders in the slot', () => {
+    const input = makeInput({
+      tiles: [tile('hero-1', 'hero', { heroVariation: 'image' }), tile('slot-a', 'logo')],
+      placements: [at('hero')],
+      placementSwaps: { hero: 'a', a: 'hero' },
+    });
+    const [check] = auditBoard(input);
+    expect(check).toMatchObject({ placementId: 'hero', tileId: 'slot-a', tileType: 'logo' });
+  });
+
+  it('suggests a logo color when the logo text fails on its background', () => {
+    const input = makeInput({
+      brand: { colors, logo: { ...DEFAULT_BRAND.logo, color: '#2A44C8' }, ui: { ...DEFAULT_BRAND.ui } },
+      tiles: [tile('logo-1', 'logo')],
+      placements: [at('logo')],
+    });
+    const [check] = auditBoard(input);
+
+    expect(check.passes).toBe(false);
+    expect(check.fix?.kind).toBe('logo');
+    expect(auditBoard(applyContrastFix(input, check.fix!))[0].passes).toBe(true);
+  });
+});
@@ -0,0 +1,524 @@
+/**
+ * Contrast Audit
+ *
+ * Walks every placement of the active layout and checks the foreground /
+ * background pairs each tile actually renders: text on its resolved
+ * surface, buttons, logos, icons and symbols, and headlines over hero
+ * images. The color logic mirrors the tile components (surface defaults,
+ * `getAdaptiveTextColor` thresholds, per-tile overrides), so the audit
+ * reports what is on the canvas rather than just text on bg.
+ *
+ * Each pair is scored against WCAG 2.1 (AA / AAA) and APCA. Failing pairs
+ * get a fix — a tile surface, a content override or a logo / button
+ * color — that has been verified to make that pair pass.
+ *
+ * Text over images assumes the worst case: the image is pure white or
+ * pure black behind the headline, whichever reads worse, under the
+ * overlay strength at the headline's position.
+ *
+ * @module utils/contrastAudit
+ */
+import type { Brand, Colors, Logo, Tile, TileContent, UISettings } from '../store/useBrandStore';
+import type { CellPlacement, LayoutKey } from '../config/bentoLayouts';
+import {
+  getPlacementKind,
+  getPlacementTileId,
+  getPlacementTileType,
+  resolveSwappedId,
+  type PlacementKind,
+} from '../config/placements';
+import { adjustForContrast, getApcaContrast, getContrastRatio, hexToHSL, mixHex } from './colorMapping';
+import { getAdaptiveTextColor } from './color';
+import { COLOR_DEFAULTS, IMAGE_OVERLAY_TEXT } from './colorDefaults';
+import { getBrandRamps, RAMP_STEPS, type SurfaceRef } from './colorRamps';
+import { getOklabDistance } from './oklch';
+import { resolveSurfaceColor } from './surface';
+
+/** Text size class: `large` covers headlines, logos, icons and symbols. */
+export type ContrastSize = 'text' | 'large';
+
+/** WCAG 2.1 minimum ratios per size. */
+export const WCAG_MIN_RATIO: Record<ContrastSize, { aa: number; aaa: number }> = {
+  text: { aa: 4.5, aaa: 7 },
+  large: { aa: 3, aaa: 4.5 },
+};
+
+/** APCA minimum |Lc| per size: fluent text and headlines. */
+export const APCA_MIN_LC: Record<ContrastSize, number> = {
+  text: 60,
+  large: 45,
+};
+
+/** A change that resolves a failing pair, applied through the store. */
+export type ContrastFix =
+  | { kind: 'surface'; label: string; placementId: string; surface: SurfaceRef }
+  | { kind: 'tile'; label: string; tileId: string; content: Partial<TileContent> }
+  | { kind: 'placement'; label: string; placementId: string; content: Partial<TileContent> }
+  | { kind: 'logo'; label: string; logo: Partial<Logo> }
+  | { kind: 'ui'; label: string; ui: Partial<UISettings> };
+
+export interface ContrastAuditInput {
+  /** Colors as rendered on the canvas (see `selectCanvasColors`) */
+  brand: Pick<Brand, 'colors' | 'logo' | 'ui'>;
+  tiles: Tile[];
+  tileSurfaces: Record<string, SurfaceRef | undefined>;
+  placementContent: Record<string, TileContent>;
+  placementSwaps: Record<string, string>;
+  /** Placements of the active layout and breakpoint */
+  placements: CellPlacement[];
+  preset: LayoutKey;
+}
+
+export interface ContrastCheck {
+  placementId: string;
+  tileId?: string;
+  tileType: string;
+  /** What is being checked, e.g. "Text" or "Button label" */
+  element: string;
+  fg: string;
+  bg: string;
+  size: ContrastSize;
+  /** WCAG 2.1 contrast ratio */
+  ratio: number;
+  aa: boolean;
+  aaa: boolean;
+  /** APCA lightness contrast (signed) */
+  apca: number;
+  apcaPass: boolean;
+  /** Passes both WCAG AA and the APCA minimum */
+  passes: boolean;
+  /** Verified fix, only for failing checks that have one */
+  fix?: ContrastFix;
+}
+
+// ============================================
+// TILE MODELS
+// ============================================
+
+interface TileContext {
+  placementId: string;
+  tileId?: string;
+  content: TileContent;
+  colors: Colors;
+  logo: Logo;
+  ui: UISettings;
+  /** The tile's resolved surface color */
+  surface: string;
+}
+
+interface AuditPair {
+  element: string;
+  fg: string;
+  bg: string;
+  size: ContrastSize;
+  /** The pair changes with the tile surface, so a surface fix can help */
+  onSurface?: boolean;
+  /** Fix candidates, tried in order */
+  fixes?: ContrastFix[];
+}
+
+interface TileModel {
+  /** Surface index used when the placement has no surface of its own */
+  defaultIndex: number;
+  /** Only use a surface when one is set explicitly, else the page bg */
+  surfaceOptIn?: boolean;
+  pairs: (ctx: TileContext) => AuditPair[];
+}
+
+/**
+ * Override candidates for a color that should read on `against`: nudged
+ * to the AA ratio first, then AAA in case APCA still falls short.
+ */
+const adjustments = (
+  color: string,
+  against: string,
+  size: ContrastSize,
+  toFix: (adjusted: string) => ContrastFix
+): ContrastFix[] =>
+  [WCAG_MIN_RATIO[size].aa, WCAG_MIN_RATIO[size].aaa].map((ratio) => toFix(adjustForContrast(color, against, ratio)));
+
+/** Most tiles: brand text, or light text on dark surfaces. */
+const adaptiveText = (ctx: TileContext): AuditPair => ({
+  element: 'Text',
+  fg: getAdaptiveTextColor(ctx.surface, ctx.colors.text, COLOR_DEFAULTS.TEXT_LIGHT),
+  bg: ctx.surface,
+  size: 'text',
+  onSurface: true,
+});
+
+/** Button label on its fill (or the tile surface for outline / soft). */
+const buttonLabel = (ctx: TileContext): AuditPair => {
+  const color = ctx.ui.buttonColor || ctx.colors.primary;
+  const setColor = (against: string) => adjustments(color, against, 'text', (buttonColor) => ({
+    kind: 'ui',
+    label: 'Adjust button color',
+    ui: { buttonColor },
+  }));
+
+  if (ctx.ui.buttonStyle === 'outline' || ctx.ui.buttonStyle === 'soft') {
+    const bg = ctx.ui.buttonStyle === 'soft' ? mixHex(color, ctx.surface, 0.12) : ctx.surface;
+    return { element: 'Button label', fg: color, bg, size: 'text', onSurface: true, fixes: setColor(bg) };
+  }
+  const label = getAdaptiveTextColor(color, COLOR_DEFAULTS.TEXT_DARK, COLOR_DEFAULTS.WHITE);
+  return { element: 'Button label', fg: label, bg: color, size: 'text', fixes: setColor(label) };
+};
+
+/** Overlay color and opacity (0–1) where the hero headline sits. */
+const getHeroOverlay = (content: TileContent): { color: string; opacity: number } | null => {
+  if (!(content.heroOverlayEnabled ?? true)) return null;
+  const opacity = (content.heroOverlayOpacity ?? 50) / 100;
+  const align = content.heroAlignV || 'bottom';
+  const gradient = content.heroOverlayGradient;
+  // Mirrors HeroTile's stops: solid overlays ramp 30% → 60% → 100%,
+  // two-color gradients 50% → 100%.
+  if (gradient) {
+    if (align === 'top') return { color: gradient.color1, opacity: opacity * 0.5 };
+    return { color: gradient.color2, opacity: align === 'center' ? opacity * 0.75 : opacity };
+  }
+  const color = content.heroOverlayColor || '#000000';
+  if (align === 'top') return { color, opacity: opacity * 0.3 };
+  return { color, opacity: align === 'center' ? opacity * 0.6 : opacity };
+};
+
+const heroHeadline = (ctx: TileContext): AuditPair[] => {
+  const { content, colors, tileId } = ctx;
+  const variation = content.heroVariation || 'image-headline';
+  if (variation === 'image') return [];
+
+  const setTextColor = (fg: string, bg: string): ContrastFix[] => (tileId
+    ? adjustments(fg, bg, 'large', (heroTextColor) => ({
+      kind: 'tile',
+      label: 'Adjust headline color',
+      tileId,
+      content: { heroTextColor },
+    }))
+    : []);
+
+  if (variation === 'solid-headline') {
+    const fg = content.heroTextColor || colors.text;
+    return [{ element: 'Headline', fg, bg: colors.primary, size: 'large', fixes: setTextColor(fg, colors.primary) }];
+  }
+
+  // Headline over an image: score against white and black images under
+  // the overlay and keep the worse of the two.
+  const fg = content.heroTextColor || IMAGE_OVERLAY_TEXT;
+  const overlay = getHeroOverlay(content);
+  const backdrop = (image: string) => (overlay ? mixHex(overlay.color, image, overlay.opacity) : image);
+  const bg = [backdrop('#FFFFFF'), backdrop('#000000')]
+    .reduce((worst, candidate) => (getContrastRatio(fg, candidate) < getContrastRatio(fg, worst) ? candidate : worst));
+
+  const fixes: ContrastFix[] = [];
+  const current = content.heroOverlayOpacity ?? 50;
+  if (tileId) {
+    for (let opacity = Math.ceil((current + 1) / 5) * 5; opacity <= 100; opacity += 5) {
+      fixes.push({
+        kind: 'tile',
+        label: `Raise overlay to ${opacity}%`,
+        tileId,
+        content: { heroOverlayEnabled: true, heroOverlayOpacity: opacity },
+      });
+    }
+  }
+  fixes.push(...setTextColor(fg, bg));
+  return [{ element: 'Headline on image', fg, bg, size: 'large', fixes }];
+};
+
+const TEXT_TILE: TileModel = { defaultIndex: 1, pairs: (ctx) => [adaptiveText(ctx)] };
+const TEXT_TILE_FLAT: TileModel = { defaultIndex: 0, pairs: (ctx) => [adaptiveText(ctx)] };
+
+/** Color models per tile type, mirroring the tile components. */
+const TILE_MODELS: Record<string, TileModel> = {
+  card: TEXT_TILE,
+  product: TEXT_TILE,
+  editorial: TEXT_TILE,
+  menu: TEXT_TILE,
+  utility: TEXT_TILE,
+  'split-list': TEXT_TILE,
+  'color-blocks': TEXT_TILE_FLAT,
+  specimen: TEXT_TILE_FLAT,
+  stats: TEXT_TILE_FLAT,
+  messaging: { defaultIndex: 2, pairs: (ctx) => [adaptiveText(ctx)] },
+  'app-icon': {
+    defaultIndex: 1,
+    pairs: (ctx) => [
+      adaptiveText(ctx),
+      {
+        element: 'App icon',
+        fg: getAdaptiveTextColor(ctx.colors.primary, '#ffffff', '#000000'),
+        bg: ctx.colors.primary,
+        size: 'large',
+      },
+    ],
+  },
+  'logo-symbol': {
+    defaultIndex: 1,
+    pairs: (ctx) => {
+      const { content, tileId } = ctx;
+      const text = adaptiveText(ctx);
+      const containerBg = content.symbolBg ? content.symbolBgColor || ctx.colors.primary : null;
+      const bg = containerBg ?? ctx.surface;
+      const fg = content.symbolColor
+        || (containerBg ? getAdaptiveTextColor(containerBg, COLOR_DEFAULTS.TEXT_DARK, COLOR_DEFAULTS.WHITE) : text.fg);
+      return [text, {
+        element: 'Symbol',
+        fg,
+        bg,
+        size: 'large',
+        onSurface: !containerBg,
+        fixes: tileId
+          ? adjustments(fg, bg, 'large', (symbolColor) => ({
+            kind: 'tile',
+            label: 'Adjust symbol color',
+            tileId,
+            content: { symbolColor },
+          }))
+          : [],
+      }];
+    },
+  },
+  'split-hero': {
+    defaultIndex: 0,
+    pairs: (ctx) => (ctx.content.ctaHidden ? [adaptiveText(ctx)] : [adaptiveText(ctx), buttonLabel(ctx)]),
+  },
+  'ui-preview': {
+    defaultIndex: 1,
+    pairs: (ctx) => {
+      const isLight = hexToHSL(ctx.surface).l > 55;
+      return [
+        { element: 'Text', fg: mixHex(ctx.colors.text, ctx.surface, isLight ? 0.8 : 0.75), bg: ctx.surface, size: 'text', onSurface: true },
+        buttonLabel(ctx),
+      ];
+    },
+  },
+  social: {
+    defaultIndex: 1,
+    pairs: (ctx) => {
+      const isLight = hexToHSL(ctx.surface).l > 55;
+      const cardBg = ctx.content.socialCardBg === 'surface'
+        ? ctx.surface
+        : isLight ? COLOR_DEFAULTS.WHITE : mixHex(ctx.surface, COLOR_DEFAULTS.WHITE, 0.8);
+      const fg = mixHex(ctx.colors.text, cardBg, isLight ? 0.85 : 0.8);
+      return [{ element: 'Post text', fg, bg: cardBg, size: 'text', onSurface: true }];
+    },
+  },
+  'business-card': {
+    defaultIndex: 0,
+    pairs: (ctx) => {
+      // The card itself is always white; light brand text switches to near-black
+      const fg = hexToHSL(ctx.colors.text).l > 55 ? '#1a1a1a' : ctx.colors.text;
+      return [{ element: 'Card text', fg, bg: COLOR_DEFAULTS.WHITE, size: 'text' }];
+    },
+  },
+  icons: {
+    defaultIndex: 0,
+    pairs: (ctx) => {
+      const { surface, colors, placementId } = ctx;
+      const surfaceL = hexToHSL(surface).l;
+      const primaryContrast = Math.abs(surfaceL - hexToHSL(colors.primary).l);
+      const auto = primaryContrast > 25
+        ? colors.primary
+        : surfaceL > 55 ? COLOR_DEFAULTS.TEXT_DARK : COLOR_DEFAULTS.TEXT_LIGHT;
+      const fg = ctx.content.iconColor || auto;
+      return [{
+        element: 'Icons',
+        fg,
+        bg: surface,
+        size: 'large',
+        onSurface: true,
+        fixes: adjustments(fg, surface, 'large', (iconColor) => ({
+          kind: 'placement',
+          label: 'Adjust icon color',
+          placementId,
+          content: { iconColor },
+        })),
+      }];
+    },
+  },
+  swatch: {
+    defaultIndex: 0,
+    surfaceOptIn: true,
+    pairs: (ctx) => [{
+      element: 'Labels',
+      fg: hexToHSL(ctx.surface).l > 55 ? COLOR_DEFAULTS.TEXT_DARK : COLOR_DEFAULTS.WHITE,
+      bg: ctx.surface,
+      size: 'text',
+      onSurface: true,
+    }],
+  },
+  hero: { defaultIndex: 0, pairs: heroHeadline },
+  logo: {
+    defaultIndex: 0,
+    pairs: (ctx) => {
+      const bg = ctx.logo.bgColor || ctx.colors.primary || ctx.colors.bg;
+      const fg = ctx.logo.color || getAdaptiveTextColor(bg, COLOR_DEFAULTS.TEXT_DARK, COLOR_DEFAULTS.WHITE);
+      return [{
+        element: 'Logo',
+        fg,
+        bg,
+        size: 'large',
+        fixes: adjustments(fg, bg, 'large', (color) => ({ kind: 'logo', label: 'Adjust logo color', logo: { color } })),
+      }];
+    },
+  },
+};
+
+/** Tile types rendered for placements without a tile, by placement kind. */
+const FALLBACK_TYPES: Partial<Record<PlacementKind, string>> = {
+  identity: 'logo',
+  editorial: 'editorial',
+  social: 'social',
+  interface: 'ui-preview',
+  icons: 'swatch',
+  colors: 'swatch',
+};
+
+// ============================================
+// AUDIT
+// ============================================
+
+const findTile = (effectiveId: string, tiles: Tile[]): Tile | undefined => {
+  const tileId = getPlacementTileId(effectiveId);
+  const type = getPlacementTileType(effectiveId);
+  return (tileId && tiles.find((t) => t.id === tileId))
+    || (type ? tiles.find((t) => t.type === type) : undefined);
+};
+
+/** The tile type a placement renders, matching the canvas. */
+const getRenderedType = (effectiveId: string, tile: Tile | undefined, preset: LayoutKey): string | undefined => {
+  if (!tile) {
+    const kind = getPlacementKind(effectiveId);
+    return kind && FALLBACK_TYPES[kind];
+  }
+  // The spread layout shows social posts as plain images
+  if (preset === 'spread' && tile.type === 'social') return undefined;
+  return tile.type;
+};
+
+const score = (pair: AuditPair) => {
+  const ratio = getContrastRatio(pair.fg, pair.bg);
+  const apca = getApcaContrast(pair.fg, pair.bg);
+  const aa = ratio >= WCAG_MIN_RATIO[pair.size].aa;
+  const apcaPass = Math.abs(apca) >= APCA_MIN_LC[pair.size];
+  return { ratio, apca, aa, aaa: ratio >= WCAG_MIN_RATIO[pair.size].aaa, apcaPass, passes: aa && apcaPass };
+};
+
+interface PlacementAudit {
+  tileId?: string;
+  tileType: string;
+  surface: string;
+  pairs: AuditPair[];
+}
+
+const auditPlacement = (placementId: string, input: ContrastAuditInput): PlacementAudit | null => {
+  const effectiveId = resolveSwappedId(placementId, input.placementSwaps);
+  const tile = findTile(effectiveId, input.tiles);
+  const tileType = getRenderedType(effectiveId, tile, input.preset);
+  const model = tileType ? TILE_MODELS[tileType] : undefined;
+  if (!tileType || !model) return null;
+
+  const { colors, logo, ui } = input.brand;
+  const tileSurfaceIndex = input.tileSurfaces[placementId];
+  const surface = model.surfaceOptIn && tileSurfaceIndex === undefined
+    ? colors.bg
+    : resolveSurfaceColor({
+      placementId,
+      tileSurfaceIndex,
+      surfaces: colors.surfaces,
+      bg: colors.bg,
+      defaultIndex: model.defaultIndex,
+      colors,
+    });
+
+  // Hero and most tiles layer placement content over tile content;
+  // the symbol tile reads tile content only.
+  const content = tileType === 'logo-symbol'
+    ? tile?.content ?? {}
+    : { ...tile?.content, ...input.placementContent[placementId] };
+
+  const pairs = model.pairs({ placementId, tileId: tile?.id, content, colors, logo, ui, surface });
+  return { tileId: tile?.id, tileType, surface, pairs };
+};
+
+/** Apply a fix to audit input, as the store would. */
+export const applyContrastFix = (input: ContrastAuditInput, fix: ContrastFix): ContrastAuditInput => {
+  switch (fix.kind) {
+    case 'surface':
+      return { ...input, tileSurfaces: { ...input.tileSurfaces, [fix.placementId]: fix.surface } };
+    case 'tile':
+      return {
+        ...input,
+        tiles: input.tiles.map((t) => (t.id === fix.tileId ? { ...t, content: { ...t.content, ...fix.content } } : t)),
+      };
+    case 'placement':
+      return {
+        ...input,
+        placementContent: {
+          ...input.placementContent,
+          [fix.placementId]: { ...input.placementContent[fix.placementId], ...fix.content },
+        },
+      };
+    case 'logo':
+      return { ...input, brand: { ...input.brand, logo: { ...input.brand.logo, ...fix.logo } } };
+    case 'ui':
+      return { ...input, brand: { ...input.brand, ui: { ...input.brand.ui, ...fix.ui } } };
+  }
+};
+
+/** Every surface a tile can use — palette surfaces and ramp steps — nearest to `current` first. */
+const getSurfaceCandidates = (placementId: string, current: string, colors: Colors): ContrastFix[] => {
+  const options: { surface: SurfaceRef; color: string; label: string }[] = [
+    ...colors.surfaces.map((color, i) => ({ surface: i, color, label: `Use surface ${i + 1}` })),
+    ...getBrandRamps(colors).flatMap(({ name, label, ramp }) =>
+      RAMP_STEPS.map((step) => ({ surface: `${name}.${step}` as SurfaceRef, color: ramp[step], label: `Use ${label} ${step}` }))
+    ),
+  ];
+  return options
+    .filter((option) => option.color.toUpperCase() !== current.toUpperCase())
+    .sort((a, b) => getOklabDistance(a.color, current) - getOklabDistance(b.color, current))
+    .map(({ surface, label }): ContrastFix => ({ kind: 'surface', label, placementId, surface }));
+};
+
+/** First candidate that makes the element pass once applied. */
+const findFix = (
+  input: ContrastAuditInput,
+  placementId: string,
+  element: string,
+  candidates: ContrastFix[]
+): ContrastFix | undefined =>
+  candidates.find((fix) => {
+    const pair = auditPlacement(placementId, applyContrastFix(input, fix))?.pairs.find((p) => p.element === element);
+    return !!pair && score(pair).passes;
+  });
+
+/**
+ * Audit every placement of the active layout.
+ * Returns one check per rendered fg/bg pair, in placement order.
+ */
+export const auditBoard = (input: ContrastAuditInput): ContrastCheck[] =>
+  input.placements.flatMap(({ id: placementId }) => {
+    const audit = auditPlacement(placementId, input);
+    if (!audit) return [];
+
+    return audit.pairs.map((pair): ContrastCheck => {
+      const result = score(pair);
+      const check: ContrastCheck = {
+        placementId,
+        tileId: audit.tileId,
+        tileType: audit.tileType,
+        element: pair.element,
+        fg: pair.fg,
+        bg: pair.bg,
+        size: pair.size,
+        ...result,
+      };
+      if (result.passes) return check;
+
+      // Prefer the tile's own override, then the nearest passing surface
+      const candidates = [
+        ...(pair.fixes ?? []),
+        ...(pair.onSurface ? getSurfaceCandidates(placementId, audit.surface, input.brand.colors) : []),
+      ];
+      const fix = findFix(input, placementId, pair.element, candidates);
+      return fix ? { ...check, fix } : check;
+    });
+  });
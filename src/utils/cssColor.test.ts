@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { looksLikeColor, parseCssColor } from './cssColor';
+
+describe('parseCssColor', () => {
+  it('parses hex in every length', () => {
+    expect(parseCssColor('#f00')).toEqual({ hex: '#FF0000' });
+    expect(parseCssColor('#f008')).toEqual({ hex: '#FF0000', alpha: 0.533 });
+    expect(parseCssColor('#1d4ed8')).toEqual({ hex: '#1D4ED8' });
+    expect(parseCssColor('#1D4ED880')).toEqual({ hex: '#1D4ED8', alpha: 0.502 });
+    expect(parseCssColor('#12345')).toBeNull();
+  });
+
+  it('parses rgb() in legacy and modern syntax', () => {
+    expect(parseCssColor('rgb(29, 78, 216)')).toEqual({ hex: '#1D4ED8' });
+    expect(parseCssColor('rgba(29, 78, 216, 0.5)')).toEqual({ hex: '#1D4ED8', alpha: 0.5 });
+    expect(parseCssColor('rgb(100% 0% 0% / 25%)')).toEqual({ hex: '#FF0000', alpha: 0.25 });
+  });
+
+  it('parses hsl() with hue units', () => {
+    expect(parseCssColor('hsl(0, 100%, 50%)')).toEqual({ hex: '#FF0000' });
+    expect(parseCssColor('hsl(120deg 100% 25%)')).toEqual({ hex: '#008000' });
+    expect(parseCssColor('hsla(0.5turn, 100%, 50%, .4)')).toEqual({ hex: '#00FFFF', alpha: 0.4 });
+  });
+
+  it('parses oklch() and gamut-maps out-of-range chroma', () => {
+    expect(parseCssColor('oklch(100% 0 0)')).toEqual({ hex: '#FFFFFF' });
+    expect(parseCssColor('oklch(0.628 0.258 29.2)')?.hex).toMatch(/^#F[0-9A-F]0[0-9A-F]0[0-9A-F]$/);
+    expect(parseCssColor('oklch(0.7 0.5 150 / 0.3)')).toMatchObject({ alpha: 0.3 });
+  });
+
+  it('parses named colors and transparent', () => {
+    expect(parseCssColor('RebeccaPurple')).toEqual({ hex: '#663399' });
+    expect(parseCssColor('transparent')).toEqual({ hex: '#000000', alpha: 0 });
+    expect(parseCssColor('currentColor')).toBeNull();
+  });
+
+  it('rejects malformed functions', () => {
+    expect(parseCssColor('rgb(1, 2)')).toBeNull();
+    expect(parseCssColor('hsl(red, 1%, 1%)')).toBeNull();
+    expect(parseCssColor('lab(50 20 20)')).toBeNull();
+  });
+});
+
+describe('looksLikeColor', () => {
+  it('flags hex and color functions only', () => {
+    expect(looksLikeColor('#zzz')).toBe(true);
+    expect(looksLikeColor('rgb(oops)')).toBe(true);
+    expect(looksLikeColor('brand')).toBe(false);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * CSS Color Parsing
+ *
+ * Parses a single CSS color value — hex (3, 4, 6 or 8 digits),
+ * `rgb()`/`rgba()`, `hsl()`/`hsla()`, `oklch()` and the named colors —
+ * into an opaque 6-digit hex plus an optional alpha. Both the legacy
+ * comma syntax and the modern space syntax with `/ alpha` are accepted.
+ *
+ * `oklch()` colors outside sRGB are gamut-mapped by lowering chroma, the
+ * same way the rest of the app handles out-of-gamut colors.
+ *
+ * @module utils/cssColor
+ */
+import { oklchToHex } from './oklch';
+
+export interface ParsedCssColor {
+  /** Opaque color, `#RRGGBB` */
+  hex: string;
+  /** Alpha 0–1, only present when below 1 */
+  alpha?: number;
+}
+
+/** CSS Color Module Level 4 named colors. */
+export const NAMED_COLORS: Record<string, string> = {
+  aliceblue: '#F0F8FF', antiquewhite: '#FAEBD7', aqua: '#00FFFF', aquamarine: '#7FFFD4',
+  azure: '#F0FFFF', beige: '#F5F5DC', bisque: '#FFE4C4', black: '#000000',
+  blanchedalmond: '#FFEBCD', blue: '#0000FF', blueviolet: '#8A2BE2', brown: '#A52A2A',
+  burlywood: '#DEB887', cadetblue: '#5F9EA0', chartreuse: '#7FFF00', chocolate: '#D2691E',
+  coral: '#FF7F50', cornflowerblue: '#6495ED', cornsilk: '#FFF8DC', crimson: '#DC143C',
+  cyan: '#00FFFF', darkblue: '#00008B', darkcyan: '#008B8B', darkgoldenrod: '#B8860B',
+  darkgray: '#A9A9A9', darkgreen: '#006400', darkgrey: '#A9A9A9', darkkhaki: '#BDB76B',
+  darkmagenta: '#8B008B', darkolivegreen: '#556B2F', darkorange: '#FF8C00', darkorchid: '#9932CC',
+  darkred: '#8B0000', darksalmon: '#E9967A', darkseagreen: '#8FBC8F', darkslateblue: '#483D8B',
+  darkslategray: '#2F4F4F', darkslategrey: '#2F4F4F', darkturquoise: '#00CED1', darkviolet: '#9400D3',
+  deeppink: '#FF1493', deepskyblue: '#00BFFF', dimgray: '#696969', dimgrey: '#696969',
+  dodgerblue: '#1E90FF', firebrick: '#B22222', floralwhite: '#FFFAF0', forestgreen: '#228B22',
+  fuchsia: '#FF00FF', gainsboro: '#DCDCDC', ghostwhite: '#F8F8FF', gold: '#FFD700',
+  goldenrod: '#DAA520', gray: '#808080', green: '#008000', greenyellow: '#ADFF2F',
+  grey: '#808080', honeydew: '#F0FFF0', hotpink: '#FF69B4', indianred: '#CD5C5C',
+  indigo: '#4B0082', ivory: '#FFFFF0', khaki: '#F0E68C', lavender: '#E6E6FA',
+  lavenderblush: '#FFF0F5', lawngreen: '#7CFC00', lemonchiffon: '#FFFACD', lightblue: '#ADD8E6',
+  lightcoral: '#F08080', lightcyan: '#E0FFFF', lightgoldenrodyellow: '#FAFAD2', lightgray: '#D3D3D3',
+  lightgreen: '#90EE90', lightgrey: '#D3D3D3', lightpink: '#FFB6C1', lightsalmon: '#FFA07A',
+  lightseagreen: '#20B2AA', lightskyblue: '#87CEFA', lightslategray: '#778899', lightslategrey: '#778899',
+  lightsteelblue: '#B0C4DE', lightyellow: '#FFFFE0', lime: '#00FF00', limegreen: '#32CD32',
+  linen: '#FAF0E6', magenta: '#FF00FF', maroon: '#800000', mediumaquamarine: '#66CDAA',
+  mediumblue: '#0000CD', mediumorchid: '#BA55D3', mediumpurple: '#9370DB', mediumseagreen: '#3CB371',
+  mediumslateblue: '#7B68EE', mediumspringgreen: '#00FA9A', mediumturquoise: '#48D1CC', mediumvioletred: '#C71585',
+  midnightblue: '#191970', mintcream: '#F5FFFA', mistyrose: '#FFE4E1', moccasin: '#FFE4B5',
+  navajowhite: '#FFDEAD', navy: '#000080', oldlace: '#FDF5E6', olive: '#808000',
+  olivedrab: '#6B8E23', orange: '#FFA500', orangered: '#FF4500', orchid: '#DA70D6',
+  palegoldenrod: '#EEE8AA', palegreen: '#98FB98', paleturquoise: '#AFEEEE', palevioletred: '#DB7093',
+  papayawhip: '#FFEFD5', peachpuff: '#FFDAB9', peru: '#CD853F', pink: '#FFC0CB',
+  plum: '#DDA0DD', powderblue: '#B0E0E6', purple: '#800080', rebeccapurple: '#663399',
+  red: '#FF0000', rosybrown: '#BC8F8F', royalblue: '#4169E1', saddlebrown: '#8B4513',
+  salmon: '#FA8072', sandybrown: '#F4A460', seagreen: '#2E8B57', seashell: '#FFF5EE',
+  sienna: '#A0522D', silver: '#C0C0C0', skyblue: '#87CEEB', slateblue: '#6A5ACD',
+  slategray: '#708090', slategrey: '#708090', snow: '#FFFAFA', springgreen: '#00FF7F',
+  steelblue: '#4682B4', tan: '#D2B48C', teal: '#008080', thistle: '#D8BFD8',
+  tomato: '#FF6347', turquoise: '#40E0D0', violet: '#EE82EE', wheat: '#F5DEB3',
+  white: '#FFFFFF', whitesmoke: '#F5F5F5', yellow: '#FFFF00', yellowgreen: '#9ACD32',
+};
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+const toHexByte = (value: number): string =>
+  Math.round(Math.min(255, Math.max(0, value))).toString(16).padStart(2, '0');
+
+const rgbToHex = (r: number, g: number, b: number): string =>
+  `#${toHexByte(r)}${toHexByte(g)}${toHexByte(b)}`.toUpperCase();
+
+const withAlpha = (hex: string, alpha: number | undefined): ParsedCssColor =>
+  alpha !== undefined && alpha < 1 ? { hex, alpha: Math.round(clamp01(alpha) * 1000) / 1000 } : { hex };
+
+/** A number or percentage; `percentScale` is the value of 100%. */
+const parseNumber = (token: string, percentScale: number): number | null => {
+  const match = /^([+-]?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)(%)?$/i.exec(token);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  return match[2] ? (value / 100) * percentScale : value;
+};
+
+/** Hue in degrees from a bare number or a deg/grad/rad/turn angle. */
+const parseHue = (token: string): number | null => {
+  const match = /^([+-]?(?:\d+\.?\d*|\.\d+))(deg|grad|rad|turn)?$/i.exec(token);
+  if (!match) return null;
+  const value = parseFloat(match[1]);
+  switch (match[2]?.toLowerCase()) {
+    case 'grad': return value * 0.9;
+    case 'rad': return (value * 180) / Math.PI;
+    case 'turn': return value * 360;
+    default: return value;
+  }
+};
+
+/** Split function arguments: `a, b, c, d` or `a b c / d`. */
+const splitArgs = (body: string): { args: string[]; alpha?: string } | null => {
+  const [main, alpha, extra] = body.split('/').map((part) => part.trim());
+  if (extra !== undefined) return null;
+  const args = main.split(main.includes(',') ? /\s*,\s*/ : /\s+/).filter(Boolean);
+  if (alpha !== undefined) return args.length === 3 ? { args, alpha } : null;
+  if (args.length === 4) return { args: args.slice(0, 3), alpha: args[3] };
+  return args.length === 3 ? { args } : null;
+};
+
+const parseHexColor = (value: string): ParsedCssColor | null => {
+  const match = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(value);
+  if (!match) return null;
+  const raw = match[1].length <= 4 ? match[1].replace(/./g, (c) => c + c) : match[1];
+  const hex = `#${raw.slice(0, 6)}`.toUpperCase();
+  return withAlpha(hex, raw.length === 8 ? parseInt(raw.slice(6), 16) / 255 : undefined);
+};
+
+const parseColorFunction = (name: string, body: string): ParsedCssColor | null => {
+  const parts = splitArgs(body);
+  if (!parts) return null;
+  const alpha = parts.alpha !== undefined ? parseNumber(parts.alpha, 1) : undefined;
+  if (alpha === null) return null;
+  const [x, y, z] = parts.args;
+
+  switch (name) {
+    case 'rgb':
+    case 'rgba': {
+      const channels = [x, y, z].map((t) => parseNumber(t, 255));
+      if (channels.some((c) => c === null)) return null;
+      const [r, g, b] = channels as number[];
+      return withAlpha(rgbToHex(r, g, b), alpha);
+    }
+    case 'hsl':
+    case 'hsla': {
+      const h = parseHue(x);
+      const s = parseNumber(y, 100);
+      const l = parseNumber(z, 100);
+      if (h === null || s === null || l === null) return null;
+      // HSL → RGB per CSS Color 4
+      const sat = clamp01(s / 100);
+      const light = clamp01(l / 100);
+      const channel = (n: number) => {
+        const k = (n + ((h % 360) + 360) % 360 / 30) % 12;
+        return light - sat * Math.min(light, 1 - light) * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+      };
+      return withAlpha(rgbToHex(channel(0) * 255, channel(8) * 255, channel(4) * 255), alpha);
+    }
+    case 'oklch': {
+      const l = parseNumber(x, 1);
+      const c = parseNumber(y, 0.4);
+      const h = parseHue(z);
+      if (l === null || c === null || h === null) return null;
+      return withAlpha(oklchToHex({ l: clamp01(l), c: Math.max(0, c), h: ((h % 360) + 360) % 360 }), alpha);
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * Parse one CSS color value. Returns null for anything that isn't a
+ * supported color (including `currentColor` and other color spaces).
+ * @example parseCssColor('rgb(255 0 0 / 50%)') // { hex: '#FF0000', alpha: 0.5 }
+ */
+export const parseCssColor = (value: string): ParsedCssColor | null => {
+  const trimmed = value.trim();
+  if (trimmed.startsWith('#')) return parseHexColor(trimmed);
+
+  const fn = /^([a-z]+)\(\s*([^)]*)\s*\)$/i.exec(trimmed);
+  if (fn) return parseColorFunction(fn[1].toLowerCase(), fn[2]);
+
+  const lower = trimmed.toLowerCase();
+  if (lower === 'transparent') return { hex: '#000000', alpha: 0 };
+  const named = NAMED_COLORS[lower];
+  return named ? { hex: named } : null;
+};
+
+/** Whether a token is meant as a color (so a failure is worth reporting). */
+export const looksLikeColor = (token: string): boolean =>
+  /^#/.test(token) || /^(?:rgba?|hsla?|oklch)\(/i.test(token.trim());
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { buildBrandCSS } from './cssExport';
+import { DEFAULT_BRAND } from '../data/brandPresets';
+import { deriveColumnRoles, getContrastRatio } from './colorMapping';
+import { getTypeScale } from './typography';
+import { generateRamp } from './colorRamps';
+import type { Brand } from '../store/useBrandStore';
+
+const brand: Brand = {
+  ...DEFAULT_BRAND,
+  colors: {
+    ...DEFAULT_BRAND.colors,
+    bg: '#FAFAF7',
+    text: '#1A1A1A',
+    primary: '#1D4ED8',
+    surfaces: ['#FAFAF7', '#EDE9E3', '#1D4ED8'],
+    columnOverrides: { primary: { tone: '#0B2A80' }, surface: {}, accent: {} },
+  },
+  typography: { ...DEFAULT_BRAND.typography, transformHeadline: 'uppercase' },
+  ui: { ...DEFAULT_BRAND.ui, buttonStyle: 'outline', buttonSize: 'large', buttonUppercase: true },
+  logo: { ...DEFAULT_BRAND.logo, bgColor: '#EDE9E3', letterSpacing: 0.1 },
+  imagery: { ...DEFAULT_BRAND.imagery, style: 'grayscale', overlay: 50 },
+};
+
+/** Read a custom property from the first :root block. */
+const cssVar = (css: string, name: string) =>
+  new RegExp(`${name}: ([^;]+);`).exec(css)?.[1];
+
+describe('buildBrandCSS', () => {
+  const css = buildBrandCSS(brand);
+
+  it('emits computed type-scale steps', () => {
+    const scale = getTypeScale(brand.typography);
+    expect(parseFloat(cssVar(css, '--step-3')!)).toBeCloseTo(scale.step3, 1);
+    expect(cssVar(css, '--step-0')).toBe(`${brand.typography.baseSize}px`);
+    expect(cssVar(css, '--transform-headline')).toBe('uppercase');
+  });
+
+  it('includes surfaces, palette colors and per-column roles', () => {
+    expect(cssVar(css, '--color-surface-2')).toBe('#EDE9E3');
+    expect(cssVar(css, '--color-palette-1')).toBe(brand.colors.paletteColors[0]);
+    expect(cssVar(css, '--column-primary-tone')).toBe('#0B2A80');
+    expect(cssVar(css, '--column-accent-text')).toBe(
+      deriveColumnRoles(brand.colors.accent, brand.colors.bg).text
+    );
+  });
+
+  it('ships 50–950 ramps for primary, accent, neutral and each surface', () => {
+    expect(cssVar(css, '--color-primary-500')).toBe(generateRamp(brand.colors.primary)[500]);
+    expect(cssVar(css, '--color-surface-3-950')).toBe(generateRamp('#1D4ED8')[950]);
+    expect(cssVar(css, '--color-neutral-50')).toMatch(/^#[0-9A-F]{6}$/);
+  });
+
+  it('covers UI, imagery and logo overrides', () => {
+    expect(cssVar(css, '--btn-height')).toBe('54px');
+    expect(cssVar(css, '--btn-transform')).toBe('uppercase');
+    expect(cssVar(css, '--image-filter')).toBe('grayscale(1) brightness(0.70)');
+    expect(cssVar(css, '--logo-bg')).toBe('#EDE9E3');
+    expect(cssVar(css, '--logo-letter-spacing')).toBe('0.1em');
+  });
+
+  it('defaults .btn to the brand button style and ships all variants', () => {
+    const btn = /\.btn \{([^}]+)\}/.exec(css)![1];
+    expect(btn).toContain('border: 1.5px solid var(--btn-color);');
+    expect(css).toContain('.btn-filled {');
+    expect(css).toContain('.btn-soft {');
+    expect(css).toContain('.btn-compact {');
+  });
+
+  it('adds a readable dark scheme only when asked', () => {
+    expect(css).not.toContain('prefers-color-scheme');
+
+    const withDark = buildBrandCSS(brand, { darkScheme: true });
+    const dark = withDark.slice(withDark.indexOf('@media (prefers-color-scheme: dark)'));
+    const bg = cssVar(dark, '--color-bg')!;
+    const text = cssVar(dark, '--color-text')!;
+    expect(bg).not.toBe(brand.colors.bg);
+    expect(getContrastRatio(text, bg)).toBeGreaterThanOrEqual(4.5);
+  });
+
+  it('exports the light counterpart for dark brands', () => {
+    const darkBrand = { ...brand, colors: { ...brand.colors, bg: '#111827', text: '#F9FAFB' } };
+    const withLight = buildBrandCSS(darkBrand, { darkScheme: true });
+    expect(withLight).not.toContain('prefers-color-scheme: dark');
+    const light = withLight.slice(withLight.indexOf('@media (prefers-color-scheme: light)'));
+    expect(getContrastRatio(cssVar(light, '--color-text')!, cssVar(light, '--color-bg')!)).toBeGreaterThanOrEqual(4.5);
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * CSS Export
+ *
+ * Full brand stylesheet: custom properties for every brand setting plus
+ * ready-made `.btn` classes that match InterfaceTile's button rendering.
+ *
+ * ## Sections
+ *
+ * - Typography: families + stacks, computed `--step-*` sizes, weights,
+ *   tracking, line heights, headline transform
+ * - Colors: roles, surfaces, palette, per-column roles (`deriveColumnRoles`)
+ * - Ramps: 50–950 steps for primary, accent, neutral and each surface
+ * - Buttons, imagery treatment, logo (overrides resolved like LogoTile)
+ * - Optional `prefers-color-scheme` block with the derived opposite scheme
+ *   (dark for light brands, light for dark ones), see `utils/colorScheme`
+ *
+ * @module utils/cssExport
+ */
+import type { Brand, Colors } from '@/store/useBrandStore';
+import { deriveColumnRoles } from '@/utils/colorMapping';
+import { getAdaptiveTextColor } from '@/utils/color';
+import { buildRampCSSLines } from '@/utils/colorRamps';
+import { deriveSchemeColors, getColorScheme, getOppositeScheme } from '@/utils/colorScheme';
+import { COLOR_DEFAULTS } from '@/utils/colorDefaults';
+import { BUTTON_SIZES, getButtonLetterSpacing } from '@/utils/buttons';
+import { getImageFilter } from '@/utils/imagery';
+import {
+  buildFontStack,
+  getBodyLineHeight,
+  getBodyTracking,
+  getHeadlineLineHeight,
+  getHeadlineTracking,
+  getHeadlineTransform,
+  getLetterSpacing,
+  getTypeScale,
+} from '@/utils/typography';
+
+export interface CSSExportOptions {
+  /**
+   * Append a `prefers-color-scheme` block with the derived opposite scheme
+   * (dark for light brands, light for dark ones), including scheme overrides
+   */
+  darkScheme?: boolean;
+}
+
+const px = (value: number): string => `${Math.round(value * 100) / 100}px`;
+
+const block = (title: string, lines: string[]): string =>
+  [`  /* ${title} */`, ...lines.map((line) => `  ${line}`)].join('\n');
+
+/** Color custom properties shared by the light and dark blocks. */
+const colorLines = (colors: Colors, buttonColor: string | null): string[] => {
+  const columns = {
+    primary: deriveColumnRoles(colors.primary, colors.bg, colors.columnOverrides?.primary),
+    surface: deriveColumnRoles(colors.surface, colors.primary, colors.columnOverrides?.surface),
+    accent: deriveColumnRoles(colors.accent, colors.bg, colors.columnOverrides?.accent),
+  };
+  const btnColor = buttonColor || colors.primary;
+
+  return [
+    `--color-bg: ${colors.bg};`,
+    `--color-text: ${colors.text};`,
+    `--color-primary: ${colors.primary};`,
+    `--color-accent: ${colors.accent};`,
+    `--color-surface: ${colors.surface};`,
+    ...colors.surfaces.map((hex, i) => `--color-surface-${i + 1}: ${hex};`),
+    ...Object.entries(columns).flatMap(([name, roles]) => [
+      `--column-${name}-bg: ${roles.background};`,
+      `--column-${name}-tone: ${roles.tone};`,
+      `--column-${name}-text: ${roles.text};`,
+      `--column-${name}-text-cta: ${roles.textCta};`,
+      `--column-${name}-cta: ${roles.cta};`,
+    ]),
+    `--btn-color: ${btnColor};`,
+    `--btn-text: ${getAdaptiveTextColor(btnColor, COLOR_DEFAULTS.TEXT_DARK, COLOR_DEFAULTS.WHITE)};`,
+  ];
+};
+
+/** `.btn` base + style/size modifiers, mirroring InterfaceTile. */
+const buttonClasses = (brand: Brand): string => {
+  const styles = {
+    filled: ['background-color: var(--btn-color);', 'color: var(--btn-text);', 'border: none;'],
+    outline: ['background-color: transparent;', 'color: var(--btn-color);', 'border: 1.5px solid var(--btn-color);'],
+    soft: [
+      'background-color: color-mix(in srgb, var(--btn-color) 12%, transparent);',
+      'color: var(--btn-color);',
+      'border: none;',
+    ],
+  };
+  const rule = (selector: string, declarations: string[]) =>
+    `${selector} {\n${declarations.map((d) => `  ${d}`).join('\n')}\n}`;
+
+  return [
+    rule('.btn', [
+      'display: inline-flex;',
+      'align-items: center;',
+      'justify-content: center;',
+      'height: var(--btn-height);',
+      'padding: 0 var(--btn-padding-inline);',
+      'border-radius: var(--btn-radius);',
+      'font-family: var(--font-secondary-stack);',
+      'font-size: var(--btn-font-size);',
+      'font-weight: var(--btn-weight);',
+      'letter-spacing: var(--btn-letter-spacing);',
+      'text-transform: var(--btn-transform);',
+      // Default to the brand's chosen style
+      ...styles[brand.ui.buttonStyle],
+    ]),
+    rule('.btn-filled', styles.filled),
+    rule('.btn-outline', styles.outline),
+    rule('.btn-soft', styles.soft),
+    ...Object.entries(BUTTON_SIZES).map(([size, metrics]) =>
+      rule(`.btn-${size}`, [
+        `--btn-height: ${px(metrics.height)};`,
+        `--btn-font-size: ${px(metrics.fontSize)};`,
+        `--btn-padding-inline: ${px(metrics.px)};`,
+      ])
+    ),
+  ].join('\n\n');
+};
+
+/**
+ * Build the brand stylesheet.
+ *
+ * @param brand - Brand configuration (null returns an empty placeholder)
+ * @param options - `darkScheme` adds a `prefers-color-scheme` block for the other scheme
+ * @returns CSS string
+ */
+export const buildBrandCSS = (brand: Brand | null, options: CSSExportOptions = {}): string => {
+  if (!brand) return ':root { /* No brand data */ }';
+
+  const { typography, colors, logo, imagery, ui } = brand;
+  const scale = getTypeScale(typography);
+  const size = BUTTON_SIZES[ui.buttonSize] ?? BUTTON_SIZES.default;
+
+  // Logo overrides resolve the same way LogoTile does
+  const logoBg = logo.bgColor || colors.primary;
+  const logoColor = logo.color || getAdaptiveTextColor(logoBg, COLOR_DEFAULTS.TEXT_DARK, COLOR_DEFAULTS.WHITE);
+
+  const root = [
+    block('Typography', [
+      `--font-primary: ${typography.primary};`,
+      `--font-secondary: ${typography.secondary};`,
+      `--font-ui: ${typography.ui};`,
+      `--font-primary-stack: ${buildFontStack(typography.primary)};`,
+      `--font-secondary-stack: ${buildFontStack(typography.secondary)};`,
+      `--font-ui-stack: ${buildFontStack(typography.ui)};`,
+      `--type-scale: ${typography.scale};`,
+      `--type-base-size: ${typography.baseSize}px;`,
+      `--type-letter-spacing: ${getLetterSpacing(typography.letterSpacing)};`,
+      `--step--2: ${px(scale.stepMinus2)};`,
+      `--step--1: ${px(scale.stepMinus1)};`,
+      `--step-0: ${px(scale.base)};`,
+      `--step-1: ${px(scale.step1)};`,
+      `--step-2: ${px(scale.step2)};`,
+      `--step-3: ${px(scale.step3)};`,
+      `--weight-headline: ${typography.weightHeadline};`,
+      `--weight-body: ${typography.weightBody};`,
+      `--tracking-headline: ${getHeadlineTracking(typography)};`,
+      `--tracking-body: ${getBodyTracking(typography)};`,
+      `--leading-headline: ${getHeadlineLineHeight(typography)};`,
+      `--leading-body: ${getBodyLineHeight(typography)};`,
+      `--transform-headline: ${getHeadlineTransform(typography)};`,
+    ]),
+    block('Colors', [
+      ...colorLines(colors, ui.buttonColor),
+      ...colors.paletteColors.map((hex, i) => `--color-palette-${i + 1}: ${hex};`),
+    ]),
+    block('Ramps', buildRampCSSLines(colors)),
+    block('Buttons', [
+      `--btn-style: ${ui.buttonStyle};`,
+      `--btn-radius: ${ui.buttonRadius}px;`,
+      `--btn-weight: ${ui.buttonWeight};`,
+      `--btn-letter-spacing: ${getButtonLetterSpacing(ui)}em;`,
+      `--btn-transform: ${ui.buttonUppercase ? 'uppercase' : 'none'};`,
+      `--btn-height: ${px(size.height)};`,
+      `--btn-font-size: ${px(size.fontSize)};`,
+      `--btn-padding-inline: ${px(size.px)};`,
+    ]),
+    block('Imagery', [
+      `--image-style: ${imagery.style};`,
+      `--image-overlay: ${imagery.overlay / 100};`,
+      `--image-filter: ${getImageFilter(imagery.style, imagery.overlay)};`,
+    ]),
+    block('Logo', [
+      `--logo-text: "${logo.text ?? 'BRAND'}";`,
+      `--logo-padding: ${logo.padding ?? 16}px;`,
+      `--logo-size: ${logo.size ?? 24}px;`,
+      `--logo-color: ${logoColor};`,
+      `--logo-bg: ${logoBg};`,
+      `--logo-font: ${buildFontStack(logo.fontFamily || typography.primary)};`,
+      `--logo-weight: ${logo.fontWeight ?? (parseInt(typography.weightHeadline) || 700)};`,
+      `--logo-letter-spacing: ${logo.letterSpacing ?? 0.04}em;`,
+      `--logo-line-height: ${logo.lineHeight ?? 1};`,
+    ]),
+  ].join('\n\n');
+
+  const sections = [`:root {\n${root}\n}`, buttonClasses(brand)];
+
+  if (options.darkScheme) {
+    const scheme = getOppositeScheme(getColorScheme(colors));
+    const derived = colorLines(deriveSchemeColors(colors), ui.buttonColor)
+      .map((line) => `    ${line}`)
+      .join('\n');
+    sections.push(`@media (prefers-color-scheme: ${scheme}) {\n  :root {\n${derived}\n  }\n}`);
+  }
+
+  return sections.join('\n\n') + '\n';
+};
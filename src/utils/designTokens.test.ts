@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { buildDesignTokens, exportAsDesignTokens, type DesignTokenGroup } from './designTokens';
+import { DEFAULT_BRAND } from '../data/brandPresets';
+import { deriveColumnRoles } from './colorMapping';
+import type { Brand } from '../store/useBrandStore';
+
+const brand: Brand = {
+  ...DEFAULT_BRAND,
+  colors: {
+    ...DEFAULT_BRAND.colors,
+    bg: '#FFFFFF',
+    text: '#111111',
+    primary: '#1D4ED8',
+    accent: '#F59E0B',
+    surface: '#F3F4F6',
+    surfaces: ['#FFFFFF', '#F3F4F6', '#1D4ED8'],
+    paletteColors: ['#1D4ED8', '#F59E0B', '#FFFFFF', '#111111'],
+    columnOverrides: { primary: { tone: '#0B2A80' }, surface: {}, accent: {} },
+  },
+};
+
+/** Follow `{a.b.c}` aliases until a literal value. */
+const resolve = (tokens: DesignTokenGroup, value: unknown): unknown => {
+  if (typeof value !== 'string' || !value.startsWith('{')) return value;
+  const node = value.slice(1, -1).split('.').reduce<unknown>(
+    (acc, key) => (acc as Record<string, unknown>)[key],
+    tokens
+  ) as { $value: unknown };
+  return resolve(tokens, node.$value);
+};
+
+const get = (tokens: DesignTokenGroup, path: string) =>
+  path.split('.').reduce<unknown>((acc, key) => (acc as Record<string, unknown>)[key], tokens) as {
+    $value: unknown;
+  };
+
+describe('buildDesignTokens', () => {
+  const tokens = buildDesignTokens(brand);
+
+  it('keeps literal colors in the palette and aliases roles into it', () => {
+    expect(get(tokens, 'color.palette.1').$value).toBe('#1D4ED8');
+    expect(get(tokens, 'color.role.primary').$value).toBe('{color.palette.1}');
+    expect(resolve(tokens, get(tokens, 'color.role.bg').$value)).toBe('#FFFFFF');
+    expect(resolve(tokens, get(tokens, 'color.surfaces.2').$value)).toBe('#F3F4F6');
+  });
+
+  it('derives column roles via deriveColumnRoles, honoring overrides', () => {
+    const primary = deriveColumnRoles('#1D4ED8', '#FFFFFF', { tone: '#0B2A80' });
+    const accent = deriveColumnRoles('#F59E0B', '#FFFFFF');
+
+    expect(resolve(tokens, get(tokens, 'color.column.primary.tone').$value)).toBe('#0B2A80');
+    expect(resolve(tokens, get(tokens, 'color.column.primary.text').$value)).toBe(primary.text.toUpperCase());
+    expect(resolve(tokens, get(tokens, 'color.column.accent.textCta').$value)).toBe(accent.textCta.toUpperCase());
+    expect(get(tokens, 'color.column.surface.cta').$value).toBe('{color.role.primary}');
+  });
+
+  it('builds typography composites that alias font primitives', () => {
+    const headline = get(tokens, 'typography.headline').$value as Record<string, string>;
+    expect(headline.fontFamily).toBe('{font.family.primary}');
+    expect(resolve(tokens, headline.fontSize)).toEqual({ value: expect.any(Number), unit: 'px' });
+    expect((get(tokens, 'font.family.primary').$value as string[])[0]).toBe(brand.typography.primary);
+    expect(get(tokens, 'font.size.step-0').$value).toEqual({ value: brand.typography.baseSize, unit: 'px' });
+  });
+
+  it('keeps tracking relative to font size without em dimensions', () => {
+    const tracking = get(tokens, 'font.tracking.body').$value as number;
+    expect(typeof tracking).toBe('number');
+    expect(get(tokens, 'logo.letterSpacing').$value).toBe(brand.logo.letterSpacing ?? 0.04);
+
+    const body = get(tokens, 'typography.body').$value as Record<string, unknown>;
+    const size = resolve(tokens, body.fontSize) as { value: number };
+    expect(body.letterSpacing).toEqual({ value: Math.round(tracking * size.value * 100) / 100, unit: 'px' });
+    expect(JSON.stringify(tokens)).not.toContain('"unit":"em"');
+  });
+
+  it('exports button and logo settings', () => {
+    expect(get(tokens, 'button.radius').$value).toEqual({ value: brand.ui.buttonRadius, unit: 'px' });
+    expect(get(tokens, 'button.size.large.height').$value).toEqual({ value: 54, unit: 'px' });
+    expect(get(tokens, 'color.button.background').$value).toBe('{color.role.primary}');
+    expect(get(tokens, 'logo.size').$value).toEqual({ value: brand.logo.size, unit: 'px' });
+  });
+
+  it('only uses aliases that resolve', () => {
+    const walk = (node: unknown): void => {
+      if (typeof node === 'string' && node.startsWith('{')) {
+        expect(resolve(tokens, node)).toBeDefined();
+      } else if (node && typeof node === 'object') {
+        Object.values(node).forEach(walk);
+      }
+    };
+    walk(tokens);
+  });
+});
+
+describe('exportAsDesignTokens', () => {
+  it('returns an empty token file without a brand', () => {
+    expect(exportAsDesignTokens(null)).toBe('{}');
+  });
+});
@@ -0,0 +1,334 @@
+/**
+ * Design Tokens Export (DTCG)
+ *
+ * Builds a W3C Design Tokens Community Group file from the brand.
+ *
+ * ## Structure
+ *
+ * - `color.palette.*` — the only literal color values (palette colors plus
+ *   any role or derived color not already in the palette)
+ * - `color.role.*`, `color.surfaces.*`, `color.column.*`, `color.button.*`
+ *   — aliases into the palette (`{color.palette.3}`)
+ * - `font.*` — families, weights, type-scale sizes, tracking, line heights
+ * - `typography.*` — composites aliasing the `font.*` primitives
+ *
+ * DTCG dimensions only allow `px` and `rem`, but tracking is relative to the
+ * font size. Tracking tokens are therefore `number` tokens in em (a multiple
+ * of the font size); composites, whose size is fixed, get it in px.
+ * - `button.*`, `logo.*` — UI and logo settings, aliasing color/font tokens
+ *
+ * Settings without a DTCG type (button style, headline transform, logo
+ * text) are carried in `$extensions["com.brandbento"]`.
+ *
+ * @module utils/designTokens
+ */
+import type { Brand } from '@/store/useBrandStore';
+import { deriveColumnRoles } from '@/utils/colorMapping';
+import { getAdaptiveTextColor } from '@/utils/color';
+import { COLOR_DEFAULTS } from '@/utils/colorDefaults';
+import { BUTTON_SIZES, getButtonLetterSpacing } from '@/utils/buttons';
+import {
+  getBodyLineHeight,
+  getBodyTracking,
+  getFontCategory,
+  getHeadlineLineHeight,
+  getHeadlineTracking,
+  getHeadlineTransform,
+  getTypeScale,
+} from '@/utils/typography';
+import { getSystemFallback } from '@/services/googleFonts';
+
+/** Vendor key for settings DTCG has no type for. */
+const EXTENSION_KEY = 'com.brandbento';
+
+interface DimensionValue {
+  value: number;
+  unit: 'px' | 'rem';
+}
+
+/** A single DTCG token. `$type` may be inherited from the parent group. */
+export interface DesignToken {
+  $value: unknown;
+  $type?: string;
+  $description?: string;
+  $extensions?: Record<string, unknown>;
+}
+
+/** A DTCG group: nested groups/tokens plus optional `$`-prefixed metadata. */
+export interface DesignTokenGroup {
+  [key: string]: DesignToken | DesignTokenGroup | string | Record<string, unknown> | undefined;
+}
+
+const round = (value: number, digits = 3): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const px = (value: number): DimensionValue => ({ value: round(value, 2), unit: 'px' });
+
+/** Parse CSS em strings from the typography helpers ("0", "-0.02em"). */
+const em = (value: string | number): number =>
+  round(typeof value === 'number' ? value : parseFloat(value) || 0);
+
+/** Tracking in em as a px dimension for a known font size. */
+const trackingPx = (tracking: number, fontSize: number): DimensionValue => px(tracking * fontSize);
+
+const TRACKING_DESCRIPTION = 'Letter spacing in em (multiple of the font size)';
+
+const alias = (path: string): string => `{${path}}`;
+
+/** Font stack as a DTCG fontFamily array: family first, then system fallbacks. */
+const fontFamilyValue = (family: string): string[] => {
+  const fallbacks = getSystemFallback(getFontCategory(family))
+    .split(',')
+    .map((name) => name.trim().replace(/^"|"$/g, ''));
+  return [family, ...fallbacks];
+};
+
+const toWeight = (weight: string | number | undefined, fallback: number): number => {
+  const parsed = typeof weight === 'number' ? weight : parseInt(weight ?? '', 10);
+  return Number.isFinite(parsed) ? parsed : fallback;
+};
+
+/**
+ * Collects literal colors into `color.palette` and hands back aliases.
+ * Palette colors keep their order (1-based keys); other colors are appended
+ * the first time they are referenced.
+ */
+const createPalette = (paletteColors: string[]) => {
+  const entries: string[] = [];
+  const indexByHex = new Map<string, number>();
+
+  const ref = (hex: string): string => {
+    const key = hex.toUpperCase();
+    let index = indexByHex.get(key);
+    if (index === undefined) {
+      entries.push(key);
+      index = entries.length;
+      indexByHex.set(key, index);
+    }
+    return alias(`color.palette.${index}`);
+  };
+
+  paletteColors.forEach(ref);
+
+  const toGroup = (): DesignTokenGroup =>
+    Object.fromEntries(entries.map((hex, i) => [String(i + 1), { $value: hex }]));
+
+  return { ref, toGroup };
+};
+
+/**
+ * Build the DTCG token tree for a brand.
+ *
+ * @param brand - Brand configuration
+ * @returns Token object ready for `JSON.stringify`
+ */
+export const buildDesignTokens = (brand: Brand): DesignTokenGroup => {
+  const { colors, typography, ui, logo } = brand;
+  const palette = createPalette(colors.paletteColors ?? []);
+
+  // ── Colors ──
+  const roles = {
+    bg: palette.ref(colors.bg),
+    text: palette.ref(colors.text),
+    primary: palette.ref(colors.primary),
+    accent: palette.ref(colors.accent),
+    surface: palette.ref(colors.surface),
+  };
+
+  const surfaces = Object.fromEntries(
+    (colors.surfaces ?? []).map((hex, i) => [String(i + 1), { $value: palette.ref(hex) }])
+  );
+
+  // Same column pairings as CustomModePanel
+  const overrides = colors.columnOverrides;
+  const columns = {
+    primary: { roles: deriveColumnRoles(colors.primary, colors.bg, overrides?.primary), background: 'primary', cta: 'bg' },
+    surface: { roles: deriveColumnRoles(colors.surface, colors.primary, overrides?.surface), background: 'surface', cta: 'primary' },
+    accent: { roles: deriveColumnRoles(colors.accent, colors.bg, overrides?.accent), background: 'accent', cta: 'bg' },
+  } as const;
+  const columnTokens = Object.fromEntries(
+    Object.entries(columns).map(([name, column]) => [
+      name,
+      {
+        background: { $value: alias(`color.role.${column.background}`) },
+        tone: { $value: palette.ref(column.roles.tone) },
+        text: { $value: palette.ref(column.roles.text) },
+        textCta: { $value: palette.ref(column.roles.textCta) },
+        cta: { $value: alias(`color.role.${column.cta}`) },
+      },
+    ])
+  );
+
+  const buttonBackground = ui.buttonColor ? palette.ref(ui.buttonColor) : alias('color.role.primary');
+  const buttonColor = ui.buttonColor || colors.primary;
+  const buttonTextOnFilled = palette.ref(
+    getAdaptiveTextColor(buttonColor, COLOR_DEFAULTS.TEXT_DARK, COLOR_DEFAULTS.WHITE)
+  );
+
+  const logoBackground = logo.bgColor ? palette.ref(logo.bgColor) : alias('color.role.primary');
+  const logoText = palette.ref(
+    logo.color || getAdaptiveTextColor(logo.bgColor || colors.primary, COLOR_DEFAULTS.TEXT_DARK, COLOR_DEFAULTS.WHITE)
+  );
+
+  // ── Typography primitives ──
+  const scale = getTypeScale(typography);
+  const steps: Record<string, number> = {
+    'step--2': scale.stepMinus2,
+    'step--1': scale.stepMinus1,
+    'step-0': scale.base,
+    'step-1': scale.step1,
+    'step-2': scale.step2,
+    'step-3': scale.step3,
+  };
+  const tracking = {
+    headline: em(getHeadlineTracking(typography)),
+    body: em(getBodyTracking(typography)),
+  };
+  const headlineWeight = toWeight(typography.weightHeadline, 700);
+  const bodyWeight = toWeight(typography.weightBody, 400);
+
+  const font: DesignTokenGroup = {
+    family: {
+      $type: 'fontFamily',
+      primary: { $value: fontFamilyValue(typography.primary) },
+      secondary: { $value: fontFamilyValue(typography.secondary) },
+      ui: { $value: fontFamilyValue(typography.ui) },
+    },
+    weight: {
+      $type: 'fontWeight',
+      headline: { $value: headlineWeight },
+      body: { $value: bodyWeight },
+    },
+    size: {
+      $type: 'dimension',
+      $description: `Type scale: ${typography.baseSize}px base × ${round(scale.scale)} ratio`,
+      ...Object.fromEntries(Object.entries(steps).map(([step, size]) => [step, { $value: px(size) }])),
+    },
+    tracking: {
+      $type: 'number',
+      $description: TRACKING_DESCRIPTION,
+      headline: { $value: tracking.headline },
+      body: { $value: tracking.body },
+    },
+    lineHeight: {
+      $type: 'number',
+      headline: { $value: getHeadlineLineHeight(typography) },
+      body: { $value: getBodyLineHeight(typography) },
+    },
+  };
+
+  const composite = (family: string, size: string, weight: string, spacing: 'headline' | 'body', lineHeight: string) => ({
+    fontFamily: alias(`font.family.${family}`),
+    fontSize: alias(`font.size.${size}`),
+    fontWeight: alias(`font.weight.${weight}`),
+    letterSpacing: trackingPx(tracking[spacing], steps[size]),
+    lineHeight: alias(`font.lineHeight.${lineHeight}`),
+  });
+
+  const buttonTracking = em(getButtonLetterSpacing(ui));
+  const logoTracking = em(logo.letterSpacing ?? 0.04);
+
+  const typographyTokens: DesignTokenGroup = {
+    $type: 'typography',
+    display: {
+      $value: composite('primary', 'step-3', 'headline', 'headline', 'headline'),
+      $extensions: { [EXTENSION_KEY]: { textTransform: getHeadlineTransform(typography) } },
+    },
+    headline: {
+      $value: composite('primary', 'step-2', 'headline', 'headline', 'headline'),
+      $extensions: { [EXTENSION_KEY]: { textTransform: getHeadlineTransform(typography) } },
+    },
+    subheadline: { $value: composite('primary', 'step-1', 'headline', 'headline', 'headline') },
+    body: { $value: composite('secondary', 'step-0', 'body', 'body', 'body') },
+    caption: { $value: composite('secondary', 'step--1', 'body', 'body', 'body') },
+    button: {
+      $value: {
+        fontFamily: alias('font.family.ui'),
+        fontSize: alias(`button.size.${ui.buttonSize}.fontSize`),
+        fontWeight: alias('button.fontWeight'),
+        letterSpacing: trackingPx(buttonTracking, BUTTON_SIZES[ui.buttonSize].fontSize),
+        lineHeight: 1,
+      },
+      $extensions: { [EXTENSION_KEY]: { textTransform: ui.buttonUppercase ? 'uppercase' : 'none' } },
+    },
+    logo: {
+      $value: {
+        fontFamily: logo.fontFamily ? alias('logo.fontFamily') : alias('font.family.primary'),
+        fontSize: alias('logo.size'),
+        fontWeight: logo.fontWeight != null ? alias('logo.fontWeight') : alias('font.weight.headline'),
+        letterSpacing: trackingPx(logoTracking, logo.size),
+        lineHeight: alias('logo.lineHeight'),
+      },
+    },
+  };
+
+  // ── Buttons ──
+  const buttonSizes = Object.fromEntries(
+    Object.entries(BUTTON_SIZES).map(([size, metrics]) => [
+      size,
+      {
+        height: { $value: px(metrics.height) },
+        fontSize: { $value: px(metrics.fontSize) },
+        paddingInline: { $value: px(metrics.px) },
+      },
+    ])
+  );
+
+  const button: DesignTokenGroup = {
+    $extensions: {
+      [EXTENSION_KEY]: { style: ui.buttonStyle, size: ui.buttonSize, uppercase: ui.buttonUppercase },
+    },
+    radius: { $type: 'dimension', $value: px(ui.buttonRadius) },
+    fontWeight: { $type: 'fontWeight', $value: ui.buttonWeight },
+    letterSpacing: { $type: 'number', $description: TRACKING_DESCRIPTION, $value: buttonTracking },
+    size: { $type: 'dimension', ...buttonSizes },
+  };
+
+  // ── Logo ──
+  const logoTokens: DesignTokenGroup = {
+    $extensions: { [EXTENSION_KEY]: { text: logo.text } },
+    size: { $type: 'dimension', $value: px(logo.size) },
+    padding: { $type: 'dimension', $value: px(logo.padding) },
+    letterSpacing: { $type: 'number', $description: TRACKING_DESCRIPTION, $value: logoTracking },
+    lineHeight: { $type: 'number', $value: logo.lineHeight ?? 1 },
+    ...(logo.fontFamily ? { fontFamily: { $type: 'fontFamily', $value: fontFamilyValue(logo.fontFamily) } } : {}),
+    ...(logo.fontWeight != null ? { fontWeight: { $type: 'fontWeight', $value: logo.fontWeight } } : {}),
+  };
+
+  // Palette is built last so every referenced color has been collected
+  const color: DesignTokenGroup = {
+    $type: 'color',
+    palette: palette.toGroup(),
+    role: Object.fromEntries(Object.entries(roles).map(([name, ref]) => [name, { $value: ref }])),
+    surfaces,
+    column: columnTokens,
+    button: {
+      background: { $value: buttonBackground },
+      text: { $value: buttonTextOnFilled },
+    },
+    logo: {
+      background: { $value: logoBackground },
+      text: { $value: logoText },
+    },
+  };
+
+  return {
+    $description: 'Brand design tokens exported from BrandBento',
+    color,
+    font,
+    typography: typographyTokens,
+    button,
+    logo: logoTokens,
+  };
+};
+
+/**
+ * Export the brand as a DTCG `.tokens.json` string.
+ *
+ * @param brand - Brand configuration (null returns an empty token file)
+ * @returns Pretty-printed JSON (2-space indent)
+ */
+export const exportAsDesignTokens = (brand: Brand | null): string =>
+  JSON.stringify(brand ? buildDesignTokens(brand) : {}, null, 2);
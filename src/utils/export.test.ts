@@ -0,0 +1,92 @@
+import { describe, expect, it, vi } from 'vitest';
+import { toCanvas } from 'html-to-image';
+import {
+  APP_ICON_SIZES,
+  SOCIAL_EXPORT_PRESETS,
+  exportTile,
+  getExportFrameSize,
+  getTileAssetName,
+  resolveExportSize,
+  shouldExportNode,
+} from './export';
+import { CANVAS_RATIOS } from '../store/useLayoutStore';
+
+// jsdom can't rasterize — record what the renderer is asked for
+vi.mock('html-to-image', () => ({
+  toCanvas: vi.fn(async () => ({ toDataURL: () => 'data:image/png;base64,' })),
+  toJpeg: vi.fn(),
+  toSvg: vi.fn(),
+}));
+
+describe('resolveExportSize', () => {
+  const frame = { width: 1000, height: 600 };
+
+  it('keeps the on-screen size by default', () => {
+    expect(resolveExportSize(frame, { width: null, height: null })).toEqual({ width: 1000, height: 600 });
+  });
+
+  it('derives height from the frame aspect ratio', () => {
+    expect(resolveExportSize(frame, { width: 1500, height: null })).toEqual({ width: 1500, height: 900 });
+  });
+
+  it('uses explicit dimensions as given', () => {
+    expect(resolveExportSize(frame, { width: 1080, height: 1080 })).toEqual({ width: 1080, height: 1080 });
+  });
+  it('measures the board at its layout size, whatever the editor zoom', () => {
+    const canvas = document.createElement('div');
+    const board = document.createElement('div');
+    board.dataset.exportFrame = 'true';
+    canvas.appendChild(board);
+    Object.defineProperties(board, { offsetWidth: { value: 1000 }, offsetHeight: { value: 600 } });
+    board.getBoundingClientRect = () => ({ width: 500, height: 300 }) as DOMRect;
+
+    expect(getExportFrameSize(canvas)).toEqual(frame);
+  });
+});
+
+describe('SOCIAL_EXPORT_PRESETS', () => {
+  it('maps each preset to a canvas ratio matching its dimensions', () => {
+    for (const preset of SOCIAL_EXPORT_PRESETS) {
+      const ratio = CANVAS_RATIOS.find((r) => r.key === preset.ratio);
+      expect(ratio?.value).toBeCloseTo(preset.width / preset.height, 2);
+    }
+  });
+});
+
+describe('shouldExportNode', () => {
+  it('skips elements marked data-export-exclude', () => {
+    const excluded = document.createElement('div');
+    excluded.dataset.exportExclude = 'true';
+    const kept = document.createElement('div');
+    kept.className = 'overlay';
+
+    expect(shouldExportNode(excluded)).toBe(false);
+    expect(shouldExportNode(kept)).toBe(true);
+  });
+});
+
+describe('tile assets', () => {
+  it('names files by placement ID and tile type', () => {
+    expect(getTileAssetName('hero', 'split-hero')).toBe('hero-split-hero');
+    expect(getTileAssetName('a', undefined)).toBe('a');
+    expect(getTileAssetName('Slot B', 'ui preview')).toBe('slot-b-ui-preview');
+  });
+
+  it('covers icon sizes from 16 to 1024', () => {
+    expect(APP_ICON_SIZES[0]).toBe(16);
+    expect(APP_ICON_SIZES.at(-1)).toBe(1024);
+  });
+  it('fills tile corners with the canvas background only for opaque formats', async () => {
+    document.body.innerHTML = `
+      <div class="bento-canvas" style="background-color: rgb(10, 20, 30)">
+        <div data-placement-id="hero" data-tile-type="image" class="rounded-xl"></div>
+      </div>`;
+    vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(() => {});
+
+    await exportTile('hero', 'jpeg', 1);
+    await exportTile('hero', 'png', 1);
+
+    const backgrounds = vi.mocked(toCanvas).mock.calls.map(([, options]) => options?.backgroundColor);
+    expect(backgrounds).toEqual(['rgb(10, 20, 30)', undefined]);
+  });
+});
@@ -1,63 +1,274 @@
-import { toPng } from 'html-to-image';
+import { toCanvas, toJpeg, toSvg } from 'html-to-image';
+import type { CanvasRatio } from '@/store/useLayoutStore';
+import { createZip, type ZipEntry } from '@/utils/zip';
 
-export async function exportToPng(
+/** Output formats offered by the image export dialog. */
+export type ImageFormat = 'png' | 'jpeg' | 'webp' | 'svg';
+
+export const IMAGE_FORMATS: { key: ImageFormat; label: string; mime: string; transparent: boolean }[] = [
+  { key: 'png', label: 'PNG', mime: 'image/png', transparent: true },
+  { key: 'jpeg', label: 'JPEG', mime: 'image/jpeg', transparent: false },
+  { key: 'webp', label: 'WebP', mime: 'image/webp', transparent: true },
+  { key: 'svg', label: 'SVG', mime: 'image/svg+xml', transparent: true },
+];
+
+/** Fixed-size social exports; the grid re-lays out at `ratio` before capture. */
+export const SOCIAL_EXPORT_PRESETS: { key: string; label: string; width: number; height: number; ratio: CanvasRatio }[] = [
+  { key: 'square', label: 'Square post', width: 1080, height: 1080, ratio: '1:1' },
+  { key: 'hd', label: 'Full HD', width: 1920, height: 1080, ratio: '16:9' },
+  { key: 'og', label: 'Open Graph', width: 1200, height: 630, ratio: '1.91:1' },
+];
+
+export interface ImageExportOptions {
+  format: ImageFormat;
+  /** Output width in px at 1x; null keeps the on-screen width */
+  width: number | null;
+  /** Output height in px at 1x; null follows the board's aspect ratio */
+  height: number | null;
+  /** Pixel multiplier applied on top of width/height (raster formats) */
+  scale: number;
+  /** Transparent background, or fill with the canvas background color */
+  background: 'transparent' | 'canvas';
+  /** Lossy quality 0–1 for JPEG/WebP */
+  quality?: number;
+}
+
+/**
+ * Exclude anything marked `data-export-exclude="true"` (debug overlays,
+ * app chrome). Components opt out explicitly instead of relying on
+ * class names.
+ */
+export const shouldExportNode = (node: HTMLElement): boolean =>
+  !(node instanceof HTMLElement) || node.dataset?.exportExclude !== 'true';
+
+/**
+ * Output size at 1x for a board frame. A missing height follows the
+ * frame's aspect ratio so the board is never stretched.
+ */
+export const resolveExportSize = (
+  frame: { width: number; height: number },
+  options: Pick<ImageExportOptions, 'width' | 'height'>
+): { width: number; height: number } => {
+  const width = Math.round(options.width ?? frame.width);
+  const height = Math.round(options.height ?? (frame.height / frame.width) * width);
+  return { width, height };
+};
+
+/**
+ * The board itself, without the scrollable canvas around it. Falls back to
+ * the element for callers that pass a bare node.
+ */
+const getExportFrame = (canvasElement: HTMLElement): HTMLElement =>
+  canvasElement.querySelector<HTMLElement>('[data-export-frame="true"]') ?? canvasElement;
+
+/**
+ * Board size in CSS px. Layout sizes (`offsetWidth`) ignore the canvas's
+ * CSS zoom, so the size doesn't change with the editor zoom level.
+ */
+export const getExportFrameSize = (canvasElement: HTMLElement): { width: number; height: number } => {
+  const frame = getExportFrame(canvasElement);
+  return { width: frame.offsetWidth, height: frame.offsetHeight };
+};
+
+/**
+ * Render any node to a data URL. Raster formats are drawn at
+ * `width × height` times `scale`; SVG keeps the node's own size.
+ */
+async function renderNode(
+  node: HTMLElement,
+  format: ImageFormat,
+  size: { width: number; height: number },
+  scale: number,
+  backgroundColor?: string,
+  quality = 0.92
+): Promise<string> {
+  const shared = { cacheBust: true, filter: shouldExportNode, backgroundColor };
+
+  if (format === 'svg') {
+    return toSvg(node, { ...shared, width: node.offsetWidth, height: node.offsetHeight });
+  }
+
+  const canvas = await toCanvas(node, {
+    ...shared,
+    canvasWidth: size.width,
+    canvasHeight: size.height,
+    pixelRatio: scale,
+  });
+  const mime = IMAGE_FORMATS.find((f) => f.key === format)?.mime ?? 'image/png';
+  return canvas.toDataURL(mime, quality);
+}
+
+/** Render the board to a data URL in the requested format. */
+export async function renderImage(canvasElement: HTMLElement, options: ImageExportOptions): Promise<string> {
+  const frame = getExportFrame(canvasElement);
+  const size = resolveExportSize(getExportFrameSize(canvasElement), options);
+  const format = IMAGE_FORMATS.find((f) => f.key === options.format) ?? IMAGE_FORMATS[0];
+
+  // JPEG has no alpha channel, so it always gets the canvas fill
+  const backgroundColor =
+    options.background === 'canvas' || !format.transparent
+      ? getComputedStyle(canvasElement).backgroundColor
+      : undefined;
+
+  return renderNode(frame, format.key, size, options.scale, backgroundColor, options.quality);
+}
+
+/**
+ * Fill behind a tile's rounded corners: none for formats with alpha, the
+ * canvas background otherwise (JPEG would turn the corners black).
+ */
+const getTileBackground = (canvasElement: HTMLElement | null, format: ImageFormat): string | undefined =>
+  IMAGE_FORMATS.find((f) => f.key === format)?.transparent || !canvasElement
+    ? undefined
+    : getComputedStyle(canvasElement).backgroundColor;
+
+const fileExtension = (format: ImageFormat): string => (format === 'jpeg' ? 'jpg' : format);
+
+/** Download a data URL or blob URL under the given filename. */
+const downloadUrl = (url: string, filename: string) => {
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+const dataUrlToBytes = async (dataUrl: string): Promise<Uint8Array> =>
+  new Uint8Array(await (await fetch(dataUrl)).arrayBuffer());
+
+const downloadZip = (entries: ZipEntry[], filename: string) => {
+  const blob = new Blob([createZip(entries)], { type: 'application/zip' });
+  const url = URL.createObjectURL(blob);
+  downloadUrl(url, filename);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Render and download the board.
+ *
+ * @param canvasElement - Canvas container (the board frame inside is captured)
+ * @param options - Format, size, scale and background
+ * @param filename - Base filename; size and extension are appended
+ */
+export async function exportImage(
   canvasElement: HTMLElement,
+  options: ImageExportOptions,
   filename: string = 'brandbento'
 ): Promise<void> {
-  // Filter function to exclude UI elements from export
-  const filter = (node: HTMLElement): boolean => {
-    // Skip non-element nodes
-    if (!(node instanceof HTMLElement)) return true;
-
-    // List of class names to exclude from export
-    const excludeClasses = [
-      'toolbar',
-      'edit-panel',
-      'control-panel',
-      'controls',
-      'tooltip',
-      'overlay',
-      'modal',
-    ];
-
-    // Check if node has any excluded class
-    if (node.classList) {
-      for (const cls of excludeClasses) {
-        if (node.classList.contains(cls)) {
-          return false;
-        }
-      }
-    }
-
-    // Also check data attributes for export exclusion
-    if (node.dataset?.exportExclude === 'true') {
-      return false;
-    }
-
-    return true;
-  };
+  try {
+    const dataUrl = await renderImage(canvasElement, options);
+    const size = options.width && options.height ? `-${options.width}x${options.height}` : '';
+    downloadUrl(dataUrl, `${filename}${size}-${Date.now()}.${fileExtension(options.format)}`);
+  } catch (error) {
+    console.error('Export failed:', error);
+    throw new Error(`Failed to export ${options.format.toUpperCase()}. Please try again.`);
+  }
+}
+
+/* ─── Tile assets ─── */
+
+/** Square sizes in the app icon set, in px. */
+export const APP_ICON_SIZES = [16, 32, 48, 64, 128, 180, 192, 256, 512, 1024];
+
+/** File-safe asset name for a placement, e.g. `hero-split-hero`. */
+export const getTileAssetName = (placementId: string, tileType?: string | null): string =>
+  [placementId, tileType]
+    .filter(Boolean)
+    .join('-')
+    .toLowerCase()
+    .replace(/[^a-z0-9-]+/g, '-');
+
+/** Rendered tile cells on the board, keyed by `data-placement-id`. */
+const findTileNodes = (root: ParentNode = document): HTMLElement[] =>
+  Array.from(root.querySelectorAll<HTMLElement>('[data-placement-id][data-tile-type]'));
+
+const findTileNode = (placementId: string): HTMLElement | undefined =>
+  findTileNodes().find((node) => node.dataset.placementId === placementId);
+
+/**
+ * Render a single placement's tile and download it.
+ *
+ * @param placementId - Grid slot to capture
+ * @param format - Output format
+ * @param scale - Pixel multiplier on the on-screen tile size
+ */
+export async function exportTile(placementId: string, format: ImageFormat, scale: number): Promise<void> {
+  const node = findTileNode(placementId);
+  if (!node) throw new Error(`Tile "${placementId}" is not on the canvas`);
+
+  const { width, height } = node.getBoundingClientRect();
+  const background = getTileBackground(node.closest<HTMLElement>('.bento-canvas'), format);
+  const dataUrl = await renderNode(node, format, { width, height }, scale, background);
+  downloadUrl(dataUrl, `${getTileAssetName(placementId, node.dataset.tileType)}.${fileExtension(format)}`);
+}
+
+/**
+ * Render an app-icon tile's icon at every size in `APP_ICON_SIZES` and
+ * download the set as a ZIP (`icon-16.png` … `icon-1024.png`).
+ */
+export async function exportAppIconSet(placementId: string): Promise<void> {
+  const icon = findTileNode(placementId)?.querySelector<HTMLElement>('[data-app-icon="true"]');
+  if (!icon) throw new Error(`No app icon found in "${placementId}"`);
+  if (icon.getBoundingClientRect().width === 0) throw new Error('App icon is not visible');
+
+  const entries: ZipEntry[] = [];
+  for (const size of APP_ICON_SIZES) {
+    const dataUrl = await renderNode(icon, 'png', { width: size, height: size }, 1);
+    entries.push({ name: `icon-${size}.png`, data: await dataUrlToBytes(dataUrl) });
+  }
+
+  downloadZip(entries, `${getTileAssetName(placementId, 'app-icon')}-icons.zip`);
+}
+
+/**
+ * Render every tile on the board and download them as one ZIP, each file
+ * named `<placementId>-<tileType>.<ext>`.
+ *
+ * @param canvasElement - Canvas container holding the tiles
+ * @param format - Output format for every tile
+ * @param scale - Pixel multiplier on the on-screen tile size
+ * @returns Number of tiles exported
+ */
+export async function exportAllTiles(canvasElement: HTMLElement, format: ImageFormat, scale: number): Promise<number> {
+  const nodes = findTileNodes(canvasElement);
+  const background = getTileBackground(canvasElement, format);
+  const entries: ZipEntry[] = [];
+
+  for (const node of nodes) {
+    const { width, height } = node.getBoundingClientRect();
+    if (width === 0 || height === 0) continue;
+    const dataUrl = await renderNode(node, format, { width, height }, scale, background);
+    entries.push({
+      name: `${getTileAssetName(node.dataset.placementId!, node.dataset.tileType)}.${fileExtension(format)}`,
+      data: await dataUrlToBytes(dataUrl),
+    });
+  }
+
+  if (entries.length > 0) downloadZip(entries, `brandbento-tiles-${Date.now()}.zip`);
+  return entries.length;
+}
+
+/** Width of board library thumbnails in CSS pixels. */
+const THUMBNAIL_WIDTH = 320;
+
+/**
+ * Capture a small JPEG of the canvas for the board library.
+ * Returns null instead of throwing — a missing thumbnail never blocks saving.
+ */
+export async function captureThumbnail(canvasElement: HTMLElement): Promise<string | null> {
+  const { width } = canvasElement.getBoundingClientRect();
+  if (width === 0) return null;
 
   try {
-    const dataUrl = await toPng(canvasElement, {
+    return await toJpeg(canvasElement, {
       cacheBust: true,
-      // EXPRT-04: Scale for high-DPI screens
-      pixelRatio: window.devicePixelRatio,
-      filter,
-      // Improve quality
-      quality: 1.0,
-      // Handle background
-      backgroundColor: undefined, // Use transparent or element's bg
+      pixelRatio: THUMBNAIL_WIDTH / width,
+      filter: shouldExportNode,
+      quality: 0.7,
     });
-
-    // Trigger download
-    const link = document.createElement('a');
-    link.download = `${filename}-${Date.now()}.png`;
-    link.href = dataUrl;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
   } catch (error) {
-    console.error('Export failed:', error);
-    throw new Error('Failed to export PNG. Please try again.');
+    console.error('Thumbnail capture failed:', error);
+    return null;
   }
 }
@@ -0,0 +1,22 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { confirmHistoryLoss } from './historyWarning';
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('confirmHistoryLoss', () => {
+  it('does not ask when there is no history', () => {
+    const confirm = vi.spyOn(window, 'confirm');
+    expect(confirmHistoryLoss(0, 'Switching boards')).toBe(true);
+    expect(confirm).not.toHaveBeenCalled();
+  });
+
+  it('asks with the number of steps and follows the answer', () => {
+    const confirm = vi.spyOn(window, 'confirm').mockReturnValueOnce(false).mockReturnValueOnce(true);
+    expect(confirmHistoryLoss(1, 'Loading a template')).toBe(false);
+    expect(confirm.mock.calls[0][0]).toContain('Loading a template clears your undo history (1 step)');
+    expect(confirmHistoryLoss(12, 'Switching boards')).toBe(true);
+    expect(confirm.mock.calls[1][0]).toContain('(12 steps)');
+  });
+});
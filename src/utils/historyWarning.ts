@@ -0,0 +1,25 @@
+/**
+ * History Warning
+ *
+ * Confirmation shown before an action that clears undo history (loading a
+ * template, switching boards). Named checkpoints are not affected, so the
+ * prompt points to them as the way to keep the current state reachable.
+ *
+ * @module utils/historyWarning
+ */
+
+/**
+ * Ask before `action` discards `steps` undo/redo steps.
+ * Returns true without asking when there is no history to lose.
+ *
+ * @param steps - Undo plus redo steps that would be cleared
+ * @param action - What the user is about to do, e.g. "Switching boards"
+ * @returns true when the action should go ahead
+ */
+export const confirmHistoryLoss = (steps: number, action: string): boolean => {
+  if (steps === 0) return true;
+  return window.confirm(
+    `${action} clears your undo history (${steps} step${steps === 1 ? '' : 's'}). ` +
+      'Save a checkpoint from the History menu first to keep this point. Continue?'
+  );
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { BENTO_LAYOUTS, customLayoutKey, type BentoLayoutConfig } from '../config/bentoLayouts';
+import { getLayoutIssues } from './layoutEngine';
+import {
+  PLACEMENT_IDS,
+  addPlacement,
+  createCustomLayoutDraft,
+  isCustomLayoutValid,
+  rectFromCorners,
+  removePlacement,
+  resizeGrid,
+  updatePlacement,
+} from './layoutEditor';
+
+const twoByTwo: BentoLayoutConfig = {
+  columns: 2,
+  rows: 2,
+  gap: 8,
+  placements: [
+    { id: 'hero', colStart: 1, rowStart: 1, colSpan: 1, rowSpan: 2 },
+    { id: 'a', colStart: 2, rowStart: 1, colSpan: 1, rowSpan: 1 },
+    { id: 'b', colStart: 2, rowStart: 2, colSpan: 1, rowSpan: 1 },
+  ],
+};
+
+describe('editing placements', () => {
+  it('builds a rect from corners dragged in any direction', () => {
+    expect(rectFromCorners([3, 4], [1, 2])).toEqual({ colStart: 1, rowStart: 2, colSpan: 3, rowSpan: 3 });
+  });
+
+  it('adds placements with the next unused id', () => {
+    const next = addPlacement(removePlacement(twoByTwo, 'b'), rectFromCorners([2, 2], [2, 2]));
+    const added = next.placements.at(-1)!.id;
+    expect(PLACEMENT_IDS).toContain(added);
+    expect(['hero', 'a']).not.toContain(added);
+    expect(getLayoutIssues(next)).toEqual([]);
+  });
+
+  it('moves and resizes placements by id, leaving the rest alone', () => {
+    const widened = updatePlacement(removePlacement(twoByTwo, 'a'), 'b', { rowStart: 1, rowSpan: 2 });
+    expect(widened.placements.find((p) => p.id === 'b')).toEqual({ id: 'b', colStart: 2, rowStart: 1, colSpan: 1, rowSpan: 2 });
+    expect(widened.placements.find((p) => p.id === 'hero')).toEqual(twoByTwo.placements[0]);
+    expect(getLayoutIssues(widened)).toEqual([]);
+  });
+
+  it('clips placements when the grid shrinks and leaves new cells empty', () => {
+    const narrow = resizeGrid(twoByTwo, 1, 2);
+    expect(narrow.placements.map((p) => p.id)).toEqual(['hero']);
+    expect(getLayoutIssues(narrow)).toEqual([]);
+
+    const tall = resizeGrid(twoByTwo, 2, 3);
+    expect(getLayoutIssues(tall).map((i) => i.kind)).toEqual(['hole']);
+  });
+});
+
+describe('createCustomLayoutDraft', () => {
+  it('copies the source layout for every breakpoint', () => {
+    const draft = createCustomLayoutDraft('x', 'Mine', 'heroLeft');
+    expect(draft.configs.desktop).toEqual(BENTO_LAYOUTS.heroLeft.desktop);
+    expect(draft.configs.desktop.placements).not.toBe(BENTO_LAYOUTS.heroLeft.desktop.placements);
+    expect(isCustomLayoutValid(draft)).toBe(true);
+  });
+
+  it('starts from an existing custom layout', () => {
+    const source = createCustomLayoutDraft('src', 'Source', 'mosaic');
+    const draft = createCustomLayoutDraft('copy', 'Copy', customLayoutKey('src'), [source]);
+    expect(draft.configs.mobile).toEqual(source.configs.mobile);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Layout Editor
+ *
+ * Pure helpers behind the custom layout editor: creating and resizing
+ * grids, adding/moving/resizing `CellPlacement` rectangles, and checking
+ * that every breakpoint of a custom layout is valid.
+ *
+ * Edits never refuse to produce holes or overlaps — the user needs to
+ * pass through invalid states while dragging. `getLayoutIssues` from the
+ * layout engine reports them instead, and the editor only saves layouts
+ * without issues.
+ *
+ * @module utils/layoutEditor
+ */
+import {
+  resolveLayoutConfig,
+  type BentoLayoutConfig,
+  type CellPlacement,
+  type CustomLayout,
+} from '../config/bentoLayouts';
+import { PLACEMENT_KIND_BY_ID } from '../config/placements';
+import type { BreakpointName } from '../types/layout';
+import { isValidLayout } from './layoutEngine';
+
+export const EDITOR_BREAKPOINTS: BreakpointName[] = ['mobile', 'tablet', 'desktop'];
+
+/** Grid size limits in the editor */
+export const MAX_GRID_COLUMNS = 6;
+export const MAX_GRID_ROWS = 8;
+
+/** Placement IDs a custom layout can use, in picker order. */
+export const PLACEMENT_IDS = Object.keys(PLACEMENT_KIND_BY_ID);
+
+/** A rectangle in 1-based grid cells. */
+export type CellRect = Omit<CellPlacement, 'id'>;
+
+/** Rectangle spanning two corner cells, in any drag direction. */
+export const rectFromCorners = (a: [number, number], b: [number, number]): CellRect => ({
+  colStart: Math.min(a[0], b[0]),
+  rowStart: Math.min(a[1], b[1]),
+  colSpan: Math.abs(a[0] - b[0]) + 1,
+  rowSpan: Math.abs(a[1] - b[1]) + 1,
+});
+
+/** First placement ID the config doesn't use yet, or undefined when all are taken. */
+export const nextPlacementId = (config: BentoLayoutConfig): string | undefined => {
+  const used = new Set(config.placements.map((p) => p.id));
+  return PLACEMENT_IDS.find((id) => !used.has(id));
+};
+
+/** Add a placement with the next free ID. Returns the config unchanged when IDs run out. */
+export const addPlacement = (config: BentoLayoutConfig, rect: CellRect): BentoLayoutConfig => {
+  const id = nextPlacementId(config);
+  if (!id) return config;
+  return { ...config, placements: [...config.placements, { id, ...rect }] };
+};
+
+export const updatePlacement = (
+  config: BentoLayoutConfig,
+  id: string,
+  changes: Partial<CellPlacement>,
+): BentoLayoutConfig => ({
+  ...config,
+  placements: config.placements.map((p) => (p.id === id ? { ...p, ...changes } : p)),
+});
+
+export const removePlacement = (config: BentoLayoutConfig, id: string): BentoLayoutConfig => ({
+  ...config,
+  placements: config.placements.filter((p) => p.id !== id),
+});
+
+/**
+ * Change the grid size. Placements are clipped to the new bounds and
+ * dropped when nothing of them remains; new rows/columns start empty.
+ */
+export const resizeGrid = (config: BentoLayoutConfig, columns: number, rows: number): BentoLayoutConfig => {
+  const cols = Math.min(MAX_GRID_COLUMNS, Math.max(1, columns));
+  const rws = Math.min(MAX_GRID_ROWS, Math.max(1, rows));
+  const placements = config.placements
+    .filter((p) => p.colStart <= cols && p.rowStart <= rws)
+    .map((p) => ({
+      ...p,
+      colSpan: Math.min(p.colSpan, cols - p.colStart + 1),
+      rowSpan: Math.min(p.rowSpan, rws - p.rowStart + 1),
+    }));
+  return { ...config, columns: cols, rows: rws, placements };
+};
+
+const cloneConfig = (config: BentoLayoutConfig): BentoLayoutConfig => ({
+  ...config,
+  placements: config.placements.map((p) => ({ ...p })),
+});
+
+/**
+ * Draft for a new custom layout, starting from whatever layout is active
+ * so the user edits rather than draws from scratch.
+ */
+export const createCustomLayoutDraft = (
+  id: string,
+  name: string,
+  fromKey: string,
+  customLayouts: readonly CustomLayout[] = [],
+): CustomLayout => ({
+  id,
+  name,
+  configs: {
+    mobile: cloneConfig(resolveLayoutConfig(fromKey, 'mobile', customLayouts)),
+    tablet: cloneConfig(resolveLayoutConfig(fromKey, 'tablet', customLayouts)),
+    desktop: cloneConfig(resolveLayoutConfig(fromKey, 'desktop', customLayouts)),
+  },
+});
+
+/** Whether every breakpoint of a custom layout is a valid bento grid. */
+export const isCustomLayoutValid = (layout: CustomLayout): boolean =>
+  EDITOR_BREAKPOINTS.every((bp) => isValidLayout(layout.configs[bp]));
+
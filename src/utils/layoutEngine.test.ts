@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { BENTO_LAYOUTS, type BentoLayoutConfig } from '../config/bentoLayouts';
+import { CANVAS_RATIOS } from '../store/useLayoutStore';
+import type { BreakpointName } from '../types/layout';
+import {
+  MAX_GENERATED_TILES,
+  findNeighborPlacement,
+  generateCustomLayout,
+  generateLayout,
+  getLayoutIssues,
+  isValidLayout,
+} from './layoutEngine';
+import { createRng } from './random';
+
+const BREAKPOINTS: BreakpointName[] = ['mobile', 'tablet', 'desktop'];
+
+const twoByTwo: BentoLayoutConfig = {
+  columns: 2,
+  rows: 2,
+  gap: 8,
+  placements: [
+    { id: 'hero', colStart: 1, rowStart: 1, colSpan: 1, rowSpan: 2 },
+    { id: 'a', colStart: 2, rowStart: 1, colSpan: 1, rowSpan: 1 },
+    { id: 'b', colStart: 2, rowStart: 2, colSpan: 1, rowSpan: 1 },
+  ],
+};
+
+const withPlacement = (id: string, changes: object): BentoLayoutConfig => ({
+  ...twoByTwo,
+  placements: twoByTwo.placements.map((p) => (p.id === id ? { ...p, ...changes } : p)),
+});
+
+const area = (p: { colSpan: number; rowSpan: number }) => p.colSpan * p.rowSpan;
+
+describe('getLayoutIssues', () => {
+  it('accepts every built-in preset', () => {
+    for (const layout of Object.values(BENTO_LAYOUTS)) {
+      for (const bp of BREAKPOINTS) {
+        expect(getLayoutIssues(layout[bp])).toEqual([]);
+      }
+    }
+  });
+
+  it('reports holes and overlaps with their cells', () => {
+    const hole = { ...twoByTwo, placements: twoByTwo.placements.slice(0, 2) };
+    expect(getLayoutIssues(hole)).toEqual([{ kind: 'hole', message: 'cell 2,2 not covered', cells: [[2, 2]] }]);
+
+    const overlap = withPlacement('a', { rowSpan: 2 });
+    expect(getLayoutIssues(overlap).map((i) => i.kind)).toEqual(['overlap']);
+    expect(getLayoutIssues(overlap)[0].cells).toEqual([[2, 2]]);
+  });
+
+  it('reports placements outside the grid, repeated ids and unknown ids', () => {
+    expect(getLayoutIssues(withPlacement('b', { colSpan: 2 })).map((i) => i.kind)).toEqual(['bounds']);
+    expect(getLayoutIssues(withPlacement('b', { id: 'a' })).map((i) => i.kind)).toEqual(['duplicate']);
+    expect(getLayoutIssues(withPlacement('b', { id: 'sidebar' }))).toEqual([
+      { kind: 'unknown', message: '"sidebar" is not a placement', cells: [] },
+    ]);
+  });
+});
+
+describe('findNeighborPlacement', () => {
+  it('finds the tile sharing an edge in each direction', () => {
+    expect(findNeighborPlacement(twoByTwo, 'hero', 'right')).toBe('a');
+    expect(findNeighborPlacement(twoByTwo, 'b', 'left')).toBe('hero');
+    expect(findNeighborPlacement(twoByTwo, 'a', 'down')).toBe('b');
+    expect(findNeighborPlacement(twoByTwo, 'hero', 'up')).toBeUndefined();
+    expect(findNeighborPlacement(twoByTwo, 'missing', 'right')).toBeUndefined();
+  });
+});
+
+describe('generateLayout', () => {
+  it('produces valid layouts for every tile count and breakpoint', () => {
+    for (let tileCount = 1; tileCount <= MAX_GENERATED_TILES; tileCount++) {
+      for (const breakpoint of BREAKPOINTS) {
+        const rng = createRng(`tiles-${tileCount}`, breakpoint);
+        for (let i = 0; i < 5; i++) {
+          const config = generateLayout({ tileCount, breakpoint, rng });
+          expect(getLayoutIssues(config)).toEqual([]);
+          expect(config.placements).toHaveLength(tileCount);
+        }
+      }
+    }
+  });
+
+  it('gives the requested placement the single largest tile', () => {
+    const rng = createRng('largest');
+    for (let i = 0; i < 10; i++) {
+      const config = generateLayout({ tileCount: 6, largest: 'product', breakpoint: 'desktop', rng });
+      const [first, ...rest] = config.placements;
+      expect(first.id).toBe('product');
+      for (const p of rest) expect(area(p)).toBeLessThan(area(first));
+    }
+  });
+
+  it('shapes the grid after the canvas ratio', () => {
+    const aspect = (key: string) => CANVAS_RATIOS.find((r) => r.key === key)!.value;
+    const wide = generateLayout({ tileCount: 6, aspect: aspect('16:9'), breakpoint: 'desktop', rng: createRng('ratio') });
+    const tall = generateLayout({ tileCount: 6, aspect: aspect('9:16'), breakpoint: 'desktop', rng: createRng('ratio') });
+    expect(wide.columns / wide.rows).toBeGreaterThan(tall.columns / tall.rows);
+    expect(isValidLayout(wide) && isValidLayout(tall)).toBe(true);
+  });
+
+  it('repeats for the same seed', () => {
+    const options = { tileCount: 7, breakpoint: 'desktop' as const };
+    expect(generateLayout({ ...options, rng: createRng('k3vq8m') })).toEqual(
+      generateLayout({ ...options, rng: createRng('k3vq8m') })
+    );
+  });
+});
+
+describe('generateCustomLayout', () => {
+  it('uses the same placements at every breakpoint', () => {
+    const layout = generateCustomLayout('gen', 'Generated', { tileCount: 8, rng: createRng('all') });
+    const ids = (bp: BreakpointName) => layout.configs[bp].placements.map((p) => p.id).sort();
+    expect(ids('mobile')).toEqual(ids('desktop'));
+    expect(ids('tablet')).toEqual(ids('desktop'));
+    expect(layout.configs.mobile.columns).toBeLessThanOrEqual(2);
+  });
+});
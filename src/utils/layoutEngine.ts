@@ -0,0 +1,308 @@
+/**
+ * Layout Engine
+ *
+ * Checks and builds bento grid configs. `BentoLayoutConfig` promises
+ * placements that cover every cell exactly once; `getLayoutIssues`
+ * verifies that for any config (presets, custom layouts, shared files)
+ * along with bounds and placement IDs. `findNeighborPlacement` answers
+ * which tile sits next to another, for moving tiles with the keyboard.
+ *
+ * `generateLayout` builds new valid grids procedurally: it picks a grid
+ * shaped for the canvas aspect ratio and breakpoint, places the largest
+ * tile, fills the remaining cells with single-cell tiles and merges
+ * neighbours until the requested tile count is reached. Randomness comes
+ * from an `Rng`, so the same seed always produces the same layout.
+ *
+ * @module utils/layoutEngine
+ */
+import type { BentoLayoutConfig, CellPlacement, CustomLayout } from '../config/bentoLayouts';
+import { PLACEMENT_KIND_BY_ID, type PlacementId } from '../config/placements';
+import type { BreakpointName } from '../types/layout';
+import { pickIndex, pickWeightedIndex, type Rng } from './random';
+
+export interface LayoutIssue {
+  kind: 'hole' | 'overlap' | 'bounds' | 'duplicate' | 'unknown';
+  message: string;
+  /** 1-based cells the issue covers, as `[col, row]` */
+  cells: [number, number][];
+}
+
+/** Placement IDs covering each cell, indexed `[row - 1][col - 1]`. */
+export const getCellOwners = (config: BentoLayoutConfig): string[][][] => {
+  const owners = Array.from({ length: config.rows }, () =>
+    Array.from({ length: config.columns }, () => [] as string[])
+  );
+  for (const p of config.placements) {
+    for (let row = p.rowStart; row < p.rowStart + p.rowSpan; row++) {
+      for (let col = p.colStart; col < p.colStart + p.colSpan; col++) {
+        owners[row - 1]?.[col - 1]?.push(p.id);
+      }
+    }
+  }
+  return owners;
+};
+
+const formatCells = (cells: [number, number][]): string =>
+  cells.length === 1 ? `cell ${cells[0][0]},${cells[0][1]}` : `${cells.length} cells`;
+
+/**
+ * Everything that breaks the bento invariant: uncovered cells, cells
+ * covered twice, placements outside the grid, repeated IDs and IDs
+ * without a tile mapping in `PLACEMENT_KIND_BY_ID`.
+ */
+export const getLayoutIssues = (config: BentoLayoutConfig): LayoutIssue[] => {
+  const issues: LayoutIssue[] = [];
+
+  for (const p of config.placements) {
+    if (!(p.id in PLACEMENT_KIND_BY_ID)) {
+      issues.push({ kind: 'unknown', message: `"${p.id}" is not a placement`, cells: [] });
+    }
+    const outside = p.colStart < 1 || p.rowStart < 1 || p.colSpan < 1 || p.rowSpan < 1
+      || p.colStart + p.colSpan - 1 > config.columns
+      || p.rowStart + p.rowSpan - 1 > config.rows;
+    if (outside) issues.push({ kind: 'bounds', message: `"${p.id}" extends outside the grid`, cells: [] });
+  }
+
+  const seen = new Set<string>();
+  for (const p of config.placements) {
+    if (seen.has(p.id)) issues.push({ kind: 'duplicate', message: `"${p.id}" is used more than once`, cells: [] });
+    seen.add(p.id);
+  }
+
+  const holes: [number, number][] = [];
+  const overlaps: [number, number][] = [];
+  getCellOwners(config).forEach((row, r) =>
+    row.forEach((ids, c) => {
+      if (ids.length === 0) holes.push([c + 1, r + 1]);
+      if (ids.length > 1) overlaps.push([c + 1, r + 1]);
+    })
+  );
+  if (holes.length > 0) issues.push({ kind: 'hole', message: `${formatCells(holes)} not covered`, cells: holes });
+  if (overlaps.length > 0) issues.push({ kind: 'overlap', message: `${formatCells(overlaps)} covered twice`, cells: overlaps });
+
+  return issues;
+};
+
+export const isValidLayout = (config: BentoLayoutConfig): boolean => getLayoutIssues(config).length === 0;
+
+export type GridDirection = 'up' | 'down' | 'left' | 'right';
+
+/**
+ * The placement directly next to `id` in a direction: the nearest one
+ * sharing part of its edge, preferring the longest shared stretch.
+ */
+export const findNeighborPlacement = (
+  config: BentoLayoutConfig,
+  id: string,
+  direction: GridDirection,
+): string | undefined => {
+  const from = config.placements.find((p) => p.id === id);
+  if (!from) return undefined;
+  const horizontal = direction === 'left' || direction === 'right';
+
+  let best: { id: string; distance: number; shared: number } | undefined;
+  for (const p of config.placements) {
+    if (p.id === id) continue;
+    const distance = {
+      left: from.colStart - (p.colStart + p.colSpan),
+      right: p.colStart - (from.colStart + from.colSpan),
+      up: from.rowStart - (p.rowStart + p.rowSpan),
+      down: p.rowStart - (from.rowStart + from.rowSpan),
+    }[direction];
+    const shared = horizontal
+      ? Math.min(from.rowStart + from.rowSpan, p.rowStart + p.rowSpan) - Math.max(from.rowStart, p.rowStart)
+      : Math.min(from.colStart + from.colSpan, p.colStart + p.colSpan) - Math.max(from.colStart, p.colStart);
+    if (distance < 0 || shared <= 0) continue;
+    if (!best || distance < best.distance || (distance === best.distance && shared > best.shared)) {
+      best = { id: p.id, distance, shared };
+    }
+  }
+  return best?.id;
+};
+
+// ── Generation ───────────────────────────────────────────────────────
+
+/** Column limits per breakpoint, matching the built-in presets' range */
+const MAX_COLUMNS: Record<BreakpointName, number> = { mobile: 2, tablet: 4, desktop: 6 };
+const MAX_ROWS = 8;
+
+/** Canvas aspect (width / height) assumed when the canvas ratio is `auto` */
+const DEFAULT_ASPECT: Record<BreakpointName, number> = { mobile: 1 / 2, tablet: 5 / 4, desktop: 16 / 10 };
+
+const GAP: Record<BreakpointName, number> = { mobile: 12, tablet: 14, desktop: 16 };
+
+/** Cells read best slightly wider than tall, like the presets' cells */
+const CELL_ASPECT = 1.4;
+
+/** Longest side of a merged tile relative to its shortest, in cells */
+const MAX_TILE_STRETCH = 3;
+
+/**
+ * Order placement IDs are handed out in: one of each tile type first,
+ * then the letter slots that repeat a type.
+ */
+const GENERATED_ID_ORDER: PlacementId[] = [
+  'hero', 'logo', 'editorial', 'buttons', 'social', 'colors', 'product', 'e', 'f', 'a', 'b', 'c', 'd',
+];
+
+/** Most tiles a generated layout can hold: one per placement ID */
+export const MAX_GENERATED_TILES = GENERATED_ID_ORDER.length;
+
+export interface GenerateLayoutOptions {
+  /** Number of tiles, clamped to 1–`MAX_GENERATED_TILES` */
+  tileCount: number;
+  /** Placement that gets the biggest tile (default `hero`) */
+  largest?: PlacementId;
+  /** Canvas width / height, e.g. a `CANVAS_RATIOS` value; null uses the breakpoint default */
+  aspect?: number | null;
+  breakpoint: BreakpointName;
+  rng: Rng;
+}
+
+type Rect = Omit<CellPlacement, 'id'>;
+
+const area = (r: Rect) => r.colSpan * r.rowSpan;
+
+/** Union of two rects when they share an edge fully, otherwise null. */
+const mergeRects = (a: Rect, b: Rect): Rect | null => {
+  if (a.rowStart === b.rowStart && a.rowSpan === b.rowSpan) {
+    const [left, right] = a.colStart < b.colStart ? [a, b] : [b, a];
+    if (left.colStart + left.colSpan === right.colStart) {
+      return { ...left, colSpan: left.colSpan + right.colSpan };
+    }
+  }
+  if (a.colStart === b.colStart && a.colSpan === b.colSpan) {
+    const [top, bottom] = a.rowStart < b.rowStart ? [a, b] : [b, a];
+    if (top.rowStart + top.rowSpan === bottom.rowStart) {
+      return { ...top, rowSpan: top.rowSpan + bottom.rowSpan };
+    }
+  }
+  return null;
+};
+
+/** Grid sizes that fit the tiles, best match for the canvas shape first. */
+const rankGrids = (tileCount: number, breakpoint: BreakpointName, aspect: number) => {
+  const target = aspect / CELL_ASPECT;
+  const grids: { columns: number; rows: number; score: number }[] = [];
+  for (let columns = 1; columns <= MAX_COLUMNS[breakpoint]; columns++) {
+    for (let rows = 1; rows <= MAX_ROWS; rows++) {
+      const cells = columns * rows;
+      // The largest tile needs two cells as soon as it has company
+      if (cells < tileCount + (tileCount > 1 ? 1 : 0)) continue;
+      const shape = Math.abs(Math.log(columns / rows / target));
+      const density = Math.abs(cells - tileCount * 1.6) / tileCount;
+      grids.push({ columns, rows, score: shape + density * 0.5 });
+    }
+  }
+  return grids.sort((a, b) => a.score - b.score);
+};
+
+/** One attempt at partitioning a grid; null when the merges run out. */
+const partitionGrid = (columns: number, rows: number, tileCount: number, rng: Rng): Rect[] | null => {
+  const cells = columns * rows;
+  if (tileCount === 1) return [{ colStart: 1, rowStart: 1, colSpan: columns, rowSpan: rows }];
+
+  // Largest tile: around a third of the grid, never so big the rest can't hold the others
+  const others = tileCount - 1;
+  const heroTarget = Math.max(2, cells * 0.3);
+  const heroSizes: { colSpan: number; rowSpan: number }[] = [];
+  for (let colSpan = 1; colSpan <= columns; colSpan++) {
+    for (let rowSpan = 1; rowSpan <= rows; rowSpan++) {
+      const size = colSpan * rowSpan;
+      const rest = cells - size;
+      const stretch = Math.max(colSpan, rowSpan) / Math.min(colSpan, rowSpan);
+      if (size < 2 || stretch > MAX_TILE_STRETCH) continue;
+      if (rest < others || rest > others * (size - 1)) continue;
+      heroSizes.push({ colSpan, rowSpan });
+    }
+  }
+  if (heroSizes.length === 0) return null;
+  const heroSize = heroSizes[pickWeightedIndex(rng, heroSizes.map((s) => 1 / (1 + Math.abs(s.colSpan * s.rowSpan - heroTarget))))];
+  const hero: Rect = {
+    ...heroSize,
+    colStart: 1 + pickIndex(rng, columns - heroSize.colSpan + 1),
+    rowStart: 1 + pickIndex(rng, rows - heroSize.rowSpan + 1),
+  };
+
+  let rects: Rect[] = [];
+  for (let row = 1; row <= rows; row++) {
+    for (let col = 1; col <= columns; col++) {
+      const inHero = col >= hero.colStart && col < hero.colStart + hero.colSpan
+        && row >= hero.rowStart && row < hero.rowStart + hero.rowSpan;
+      if (!inHero) rects.push({ colStart: col, rowStart: row, colSpan: 1, rowSpan: 1 });
+    }
+  }
+
+  // Merge neighbours until the count fits, keeping every tile smaller than the hero
+  while (rects.length > others) {
+    const merges: { i: number; j: number; rect: Rect }[] = [];
+    for (let i = 0; i < rects.length; i++) {
+      for (let j = i + 1; j < rects.length; j++) {
+        const rect = mergeRects(rects[i], rects[j]);
+        if (!rect || area(rect) >= area(hero)) continue;
+        if (Math.max(rect.colSpan, rect.rowSpan) / Math.min(rect.colSpan, rect.rowSpan) > MAX_TILE_STRETCH) continue;
+        merges.push({ i, j, rect });
+      }
+    }
+    if (merges.length === 0) return null;
+    // Favour small merges so tile sizes stay balanced
+    const { i, j, rect } = merges[pickWeightedIndex(rng, merges.map((m) => 1 / area(m.rect)))];
+    rects = [...rects.filter((_, k) => k !== i && k !== j), rect];
+  }
+
+  return [hero, ...rects];
+};
+
+/**
+ * Generate a valid bento config for one breakpoint.
+ *
+ * The largest placement gets the single biggest tile; the other IDs fill
+ * the remaining tiles in reading order. Throws when no grid within the
+ * breakpoint's limits can hold the tiles.
+ *
+ * @example generateLayout({ tileCount: 6, breakpoint: 'desktop', aspect: 16 / 9, rng: createRng('k3vq8m') })
+ */
+export const generateLayout = ({
+  tileCount,
+  largest = 'hero',
+  aspect,
+  breakpoint,
+  rng,
+}: GenerateLayoutOptions): BentoLayoutConfig => {
+  const count = Math.min(MAX_GENERATED_TILES, Math.max(1, Math.round(tileCount)));
+  const grids = rankGrids(count, breakpoint, aspect ?? DEFAULT_ASPECT[breakpoint]);
+  const ids = [largest, ...GENERATED_ID_ORDER.filter((id) => id !== largest)].slice(0, count);
+
+  // Try the best-fitting grids a few times each before giving up
+  for (let attempt = 0; attempt < 30 && grids.length > 0; attempt++) {
+    const grid = grids[Math.min(grids.length - 1, Math.floor(attempt / 3) + pickIndex(rng, 2))];
+    const rects = partitionGrid(grid.columns, grid.rows, count, rng);
+    if (!rects) continue;
+
+    const [hero, ...rest] = rects;
+    rest.sort((a, b) => a.rowStart - b.rowStart || a.colStart - b.colStart);
+    return {
+      columns: grid.columns,
+      rows: grid.rows,
+      gap: GAP[breakpoint],
+      placements: [hero, ...rest].map((rect, i) => ({ id: ids[i], ...rect })),
+    };
+  }
+
+  throw new Error(`No ${breakpoint} grid fits ${count} tiles`);
+};
+
+/** A generated layout for every breakpoint, with the same placements throughout. */
+export const generateCustomLayout = (
+  id: string,
+  name: string,
+  options: Omit<GenerateLayoutOptions, 'breakpoint'>,
+): CustomLayout => ({
+  id,
+  name,
+  configs: {
+    mobile: generateLayout({ ...options, breakpoint: 'mobile' }),
+    tablet: generateLayout({ ...options, breakpoint: 'tablet' }),
+    desktop: generateLayout({ ...options, breakpoint: 'desktop' }),
+  },
+});
@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MOODBOARD_SCHEMA_VERSION,
+  countLossyIssues,
+  createMoodboardDocument,
+  formatMoodboardReport,
+  migrateMoodboard,
+  parseMoodboard,
+} from './moodboardSchema';
+import { DEFAULT_BRAND } from '../data/brandPresets';
+import { INITIAL_TILES } from '../data/tileDefaults';
+import { createCustomLayoutDraft } from './layoutEditor';
+
+const slotIds = INITIAL_TILES.filter((t) => t.id.startsWith('slot-')).map((t) => t.id);
+
+describe('migrateMoodboard', () => {
+  it('adds missing slot tiles to unversioned payloads', () => {
+    const doc = migrateMoodboard({ brand: {}, tiles: [{ id: 'hero-1', type: 'hero', content: {} }] }, 0);
+
+    const ids = (doc.tiles as { id: string }[]).map((t) => t.id);
+    expect(ids).toEqual(['hero-1', ...slotIds]);
+    expect(doc.version).toBe(MOODBOARD_SCHEMA_VERSION);
+  });
+
+  it('introduces an empty layout section for v1 files', () => {
+    const doc = migrateMoodboard({ version: 1, brand: {}, tiles: [] }, 1);
+    expect(doc.layout).toBeNull();
+  });
+
+  it('normalizes the legacy share-link `v` key', () => {
+    const doc = migrateMoodboard({ v: 1, brand: {} }, 1);
+    expect(doc).not.toHaveProperty('v');
+    expect(doc.version).toBe(MOODBOARD_SCHEMA_VERSION);
+  });
+});
+
+describe('parseMoodboard', () => {
+  it('round-trips a document built from live state', () => {
+    const saved = createMoodboardDocument({
+      brand: { ...DEFAULT_BRAND, colors: { ...DEFAULT_BRAND.colors, schemeOverrides: { bg: '#101010' } } },
+      tiles: INITIAL_TILES,
+      tileSurfaces: { hero: 1, b: 'primary.100' },
+      placementContent: { d: { socialHandle: 'studio' } },
+      activePreset: 'custom',
+      layout: { preset: 'geos', density: 'cozy', placementSwaps: {}, canvasBg: null, canvasRatio: 'auto' },
+    });
+    const { document, report, error } = parseMoodboard(JSON.parse(JSON.stringify(saved)));
+
+    expect(error).toBeNull();
+    expect(countLossyIssues(report)).toEqual({ dropped: 0, coerced: 0 });
+    expect(document!.brand.colors.primary).toBe(DEFAULT_BRAND.colors.primary);
+    expect(document!.tiles).toHaveLength(INITIAL_TILES.length);
+    expect(document!.layout!.preset).toBe('geos');
+    expect(document!.tileSurfaces).toEqual({ hero: 1, b: 'primary.100' });
+    expect(document!.brand.colors.schemeOverrides).toEqual({ bg: '#101010' });
+  });
+
+  it('reads v1 files saved before layout was part of the document', () => {
+    const { document, report } = parseMoodboard({
+      version: 1,
+      brand: { colors: { primary: '#FF0000' } },
+      tiles: [{ id: 'hero-1', type: 'hero', content: { headline: 'Hi' } }],
+    });
+
+    expect(report.fromVersion).toBe(1);
+    expect(document!.layout).toBeNull();
+    expect(document!.brand.colors.primary).toBe('#FF0000');
+    expect(document!.brand.typography).toEqual(DEFAULT_BRAND.typography);
+    expect(document!.tiles).toHaveLength(1);
+  });
+
+  it('coerces unambiguous values and reports them', () => {
+    const { document, report } = parseMoodboard({
+      version: 2,
+      brand: {
+        typography: { baseSize: '18' },
+        colors: { bg: '#FFFFFFCC' },
+        ui: { buttonWeight: '600', buttonUppercase: 'true' },
+      },
+      tiles: [],
+    });
+
+    expect(document!.brand.typography.baseSize).toBe(18);
+    expect(document!.brand.colors.bg).toBe('#FFFFFF');
+    expect(document!.brand.ui.buttonWeight).toBe(600);
+    expect(document!.brand.ui.buttonUppercase).toBe(true);
+    expect(countLossyIssues(report)).toEqual({ dropped: 0, coerced: 4 });
+  });
+
+  it('drops invalid and unknown fields with readable paths', () => {
+    const { document, report } = parseMoodboard({
+      version: 2,
+      brand: {
+        colors: { primary: 'red', surfaces: ['#111111', 'nope'] },
+        logo: { image: 'file:///tmp/logo.png' },
+      },
+      tiles: [{ id: 'hero-1', type: 'hero', content: { heroPadding: 'wide', legacyField: 1 } }],
+      placementContent: { d: 'junk' },
+      locks: ['colors.primary', 'colors.everything'],
+    });
+
+    expect(document!.brand.colors.primary).toBe(DEFAULT_BRAND.colors.primary);
+    expect(document!.brand.colors.surfaces).toEqual(['#111111']);
+    expect(document!.brand.logo.image).toBeNull();
+    expect(document!.tiles[0].content).toEqual({});
+    expect(document!.placementContent).toEqual({});
+    expect(document!.locks).toEqual(['colors.primary']);
+    expect(formatMoodboardReport(report)).toEqual(expect.arrayContaining([
+      'dropped brand.colors.primary — expected hex color, got "red"',
+      'dropped brand.colors.surfaces[1] — expected hex color, got "nope"',
+      'dropped brand.logo.image — not a loadable image source',
+      'dropped tiles[0].content.heroPadding — expected number, got "wide"',
+      'dropped tiles[0].content.legacyField — unknown field',
+      'dropped placementContent.d — expected object, got "junk"',
+      'dropped locks[1] — unknown lock "colors.everything"',
+    ]));
+  });
+
+  it('carries the active custom layout and drops an invalid one', () => {
+    const customLayout = createCustomLayoutDraft('mine', 'Mine', 'spread');
+    const layout = { preset: 'custom:mine', density: 'cozy', placementSwaps: {}, canvasBg: null, canvasRatio: 'auto', customLayout };
+
+    const { document } = parseMoodboard({ version: MOODBOARD_SCHEMA_VERSION, brand: {}, tiles: [], layout });
+    expect(document!.layout!.preset).toBe('custom:mine');
+    expect(document!.layout!.customLayout).toEqual(customLayout);
+
+    const broken = { ...customLayout, configs: { ...customLayout.configs, mobile: { ...customLayout.configs.mobile, placements: [] } } };
+    const { document: dropped, report } = parseMoodboard({
+      version: MOODBOARD_SCHEMA_VERSION,
+      brand: {},
+      tiles: [],
+      layout: { ...layout, customLayout: broken },
+    });
+    expect(dropped!.layout).toBeNull();
+    expect(report.issues.map((i) => i.path)).toContain('layout.customLayout.configs.mobile');
+  });
+
+  it('rejects payloads without a brand or from a newer version', () => {
+    expect(parseMoodboard('nope').error).toBe('Not a moodboard file');
+    expect(parseMoodboard({ tiles: [] }).error).toBe('Moodboard has no brand data');
+    expect(parseMoodboard({ version: MOODBOARD_SCHEMA_VERSION + 1, brand: {} }).document).toBeNull();
+  });
+});
@@ -0,0 +1,739 @@
+/**
+ * Moodboard Document Schema
+ *
+ * Single source of truth for the serialized moodboard: the `.json` file
+ * written by Save, the payload inside share links, and the `brand-store`
+ * entry in localStorage all go through `parseMoodboard`.
+ *
+ * ## Versions
+ *
+ * - **v0** — unversioned payloads (early localStorage state). May predate
+ *   the unique slot tiles (`slot-a`…`slot-f`).
+ * - **v1** — first versioned file format (`version: 1`) and share links
+ *   (`v: 1`). Layout state was not part of saved files.
+ * - **v2** — adds the `layout` section (preset, density, swaps, canvas
+ *   background and ratio) so every consumer restores the same grid. When
+ *   the preset is a custom layout (`custom:<id>`), the section also
+ *   carries that layout so it renders for whoever opens the board.
+ *
+ * Each migration only reshapes the payload; field-level validation happens
+ * afterwards against the current shape, so a field added to `TileContent`
+ * only needs an entry in `TILE_CONTENT_FIELDS` to be accepted on load.
+ *
+ * @module utils/moodboardSchema
+ */
+import type {
+  Brand,
+  Colors,
+  Imagery,
+  Logo,
+  Tile,
+  TileContent,
+  Typography,
+  UISettings,
+} from '../store/useBrandStore';
+import { DEFAULT_BRAND } from '../data/brandPresets';
+import { INITIAL_TILES } from '../data/tileDefaults';
+import {
+  BENTO_LAYOUTS,
+  findCustomLayout,
+  type BentoLayoutConfig,
+  type CellPlacement,
+  type CustomLayout,
+  type LayoutKey,
+} from '../config/bentoLayouts';
+import { CANVAS_RATIOS, type CanvasRatio } from '../store/useLayoutStore';
+import type { BreakpointName, DensityMode } from '../types/layout';
+import { isBrandLockKey, type BrandLockKey } from './brandLocks';
+import { isRampStepRef, type SurfaceRef } from './colorRamps';
+import { EDITOR_BREAKPOINTS } from './layoutEditor';
+import { getLayoutIssues } from './layoutEngine';
+
+/** Current document version. Bump together with a new entry in `MIGRATIONS`. */
+export const MOODBOARD_SCHEMA_VERSION = 2;
+
+/** Layout state carried by a moodboard document. */
+export interface MoodboardLayout {
+  preset: LayoutKey;
+  density: DensityMode;
+  placementSwaps: Record<string, string>;
+  canvasBg: string | null;
+  canvasRatio: CanvasRatio;
+  /** The custom layout `preset` points at, when it is one */
+  customLayout?: CustomLayout;
+}
+
+/** Validated moodboard in the current schema version. */
+export interface MoodboardDocument {
+  version: typeof MOODBOARD_SCHEMA_VERSION;
+  brand: Brand;
+  tiles: Tile[];
+  tileSurfaces: Record<string, SurfaceRef | undefined>;
+  placementContent: Record<string, TileContent>;
+  activePreset?: string;
+  layout: MoodboardLayout | null;
+  theme?: 'light' | 'dark' | 'system';
+  activeCollectionId?: string | null;
+  collectionImagePool?: string[];
+  /** Seed of the shuffle that produced the board, for reproducing it */
+  shuffleSeed?: string | null;
+  /** Brand attributes kept as-is by shuffles */
+  locks?: BrandLockKey[];
+}
+
+/** One field that could not be loaded as-is. */
+export interface MoodboardIssue {
+  /** Dotted path to the field, e.g. `tiles[2].content.heroPadding` */
+  path: string;
+  /** dropped = value discarded; coerced = value converted; defaulted = missing, default used */
+  kind: 'dropped' | 'coerced' | 'defaulted';
+  /** Human-readable explanation */
+  detail: string;
+}
+
+export interface MoodboardReport {
+  /** Version the payload declared before migration */
+  fromVersion: number;
+  issues: MoodboardIssue[];
+}
+
+export interface MoodboardParseResult {
+  document: MoodboardDocument | null;
+  report: MoodboardReport;
+  error: string | null;
+}
+
+// ============================================
+// FIELD SPECS
+// ============================================
+
+type FieldSpec =
+  | { kind: 'string'; nullable?: boolean }
+  | { kind: 'number'; nullable?: boolean }
+  | { kind: 'boolean' }
+  | { kind: 'hex'; nullable?: boolean }
+  | { kind: 'string[]' }
+  | { kind: 'object'; nullable?: boolean }
+  | { kind: 'object[]' }
+  | { kind: 'enum'; values: readonly (string | number)[] };
+
+const TYPOGRAPHY_FIELDS: Record<keyof Typography, FieldSpec> = {
+  primary: { kind: 'string' },
+  secondary: { kind: 'string' },
+  ui: { kind: 'string' },
+  scale: { kind: 'number' },
+  baseSize: { kind: 'number' },
+  weightHeadline: { kind: 'string' },
+  weightBody: { kind: 'string' },
+  letterSpacing: { kind: 'enum', values: ['tight', 'normal', 'wide'] },
+  trackingHeadline: { kind: 'number' },
+  trackingBody: { kind: 'number' },
+  lineHeightHeadline: { kind: 'number' },
+  lineHeightBody: { kind: 'number' },
+  transformHeadline: { kind: 'enum', values: ['none', 'uppercase', 'capitalize'] },
+};
+
+const COLOR_FIELDS: Record<Exclude<keyof Colors, 'columnOverrides' | 'schemeOverrides'>, FieldSpec> = {
+  bg: { kind: 'hex' },
+  text: { kind: 'hex' },
+  primary: { kind: 'hex' },
+  accent: { kind: 'hex' },
+  surface: { kind: 'hex' },
+  surfaces: { kind: 'string[]' },
+  paletteColors: { kind: 'string[]' },
+};
+
+const LOGO_FIELDS: Record<keyof Logo, FieldSpec> = {
+  text: { kind: 'string' },
+  image: { kind: 'string', nullable: true },
+  padding: { kind: 'number' },
+  size: { kind: 'number' },
+  color: { kind: 'hex', nullable: true },
+  bgColor: { kind: 'hex', nullable: true },
+  fontFamily: { kind: 'string', nullable: true },
+  fontWeight: { kind: 'number', nullable: true },
+  letterSpacing: { kind: 'number', nullable: true },
+  lineHeight: { kind: 'number', nullable: true },
+};
+
+const IMAGERY_FIELDS: Record<keyof Imagery, FieldSpec> = {
+  url: { kind: 'string' },
+  style: { kind: 'enum', values: ['default', 'grayscale', 'tint'] },
+  overlay: { kind: 'number' },
+};
+
+const UI_FIELDS: Record<keyof UISettings, FieldSpec> = {
+  buttonRadius: { kind: 'number' },
+  buttonStyle: { kind: 'enum', values: ['filled', 'outline', 'soft'] },
+  buttonColor: { kind: 'hex', nullable: true },
+  buttonSize: { kind: 'enum', values: ['compact', 'default', 'large'] },
+  buttonWeight: { kind: 'enum', values: [400, 500, 600, 700] },
+  buttonUppercase: { kind: 'boolean' },
+  buttonLetterSpacing: { kind: 'number' },
+};
+
+/** Every `TileContent` field. Typed as a full record so adding a field to
+ *  the interface without registering it here is a compile error. */
+const TILE_CONTENT_FIELDS: Record<keyof TileContent, FieldSpec> = {
+  headline: { kind: 'string' },
+  subcopy: { kind: 'string' },
+  body: { kind: 'string' },
+  cta: { kind: 'string' },
+  label: { kind: 'string' },
+  price: { kind: 'string' },
+  image: { kind: 'string' },
+  overlayText: { kind: 'string' },
+  items: { kind: 'string[]' },
+  headerTitle: { kind: 'string' },
+  buttonLabel: { kind: 'string' },
+  inputPlaceholder: { kind: 'string' },
+  socialHandle: { kind: 'string' },
+  socialCaption: { kind: 'string' },
+  socialLikes: { kind: 'string' },
+  socialSponsored: { kind: 'string' },
+  socialAspect: { kind: 'string' },
+  socialPostCount: { kind: 'number' },
+  socialPosts: { kind: 'object[]' },
+  socialStyle: { kind: 'enum', values: ['full', 'clean', 'minimal'] },
+  socialCardBg: { kind: 'enum', values: ['white', 'surface'] },
+  imageLocked: { kind: 'boolean' },
+  patternVariant: { kind: 'string' },
+  patternScale: { kind: 'number' },
+  patternImage: { kind: 'string' },
+  patternImageLocked: { kind: 'boolean' },
+  ctaHidden: { kind: 'boolean' },
+  iconColor: { kind: 'string' },
+  iconShowBg: { kind: 'boolean' },
+  iconLibrary: { kind: 'enum', values: ['remix', 'feather', 'lucide', 'phosphor', 'tabler'] },
+  iconGridSize: { kind: 'enum', values: ['1', '2x2', '3x3'] },
+  iconLayout: { kind: 'enum', values: ['single', 'row', 'column', 'grid'] },
+  iconCustomSvg: { kind: 'string' },
+  symbolBg: { kind: 'boolean' },
+  symbolBgColor: { kind: 'string' },
+  symbolBgRadius: { kind: 'number' },
+  symbolBgPadding: { kind: 'number' },
+  symbolBgShadow: { kind: 'boolean' },
+  symbolColor: { kind: 'string' },
+  symbolStroke: { kind: 'boolean' },
+  symbolLabel: { kind: 'string' },
+  specimenVariation: { kind: 'enum', values: ['alphabet', 'wordlist'] },
+  heroVariation: { kind: 'enum', values: ['image', 'image-headline', 'solid-headline'] },
+  heroFontWeight: { kind: 'number' },
+  heroFontScale: { kind: 'number' },
+  heroTracking: { kind: 'number' },
+  heroLineHeight: { kind: 'number' },
+  heroTextColor: { kind: 'string' },
+  heroTextAlign: { kind: 'enum', values: ['left', 'center', 'right'] },
+  heroAlignH: { kind: 'enum', values: ['left', 'center', 'right'] },
+  heroAlignV: { kind: 'enum', values: ['top', 'center', 'bottom'] },
+  heroPadding: { kind: 'number' },
+  heroMaxWidth: { kind: 'number' },
+  heroOverlayEnabled: { kind: 'boolean' },
+  heroOverlayColor: { kind: 'string' },
+  heroOverlayOpacity: { kind: 'number' },
+  heroOverlayGradient: { kind: 'object', nullable: true },
+  heroBlendMode: { kind: 'string' },
+};
+
+// ============================================
+// VALUE COERCION
+// ============================================
+
+const HEX_RE = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+const HEX_ALPHA_RE = /^#([0-9a-f]{6})[0-9a-f]{2}$/i;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `"${value.length > 24 ? `${value.slice(0, 24)}…` : value}"`;
+  if (typeof value === 'object') return 'object';
+  return String(value);
+};
+
+type Coerced = { ok: true; value: unknown; coerced?: string } | { ok: false; reason: string };
+
+/** Check a raw value against a spec, converting where the intent is unambiguous. */
+const coerceValue = (value: unknown, spec: FieldSpec): Coerced => {
+  if (value === null && 'nullable' in spec && spec.nullable) return { ok: true, value: null };
+
+  switch (spec.kind) {
+    case 'string':
+      if (typeof value === 'string') return { ok: true, value };
+      if (typeof value === 'number') return { ok: true, value: String(value), coerced: `number ${value} → string` };
+      return { ok: false, reason: `expected string, got ${describe(value)}` };
+    case 'number':
+      if (typeof value === 'number' && Number.isFinite(value)) return { ok: true, value };
+      if (typeof value === 'string' && value.trim() !== '' && Number.isFinite(Number(value))) {
+        return { ok: true, value: Number(value), coerced: `string ${describe(value)} → number` };
+      }
+      return { ok: false, reason: `expected number, got ${describe(value)}` };
+    case 'boolean':
+      if (typeof value === 'boolean') return { ok: true, value };
+      if (value === 'true' || value === 'false') {
+        return { ok: true, value: value === 'true', coerced: `string ${describe(value)} → boolean` };
+      }
+      return { ok: false, reason: `expected boolean, got ${describe(value)}` };
+    case 'hex':
+      if (typeof value === 'string' && HEX_RE.test(value)) return { ok: true, value };
+      if (typeof value === 'string' && HEX_ALPHA_RE.test(value)) {
+        return { ok: true, value: value.slice(0, 7), coerced: `alpha channel removed from ${value}` };
+      }
+      return { ok: false, reason: `expected hex color, got ${describe(value)}` };
+    case 'string[]': {
+      if (!Array.isArray(value)) return { ok: false, reason: `expected list, got ${describe(value)}` };
+      const strings = value.filter((v): v is string => typeof v === 'string');
+      if (strings.length === value.length) return { ok: true, value: strings };
+      return { ok: true, value: strings, coerced: `${value.length - strings.length} non-text item(s) removed` };
+    }
+    case 'object':
+      if (isRecord(value)) return { ok: true, value };
+      return { ok: false, reason: `expected object, got ${describe(value)}` };
+    case 'object[]': {
+      if (!Array.isArray(value)) return { ok: false, reason: `expected list, got ${describe(value)}` };
+      const objects = value.filter(isRecord);
+      if (objects.length === value.length) return { ok: true, value: objects };
+      return { ok: true, value: objects, coerced: `${value.length - objects.length} malformed item(s) removed` };
+    }
+    case 'enum':
+      if (spec.values.includes(value as string | number)) return { ok: true, value };
+      if (typeof value === 'string' && spec.values.includes(Number(value))) {
+        return { ok: true, value: Number(value), coerced: `string ${describe(value)} → number` };
+      }
+      return { ok: false, reason: `expected one of ${spec.values.join(', ')}, got ${describe(value)}` };
+  }
+};
+
+/**
+ * Validate an object section against a field spec.
+ *
+ * - Known fields with bad values are dropped (defaults apply if `defaults` has them).
+ * - Unknown fields are dropped.
+ * - When `defaults` is given, missing fields are filled in and reported.
+ */
+const validateSection = <T extends object>(
+  raw: unknown,
+  fields: Record<string, FieldSpec>,
+  path: string,
+  issues: MoodboardIssue[],
+  defaults?: T,
+): Partial<T> => {
+  const result: Record<string, unknown> = {};
+  const source = isRecord(raw) ? raw : {};
+  if (raw !== undefined && !isRecord(raw)) {
+    issues.push({ path, kind: 'dropped', detail: `expected object, got ${describe(raw)}` });
+  }
+
+  for (const [key, value] of Object.entries(source)) {
+    const spec = fields[key];
+    const fieldPath = `${path}.${key}`;
+    if (!spec) {
+      issues.push({ path: fieldPath, kind: 'dropped', detail: 'unknown field' });
+      continue;
+    }
+    if (value === undefined) continue;
+    const checked = coerceValue(value, spec);
+    if (!checked.ok) {
+      issues.push({ path: fieldPath, kind: 'dropped', detail: checked.reason });
+      continue;
+    }
+    if (checked.coerced) {
+      issues.push({ path: fieldPath, kind: 'coerced', detail: checked.coerced });
+    }
+    result[key] = checked.value;
+  }
+
+  if (defaults) {
+    for (const [key, value] of Object.entries(defaults)) {
+      if (key in result || value === undefined) continue;
+      if (raw !== undefined && isRecord(raw)) {
+        issues.push({ path: `${path}.${key}`, kind: 'defaulted', detail: 'missing, default used' });
+      }
+      result[key] = value;
+    }
+  }
+
+  return result as Partial<T>;
+};
+
+// ============================================
+// SECTION VALIDATORS
+// ============================================
+
+/** Same rule as the store's persistence guard: data/blob/http(s) sources only. */
+const isValidImageSrc = (src: string): boolean =>
+  src.startsWith('data:image/') || src.startsWith('blob:') ||
+  src.startsWith('https://') || src.startsWith('http://');
+
+const validateHexList = (list: string[], path: string, issues: MoodboardIssue[]): string[] =>
+  list.flatMap((hex, i) => {
+    if (HEX_RE.test(hex)) return [hex];
+    if (HEX_ALPHA_RE.test(hex)) {
+      issues.push({ path: `${path}[${i}]`, kind: 'coerced', detail: `alpha channel removed from ${hex}` });
+      return [hex.slice(0, 7)];
+    }
+    issues.push({ path: `${path}[${i}]`, kind: 'dropped', detail: `expected hex color, got ${describe(hex)}` });
+    return [];
+  });
+
+const COLUMN_OVERRIDE_FIELDS: Record<string, FieldSpec> = {
+  tone: { kind: 'hex' },
+  text: { kind: 'hex' },
+  textCta: { kind: 'hex' },
+};
+
+const SCHEME_OVERRIDE_FIELDS: Record<keyof NonNullable<Colors['schemeOverrides']>, FieldSpec> = {
+  bg: { kind: 'hex' },
+  text: { kind: 'hex' },
+  primary: { kind: 'hex' },
+  accent: { kind: 'hex' },
+  surface: { kind: 'hex' },
+};
+
+const validateBrand = (raw: Record<string, unknown>, issues: MoodboardIssue[]): Brand => {
+  const defaults = DEFAULT_BRAND as Brand;
+  for (const key of Object.keys(raw)) {
+    if (!['typography', 'colors', 'logo', 'imagery', 'ui'].includes(key)) {
+      issues.push({ path: `brand.${key}`, kind: 'dropped', detail: 'unknown field' });
+    }
+  }
+
+  const typography = validateSection(raw.typography, TYPOGRAPHY_FIELDS, 'brand.typography', issues, defaults.typography) as Typography;
+  const logo = validateSection(raw.logo, LOGO_FIELDS, 'brand.logo', issues, { ...defaults.logo, image: null }) as Logo;
+  if (logo.image && !isValidImageSrc(logo.image)) {
+    issues.push({ path: 'brand.logo.image', kind: 'dropped', detail: 'not a loadable image source' });
+    logo.image = null;
+  }
+  const imagery = validateSection(raw.imagery, IMAGERY_FIELDS, 'brand.imagery', issues, defaults.imagery) as Imagery;
+  const ui = validateSection(raw.ui, UI_FIELDS, 'brand.ui', issues, defaults.ui) as UISettings;
+
+  const rawColors = isRecord(raw.colors) ? raw.colors : undefined;
+  const { columnOverrides: rawOverrides, schemeOverrides: rawSchemeOverrides, ...colorFields } = rawColors ?? {};
+  const colors = validateSection(
+    rawColors ? colorFields : undefined,
+    COLOR_FIELDS,
+    'brand.colors',
+    issues,
+    {
+      ...defaults.colors,
+      surfaces: [...defaults.colors.surfaces],
+      paletteColors: [...defaults.colors.paletteColors],
+    },
+  ) as Colors;
+  colors.surfaces = validateHexList(colors.surfaces, 'brand.colors.surfaces', issues);
+  colors.paletteColors = validateHexList(colors.paletteColors, 'brand.colors.paletteColors', issues);
+
+  const columnOverrides: NonNullable<Colors['columnOverrides']> = { primary: {}, surface: {}, accent: {} };
+  if (isRecord(rawOverrides)) {
+    for (const column of ['primary', 'surface', 'accent'] as const) {
+      if (rawOverrides[column] === undefined) continue;
+      columnOverrides[column] = validateSection(
+        rawOverrides[column],
+        COLUMN_OVERRIDE_FIELDS,
+        `brand.colors.columnOverrides.${column}`,
+        issues,
+      );
+    }
+  } else if (rawOverrides !== undefined) {
+    issues.push({ path: 'brand.colors.columnOverrides', kind: 'dropped', detail: `expected object, got ${describe(rawOverrides)}` });
+  }
+  colors.columnOverrides = columnOverrides;
+
+  if (rawSchemeOverrides !== undefined) {
+    const schemeOverrides = validateSection(
+      rawSchemeOverrides,
+      SCHEME_OVERRIDE_FIELDS,
+      'brand.colors.schemeOverrides',
+      issues,
+    );
+    if (Object.keys(schemeOverrides).length > 0) colors.schemeOverrides = schemeOverrides;
+  }
+
+  return { typography, colors, logo, imagery, ui };
+};
+
+const validateTileContent = (raw: unknown, path: string, issues: MoodboardIssue[]): TileContent =>
+  validateSection<TileContent>(raw, TILE_CONTENT_FIELDS, path, issues);
+
+const validateTiles = (raw: unknown, issues: MoodboardIssue[]): Tile[] => {
+  if (raw === undefined) return [];
+  if (!Array.isArray(raw)) {
+    issues.push({ path: 'tiles', kind: 'dropped', detail: `expected list, got ${describe(raw)}` });
+    return [];
+  }
+  return raw.flatMap((item, i): Tile[] => {
+    const path = `tiles[${i}]`;
+    if (!isRecord(item) || typeof item.id !== 'string' || typeof item.type !== 'string') {
+      issues.push({ path, kind: 'dropped', detail: 'tile needs a string id and type' });
+      return [];
+    }
+    const spans = validateSection<{ colSpan: number; rowSpan: number; surfaceIndex?: number }>(
+      { colSpan: item.colSpan, rowSpan: item.rowSpan, surfaceIndex: item.surfaceIndex },
+      { colSpan: { kind: 'number' }, rowSpan: { kind: 'number' }, surfaceIndex: { kind: 'number' } },
+      path,
+      issues,
+    );
+    const tile: Tile = {
+      id: item.id,
+      type: item.type,
+      content: validateTileContent(item.content, `${path}.content`, issues),
+      colSpan: spans.colSpan ?? 1,
+      rowSpan: spans.rowSpan ?? 1,
+    };
+    if (spans.surfaceIndex !== undefined) tile.surfaceIndex = spans.surfaceIndex;
+    return [tile];
+  });
+};
+
+const validateTileSurfaces = (raw: unknown, issues: MoodboardIssue[]): Record<string, SurfaceRef | undefined> => {
+  if (raw === undefined) return {};
+  if (!isRecord(raw)) {
+    issues.push({ path: 'tileSurfaces', kind: 'dropped', detail: `expected object, got ${describe(raw)}` });
+    return {};
+  }
+  const result: Record<string, SurfaceRef | undefined> = {};
+  for (const [placementId, index] of Object.entries(raw)) {
+    if (index === undefined || index === null) continue;
+    if (isRampStepRef(index)) {
+      result[placementId] = index;
+      continue;
+    }
+    const checked = coerceValue(index, { kind: 'number' });
+    if (!checked.ok || !Number.isInteger(checked.value) || (checked.value as number) < 0) {
+      issues.push({ path: `tileSurfaces.${placementId}`, kind: 'dropped', detail: `expected surface index or ramp step, got ${describe(index)}` });
+      continue;
+    }
+    if (checked.coerced) {
+      issues.push({ path: `tileSurfaces.${placementId}`, kind: 'coerced', detail: checked.coerced });
+    }
+    result[placementId] = checked.value as number;
+  }
+  return result;
+};
+
+const validatePlacementContent = (raw: unknown, issues: MoodboardIssue[]): Record<string, TileContent> => {
+  if (raw === undefined) return {};
+  if (!isRecord(raw)) {
+    issues.push({ path: 'placementContent', kind: 'dropped', detail: `expected object, got ${describe(raw)}` });
+    return {};
+  }
+  const result: Record<string, TileContent> = {};
+  for (const [placementId, content] of Object.entries(raw)) {
+    if (!isRecord(content)) {
+      issues.push({ path: `placementContent.${placementId}`, kind: 'dropped', detail: `expected object, got ${describe(content)}` });
+      continue;
+    }
+    result[placementId] = validateTileContent(content, `placementContent.${placementId}`, issues);
+  }
+  return result;
+};
+
+const LAYOUT_FIELDS: Record<Exclude<keyof MoodboardLayout, 'customLayout'>, FieldSpec> = {
+  preset: { kind: 'enum', values: Object.keys(BENTO_LAYOUTS) },
+  density: { kind: 'enum', values: ['cozy', 'dense'] },
+  placementSwaps: { kind: 'object' },
+  canvasBg: { kind: 'hex', nullable: true },
+  canvasRatio: { kind: 'enum', values: CANVAS_RATIOS.map((r) => r.key) },
+};
+
+const CELL_FIELDS: (keyof Omit<CellPlacement, 'id'>)[] = ['colStart', 'rowStart', 'colSpan', 'rowSpan'];
+
+const isInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value);
+
+const readLayoutConfig = (raw: unknown): BentoLayoutConfig | null => {
+  if (!isRecord(raw) || !Array.isArray(raw.placements)) return null;
+  const { columns, rows, gap } = raw;
+  if (!isInteger(columns) || !isInteger(rows) || !isInteger(gap)) return null;
+  const placements: CellPlacement[] = [];
+  for (const p of raw.placements) {
+    if (!isRecord(p) || typeof p.id !== 'string' || !CELL_FIELDS.every((key) => isInteger(p[key]))) return null;
+    placements.push({ id: p.id, colStart: p.colStart as number, rowStart: p.rowStart as number, colSpan: p.colSpan as number, rowSpan: p.rowSpan as number });
+  }
+  return { columns, rows, gap, placements };
+};
+
+/** A custom layout is kept whole or dropped: a partial grid would not render. */
+const validateCustomLayout = (raw: unknown, issues: MoodboardIssue[]): CustomLayout | undefined => {
+  const path = 'layout.customLayout';
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string' || !isRecord(raw.configs)) {
+    issues.push({ path, kind: 'dropped', detail: `expected { id, name, configs }, got ${describe(raw)}` });
+    return undefined;
+  }
+  const configs = {} as Record<BreakpointName, BentoLayoutConfig>;
+  for (const bp of EDITOR_BREAKPOINTS) {
+    const config = readLayoutConfig(raw.configs[bp]);
+    const problem = config ? getLayoutIssues(config)[0]?.message : 'expected a grid config';
+    if (!config || problem) {
+      issues.push({ path: `${path}.configs.${bp}`, kind: 'dropped', detail: problem ?? 'invalid grid config' });
+      return undefined;
+    }
+    configs[bp] = config;
+  }
+  return { id: raw.id, name: raw.name, configs };
+};
+
+const validateLayout = (raw: unknown, issues: MoodboardIssue[]): MoodboardLayout | null => {
+  if (raw === undefined || raw === null) return null;
+  // Custom layouts are checked as a whole; their key is only valid next to them
+  const { customLayout: rawCustom, ...fields } = isRecord(raw) ? raw : {};
+  const customLayout = rawCustom === undefined ? undefined : validateCustomLayout(rawCustom, issues);
+  const customKey = typeof fields.preset === 'string' && customLayout && findCustomLayout(fields.preset, [customLayout])
+    ? (fields.preset as LayoutKey)
+    : undefined;
+  const layout = validateSection<MoodboardLayout>(
+    isRecord(raw) ? { ...fields, ...(customKey ? { preset: undefined } : {}) } : raw,
+    LAYOUT_FIELDS,
+    'layout',
+    issues,
+  );
+  const preset = customKey ?? layout.preset;
+  if (!preset) {
+    if (isRecord(raw)) issues.push({ path: 'layout', kind: 'dropped', detail: 'no valid preset' });
+    return null;
+  }
+  const placementSwaps: Record<string, string> = {};
+  for (const [from, to] of Object.entries(layout.placementSwaps ?? {})) {
+    if (typeof to === 'string') placementSwaps[from] = to;
+    else issues.push({ path: `layout.placementSwaps.${from}`, kind: 'dropped', detail: `expected placement id, got ${describe(to)}` });
+  }
+  return {
+    preset,
+    density: layout.density ?? 'cozy',
+    placementSwaps,
+    canvasBg: layout.canvasBg ?? null,
+    canvasRatio: layout.canvasRatio ?? 'auto',
+    ...(customKey && customLayout ? { customLayout } : {}),
+  };
+};
+
+// ============================================
+// MIGRATIONS
+// ============================================
+
+type RawDocument = Record<string, unknown>;
+
+/** `MIGRATIONS[n]` upgrades a v`n` payload to v`n + 1`. */
+const MIGRATIONS: Record<number, (doc: RawDocument, issues: MoodboardIssue[]) => RawDocument> = {
+  // v0 → v1: add slot tiles missing from the shared-ID era ('a' → 'logo-1'),
+  // now that every letter placement has its own 'slot-*' tile.
+  0: (doc, issues) => {
+    if (!Array.isArray(doc.tiles) || doc.tiles.length === 0) return doc;
+    const existingIds = new Set(doc.tiles.filter(isRecord).map((t) => t.id));
+    const missing = INITIAL_TILES.filter((t) => t.id.startsWith('slot-') && !existingIds.has(t.id));
+    for (const tile of missing) {
+      issues.push({ path: `tiles.${tile.id}`, kind: 'defaulted', detail: 'slot tile added by v0 → v1 migration' });
+    }
+    return missing.length > 0 ? { ...doc, tiles: [...doc.tiles, ...missing] } : doc;
+  },
+  // v1 → v2: layout became part of the document. Files saved before this
+  // carried none, so the viewer's own layout stays in effect.
+  1: (doc) => ({ ...doc, layout: doc.layout ?? null }),
+};
+
+const readVersion = (doc: RawDocument): number => {
+  const declared = typeof doc.version === 'number' ? doc.version : doc.v;
+  return typeof declared === 'number' && Number.isInteger(declared) && declared >= 0 ? declared : 0;
+};
+
+/**
+ * Run the migration chain from `fromVersion` up to the current version.
+ * Does not validate fields — use `parseMoodboard` for that.
+ */
+export const migrateMoodboard = (
+  raw: RawDocument,
+  fromVersion: number,
+  issues: MoodboardIssue[] = [],
+): RawDocument => {
+  let doc: RawDocument = { ...raw };
+  delete doc.v;
+  for (let version = fromVersion; version < MOODBOARD_SCHEMA_VERSION; version += 1) {
+    const migrate = MIGRATIONS[version];
+    if (migrate) doc = migrate(doc, issues);
+  }
+  return { ...doc, version: MOODBOARD_SCHEMA_VERSION };
+};
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Migrate and validate any serialized moodboard (file, share link, or
+ * persisted store state).
+ *
+ * @param raw - Parsed JSON value
+ * @returns The validated document (null on fatal errors), a report of every
+ *   dropped/coerced/defaulted field, and a fatal error message if any
+ */
+export const parseMoodboard = (raw: unknown): MoodboardParseResult => {
+  const issues: MoodboardIssue[] = [];
+
+  if (!isRecord(raw)) {
+    return { document: null, report: { fromVersion: 0, issues }, error: 'Not a moodboard file' };
+  }
+
+  const fromVersion = readVersion(raw);
+  const report: MoodboardReport = { fromVersion, issues };
+
+  if (fromVersion > MOODBOARD_SCHEMA_VERSION) {
+    return {
+      document: null,
+      report,
+      error: `Moodboard was saved by a newer version (v${fromVersion}); this app reads up to v${MOODBOARD_SCHEMA_VERSION}`,
+    };
+  }
+  if (!isRecord(raw.brand)) {
+    return { document: null, report, error: 'Moodboard has no brand data' };
+  }
+
+  const doc = migrateMoodboard(raw, fromVersion, issues);
+
+  const document: MoodboardDocument = {
+    version: MOODBOARD_SCHEMA_VERSION,
+    brand: validateBrand(doc.brand as Record<string, unknown>, issues),
+    tiles: validateTiles(doc.tiles, issues),
+    tileSurfaces: validateTileSurfaces(doc.tileSurfaces, issues),
+    placementContent: validatePlacementContent(doc.placementContent, issues),
+    layout: validateLayout(doc.layout, issues),
+  };
+
+  if (typeof doc.activePreset === 'string') document.activePreset = doc.activePreset;
+  if (doc.theme === 'light' || doc.theme === 'dark' || doc.theme === 'system') document.theme = doc.theme;
+  if (doc.activeCollectionId === null || typeof doc.activeCollectionId === 'string') {
+    document.activeCollectionId = doc.activeCollectionId;
+  }
+  if (Array.isArray(doc.collectionImagePool)) {
+    document.collectionImagePool = doc.collectionImagePool.filter((u): u is string => typeof u === 'string');
+  }
+  if (doc.shuffleSeed === null || typeof doc.shuffleSeed === 'string') {
+    document.shuffleSeed = doc.shuffleSeed;
+  }
+  if (Array.isArray(doc.locks)) {
+    document.locks = doc.locks.filter(isBrandLockKey);
+    doc.locks.forEach((key, i) => {
+      if (!isBrandLockKey(key)) issues.push({ path: `locks[${i}]`, kind: 'dropped', detail: `unknown lock ${describe(key)}` });
+    });
+  }
+
+  return { document, report, error: null };
+};
+
+/** Build a current-version document from live state, ready for `JSON.stringify`. */
+export const createMoodboardDocument = (
+  state: Omit<MoodboardDocument, 'version'>,
+): MoodboardDocument => ({
+  version: MOODBOARD_SCHEMA_VERSION,
+  ...state,
+});
+
+/** One line per issue, e.g. `dropped tiles[2].content.heroPadding — expected number, got "wide"`. */
+export const formatMoodboardReport = (report: MoodboardReport): string[] =>
+  report.issues.map((issue) => `${issue.kind} ${issue.path} — ${issue.detail}`);
+
+/** Count issues that lost or changed user data (ignores filled-in defaults). */
+export const countLossyIssues = (report: MoodboardReport): { dropped: number; coerced: number } => ({
+  dropped: report.issues.filter((i) => i.kind === 'dropped').length,
+  coerced: report.issues.filter((i) => i.kind === 'coerced').length,
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { clampToSrgbGamut, getHueDistance, hexToOklch, isInSrgbGamut, oklchToHex } from './oklch';
+
+describe('hexToOklch', () => {
+  it('matches reference values', () => {
+    const white = hexToOklch('#FFFFFF');
+    expect(white.l).toBeCloseTo(1, 3);
+    expect(white.c).toBeCloseTo(0, 3);
+
+    const red = hexToOklch('#FF0000');
+    expect(red.l).toBeCloseTo(0.628, 2);
+    expect(red.c).toBeCloseTo(0.258, 2);
+    expect(red.h).toBeCloseTo(29.2, 0);
+  });
+
+  it('treats invalid input as black', () => {
+    expect(hexToOklch('nope').l).toBe(0);
+  });
+});
+
+describe('oklchToHex', () => {
+  it('roundtrips sRGB colors', () => {
+    for (const hex of ['#FF6B35', '#4ECDC4', '#1D4ED8', '#F59E0B', '#171717', '#FFF']) {
+      const full = hex.length === 4 ? '#FFFFFF' : hex;
+      expect(oklchToHex(hexToOklch(hex))).toBe(full);
+    }
+  });
+
+  it('maps out-of-gamut colors back by lowering chroma only', () => {
+    const vivid = { l: 0.7, c: 0.4, h: 150 };
+    expect(isInSrgbGamut(vivid)).toBe(false);
+
+    const clamped = clampToSrgbGamut(vivid);
+    expect(isInSrgbGamut(clamped)).toBe(true);
+    expect(clamped.l).toBe(0.7);
+    expect(clamped.h).toBe(150);
+    expect(clamped.c).toBeLessThan(0.4);
+
+    const result = hexToOklch(oklchToHex(vivid));
+    expect(getHueDistance(result.h, 150)).toBeLessThan(2);
+  });
+});
+
+describe('getHueDistance', () => {
+  it('wraps around the hue wheel', () => {
+    expect(getHueDistance(350, 10)).toBe(20);
+    expect(getHueDistance(10, 190)).toBe(180);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * OKLab / OKLCH
+ *
+ * Conversions between sRGB hex and Björn Ottosson's OKLab perceptual color
+ * space, plus its polar form OKLCH. Equal lightness steps in OKLCH look
+ * equal across hues, and moving lightness keeps the perceived hue — in HSL,
+ * darkening a yellow drifts toward olive and lightening a blue toward purple.
+ *
+ * `oklchToHex` keeps results inside the sRGB gamut by lowering chroma at
+ * constant lightness and hue, so the hue survives even when the exact
+ * color can't be displayed.
+ *
+ * @module utils/oklch
+ */
+
+/** OKLab coordinates; `l` is 0-1, `a`/`b` roughly -0.4 to 0.4. */
+export interface Oklab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+/** OKLCH coordinates; `l` is 0-1, `c` is 0 to ~0.37 for sRGB, `h` is 0-360. */
+export interface Oklch {
+  l: number;
+  c: number;
+  h: number;
+}
+
+/** Tolerance for treating linear RGB channels as in gamut */
+const GAMUT_EPSILON = 1e-6;
+
+/** Chroma precision of the gamut-mapping search */
+const CHROMA_PRECISION = 1e-4;
+
+const srgbToLinear = (value: number): number =>
+  value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+
+const linearToSrgb = (value: number): number =>
+  value <= 0.0031308 ? value * 12.92 : 1.055 * Math.pow(value, 1 / 2.4) - 0.055;
+
+/** Linear-light RGB (0-1) for a 3- or 6-digit hex; black for invalid input. */
+export const hexToLinearRgb = (hex: string): [number, number, number] => {
+  const raw = hex.replace(/^#/, '');
+  const full = /^[a-f\d]{3}$/i.test(raw) ? raw.replace(/./g, (c) => c + c) : raw;
+  if (!/^[a-f\d]{6}$/i.test(full)) return [0, 0, 0];
+  return [0, 2, 4].map((i) => srgbToLinear(parseInt(full.slice(i, i + 2), 16) / 255)) as [number, number, number];
+};
+
+const oklabToLinearRgb = ({ l, a, b }: Oklab): [number, number, number] => {
+  const l_ = l + 0.3963377774 * a + 0.2158037573 * b;
+  const m_ = l - 0.1055613458 * a - 0.0638541728 * b;
+  const s_ = l - 0.0894841775 * a - 1.291485548 * b;
+  const lc = l_ ** 3;
+  const mc = m_ ** 3;
+  const sc = s_ ** 3;
+  return [
+    4.0767416621 * lc - 3.3077115913 * mc + 0.2309699292 * sc,
+    -1.2684380046 * lc + 2.6097574011 * mc - 0.3413193965 * sc,
+    -0.0041960863 * lc - 0.7034186147 * mc + 1.707614701 * sc,
+  ];
+};
+
+/** Convert a hex color to OKLab. Invalid input maps to black. */
+export const hexToOklab = (hex: string): Oklab => {
+  const [r, g, b] = hexToLinearRgb(hex);
+  const l_ = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m_ = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s_ = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+  return {
+    l: 0.2104542553 * l_ + 0.793617785 * m_ - 0.0040720468 * s_,
+    a: 1.9779984951 * l_ - 2.428592205 * m_ + 0.4505937099 * s_,
+    b: 0.0259040371 * l_ + 0.7827717662 * m_ - 0.808675766 * s_,
+  };
+};
+
+export const oklabToOklch = ({ l, a, b }: Oklab): Oklch => {
+  const h = (Math.atan2(b, a) * 180) / Math.PI;
+  return { l, c: Math.sqrt(a * a + b * b), h: h < 0 ? h + 360 : h };
+};
+
+export const oklchToOklab = ({ l, c, h }: Oklch): Oklab => {
+  const rad = (h * Math.PI) / 180;
+  return { l, a: c * Math.cos(rad), b: c * Math.sin(rad) };
+};
+
+/** Convert a hex color to OKLCH. Invalid input maps to black. */
+export const hexToOklch = (hex: string): Oklch => oklabToOklch(hexToOklab(hex));
+
+/** Whether an OKLCH color can be shown in sRGB without clipping. */
+export const isInSrgbGamut = (color: Oklch): boolean =>
+  oklabToLinearRgb(oklchToOklab(color)).every((v) => v >= -GAMUT_EPSILON && v <= 1 + GAMUT_EPSILON);
+
+/**
+ * Bring an OKLCH color into the sRGB gamut by lowering chroma (binary
+ * search) at the same lightness and hue.
+ */
+export const clampToSrgbGamut = (color: Oklch): Oklch => {
+  const l = Math.min(1, Math.max(0, color.l));
+  const target = { ...color, l, c: Math.max(0, color.c) };
+  if (isInSrgbGamut(target)) return target;
+
+  let low = 0;
+  let high = target.c;
+  while (high - low > CHROMA_PRECISION) {
+    const mid = (low + high) / 2;
+    if (isInSrgbGamut({ ...target, c: mid })) low = mid;
+    else high = mid;
+  }
+  return { ...target, c: low };
+};
+
+/** 6-digit uppercase hex for linear-light RGB channels, clipped to 0-1. */
+export const linearRgbToHex = (channels: readonly number[]): string => {
+  const hex = channels
+    .map((v) => Math.round(Math.min(1, Math.max(0, linearToSrgb(Math.max(0, v)))) * 255))
+    .map((v) => v.toString(16).padStart(2, '0'))
+    .join('');
+  return `#${hex}`.toUpperCase();
+};
+
+/**
+ * Convert OKLCH to a 6-digit uppercase hex string, gamut-mapped to sRGB.
+ * @example oklchToHex({ l: 0.63, c: 0.26, h: 29 }) // '#FF0000'-ish red
+ */
+export const oklchToHex = (color: Oklch): string =>
+  linearRgbToHex(oklabToLinearRgb(oklchToOklab(clampToSrgbGamut(color))));
+
+/** Euclidean distance in OKLab (ΔE OK); about 0.02 is a just-noticeable difference. */
+export const getOklabDistance = (a: string, b: string): number => {
+  const p = hexToOklab(a);
+  const q = hexToOklab(b);
+  return Math.hypot(p.l - q.l, p.a - q.a, p.b - q.b);
+};
+
+/** Shortest distance between two hues on the 360° wheel. */
+export const getHueDistance = (a: number, b: number): number => {
+  const diff = Math.abs(a - b) % 360;
+  return Math.min(diff, 360 - diff);
+};
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { extractPalette, getDefaultPicks, paletteFromColors } from './paletteExtraction';
+import { getOklabDistance } from './oklch';
+
+/** RGBA pixels: `count` pixels of each [r, g, b] */
+const pixelsOf = (...groups: [number, number, number, number][]): Uint8ClampedArray => {
+  const data: number[] = [];
+  for (const [r, g, b, count] of groups) {
+    for (let i = 0; i < count; i++) data.push(r, g, b, 255);
+  }
+  return new Uint8ClampedArray(data);
+};
+
+describe('extractPalette', () => {
+  it('finds the dominant colors with their share of the image', () => {
+    const palette = extractPalette(pixelsOf([220, 40, 40, 600], [30, 60, 200, 300], [250, 250, 245, 100]));
+
+    expect(palette).toHaveLength(3);
+    expect(getOklabDistance(palette[0].hex, '#DC2828')).toBeLessThan(0.03);
+    expect(getOklabDistance(palette[1].hex, '#1E3CC8')).toBeLessThan(0.03);
+    expect(palette.map((c) => c.weight)).toEqual([0.6, 0.3, 0.1].map((w) => expect.closeTo(w, 5)));
+  });
+
+  it('returns at most the requested number of colors, weights summing to 1', () => {
+    const groups = Array.from({ length: 12 }, (_, i): [number, number, number, number] => [i * 20, 255 - i * 20, (i * 70) % 256, 50]);
+    const palette = extractPalette(pixelsOf(...groups), 5);
+
+    expect(palette.length).toBeLessThanOrEqual(5);
+    expect(palette.reduce((sum, c) => sum + c.weight, 0)).toBeCloseTo(1, 5);
+  });
+
+  it('ignores transparent pixels', () => {
+    expect(extractPalette(new Uint8ClampedArray([255, 0, 0, 0, 0, 255, 0, 10]))).toEqual([]);
+  });
+
+  it('is deterministic', () => {
+    const pixels = pixelsOf([200, 180, 40, 120], [10, 120, 90, 80], [90, 20, 140, 40]);
+    expect(extractPalette(pixels)).toEqual(extractPalette(pixels));
+  });
+});
+
+describe('paletteFromColors', () => {
+  it('weights colors by rank and normalizes hex', () => {
+    const palette = paletteFromColors(['#aa0000', '00bb00', 'not-a-color', '#0000cc']);
+
+    expect(palette.map((c) => c.hex)).toEqual(['#AA0000', '#00BB00', '#0000CC']);
+    expect(palette[0].weight).toBeGreaterThan(palette[2].weight);
+    expect(palette.reduce((sum, c) => sum + c.weight, 0)).toBeCloseTo(1, 5);
+  });
+});
+
+describe('getDefaultPicks', () => {
+  it('preselects the five heaviest colors', () => {
+    const palette = paletteFromColors(['#111111', '#222222', '#333333', '#444444', '#555555', '#666666']);
+    expect(getDefaultPicks(palette)).toEqual(['#111111', '#222222', '#333333', '#444444', '#555555']);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Palette Extraction
+ *
+ * Pulls a small palette of dominant colors out of raw image pixels with
+ * weighted k-means in OKLab, so clusters split where the eye sees
+ * different colors rather than where RGB numbers differ.
+ *
+ * Pixels are first binned to 5 bits per channel; k-means then runs on the
+ * occupied bins weighted by pixel count, which keeps a full photo down to
+ * a few thousand points. Seeding is deterministic (heaviest bin first,
+ * then the bin farthest from every center, weighted by its count), so the
+ * same image always gives the same palette.
+ *
+ * Runs in the palette Web Worker (`services/imagePalette.worker`) but has
+ * no DOM dependencies, so it also runs on the main thread and in tests.
+ *
+ * @module utils/paletteExtraction
+ */
+import { getOklabDistance, hexToOklab, oklabToOklch, oklchToHex, type Oklab } from './oklch';
+
+export interface ExtractedColor {
+  hex: string;
+  /** Share of the image (0–1); weights of one palette sum to 1 */
+  weight: number;
+}
+
+/** Colors offered for picking; users apply 3–7 of them. */
+export const EXTRACTED_PALETTE_SIZE = 8;
+export const MIN_PICKED_COLORS = 3;
+export const MAX_PICKED_COLORS = 7;
+
+/** Pixels more transparent than this are ignored. */
+const MIN_ALPHA = 128;
+const MAX_ITERATIONS = 12;
+/** Clusters closer than this (ΔE OK) are merged after k-means. */
+const MERGE_DISTANCE = 0.03;
+
+interface Bin extends Oklab {
+  count: number;
+}
+
+const toHex = (lab: Oklab): string => oklchToHex(oklabToOklch(lab));
+
+const distanceSq = (p: Oklab, q: Oklab): number =>
+  (p.l - q.l) ** 2 + (p.a - q.a) ** 2 + (p.b - q.b) ** 2;
+
+/** Occupied 5-bit RGB bins with their pixel counts, in OKLab. */
+const binPixels = (pixels: ArrayLike<number>): Bin[] => {
+  const counts = new Map<number, number>();
+  for (let i = 0; i + 3 < pixels.length; i += 4) {
+    if (pixels[i + 3] < MIN_ALPHA) continue;
+    const key = ((pixels[i] >> 3) << 10) | ((pixels[i + 1] >> 3) << 5) | (pixels[i + 2] >> 3);
+    counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [...counts].map(([key, count]) => {
+    // Bin center back to 8-bit channels
+    const channel = (shift: number) => (((key >> shift) & 31) << 3) | 4;
+    const hex = `#${[10, 5, 0].map((s) => channel(s).toString(16).padStart(2, '0')).join('')}`;
+    return { ...hexToOklab(hex), count };
+  });
+};
+
+/** Deterministic k-means++-style seeding. */
+const seedCenters = (bins: Bin[], k: number): Oklab[] => {
+  const heaviest = bins.reduce((best, bin) => (bin.count > best.count ? bin : best));
+  const centers: Oklab[] = [heaviest];
+  const nearest = bins.map((bin) => distanceSq(bin, heaviest));
+  while (centers.length < k) {
+    let pick = -1;
+    let best = 0;
+    bins.forEach((bin, i) => {
+      const score = nearest[i] * bin.count;
+      if (score > best) {
+        best = score;
+        pick = i;
+      }
+    });
+    if (pick < 0) break;
+    centers.push(bins[pick]);
+    bins.forEach((bin, i) => {
+      nearest[i] = Math.min(nearest[i], distanceSq(bin, bins[pick]));
+    });
+  }
+  return centers.map(({ l, a, b }) => ({ l, a, b }));
+};
+
+/** Merge near-identical colors, keeping the heavier hex. Input sorted by weight. */
+const mergeClose = (colors: ExtractedColor[]): ExtractedColor[] =>
+  colors.reduce<ExtractedColor[]>((kept, color) => {
+    const twin = kept.find((c) => getOklabDistance(c.hex, color.hex) < MERGE_DISTANCE);
+    if (twin) twin.weight += color.weight;
+    else kept.push({ ...color });
+    return kept;
+  }, []);
+
+/**
+ * Dominant colors of RGBA pixel data (e.g. `ImageData.data`), heaviest
+ * first. Returns fewer than `count` colors when the image has fewer
+ * distinct ones; an empty or fully transparent image returns `[]`.
+ */
+export const extractPalette = (pixels: ArrayLike<number>, count = EXTRACTED_PALETTE_SIZE): ExtractedColor[] => {
+  const bins = binPixels(pixels);
+  if (bins.length === 0) return [];
+
+  let centers = seedCenters(bins, Math.min(count, bins.length));
+  const assignment = new Array<number>(bins.length).fill(-1);
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let changed = false;
+    bins.forEach((bin, i) => {
+      let closest = 0;
+      centers.forEach((center, c) => {
+        if (distanceSq(bin, center) < distanceSq(bin, centers[closest])) closest = c;
+      });
+      if (assignment[i] !== closest) {
+        assignment[i] = closest;
+        changed = true;
+      }
+    });
+    if (!changed) break;
+
+    centers = centers.map((center, c) => {
+      let l = 0, a = 0, b = 0, total = 0;
+      bins.forEach((bin, i) => {
+        if (assignment[i] !== c) return;
+        l += bin.l * bin.count;
+        a += bin.a * bin.count;
+        b += bin.b * bin.count;
+        total += bin.count;
+      });
+      return total > 0 ? { l: l / total, a: a / total, b: b / total } : center;
+    });
+  }
+
+  const totals = centers.map(() => 0);
+  bins.forEach((bin, i) => {
+    totals[assignment[i]] += bin.count;
+  });
+  const pixelCount = totals.reduce((sum, n) => sum + n, 0);
+
+  const colors = centers
+    .map((center, c) => ({ hex: toHex(center), weight: totals[c] / pixelCount }))
+    .filter((color) => color.weight > 0)
+    .sort((x, y) => y.weight - x.weight);
+  return mergeClose(colors).sort((x, y) => y.weight - x.weight);
+};
+
+/**
+ * Weighted palette from a ready-made color list such as a Lummi image's
+ * `colorPalette`. The list is ordered by dominance but carries no shares,
+ * so weights fall off linearly with rank.
+ */
+export const paletteFromColors = (hexes: string[]): ExtractedColor[] => {
+  const valid = hexes.filter((hex) => /^#?[0-9a-f]{6}$/i.test(hex)).slice(0, EXTRACTED_PALETTE_SIZE);
+  const total = (valid.length * (valid.length + 1)) / 2;
+  return valid.map((hex, i) => ({
+    hex: `#${hex.replace(/^#/, '')}`.toUpperCase(),
+    weight: (valid.length - i) / total,
+  }));
+};
+
+/** The colors preselected for a fresh extraction: the heaviest five. */
+export const getDefaultPicks = (palette: ExtractedColor[]): string[] =>
+  palette.slice(0, 5).map((color) => color.hex);
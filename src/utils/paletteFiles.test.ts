@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { parsePaletteFile } from './paletteFiles';
+import { createZip } from './zip';
+
+const fileOf = (name: string, bytes: Uint8Array) => ({
+  name,
+  arrayBuffer: async () => bytes.slice().buffer as ArrayBuffer,
+});
+
+/** Build an ASE file from `[name, model, values]` swatches. */
+const buildAse = (swatches: [string, string, number[]][]): Uint8Array => {
+  const blocks = swatches.map(([name, model, values]) => {
+    const units = [...name].map((c) => c.charCodeAt(0)).concat(0);
+    const body = new DataView(new ArrayBuffer(2 + units.length * 2 + 4 + values.length * 4 + 2));
+    body.setUint16(0, units.length);
+    units.forEach((u, i) => body.setUint16(2 + i * 2, u));
+    let at = 2 + units.length * 2;
+    [...model].forEach((c, i) => body.setUint8(at + i, c.charCodeAt(0)));
+    at += 4;
+    values.forEach((v, i) => body.setFloat32(at + i * 4, v));
+    return new Uint8Array(body.buffer);
+  });
+  const size = 12 + blocks.reduce((sum, b) => sum + 6 + b.length, 0);
+  const out = new Uint8Array(size);
+  const view = new DataView(out.buffer);
+  out.set([...'ASEF'].map((c) => c.charCodeAt(0)));
+  view.setUint16(4, 1);
+  view.setUint32(8, blocks.length);
+  let offset = 12;
+  for (const block of blocks) {
+    view.setUint16(offset, 1);
+    view.setUint32(offset + 2, block.length);
+    out.set(block, offset + 6);
+    offset += 6 + block.length;
+  }
+  return out;
+};
+
+describe('parsePaletteFile', () => {
+  it('reads Adobe Swatch Exchange colors in RGB, CMYK, Gray and LAB', async () => {
+    const ase = buildAse([
+      ['Blue', 'RGB ', [0, 0, 1]],
+      ['Print red', 'CMYK', [0, 1, 1, 0]],
+      ['Mid', 'Gray', [0.5]],
+      ['Paper', 'LAB ', [1, 0, 0]],
+      ['Odd', 'HSV ', [0, 0, 0]],
+    ]);
+    const result = await parsePaletteFile(fileOf('brand.ase', ase));
+    expect(result.format).toBe('ase');
+    expect(result.entries).toEqual([
+      { hex: '#0000FF', name: 'Blue' },
+      { hex: '#FF0000', name: 'Print red' },
+      { hex: '#808080', name: 'Mid' },
+      { hex: '#FFFFFF', name: 'Paper' },
+    ]);
+    expect(result.errors).toEqual([{ line: 5, text: 'Odd', message: 'Unsupported color model "HSV"' }]);
+  });
+
+  it('reads Procreate swatches with alpha and empty slots', async () => {
+    const json = JSON.stringify([{
+      name: 'Brand',
+      swatches: [
+        { hue: 0, saturation: 1, brightness: 1, alpha: 1 },
+        null,
+        { hue: 2 / 3, saturation: 1, brightness: 1, alpha: 0.5 },
+        { hue: 'red' },
+      ],
+    }]);
+    const zip = createZip([{ name: 'Swatches.json', data: new TextEncoder().encode(json) }]);
+    const result = await parsePaletteFile(fileOf('brand.swatches', zip));
+    expect(result.format).toBe('procreate');
+    expect(result.entries).toEqual([{ hex: '#FF0000' }, { hex: '#0000FF', alpha: 0.5 }]);
+    expect(result.errors.map((e) => e.line)).toEqual([4]);
+  });
+
+  it('reports a .swatches file that is not a Procreate palette', async () => {
+    const result = await parsePaletteFile(fileOf('x.swatches', new TextEncoder().encode('nope')));
+    expect(result.error).toBe('No valid colors found (1 error).');
+    expect(result.errors[0].message).toBe('Not a ZIP archive');
+  });
+
+  it('reads text files through the text parser', async () => {
+    const gpl = new TextEncoder().encode('GIMP Palette\n255 255 255 White\n');
+    const result = await parsePaletteFile(fileOf('brand.gpl', gpl));
+    expect(result.format).toBe('gpl');
+    expect(result.colors).toEqual(['#FFFFFF']);
+  });
+});
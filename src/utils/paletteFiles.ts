@@ -0,0 +1,181 @@
+/**
+ * Palette Files
+ *
+ * Reads dropped or picked palette files. Adobe Swatch Exchange (`.ase`)
+ * and Procreate (`.swatches`) are binary and parsed here; everything else
+ * is decoded as text and handed to `parsePaletteInput`.
+ *
+ * Errors for binary formats are reported per swatch, using the swatch
+ * number in place of a line number.
+ *
+ * @module utils/paletteFiles
+ */
+import { linearRgbToHex } from './oklch';
+import { readZip } from './zip';
+import {
+  parsePaletteInput,
+  toParseResult,
+  type ParseLineError,
+  type ParseResult,
+  type ParsedColor,
+} from './parsePaletteInput';
+
+type PaletteFile = Pick<File, 'name' | 'arrayBuffer'>;
+
+const toHexByte = (value: number): string =>
+  Math.round(Math.min(1, Math.max(0, value)) * 255).toString(16).padStart(2, '0');
+
+const unitRgbToHex = (r: number, g: number, b: number): string =>
+  `#${toHexByte(r)}${toHexByte(g)}${toHexByte(b)}`.toUpperCase();
+
+/** CIE Lab (D50, as ASE stores it) to sRGB via XYZ and Bradford adaptation. */
+const labToHex = (l: number, a: number, b: number): string => {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const finv = (t: number) => (t ** 3 > 216 / 24389 ? t ** 3 : (116 * t - 16) / (24389 / 27));
+  const x = 0.96422 * finv(fx);
+  const y = l > 8 ? fy ** 3 : l / (24389 / 27);
+  const z = 0.82521 * finv(fz);
+  return linearRgbToHex([
+    3.1338561 * x - 1.6168667 * y - 0.4906146 * z,
+    -0.9787684 * x + 1.9161415 * y + 0.033454 * z,
+    0.0719453 * x - 0.2289914 * y + 1.4052427 * z,
+  ]);
+};
+
+// ── Adobe Swatch Exchange ────────────────────────────────────────────
+
+const ASE_SIGNATURE = 'ASEF';
+const ASE_COLOR_BLOCK = 0x0001;
+
+const isAse = (bytes: Uint8Array): boolean =>
+  bytes.length >= 12 && String.fromCharCode(...bytes.subarray(0, 4)) === ASE_SIGNATURE;
+
+/**
+ * Color entries of an `.ase` file. Group blocks are skipped; colors in
+ * groups are read like any other.
+ */
+export function parseAse(bytes: Uint8Array): ParseResult {
+  if (!isAse(bytes)) return toParseResult('ase', { entries: [], errors: [{ line: 1, text: '', message: 'Not an Adobe Swatch Exchange file' }] });
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const blockCount = view.getUint32(8, false);
+  const entries: ParsedColor[] = [];
+  const errors: ParseLineError[] = [];
+  let offset = 12;
+  let swatch = 0;
+
+  for (let i = 0; i < blockCount && offset + 6 <= bytes.length; i++) {
+    const type = view.getUint16(offset, false);
+    const length = view.getUint32(offset + 2, false);
+    const start = offset + 6;
+    offset = start + length;
+    if (type !== ASE_COLOR_BLOCK) continue;
+
+    swatch++;
+    try {
+      // Name: UTF-16BE code unit count (with a trailing null), then the units
+      const nameLength = view.getUint16(start, false);
+      const units: number[] = [];
+      for (let j = 0; j < nameLength; j++) units.push(view.getUint16(start + 2 + j * 2, false));
+      const name = String.fromCharCode(...units).replace(/\0+$/, '');
+
+      const modelAt = start + 2 + nameLength * 2;
+      const model = String.fromCharCode(...bytes.subarray(modelAt, modelAt + 4)).trim().toUpperCase();
+      const value = (n: number) => view.getFloat32(modelAt + 4 + n * 4, false);
+
+      let hex: string;
+      switch (model) {
+        case 'RGB':
+          hex = unitRgbToHex(value(0), value(1), value(2));
+          break;
+        case 'CMYK': {
+          const k = value(3);
+          hex = unitRgbToHex((1 - value(0)) * (1 - k), (1 - value(1)) * (1 - k), (1 - value(2)) * (1 - k));
+          break;
+        }
+        case 'GRAY':
+          hex = unitRgbToHex(value(0), value(0), value(0));
+          break;
+        case 'LAB':
+          hex = labToHex(value(0) * 100, value(1), value(2));
+          break;
+        default:
+          errors.push({ line: swatch, text: name, message: `Unsupported color model "${model}"` });
+          continue;
+      }
+      entries.push(name ? { hex, name } : { hex });
+    } catch {
+      errors.push({ line: swatch, text: '', message: 'Truncated swatch' });
+    }
+  }
+
+  return toParseResult('ase', { entries, errors });
+}
+
+// ── Procreate ────────────────────────────────────────────────────────
+
+interface ProcreateSwatch {
+  hue?: unknown;
+  saturation?: unknown;
+  brightness?: unknown;
+  alpha?: unknown;
+}
+
+const hsbToHex = (h: number, s: number, v: number): string => {
+  const channel = (n: number) => {
+    const k = (n + h * 6) % 6;
+    return v - v * s * Math.max(0, Math.min(k, 4 - k, 1));
+  };
+  return unitRgbToHex(channel(5), channel(3), channel(1));
+};
+
+/**
+ * Colors of a Procreate `.swatches` file: a ZIP holding `Swatches.json`
+ * with HSB values from 0 to 1. Empty slots in the palette are `null`.
+ */
+export async function parseProcreate(bytes: Uint8Array): Promise<ParseResult> {
+  const entries: ParsedColor[] = [];
+  const errors: ParseLineError[] = [];
+
+  let data: unknown;
+  try {
+    const file = (await readZip(bytes)).find((entry) => /(^|\/)Swatches\.json$/i.test(entry.name));
+    if (!file) throw new Error('Missing Swatches.json');
+    data = JSON.parse(new TextDecoder().decode(file.data));
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unreadable file';
+    return toParseResult('procreate', { entries, errors: [{ line: 1, text: '', message }] });
+  }
+
+  const palette = (Array.isArray(data) ? data[0] : data) as { swatches?: unknown } | undefined;
+  const swatches = Array.isArray(palette?.swatches) ? palette.swatches : [];
+  swatches.forEach((raw: ProcreateSwatch | null, i) => {
+    if (raw === null) return;
+    const { hue, saturation, brightness, alpha } = raw;
+    if (typeof hue !== 'number' || typeof saturation !== 'number' || typeof brightness !== 'number') {
+      errors.push({ line: i + 1, text: JSON.stringify(raw), message: 'Expected hue, saturation and brightness' });
+      return;
+    }
+    const hex = hsbToHex(hue, saturation, brightness);
+    entries.push(typeof alpha === 'number' && alpha < 1 ? { hex, alpha } : { hex });
+  });
+
+  return toParseResult('procreate', { entries, errors });
+}
+
+// ── Entry point ──────────────────────────────────────────────────────
+
+/**
+ * Parse a palette file in any supported format, detected by extension
+ * (or the ASE signature) and otherwise read as text.
+ */
+export async function parsePaletteFile(file: PaletteFile): Promise<ParseResult> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const extension = file.name.toLowerCase().split('.').pop();
+
+  if (extension === 'ase' || isAse(bytes)) return parseAse(bytes);
+  if (extension === 'swatches') return parseProcreate(bytes);
+  return parsePaletteInput(new TextDecoder().decode(bytes));
+}
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { parsePaletteInput } from './parsePaletteInput';
+import { exportAsDesignTokens } from './designTokens';
+import { DEFAULT_BRAND } from '../data/brandPresets';
+
+describe('parsePaletteInput', () => {
+  it('keeps the original Coolors and hex list behavior', () => {
+    expect(parsePaletteInput('https://coolors.co/780000-c1121f-fdf0d5').colors)
+      .toEqual(['#780000', '#C1121F', '#FDF0D5']);
+    expect(parsePaletteInput('#fff, 1d4ed8 #1D4ED8').colors).toEqual(['#FFFFFF', '#1D4ED8']);
+    expect(parsePaletteInput('  ').error).toBe('Paste colors from Coolors or enter hex values');
+  });
+
+  it('reads CSS custom properties in any color syntax', () => {
+    const result = parsePaletteInput(`:root {
+  --brand-colors: #1d4ed8;
+  --accent: rgb(245 158 11 / 0.5);
+  --ink: oklch(0 0 0);
+}`);
+    expect(result.format).toBe('css');
+    expect(result.entries).toEqual([
+      { hex: '#1D4ED8', name: 'brand-colors' },
+      { hex: '#F59E0B', alpha: 0.5, name: 'accent' },
+      { hex: '#000000', name: 'ink' },
+    ]);
+  });
+
+  it('reads GIMP / Inkscape palettes and reports bad lines', () => {
+    const result = parsePaletteInput(`GIMP Palette
+Name: Brand
+Columns: 4
+#
+ 29  78 216\tPrimary
+300   0   0\tBroken
+245 158  11`);
+    expect(result.format).toBe('gpl');
+    expect(result.entries).toEqual([{ hex: '#1D4ED8', name: 'Primary' }, { hex: '#F59E0B' }]);
+    expect(result.errors).toEqual([
+      { line: 6, text: '300   0   0\tBroken', message: 'Expected "R G B name" with values 0–255' },
+    ]);
+  });
+
+  it('reads nested Tailwind config colors', () => {
+    const result = parsePaletteInput(`module.exports = {
+  theme: {
+    extend: {
+      colors: {
+        brand: { DEFAULT: '#1d4ed8', 500: 'hsl(217 76% 48%)' },
+        'accent-warm': "#f59e0b",
+      },
+    },
+  },
+}`);
+    expect(result.format).toBe('tailwind');
+    expect(result.entries.map((e) => e.name)).toEqual(['brand', 'brand-500', 'accent-warm']);
+  });
+
+  it('reads our own design tokens export', () => {
+    const result = parsePaletteInput(exportAsDesignTokens(DEFAULT_BRAND));
+    expect(result.format).toBe('tokens');
+    expect(result.error).toBeNull();
+    expect(result.colors).toContain(DEFAULT_BRAND.colors.primary.toUpperCase());
+  });
+
+  it('labels list colors and reports unparseable ones per line', () => {
+    const result = parsePaletteInput(`Primary: rgb(29, 78, 216)
+tomato
+rgb(1, 2) #12`);
+    expect(result.entries).toEqual([{ hex: '#1D4ED8', name: 'Primary' }, { hex: '#FF6347' }]);
+    expect(result.errors.map((e) => [e.line, e.text])).toEqual([[3, 'rgb(1, 2)'], [3, '#12']]);
+  });
+
+  it('summarizes errors when nothing parses', () => {
+    const result = parsePaletteInput('#zz, #yy');
+    expect(result.colors).toEqual([]);
+    expect(result.error).toBe('No valid colors found (2 errors).');
+  });
+});
@@ -1,65 +1,281 @@
 /**
- * Parses color palette input from various formats (Coolors CSS, URLs, hex lists)
- * and returns an array of validated 6-digit hex color strings.
+ * Parses color palette input from pasted text or dropped files and
+ * returns validated colors with any per-line errors.
+ *
+ * Text formats, detected in this order:
+ * - Design tokens JSON (DTCG, e.g. our own export) and other JSON
+ * - GIMP / Inkscape `.gpl` palettes
+ * - Coolors URLs
+ * - Tailwind config color objects
+ * - CSS custom properties (`--name: <color>;`)
+ * - Loose lists of hex, `rgb()`, `hsl()`, `oklch()` and named colors
+ *
+ * Binary Adobe `.ase` and Procreate `.swatches` files go through
+ * `parsePaletteFile` (see `utils/paletteFiles`).
+ *
+ * Alpha is kept on `entries`; `colors` holds the opaque hex values the
+ * brand palette uses.
  */
+import { looksLikeColor, parseCssColor, type ParsedCssColor } from './cssColor';
+
+export type PaletteFormat = 'tokens' | 'json' | 'gpl' | 'coolors' | 'tailwind' | 'css' | 'list' | 'ase' | 'procreate';
+
+export interface ParsedColor extends ParsedCssColor {
+  /** Swatch, token or variable name, when the source has one */
+  name?: string;
+}
+
+export interface ParseLineError {
+  /** 1-based line (or swatch number for binary files) */
+  line: number;
+  /** The offending text */
+  text: string;
+  message: string;
+}
 
 export interface ParseResult {
+  /** Unique opaque colors, `#RRGGBB` */
   colors: string[];
+  /** Every parsed color with name and alpha, in source order */
+  entries: ParsedColor[];
+  errors: ParseLineError[];
+  /** Summary error when nothing could be imported */
   error: string | null;
+  format?: PaletteFormat;
 }
 
-export function parsePaletteInput(input: string): ParseResult {
-  const trimmed = input.trim();
-  if (!trimmed) return { colors: [], error: 'Paste colors from Coolors or enter hex values' };
-
-  let hexValues: string[] = [];
+type FormatParse = { entries: ParsedColor[]; errors: ParseLineError[] };
 
-  // 1. Coolors URL: coolors.co/780000-c1121f-fdf0d5
-  const urlMatch = trimmed.match(
-    /coolors\.co\/(?:palette\/)?([0-9a-fA-F]{3,8}(?:-[0-9a-fA-F]{3,8})+)/
-  );
-  if (urlMatch) {
-    hexValues = urlMatch[1].split('-').map((h) => `#${h.slice(0, 6)}`);
+/** Build the final result: dedupe colors and set the summary error. */
+export function toParseResult(format: PaletteFormat | undefined, { entries, errors }: FormatParse): ParseResult {
+  const colors = [...new Set(entries.map((e) => e.hex))];
+  if (colors.length === 0) {
+    const error = errors.length > 0
+      ? `No valid colors found (${errors.length} ${errors.length === 1 ? 'error' : 'errors'}).`
+      : 'No valid colors found. Try pasting CSS from Coolors or hex values.';
+    return { colors, entries, errors, error, format };
   }
+  return { colors, entries, errors, error: null, format };
+}
+
+const invalid = (line: number, text: string): ParseLineError => ({
+  line,
+  text,
+  message: `Unrecognized color "${text}"`,
+});
+
+// ── Design tokens / JSON ─────────────────────────────────────────────
 
-  // 2. CSS custom properties: --name: #hex;
-  if (hexValues.length === 0) {
-    const cssMatches = [...trimmed.matchAll(/--[\w-]+:\s*#([0-9a-fA-F]{3,8})\s*;/g)];
-    if (cssMatches.length > 0) {
-      hexValues = cssMatches.map((m) => `#${m[1].slice(0, 6)}`);
+/** DTCG 2025 object colors: `{ colorSpace: 'srgb', components: [r, g, b], alpha }` */
+const parseTokenObject = (value: unknown): ParsedCssColor | null => {
+  if (!value || typeof value !== 'object') return null;
+  const { colorSpace, components, alpha } = value as { colorSpace?: unknown; components?: unknown; alpha?: unknown };
+  if (colorSpace !== 'srgb' || !Array.isArray(components) || components.length !== 3) return null;
+  if (!components.every((c) => typeof c === 'number')) return null;
+  const hex = `#${components.map((c: number) => Math.round(Math.min(1, Math.max(0, c)) * 255).toString(16).padStart(2, '0')).join('')}`;
+  const parsed = { hex: hex.toUpperCase() };
+  return typeof alpha === 'number' && alpha < 1 ? { ...parsed, alpha } : parsed;
+};
+
+/**
+ * Color tokens (`$value`, with `$type: "color"` on the token or a parent
+ * group) are read by path; aliases are skipped since they point at
+ * literal tokens. JSON without tokens falls back to every string that
+ * parses as a color, which covers brand JSON exports.
+ */
+function parseJson(data: unknown): { format: PaletteFormat; result: FormatParse } {
+  const tokens: ParsedColor[] = [];
+  const errors: ParseLineError[] = [];
+  const loose: ParsedColor[] = [];
+  let tokenCount = 0;
+
+  const walk = (node: unknown, path: string[], inheritedType?: string) => {
+    if (typeof node === 'string') {
+      const color = parseCssColor(node);
+      if (color) loose.push({ ...color, name: path.join('.') });
+      return;
     }
-  }
+    if (!node || typeof node !== 'object') return;
+    if (Array.isArray(node)) {
+      node.forEach((child, i) => walk(child, [...path, String(i)], inheritedType));
+      return;
+    }
+    const record = node as Record<string, unknown>;
+    const type = typeof record.$type === 'string' ? record.$type : inheritedType;
+    if ('$value' in record) {
+      tokenCount++;
+      const value = record.$value;
+      if (type && type !== 'color') return;
+      if (typeof value === 'string' && /^\{.+\}$/.test(value)) return;
+      const color = typeof value === 'string' ? parseCssColor(value) : parseTokenObject(value);
+      if (color) tokens.push({ ...color, name: path.join('.') });
+      else if (type === 'color') errors.push({ line: tokens.length + errors.length + 1, text: path.join('.'), message: 'Unsupported color value' });
+      return;
+    }
+    for (const [key, child] of Object.entries(record)) {
+      if (!key.startsWith('$')) walk(child, [...path, key], type);
+    }
+  };
+  walk(data, []);
+
+  return tokenCount > 0
+    ? { format: 'tokens', result: { entries: tokens, errors } }
+    : { format: 'json', result: { entries: loose, errors: [] } };
+}
 
-  // 3. Comma or space-separated hex values
-  if (hexValues.length === 0) {
-    const tokens = trimmed.split(/[,\s]+/).filter(Boolean);
-    const parsed = tokens
-      .map((t) => t.replace(/^#/, ''))
-      .filter((t) => /^[0-9a-fA-F]{3,8}$/.test(t))
-      .map((t) => `#${t.slice(0, 6)}`);
-    if (parsed.length >= 2) {
-      hexValues = parsed;
+// ── GIMP / Inkscape .gpl ─────────────────────────────────────────────
+
+function parseGpl(lines: string[]): FormatParse {
+  const entries: ParsedColor[] = [];
+  const errors: ParseLineError[] = [];
+  lines.forEach((raw, i) => {
+    const line = raw.trim();
+    if (i === 0 || !line || line.startsWith('#') || /^(Name|Columns):/i.test(line)) return;
+    const match = /^(\d{1,3})\s+(\d{1,3})\s+(\d{1,3})(?:\s+(.*))?$/.exec(line);
+    const channels = match?.slice(1, 4).map(Number);
+    if (!match || !channels || channels.some((c) => c > 255)) {
+      errors.push({ line: i + 1, text: line, message: 'Expected "R G B name" with values 0–255' });
+      return;
     }
+    const hex = `#${channels.map((c) => c.toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+    entries.push(match[4] ? { hex, name: match[4].trim() } : { hex });
+  });
+  return { entries, errors };
+}
+
+// ── Coolors URL ──────────────────────────────────────────────────────
+
+function parseCoolors(codes: string): FormatParse {
+  const entries: ParsedColor[] = [];
+  const errors: ParseLineError[] = [];
+  for (const code of codes.split('-')) {
+    const color = parseCssColor(`#${code}`);
+    if (color) entries.push(color);
+    else errors.push(invalid(1, code));
   }
+  return { entries, errors };
+}
+
+// ── Tailwind config ──────────────────────────────────────────────────
 
-  // Normalize: expand 3-digit hex, uppercase, validate
-  const validated = hexValues
-    .map((h) => {
-      const clean = h.startsWith('#') ? h : `#${h}`;
-      if (/^#[0-9a-fA-F]{3}$/i.test(clean)) {
-        const [, r, g, b] = clean.match(/^#(.)(.)(.)$/)!;
-        return `#${r}${r}${g}${g}${b}${b}`.toUpperCase();
+/**
+ * `key: 'color'` pairs anywhere in a Tailwind config. Nested scales get
+ * their parent name (`brand-500`) by tracking open braces.
+ */
+function parseTailwind(lines: string[]): FormatParse {
+  const entries: ParsedColor[] = [];
+  const errors: ParseLineError[] = [];
+  const stack: string[] = [];
+
+  lines.forEach((line, i) => {
+    const pattern = /(['"]?)([\w-]+)\1\s*:\s*(?:(['"`])([^'"`]*)\3|\{)|\}/g;
+    for (const match of line.matchAll(pattern)) {
+      if (match[0] === '}') {
+        stack.pop();
+      } else if (match[3] === undefined) {
+        stack.push(match[2]);
+      } else {
+        const value = match[4];
+        const color = parseCssColor(value);
+        const scope = stack.filter((key) => !['theme', 'extend', 'colors'].includes(key));
+        const name = [...scope, match[2]].join('-').replace(/-DEFAULT$/, '');
+        if (color) entries.push({ ...color, name });
+        else if (looksLikeColor(value)) errors.push({ line: i + 1, text: value, message: `Unrecognized color for "${name}"` });
       }
-      return clean.toUpperCase();
-    })
-    .filter((h) => /^#[0-9A-F]{6}$/.test(h));
+    }
+  });
+  return { entries, errors };
+}
+
+// ── CSS custom properties ────────────────────────────────────────────
+
+function parseCssVariables(lines: string[]): FormatParse {
+  const entries: ParsedColor[] = [];
+  const errors: ParseLineError[] = [];
+  lines.forEach((line, i) => {
+    for (const match of line.matchAll(/--([\w-]+)\s*:\s*([^;]+);?/g)) {
+      const value = match[2].trim();
+      const color = parseCssColor(value);
+      if (color) entries.push({ ...color, name: match[1] });
+      else if (looksLikeColor(value)) errors.push(invalid(i + 1, value));
+    }
+  });
+  return { entries, errors };
+}
 
-  // Deduplicate
-  const unique = [...new Set(validated)];
+// ── Loose lists ──────────────────────────────────────────────────────
 
-  if (unique.length === 0) {
-    return { colors: [], error: 'No valid colors found. Try pasting CSS from Coolors or hex values.' };
+/** Split on commas / whitespace outside parentheses. */
+const tokenize = (line: string): string[] => {
+  const tokens: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of line) {
+    if (char === '(') depth++;
+    if (char === ')') depth = Math.max(0, depth - 1);
+    if (depth === 0 && /[,;\s]/.test(char)) {
+      if (current) tokens.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
   }
+  if (current) tokens.push(current);
+  return tokens;
+};
 
-  return { colors: unique, error: null };
+/**
+ * Colors in any CSS syntax, plus bare hex without `#`. Plain words that
+ * aren't colors are taken as a label for the colors on their line.
+ */
+function parseList(lines: string[]): FormatParse {
+  const entries: ParsedColor[] = [];
+  const errors: ParseLineError[] = [];
+  lines.forEach((line, i) => {
+    const labels: string[] = [];
+    const found: ParsedColor[] = [];
+    for (const token of tokenize(line)) {
+      const color = parseCssColor(token) ?? (/^[0-9a-f]{3,8}$/i.test(token) ? parseCssColor(`#${token}`) : null);
+      if (color) found.push(color);
+      else if (looksLikeColor(token) || /^[0-9a-f]{5,}$/i.test(token)) errors.push(invalid(i + 1, token));
+      else labels.push(token.replace(/:$/, ''));
+    }
+    const name = labels.join(' ') || undefined;
+    entries.push(...found.map((color) => (name && found.length === 1 ? { ...color, name } : color)));
+  });
+  return { entries, errors };
+}
+
+// ── Entry point ──────────────────────────────────────────────────────
+
+const TAILWIND_HINT = /(module\.exports|export\s+default|theme\s*:|colors\s*:)/;
+
+/** Which text format the input is, and its colors. */
+function parseText(trimmed: string): { format: PaletteFormat; result: FormatParse } {
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      return parseJson(JSON.parse(trimmed));
+    } catch {
+      // Not JSON — may still be a Tailwind object literal
+    }
+  }
+
+  const lines = trimmed.split(/\r?\n/);
+  if (/^GIMP Palette/i.test(lines[0])) return { format: 'gpl', result: parseGpl(lines) };
+
+  const coolors = trimmed.match(/coolors\.co\/(?:palette\/)?([0-9a-fA-F]{3,8}(?:-[0-9a-fA-F]{3,8})+)/);
+  if (coolors) return { format: 'coolors', result: parseCoolors(coolors[1]) };
+
+  if (/--[\w-]+\s*:/.test(trimmed)) return { format: 'css', result: parseCssVariables(lines) };
+  if (TAILWIND_HINT.test(trimmed)) return { format: 'tailwind', result: parseTailwind(lines) };
+  return { format: 'list', result: parseList(lines) };
+}
+
+export function parsePaletteInput(input: string): ParseResult {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    return { colors: [], entries: [], errors: [], error: 'Paste colors from Coolors or enter hex values' };
+  }
+  const { format, result } = parseText(trimmed);
+  return toParseResult(format, result);
 }
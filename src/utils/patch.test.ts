@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { applyPatch, diff } from './patch';
+
+const before = {
+  brand: { colors: { bg: '#fff', surfaces: ['#eee', '#ddd'] }, logo: { text: 'Acme' } },
+  tiles: [{ id: 'hero', content: { headline: 'Hi' } }, { id: 'card', content: {} }],
+  surfaces: { hero: 2 } as Record<string, number | undefined>,
+};
+
+describe('diff', () => {
+  it('is empty for the same tree', () => {
+    expect(diff(before, before)).toEqual([]);
+  });
+
+  it('records only the changed leaves', () => {
+    const after = {
+      ...before,
+      brand: { ...before.brand, logo: { text: 'Nova' } },
+      tiles: [{ ...before.tiles[0], content: { headline: 'Hello' } }, before.tiles[1]],
+    };
+    expect(diff(before, after)).toEqual([
+      { path: ['brand', 'logo', 'text'], value: 'Nova' },
+      { path: ['tiles', 0, 'content', 'headline'], value: 'Hello' },
+    ]);
+  });
+
+  it('replaces arrays that changed length and marks removed keys', () => {
+    const after = {
+      ...before,
+      brand: { ...before.brand, colors: { bg: '#fff', surfaces: ['#eee'] } },
+      surfaces: {},
+    };
+    expect(diff(before, after)).toEqual([
+      { path: ['brand', 'colors', 'surfaces'], value: ['#eee'] },
+      { path: ['surfaces', 'hero'], value: undefined },
+    ]);
+  });
+});
+
+describe('applyPatch', () => {
+  it('round-trips in both directions', () => {
+    const after = {
+      brand: { colors: { bg: '#000', surfaces: ['#111', '#222', '#333'] }, logo: { text: 'Acme' } },
+      tiles: [before.tiles[1], { id: 'hero', content: { headline: 'Hi', image: 'x.png' } }],
+      surfaces: { card: 1 },
+    };
+    expect(applyPatch(before, diff(before, after))).toEqual(after);
+    expect(applyPatch(after, diff(after, before))).toEqual(before);
+  });
+
+  it('removes keys instead of storing undefined', () => {
+    const result = applyPatch(before, [{ path: ['surfaces', 'hero'] }]);
+    expect(result.surfaces).toEqual({});
+    expect('hero' in result.surfaces).toBe(false);
+  });
+
+  it('shares unchanged subtrees and leaves the input alone', () => {
+    const result = applyPatch(before, [{ path: ['brand', 'logo', 'text'], value: 'Nova' }]);
+    expect(result.tiles).toBe(before.tiles);
+    expect(result.brand.colors).toBe(before.brand.colors);
+    expect(before.brand.logo.text).toBe('Acme');
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Structural Patches
+ *
+ * Records the difference between two versions of a plain-data tree
+ * (objects, arrays, primitives) as a list of path/value operations, so undo
+ * history can keep what changed instead of full copies of the state.
+ *
+ * Subtrees that are the same object in both versions are skipped without
+ * being walked, which keeps diffs of immutable store updates cheap. Applying
+ * a patch copies only the objects along the changed paths; everything else
+ * is shared with the input tree.
+ *
+ * @module utils/patch
+ */
+
+/** Object keys and array indices from the root to a value */
+export type PatchPath = (string | number)[];
+
+/** Sets the value at `path`, or removes the key when `value` is undefined. */
+export interface PatchOp {
+  path: PatchPath;
+  value?: unknown;
+}
+
+export type Patch = PatchOp[];
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Operations that turn `from` into `to`.
+ *
+ * Objects are compared key by key and arrays of equal length index by
+ * index; arrays that changed length are replaced whole.
+ */
+export const diff = (from: unknown, to: unknown, path: PatchPath = []): Patch => {
+  if (Object.is(from, to)) return [];
+
+  if (Array.isArray(from) && Array.isArray(to) && from.length === to.length) {
+    return from.flatMap((item, i) => diff(item, to[i], [...path, i]));
+  }
+
+  if (isPlainObject(from) && isPlainObject(to)) {
+    const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+    return [...keys].flatMap((key) => diff(from[key], to[key], [...path, key]));
+  }
+
+  return [{ path, value: to }];
+};
+
+const setIn = (node: unknown, path: PatchPath, depth: number, value: unknown): unknown => {
+  if (depth === path.length) return value;
+  const key = path[depth];
+
+  if (Array.isArray(node)) {
+    const next = [...node];
+    next[key as number] = setIn(node[key as number], path, depth + 1, value);
+    return next;
+  }
+
+  const next = { ...(isPlainObject(node) ? node : {}) };
+  const child = setIn(next[key], path, depth + 1, value);
+  if (child === undefined) {
+    delete next[key];
+  } else {
+    next[key] = child;
+  }
+  return next;
+};
+
+/** Apply `patch` to `root`, returning a new tree that shares unchanged parts. */
+export const applyPatch = <T>(root: T, patch: Patch): T =>
+  patch.reduce<unknown>((node, op) => setIn(node, op.path, 0, op.value), root) as T;
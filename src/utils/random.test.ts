@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { createRng, createSeed, normalizeSeed, pickIndex, pickWeightedIndex } from './random';
+
+describe('createRng', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createRng('k3vq8m');
+    const b = createRng('k3vq8m');
+    const seqA = Array.from({ length: 5 }, a);
+    expect(Array.from({ length: 5 }, b)).toEqual(seqA);
+    for (const value of seqA) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('separates seeds and streams', () => {
+    expect(createRng('a')()).not.toBe(createRng('b')());
+    expect(createRng('a', 'palette')()).not.toBe(createRng('a', 'fonts')());
+  });
+});
+
+describe('picks', () => {
+  it('stays within bounds', () => {
+    const rng = createRng('bounds');
+    for (let i = 0; i < 50; i++) {
+      const idx = pickIndex(rng, 7);
+      expect(idx).toBeGreaterThanOrEqual(0);
+      expect(idx).toBeLessThan(7);
+    }
+  });
+
+  it('never picks zero-weight entries', () => {
+    const rng = createRng('weights');
+    for (let i = 0; i < 50; i++) {
+      expect(pickWeightedIndex(rng, [0, 1, 0, 2])).not.toBe(0);
+    }
+    expect(pickWeightedIndex(rng, [])).toBe(0);
+  });
+});
+
+describe('seeds', () => {
+  it('creates short seeds and normalizes input', () => {
+    expect(createSeed()).toMatch(/^[a-z2-9]{6}$/);
+    expect(normalizeSeed('  K3VQ8M ')).toBe('k3vq8m');
+    expect(normalizeSeed('   ')).toBeNull();
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Seeded Randomness
+ *
+ * Every shuffle draws from a PRNG created from a short text seed, so the
+ * same seed always produces the same board. Seeds are shown in the UI and
+ * stored with saved and shared moodboards.
+ *
+ * Independent picks (palette, font pairing, images) use separate streams
+ * derived from one seed via `createRng(seed, stream)`. A palette shuffle
+ * and a full shuffle with the same seed therefore pick the same palette.
+ *
+ * @module utils/random
+ */
+
+/** A function returning uniformly distributed floats in [0, 1). */
+export type Rng = () => number;
+
+const SEED_ALPHABET = 'abcdefghijkmnpqrstuvwxyz23456789';
+const SEED_LENGTH = 6;
+
+/** Fresh human-friendly seed, e.g. `k3vq8m` (no 0/o or 1/l to misread). */
+export const createSeed = (): string => {
+  let seed = '';
+  for (let i = 0; i < SEED_LENGTH; i++) {
+    seed += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+  }
+  return seed;
+};
+
+/** Trim and lowercase user input; returns null when nothing usable is left. */
+export const normalizeSeed = (input: string): string | null => {
+  const seed = input.trim().toLowerCase().slice(0, 32);
+  return seed.length > 0 ? seed : null;
+};
+
+/** 32-bit FNV-1a hash of a string. */
+const hashString = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Create a deterministic PRNG (mulberry32) for a seed.
+ *
+ * @param seed - Any string; typically from `createSeed` or user input
+ * @param stream - Optional stream name so independent picks don't share a sequence
+ */
+export const createRng = (seed: string, stream: string = ''): Rng => {
+  let state = hashString(stream ? `${seed}:${stream}` : seed);
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/** Uniform index in [0, length). */
+export const pickIndex = (rng: Rng, length: number): number => Math.floor(rng() * length);
+
+/**
+ * Index chosen with probability proportional to its weight.
+ * Returns 0 for an empty or all-zero list.
+ */
+export const pickWeightedIndex = (rng: Rng, weights: number[]): number => {
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  if (total <= 0) return 0;
+  let r = rng() * total;
+  for (let i = 0; i < weights.length; i++) {
+    r -= weights[i];
+    if (r < 0) return i;
+  }
+  return weights.length - 1;
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import LZString from 'lz-string';
+import { generateShareUrl, decodeShareHash } from './sharing';
+import { DEFAULT_BRAND } from '../data/brandPresets';
+import { INITIAL_TILES } from '../data/tileDefaults';
+
+const encode = (payload: unknown) =>
+  LZString.compressToEncodedURIComponent(JSON.stringify(payload));
+
+describe('decodeShareHash', () => {
+  it('round-trips a board produced by generateShareUrl', () => {
+    const url = generateShareUrl({
+      brand: DEFAULT_BRAND,
+      tiles: INITIAL_TILES,
+      tileSurfaces: { hero: 2 },
+      placementContent: { d: { socialHandle: 'studio' } },
+      layout: {
+        preset: 'mosaic',
+        density: 'dense',
+        placementSwaps: { hero: 'b', b: 'hero' },
+        canvasBg: '#101010',
+        canvasRatio: '4:3',
+      },
+      shuffleSeed: 'k3vq8m',
+    });
+    const board = decodeShareHash(new URL(url).hash);
+
+    expect(board).not.toBeNull();
+    expect(board!.brand.colors.primary).toBe(DEFAULT_BRAND.colors.primary);
+    expect(board!.tiles).toHaveLength(INITIAL_TILES.length);
+    expect(board!.tileSurfaces).toEqual({ hero: 2 });
+    expect(board!.placementContent.d.socialHandle).toBe('studio');
+    expect(board!.layout).toEqual({
+      preset: 'mosaic',
+      density: 'dense',
+      placementSwaps: { hero: 'b', b: 'hero' },
+      canvasBg: '#101010',
+      canvasRatio: '4:3',
+    });
+    expect(board!.shuffleSeed).toBe('k3vq8m');
+    expect(board!.report.issues.filter((i) => i.kind !== 'defaulted')).toEqual([]);
+  });
+
+  it('fills missing brand sections from defaults', () => {
+    const board = decodeShareHash(encode({
+      brand: { colors: { primary: '#FF0000' } },
+      tiles: [{ id: 'hero-1', type: 'hero', content: {} }],
+      v: 1,
+    }));
+
+    expect(board!.brand.colors.primary).toBe('#FF0000');
+    expect(board!.brand.typography).toEqual(DEFAULT_BRAND.typography);
+    expect(board!.tiles[0]).toMatchObject({ colSpan: 1, rowSpan: 1 });
+    expect(board!.layout).toBeNull();
+  });
+
+  it('drops malformed tiles and unknown layout presets', () => {
+    const board = decodeShareHash(encode({
+      brand: {},
+      tiles: [{ id: 'ok', type: 'logo', content: {} }, { id: 3 }, 'junk'],
+      tileSurfaces: { hero: 'two', b: 1 },
+      layout: { preset: 'not-a-preset', density: 'cozy' },
+      v: 1,
+    }));
+
+    expect(board!.tiles.map((t) => t.id)).toEqual(['ok']);
+    expect(board!.tileSurfaces).toEqual({ b: 1 });
+    expect(board!.layout).toBeNull();
+    expect(board!.report.issues.map((i) => i.path)).toEqual(
+      expect.arrayContaining(['tiles[1]', 'tiles[2]', 'tileSurfaces.hero', 'layout.preset'])
+    );
+  });
+
+  it('returns null for empty or corrupt hashes', () => {
+    expect(decodeShareHash('')).toBeNull();
+    expect(decodeShareHash('#not-lz-data')).toBeNull();
+    expect(decodeShareHash(encode({ tiles: [] }))).toBeNull();
+  });
+});
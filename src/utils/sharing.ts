@@ -1,16 +1,51 @@
 import LZString from 'lz-string';
-import type { Brand, Tile } from '../store/useBrandStore';
+import type { Brand, Tile, TileContent } from '../store/useBrandStore';
+import {
+  MOODBOARD_SCHEMA_VERSION,
+  parseMoodboard,
+  type MoodboardLayout,
+  type MoodboardReport,
+} from './moodboardSchema';
+import type { BrandLockKey } from './brandLocks';
+import type { SurfaceRef } from './colorRamps';
 
-interface ShareableState {
+export interface ShareableState {
   brand: Brand;
   tiles: Tile[];
+  tileSurfaces?: Record<string, SurfaceRef | undefined>;
+  placementContent?: Record<string, TileContent>;
+  /** Layout state so the recipient sees the same grid */
+  layout?: MoodboardLayout;
+  /** Seed of the last shuffle, so the recipient can reproduce it */
+  shuffleSeed?: string | null;
+  /** Shuffle locks, so the recipient's shuffles keep the same attributes */
+  locks?: BrandLockKey[];
+}
+
+/** A decoded, validated share payload. Optional sections are filled in so
+ *  consumers can apply it without further checks. */
+export interface SharedBoard {
+  brand: Brand;
+  tiles: Tile[];
+  tileSurfaces: Record<string, SurfaceRef | undefined>;
+  placementContent: Record<string, TileContent>;
+  layout: MoodboardLayout | null;
+  shuffleSeed: string | null;
+  locks: BrandLockKey[];
+  /** Fields dropped or coerced while migrating/validating the payload */
+  report: MoodboardReport;
 }
 
 export function generateShareUrl(state: ShareableState): string {
   const shareableState = {
+    version: MOODBOARD_SCHEMA_VERSION,
     brand: state.brand,
     tiles: state.tiles,
-    v: 1, // version for future compatibility
+    tileSurfaces: state.tileSurfaces,
+    placementContent: state.placementContent,
+    layout: state.layout,
+    shuffleSeed: state.shuffleSeed,
+    locks: state.locks,
   };
 
   const json = JSON.stringify(shareableState);
@@ -23,6 +58,44 @@ export function generateShareUrl(state: ShareableState): string {
   return url.toString();
 }
 
+/**
+ * Decode a share-link hash produced by `generateShareUrl`.
+ *
+ * The payload goes through the moodboard schema (`parseMoodboard`), so
+ * links created by older versions are migrated and malformed fields are
+ * dropped rather than trusted. Returns null when the hash is empty,
+ * corrupt, has no brand, or carries no usable tiles.
+ *
+ * @param hash - `window.location.hash` (with or without the leading `#`)
+ */
+export function decodeShareHash(hash: string): SharedBoard | null {
+  const encoded = hash.replace(/^#/, '');
+  if (!encoded) return null;
+
+  let payload: unknown;
+  try {
+    const json = LZString.decompressFromEncodedURIComponent(encoded);
+    if (!json) return null;
+    payload = JSON.parse(json);
+  } catch {
+    return null;
+  }
+
+  const { document, report } = parseMoodboard(payload);
+  if (!document || document.tiles.length === 0) return null;
+
+  return {
+    brand: document.brand,
+    tiles: document.tiles,
+    tileSurfaces: document.tileSurfaces,
+    placementContent: document.placementContent,
+    layout: document.layout,
+    shuffleSeed: document.shuffleSeed ?? null,
+    locks: document.locks ?? [],
+    report,
+  };
+}
+
 export async function copyToClipboard(text: string): Promise<boolean> {
   try {
     await navigator.clipboard.writeText(text);
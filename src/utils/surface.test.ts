@@ -76,4 +76,26 @@ describe('resolveSurfaceColor', () => {
       })
     ).toBe('#F5F5F5');
   });
+
+  it('resolves ramp step references against the brand colors', () => {
+    const colors = { primary: '#1D4ED8', accent: '#F59E0B', text: '#111111', bg, surfaces };
+    const stepColor = resolveSurfaceColor({
+      placementId: 'tile-1',
+      tileSurfaceIndex: 'primary.100',
+      surfaces,
+      bg,
+      defaultIndex: 0,
+      colors,
+    });
+    expect(stepColor).toMatch(/^#[0-9A-F]{6}$/);
+    expect(stepColor).not.toBe(colors.primary);
+
+    // Without colors (or for a missing surface) the default surface is used
+    expect(
+      resolveSurfaceColor({ placementId: 'tile-1', tileSurfaceIndex: 'primary.100', surfaces, bg, defaultIndex: 1 })
+    ).toBe('#E0E0E0');
+    expect(
+      resolveSurfaceColor({ placementId: 'tile-1', tileSurfaceIndex: 'surface-9.100', surfaces, bg, defaultIndex: 1, colors })
+    ).toBe('#E0E0E0');
+  });
 });
@@ -1,17 +1,26 @@
+import { isRampStepRef, resolveRampStep, type RampColors, type SurfaceRef } from './colorRamps';
+
 export const resolveSurfaceColor = ({
   placementId,
   tileSurfaceIndex,
   surfaces,
   bg,
   defaultIndex,
+  colors,
 }: {
   placementId?: string;
-  tileSurfaceIndex?: number;
+  tileSurfaceIndex?: SurfaceRef;
   surfaces?: string[];
   bg: string;
   defaultIndex: number;
+  /** Brand colors, needed to resolve ramp step references */
+  colors?: RampColors;
 }): string => {
+  if (placementId && isRampStepRef(tileSurfaceIndex)) {
+    const stepColor = colors ? resolveRampStep(tileSurfaceIndex, colors) : null;
+    if (stepColor) return stepColor;
+  }
   const surfaceIndex =
-    placementId && tileSurfaceIndex !== undefined ? tileSurfaceIndex : defaultIndex;
+    placementId && typeof tileSurfaceIndex === 'number' ? tileSurfaceIndex : defaultIndex;
   return surfaces?.[surfaceIndex ?? defaultIndex] || bg;
 };
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { buildTailwindTheme, exportAsTailwindPreset, exportTailwindFontsCSS } from './tailwindExport';
+import { DEFAULT_BRAND } from '../data/brandPresets';
+import { buildFontStack, getTypeScale } from './typography';
+import type { Brand } from '../store/useBrandStore';
+
+const brand: Brand = {
+  ...DEFAULT_BRAND,
+  typography: {
+    ...DEFAULT_BRAND.typography,
+    primary: 'Playfair Display',
+    secondary: 'Inter',
+    ui: 'Satoshi',
+    weightHeadline: '700',
+    weightBody: '400',
+    trackingHeadline: -0.02,
+    lineHeightHeadline: 1.05,
+  },
+  ui: { ...DEFAULT_BRAND.ui, buttonRadius: 12, buttonWeight: 700 },
+};
+
+describe('buildTailwindTheme', () => {
+  const theme = buildTailwindTheme(brand);
+
+  it('maps color roles and surfaces under `brand`', () => {
+    expect(theme.colors.brand.primary).toBe(brand.colors.primary);
+    expect(theme.colors.brand['surface-1']).toBe(brand.colors.surfaces[0]);
+    expect(Object.keys(theme.colors.brand)).toHaveLength(5 + brand.colors.surfaces.length);
+  });
+
+  it('uses buildFontStack for font families', () => {
+    expect(theme.fontFamily.headline).toEqual([buildFontStack('Playfair Display')]);
+    expect(theme.fontFamily.ui).toEqual([buildFontStack('Satoshi')]);
+  });
+
+  it('derives the fontSize scale from getTypeScale with per-role leading', () => {
+    const scale = getTypeScale(brand.typography);
+    const [size, { lineHeight }] = theme.fontSize['step-3'];
+    expect(parseFloat(size) * 16).toBeCloseTo(scale.step3, 2);
+    expect(lineHeight).toBe('1.05');
+    expect(theme.fontSize['step-0'][1].lineHeight).toBe(String(brand.typography.lineHeightBody));
+    expect(theme.letterSpacing.headline).toBe(theme.fontSize['step-1'][1].letterSpacing);
+  });
+
+  it('takes the button radius from UI settings', () => {
+    expect(theme.borderRadius.button).toBe('12px');
+  });
+});
+
+describe('exportAsTailwindPreset', () => {
+  it('emits an ES module preset', () => {
+    const preset = exportAsTailwindPreset(brand);
+    expect(preset).toMatch(/^\/\*\* @type \{import\('tailwindcss'\)\.Config\} \*\//);
+    expect(preset).toContain('export default {');
+    expect(preset).toContain('"button": "12px"');
+  });
+});
+
+describe('exportTailwindFontsCSS', () => {
+  it('imports each family once from its source', () => {
+    const css = exportTailwindFontsCSS(brand);
+    const imports = css.split('\n').filter((line) => line.startsWith('@import'));
+
+    expect(imports).toHaveLength(3);
+    expect(css).toContain('https://fonts.googleapis.com/css2?family=Playfair+Display:wght@700');
+    expect(css).toContain('https://api.fontshare.com/v2/css?f[]=satoshi@400,700');
+  });
+});
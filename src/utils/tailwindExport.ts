@@ -0,0 +1,166 @@
+/**
+ * Tailwind Preset Export
+ *
+ * Turns the brand into a Tailwind `theme.extend` preset plus a companion CSS
+ * file that loads the brand fonts, so a project can adopt the brand with:
+ *
+ * ```js
+ * // tailwind.config.js
+ * import brand from './brand.preset.js';
+ * export default { presets: [brand], content: [...] };
+ * ```
+ *
+ * ```css
+ * @import './brand-fonts.css';
+ * ```
+ *
+ * @module utils/tailwindExport
+ */
+import type { Brand } from '@/store/useBrandStore';
+import { GOOGLE_FONTS_MAP } from '@/data/googleFontsMetadata';
+import { buildFontURL } from '@/services/googleFonts';
+import {
+  buildFontStack,
+  getBodyLineHeight,
+  getBodyTracking,
+  getHeadlineLineHeight,
+  getHeadlineTracking,
+  getTypeScale,
+} from '@/utils/typography';
+
+/** Tailwind fontSize entry: `[size, { lineHeight, letterSpacing }]`. */
+type FontSizeEntry = [string, { lineHeight: string; letterSpacing: string }];
+
+export interface TailwindThemeExtension {
+  colors: { brand: Record<string, string> };
+  fontFamily: Record<'headline' | 'body' | 'ui', string[]>;
+  fontSize: Record<string, FontSizeEntry>;
+  letterSpacing: Record<'headline' | 'body', string>;
+  lineHeight: Record<'headline' | 'body', string>;
+  borderRadius: Record<'button', string>;
+}
+
+/** px → rem string against the 16px browser default. */
+const rem = (px: number): string => `${Math.round((px / 16) * 10000) / 10000}rem`;
+
+/**
+ * Build the `theme.extend` object for the brand.
+ *
+ * Colors live under `brand` (`bg-brand-primary`, `text-brand-text`,
+ * `bg-brand-surface-2`); type-scale steps follow the canvas scale, with
+ * headline tracking/leading on steps 1–3 and body settings below.
+ */
+export const buildTailwindTheme = (brand: Brand): TailwindThemeExtension => {
+  const { colors, typography, ui } = brand;
+  const scale = getTypeScale(typography);
+
+  const headline = {
+    lineHeight: String(getHeadlineLineHeight(typography)),
+    letterSpacing: getHeadlineTracking(typography),
+  };
+  const body = {
+    lineHeight: String(getBodyLineHeight(typography)),
+    letterSpacing: getBodyTracking(typography),
+  };
+
+  const surfaceColors = Object.fromEntries(
+    (colors.surfaces ?? []).map((hex, i) => [`surface-${i + 1}`, hex])
+  );
+
+  return {
+    colors: {
+      brand: {
+        bg: colors.bg,
+        text: colors.text,
+        primary: colors.primary,
+        accent: colors.accent,
+        surface: colors.surface,
+        ...surfaceColors,
+      },
+    },
+    fontFamily: {
+      headline: [buildFontStack(typography.primary)],
+      body: [buildFontStack(typography.secondary)],
+      ui: [buildFontStack(typography.ui)],
+    },
+    fontSize: {
+      'step--2': [rem(scale.stepMinus2), body],
+      'step--1': [rem(scale.stepMinus1), body],
+      'step-0': [rem(scale.base), body],
+      'step-1': [rem(scale.step1), headline],
+      'step-2': [rem(scale.step2), headline],
+      'step-3': [rem(scale.step3), headline],
+    },
+    letterSpacing: {
+      headline: headline.letterSpacing,
+      body: body.letterSpacing,
+    },
+    lineHeight: {
+      headline: headline.lineHeight,
+      body: body.lineHeight,
+    },
+    borderRadius: {
+      button: `${ui.buttonRadius}px`,
+    },
+  };
+};
+
+/**
+ * Export the Tailwind preset as an ES module (`brand.preset.js`).
+ *
+ * @param brand - Brand configuration (null returns an empty preset)
+ */
+export const exportAsTailwindPreset = (brand: Brand | null): string => {
+  const extend = brand ? buildTailwindTheme(brand) : {};
+  return `/** @type {import('tailwindcss').Config} */
+export default {
+  theme: {
+    extend: ${JSON.stringify(extend, null, 2).replace(/\n/g, '\n    ')},
+  },
+};
+`;
+};
+
+/** Weights each family is used at on the canvas, keyed by family. */
+const collectFontWeights = (brand: Brand): Map<string, Set<string>> => {
+  const { typography, ui, logo } = brand;
+  const usage: [string | null | undefined, (string | number | null | undefined)[]][] = [
+    [typography.primary, [typography.weightHeadline]],
+    [typography.secondary, [typography.weightBody, 400]],
+    [typography.ui, [typography.weightBody, ui.buttonWeight]],
+    [logo.fontFamily || typography.primary, [logo.fontWeight ?? typography.weightHeadline]],
+  ];
+
+  const weights = new Map<string, Set<string>>();
+  for (const [family, familyWeights] of usage) {
+    if (!family) continue;
+    const set = weights.get(family) ?? new Set<string>();
+    for (const weight of familyWeights) {
+      if (weight != null && String(weight)) set.add(String(weight));
+    }
+    weights.set(family, set);
+  }
+  return weights;
+};
+
+/**
+ * Companion CSS (`brand-fonts.css`) with one `@import` per brand font,
+ * using the same Google Fonts / Fontshare URLs the canvas loads.
+ *
+ * @param brand - Brand configuration (null returns an empty file)
+ */
+export const exportTailwindFontsCSS = (brand: Brand | null): string => {
+  if (!brand) return '/* No brand data */\n';
+
+  const imports = [...collectFontWeights(brand)].map(([family, weights]) => {
+    const meta = GOOGLE_FONTS_MAP.get(family);
+    // Only request weights the family ships; fall back to all requested
+    const available = meta ? [...weights].filter((w) => meta.variants.includes(w)) : [...weights];
+    const url = buildFontURL(family, available.length > 0 ? available : [...weights], 'swap', meta?.source ?? 'google');
+    return `@import url('${url}');`;
+  });
+
+  return `/* Brand fonts — import before your Tailwind layers */
+${imports.join('\n')}
+`;
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildVisionReport,
+  getVisionFilterMatrix,
+  getVisionRolePairs,
+  simulateColor,
+} from './visionSimulation';
+import { DEFAULT_BRAND } from '../data/brandPresets';
+import type { Colors } from '../store/useBrandStore';
+
+const colors: Colors = {
+  ...DEFAULT_BRAND.colors,
+  bg: '#FFFFFF',
+  text: '#111111',
+  primary: '#1D4ED8',
+  accent: '#F59E0B',
+  surface: '#F3F4F6',
+  surfaces: ['#F3F4F6'],
+  columnOverrides: undefined,
+};
+
+describe('simulateColor', () => {
+  it('leaves neutrals alone under dichromacy', () => {
+    expect(simulateColor('#FFFFFF', 'protanopia')).toBe('#FFFFFF');
+    expect(simulateColor('#000000', 'deuteranopia')).toBe('#000000');
+  });
+
+  it('reduces color to gray for achromatopsia', () => {
+    const gray = simulateColor('#1D4ED8', 'achromatopsia');
+    expect(gray.slice(1, 3)).toBe(gray.slice(3, 5));
+    expect(gray.slice(3, 5)).toBe(gray.slice(5, 7));
+  });
+
+  it('pulls black and white toward gray for low contrast', () => {
+    expect(simulateColor('#000000', 'low-contrast')).not.toBe('#000000');
+    expect(simulateColor('#FFFFFF', 'low-contrast')).not.toBe('#FFFFFF');
+  });
+
+  it('builds 4×5 filter matrices', () => {
+    expect(getVisionFilterMatrix('tritanopia').split(' ')).toHaveLength(20);
+  });
+});
+
+describe('buildVisionReport', () => {
+  it('checks primary/bg, accent/surface and every column CTA pair', () => {
+    expect(getVisionRolePairs(colors).map((p) => p.label)).toEqual([
+      'Primary / Background',
+      'Accent / Surface',
+      'Primary CTA / CTA text',
+      'Surface CTA / CTA text',
+      'Accent CTA / CTA text',
+    ]);
+  });
+
+  it('passes a clear blue-on-white palette', () => {
+    expect(buildVisionReport(colors).filter((r) => r.label === 'Primary / Background')).toEqual([]);
+  });
+
+  it('flags red/green pairs under deuteranopia', () => {
+    const report = buildVisionReport({ ...colors, accent: '#D32F2F', surface: '#388E3C' });
+    const modes = report.filter((r) => r.label === 'Accent / Surface').map((r) => r.mode);
+    expect(modes).toContain('deuteranopia');
+    expect(modes).not.toContain('tritanopia');
+  });
+});
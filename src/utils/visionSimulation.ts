@@ -0,0 +1,173 @@
+/**
+ * Vision Simulation
+ *
+ * Color vision deficiency and low-vision simulation for the canvas, plus a
+ * palette report of role pairs that stop being distinguishable.
+ *
+ * The canvas applies each mode as an SVG `feColorMatrix` over the grid
+ * container. Dichromacy matrices are Machado et al. (2009) at full
+ * severity; achromatopsia keeps only relative luminance; low contrast
+ * sensitivity pulls every channel toward mid gray. All matrices work on
+ * linear-light RGB, so the filters set `color-interpolation-filters` to
+ * `linearRGB` and `simulateColor` converts the same way.
+ *
+ * @module utils/visionSimulation
+ */
+import type { Colors } from '../store/useBrandStore';
+import { deriveColumnRoles } from './colorMapping';
+import { getOklabDistance, hexToLinearRgb, linearRgbToHex } from './oklch';
+
+export type VisionMode =
+  | 'none'
+  | 'protanopia'
+  | 'deuteranopia'
+  | 'tritanopia'
+  | 'achromatopsia'
+  | 'low-contrast';
+
+export type SimulatedVisionMode = Exclude<VisionMode, 'none'>;
+
+export const VISION_MODES: { key: VisionMode; label: string; description: string }[] = [
+  { key: 'none', label: 'Normal vision', description: 'No simulation' },
+  { key: 'protanopia', label: 'Protanopia', description: 'No red cones' },
+  { key: 'deuteranopia', label: 'Deuteranopia', description: 'No green cones' },
+  { key: 'tritanopia', label: 'Tritanopia', description: 'No blue cones' },
+  { key: 'achromatopsia', label: 'Achromatopsia', description: 'No color vision' },
+  { key: 'low-contrast', label: 'Low contrast', description: 'Reduced contrast sensitivity' },
+];
+
+export const SIMULATED_VISION_MODES = VISION_MODES
+  .map((m) => m.key)
+  .filter((key): key is SimulatedVisionMode => key !== 'none');
+
+/** Low contrast sensitivity: `c * LOW_CONTRAST_SCALE + LOW_CONTRAST_OFFSET` */
+const LOW_CONTRAST_SCALE = 0.5;
+const LOW_CONTRAST_OFFSET = 0.1;
+
+/** 3×3 linear RGB matrices, row-major. */
+const RGB_MATRICES: Record<SimulatedVisionMode, number[]> = {
+  protanopia: [
+    0.152286, 1.052583, -0.204868,
+    0.114503, 0.786281, 0.099216,
+    -0.003882, -0.048116, 1.051998,
+  ],
+  deuteranopia: [
+    0.367322, 0.860646, -0.227968,
+    0.280085, 0.672501, 0.047413,
+    -0.01182, 0.04294, 0.968881,
+  ],
+  tritanopia: [
+    1.255528, -0.076749, -0.178779,
+    -0.078411, 0.930809, 0.147602,
+    0.004733, 0.691367, 0.3039,
+  ],
+  achromatopsia: [
+    0.2126, 0.7152, 0.0722,
+    0.2126, 0.7152, 0.0722,
+    0.2126, 0.7152, 0.0722,
+  ],
+  'low-contrast': [
+    LOW_CONTRAST_SCALE, 0, 0,
+    0, LOW_CONTRAST_SCALE, 0,
+    0, 0, LOW_CONTRAST_SCALE,
+  ],
+};
+
+const OFFSETS: Partial<Record<SimulatedVisionMode, number>> = {
+  'low-contrast': LOW_CONTRAST_OFFSET,
+};
+
+/** `values` for an SVG `feColorMatrix type="matrix"` (4×5, row-major). */
+export const getVisionFilterMatrix = (mode: SimulatedVisionMode): string => {
+  const m = RGB_MATRICES[mode];
+  const offset = OFFSETS[mode] ?? 0;
+  return [
+    m[0], m[1], m[2], 0, offset,
+    m[3], m[4], m[5], 0, offset,
+    m[6], m[7], m[8], 0, offset,
+    0, 0, 0, 1, 0,
+  ].join(' ');
+};
+
+/** DOM id of the SVG filter for a mode. */
+export const getVisionFilterId = (mode: SimulatedVisionMode): string => `vision-filter-${mode}`;
+
+/** How a color looks under a vision mode. */
+export const simulateColor = (hex: string, mode: VisionMode): string => {
+  if (mode === 'none') return hex.toUpperCase();
+  const [r, g, b] = hexToLinearRgb(hex);
+  const m = RGB_MATRICES[mode];
+  const offset = OFFSETS[mode] ?? 0;
+  return linearRgbToHex([
+    m[0] * r + m[1] * g + m[2] * b + offset,
+    m[3] * r + m[4] * g + m[5] * b + offset,
+    m[6] * r + m[7] * g + m[8] * b + offset,
+  ]);
+};
+
+// ============================================
+// PALETTE REPORT
+// ============================================
+
+/**
+ * Below this ΔE OK two roles read as the same color. Roughly three
+ * just-noticeable differences — enough margin for a pair that must be
+ * told apart at a glance, not side by side.
+ */
+export const INDISTINGUISHABLE_DISTANCE = 0.06;
+
+export interface VisionRolePair {
+  /** Display label, e.g. "Primary / Background" */
+  label: string;
+  a: string;
+  b: string;
+}
+
+export interface VisionPairResult extends VisionRolePair {
+  mode: SimulatedVisionMode;
+  /** Both colors as seen under the mode */
+  simulatedA: string;
+  simulatedB: string;
+  /** ΔE OK between the simulated colors */
+  distance: number;
+}
+
+/**
+ * Role pairs that must stay distinguishable: primary on bg, accent on
+ * surface, and each column's CTA against its CTA label.
+ */
+export const getVisionRolePairs = (colors: Colors): VisionRolePair[] => {
+  const overrides = colors.columnOverrides;
+  const columns = {
+    Primary: deriveColumnRoles(colors.primary, colors.bg, overrides?.primary),
+    Surface: deriveColumnRoles(colors.surface, colors.primary, overrides?.surface),
+    Accent: deriveColumnRoles(colors.accent, colors.bg, overrides?.accent),
+  };
+  return [
+    { label: 'Primary / Background', a: colors.primary, b: colors.bg },
+    { label: 'Accent / Surface', a: colors.accent, b: colors.surface },
+    ...Object.entries(columns).map(([name, roles]) => ({
+      label: `${name} CTA / CTA text`,
+      a: roles.cta,
+      b: roles.textCta,
+    })),
+  ];
+};
+
+/**
+ * Role pairs that collapse under each simulated mode, i.e. whose
+ * simulated colors are closer than `INDISTINGUISHABLE_DISTANCE`.
+ * Pairs that are already indistinguishable with normal vision are
+ * left out — that is a palette problem, not a vision one.
+ */
+export const buildVisionReport = (colors: Colors): VisionPairResult[] =>
+  getVisionRolePairs(colors)
+    .filter((pair) => getOklabDistance(pair.a, pair.b) >= INDISTINGUISHABLE_DISTANCE)
+    .flatMap((pair) =>
+      SIMULATED_VISION_MODES.map((mode) => {
+        const simulatedA = simulateColor(pair.a, mode);
+        const simulatedB = simulateColor(pair.b, mode);
+        return { ...pair, mode, simulatedA, simulatedB, distance: getOklabDistance(simulatedA, simulatedB) };
+      })
+    )
+    .filter((result) => result.distance < INDISTINGUISHABLE_DISTANCE);
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { createZip, crc32, readZip } from './zip';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe('crc32', () => {
+  it('matches the IEEE reference value', () => {
+    expect(crc32(bytes('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('createZip', () => {
+  const zip = createZip(
+    [
+      { name: 'hero-hero.png', data: bytes('first') },
+      { name: 'a-logo.png', data: bytes('second!') },
+    ],
+    new Date(2024, 0, 2, 3, 4, 6)
+  );
+  const view = new DataView(zip.buffer);
+
+  it('writes local headers followed by the stored data', () => {
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(14, true)).toBe(crc32(bytes('first')));
+    const nameLength = view.getUint16(26, true);
+    const name = new TextDecoder().decode(zip.slice(30, 30 + nameLength));
+    expect(name).toBe('hero-hero.png');
+    expect(new TextDecoder().decode(zip.slice(30 + nameLength, 35 + nameLength))).toBe('first');
+  });
+
+  it('ends with a central directory listing every entry', () => {
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+    expect(centralOffset + view.getUint32(end + 12, true)).toBe(end);
+  });
+});
+
+describe('readZip', () => {
+  it('reads back stored entries', async () => {
+    const zip = createZip([
+      { name: 'Swatches.json', data: bytes('[1]') },
+      { name: 'notes.txt', data: bytes('hi') },
+    ]);
+    const entries = await readZip(zip);
+    expect(entries.map((e) => e.name)).toEqual(['Swatches.json', 'notes.txt']);
+    expect(new TextDecoder().decode(entries[0].data)).toBe('[1]');
+  });
+
+  it('inflates deflated entries', async () => {
+    const text = 'deflate me '.repeat(20);
+    const deflated = new Response(bytes(text)).body!.pipeThrough(new CompressionStream('deflate-raw'));
+    const compressed = new Uint8Array(await new Response(deflated).arrayBuffer());
+    // Patch a stored archive into a deflated one: method 8 and compressed sizes
+    const zip = createZip([{ name: 'a.txt', data: compressed }]);
+    const view = new DataView(zip.buffer);
+    view.setUint16(8, 8, true);
+    const central = view.getUint32(zip.length - 22 + 16, true);
+    view.setUint16(central + 10, 8, true);
+
+    const [entry] = await readZip(zip);
+    expect(new TextDecoder().decode(entry.data)).toBe(text);
+  });
+
+  it('rejects data that is not a ZIP archive', async () => {
+    await expect(readZip(bytes('nope'))).rejects.toThrow('Not a ZIP archive');
+  });
+});